@@ -2,6 +2,8 @@ import XLSX from 'xlsx';
 import { AppError } from '../middleware/error.middleware.js';
 import Analysis from '../models/analysis.model.js';
 import File from '../models/file.model.js';
+import { readFileSheet } from '../utils/sheetReader.js';
+import { applyCalculatedColumns, FormulaError, normalizeCalculatedColumns } from '../utils/formula.js';
 import {
     generateChart as generateChartData,
     calculateCorrelation as correlationCalculator,
@@ -10,10 +12,29 @@ import {
     generateInsights as insightsGenerator
 } from '../utils/analysisUtils.js';
 
+// The file's selected sheet with the analysis's calculated columns added
+const readAnalysisData = async (analysis, file) => {
+    const data = await readFileSheet(file);
+    try {
+        return applyCalculatedColumns(data, analysis.calculatedColumns, file.locale);
+    } catch (error) {
+        if (error instanceof FormulaError) {
+            throw new AppError(`A calculated column no longer fits the file: ${error.message}`, 400);
+        }
+        throw error;
+    }
+};
+
 export const createAnalysis = async (req, res, next) => {
     try {
+        const { calculatedColumns, error } = normalizeCalculatedColumns(req.body.calculatedColumns);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+
         const analysis = await Analysis.create({
             ...req.body,
+            calculatedColumns,
             createdBy: req.user.id
         });
 
@@ -38,14 +59,11 @@ export const generateChart = async (req, res, next) => {
             return next(new AppError('Associated file not found', 404));
         }
 
-        // Read file data
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet);
+        // Read the file's selected sheet, with calculated columns
+        const data = await readAnalysisData(analysis, file);
 
         // Generate chart data
-        const chartData = await generateChartData(data, analysis.chartConfig);
+        const chartData = await generateChartData(data, analysis.chartConfig, file.locale);
 
         // Update analysis with chart data
         analysis.results.data = chartData;
@@ -89,14 +107,11 @@ export const calculateCorrelation = async (req, res, next) => {
             return next(new AppError('Associated file not found', 404));
         }
 
-        // Read file data
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet);
+        // Read the file's selected sheet, with calculated columns
+        const data = await readAnalysisData(analysis, file);
 
         // Calculate correlation
-        const correlationResults = await correlationCalculator(data, req.body.columns);
+        const correlationResults = await correlationCalculator(data, req.body.columns, file.locale);
 
         // Update analysis with correlation results
         analysis.results.data = correlationResults;
@@ -124,18 +139,19 @@ export const performRegression = async (req, res, next) => {
             return next(new AppError('Associated file not found', 404));
         }
 
-        // Read file data
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet);
+        // Read the file's selected sheet, with calculated columns
+        const data = await readAnalysisData(analysis, file);
 
         // Perform regression analysis
         const regressionResults = await regressionAnalyzer(
             data,
             req.body.dependentVariable,
-            req.body.independentVariables
+            req.body.independentVariables,
+            file.locale
         );
+        if (!regressionResults) {
+            return next(new AppError('Not enough numeric rows to fit a regression on these columns', 400));
+        }
 
         // Update analysis with regression results
         analysis.results.data = regressionResults;
@@ -163,14 +179,11 @@ export const calculateDescriptiveStats = async (req, res, next) => {
             return next(new AppError('Associated file not found', 404));
         }
 
-        // Read file data
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet);
+        // Read the file's selected sheet, with calculated columns
+        const data = await readAnalysisData(analysis, file);
 
         // Calculate descriptive statistics
-        const statsResults = await statsCalculator(data, req.body.columns);
+        const statsResults = await statsCalculator(data, req.body.columns, file.locale);
 
         // Update analysis with statistics results
         analysis.results.data = statsResults;
@@ -214,14 +227,11 @@ export const generateInsights = async (req, res, next) => {
             return next(new AppError('Associated file not found', 404));
         }
 
-        // Read file data
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet);
+        // Read the file's selected sheet, with calculated columns
+        const data = await readAnalysisData(analysis, file);
 
         // Generate insights using traditional methods only
-        const insights = await insightsGenerator(data, analysis.results.data);
+        const insights = await insightsGenerator(data, analysis.results.data, file.columns);
 
         // Update analysis with insights
         analysis.results.insights = insights;
@@ -424,7 +434,16 @@ export const getAnalysis = async (req, res, next) => {
 
 export const updateAnalysis = async (req, res, next) => {
     try {
-        const analysis = await Analysis.findByIdAndUpdate(req.params.id, req.body, {
+        const updates = { ...req.body };
+        if ('calculatedColumns' in updates) {
+            const { calculatedColumns, error } = normalizeCalculatedColumns(updates.calculatedColumns);
+            if (error) {
+                return next(new AppError(error, 400));
+            }
+            updates.calculatedColumns = calculatedColumns;
+        }
+
+        const analysis = await Analysis.findByIdAndUpdate(req.params.id, updates, {
             new: true,
             runValidators: true
         });
@@ -2,26 +2,27 @@ import multer from 'multer';
 import XLSX from 'xlsx';
 import { AppError } from '../middleware/error.middleware.js';
 import File from '../models/file.model.js';
+import Pipeline from '../models/pipeline.model.js';
+import SavedView from '../models/savedView.model.js';
 import { analyzeFileData, calculateStatistics } from '../utils/fileAnalysis.js';
 import { cleanupOldFiles } from '../utils/fileCleanup.js';
-import { storage } from '../utils/cloudinaryConfig.js';
-import axios from 'axios';
+import { storage, uploadBuffer } from '../utils/cloudinaryConfig.js';
+import { readFileSheet } from '../utils/sheetReader.js';
+import { detectImportFormat } from '../utils/importFormats.js';
+import { normalizeLocaleSettings } from '../utils/localeParsing.js';
+import { parseTableRegion } from '../utils/tableDetection.js';
+import { getTypeOverrides, normalizeSchemaEntries, toDataDictionary, withDataDictionary } from '../utils/columnSchema.js';
+import { combineDatasets, CombineError, normalizeCombineOptions } from '../utils/combine.js';
 
 // Configure multer for file upload
 const upload = multer({
     storage,
+    limits: { fileSize: 50 * 1024 * 1024 }, // 50MB, matches the client-side limit
     fileFilter: (req, file, cb) => {
-        const allowedMimes = [
-            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-            'application/vnd.ms-excel', // .xls
-            'text/csv', // .csv
-            'application/csv', // .csv (sometimes)
-            'text/plain' // .csv (sometimes)
-        ];
-        if (allowedMimes.includes(file.mimetype)) {
+        if (detectImportFormat(file.originalname, file.mimetype)) {
             cb(null, true);
         } else {
-            cb(new Error('Only .xlsx, .xls, and .csv files are allowed'), false);
+            cb(new Error('Only .xlsx, .xls, .ods, .csv, .tsv and .json files are allowed'), false);
         }
     }
 });
@@ -33,22 +34,66 @@ export const uploadFile = [
             if (!req.file) {
                 return res.status(400).json({ status: 'fail', message: 'No file uploaded' });
             }
-            // Save file metadata and Cloudinary URL to MongoDB
-            const fileDoc = await File.create({
+            const sheetNames = parseSheetNames(req.body.sheetNames);
+            const regions = parseRegions(req.body.regions);
+
+            // Save file metadata and Cloudinary URL to MongoDB. Every selected
+            // sheet becomes its own dataset sharing the same uploaded file.
+            const baseDoc = {
                 filename: req.file.originalname,
                 fileUrl: req.file.path, // Cloudinary URL
                 uploadedBy: req.user._id,
                 mimeType: req.file.mimetype,
                 size: req.file.size,
-                // Add other fields as needed
-            });
-            res.status(201).json({ status: 'success', data: { file: fileDoc } });
+                sheetNames,
+                locale: parseLocale(req.body.locale)
+            };
+            const files = sheetNames.length > 0
+                ? await File.create(sheetNames.map(sheetName => ({ ...baseDoc, sheetName, region: regions[sheetName] })))
+                : [await File.create(baseDoc)];
+
+            res.status(201).json({ status: 'success', data: { file: files[0], files } });
         } catch (error) {
             next(error);
         }
     }
 ];
 
+// Sheet names arrive as a JSON array string in the multipart form body
+const parseSheetNames = (value) => {
+    if (!value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter(name => typeof name === 'string' && name) : [];
+    } catch (error) {
+        return [];
+    }
+};
+
+// Table regions arrive as a JSON object string keyed by sheet name
+const parseRegions = (value) => {
+    if (!value) return {};
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+        return Object.fromEntries(Object.entries(parsed)
+            .map(([sheetName, region]) => [sheetName, parseTableRegion(region)])
+            .filter(([, region]) => region));
+    } catch (error) {
+        return {};
+    }
+};
+
+// Locale settings arrive as a JSON object string in the multipart form body
+const parseLocale = (value) => {
+    if (!value) return normalizeLocaleSettings();
+    try {
+        return normalizeLocaleSettings(JSON.parse(value));
+    } catch (error) {
+        return normalizeLocaleSettings();
+    }
+};
+
 export const processFile = async (req, res, next) => {
     try {
         const file = await File.findById(req.params.id);
@@ -60,22 +105,9 @@ export const processFile = async (req, res, next) => {
         file.processingStatus = 'processing';
         await file.save();
 
-        // Read and process Excel file
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-        // Analyze file data
-        const analysis = await analyzeFileData(data);
-        
-        // Update file with analysis results
-        file.columns = analysis.columns;
-        file.rowCount = analysis.rowCount;
-        file.columnCount = analysis.columnCount;
-        file.dataQualityScore = analysis.qualityScore;
-        file.processingStatus = 'completed';
-        file.lastAnalyzed = new Date();
+        // Read and process the selected sheet, keeping the data dictionary
+        const data = await readFileSheet(file, { header: 1, dictionary: false });
+        await analyzeWithDictionary(file, data, toDataDictionary(file.columns));
         await file.save();
 
         res.status(200).json({
@@ -94,6 +126,175 @@ export const processFile = async (req, res, next) => {
     }
 };
 
+// Re-analyses the raw sheet with the dictionary's type overrides and stores
+// the results on the file document (not saved)
+const analyzeWithDictionary = async (file, data, dictionary) => {
+    const analysis = await analyzeFileData(data, file.locale, getTypeOverrides(dictionary));
+    file.columns = withDataDictionary(analysis.columns, dictionary);
+    file.rowCount = analysis.rowCount;
+    file.columnCount = analysis.columnCount;
+    file.dataQualityScore = analysis.qualityScore;
+    file.processingStatus = 'completed';
+    file.lastAnalyzed = new Date();
+};
+
+// Replaces the file's data dictionary. The body is { columns: [{ name,
+// displayName?, semanticType?, format?, description? }] }, keyed by the
+// column names in the file.
+export const updateFileSchema = async (req, res, next) => {
+    try {
+        const file = await File.findById(req.params.id);
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const data = await readFileSheet(file, { header: 1, dictionary: false });
+        const headers = (data[0] || []).map(String);
+        const { entries, error } = normalizeSchemaEntries(req.body.columns, headers);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+
+        await analyzeWithDictionary(file, data, entries);
+        await file.save();
+
+        res.status(200).json({
+            status: 'success',
+            data: { file }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Rows of the combined dataset returned by the preview endpoint
+const COMBINE_PREVIEW_ROWS = 50;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Reads the user's files picked in a combine request, in the order they were
+// picked, and combines them. Returns { sources, columns, data, diagnostics },
+// or { error } when a file isn't found or the combine can't be done.
+const combineFiles = async (req, options) => {
+    const files = await File.find({ _id: { $in: options.files }, uploadedBy: req.user.id });
+    const byId = new Map(files.map(file => [String(file._id), file]));
+    if (options.files.some(id => !byId.has(id))) {
+        return { error: new AppError('One or more of the picked files were not found', 404) };
+    }
+
+    const sources = [];
+    for (const id of options.files) {
+        const file = byId.get(id);
+        const data = await readFileSheet(file, { defval: '' });
+        sources.push({
+            file,
+            label: file.sheetName ? `${file.filename} — ${file.sheetName}` : file.filename,
+            data,
+            locale: file.locale
+        });
+    }
+
+    try {
+        const { data, diagnostics } = combineDatasets(sources, options);
+        const columns = Object.keys(data[0] || {});
+        return { sources, columns, data, diagnostics };
+    } catch (error) {
+        if (error instanceof CombineError) {
+            return { error: new AppError(error.message, 400) };
+        }
+        throw error;
+    }
+};
+
+// Previews a combine without saving it. The body is { files, mode,
+// sourceColumn?, joins? } (see utils/combine.js); the response lists every
+// source's columns so the client can offer key columns.
+export const previewCombinedFiles = async (req, res, next) => {
+    try {
+        const { options, error } = normalizeCombineOptions(req.body);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+
+        const combined = await combineFiles(req, options);
+        if (combined.error) {
+            return next(combined.error);
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: {
+                sources: combined.sources.map(source => ({
+                    id: source.file._id,
+                    label: source.label,
+                    columns: Object.keys(source.data[0] || {}),
+                    rowCount: source.data.length
+                })),
+                columns: combined.columns,
+                rows: combined.data.slice(0, COMBINE_PREVIEW_ROWS),
+                rowCount: combined.data.length,
+                diagnostics: combined.diagnostics
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Saves a combine as a new workbook and file document, which analyses and
+// charts use like any upload. The body is the preview body plus { filename }.
+export const createCombinedFile = async (req, res, next) => {
+    try {
+        const { options, error } = normalizeCombineOptions(req.body);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+        const name = typeof req.body.filename === 'string' ? req.body.filename.trim() : '';
+        if (!name) {
+            return next(new AppError('Give the combined file a name', 400));
+        }
+
+        const combined = await combineFiles(req, options);
+        if (combined.error) {
+            return next(combined.error);
+        }
+        if (combined.data.length === 0) {
+            return next(new AppError('The combined dataset has no rows', 400));
+        }
+
+        const filename = /\.xlsx$/i.test(name) ? name : `${name}.xlsx`;
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(combined.data, { header: combined.columns }), 'Combined');
+        const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+        const upload = await uploadBuffer(buffer);
+
+        // Text in the first file decides how the combined file's text is read
+        const file = new File({
+            filename,
+            fileUrl: upload.secure_url,
+            uploadedBy: req.user._id,
+            mimeType: XLSX_MIME_TYPE,
+            size: buffer.length,
+            locale: normalizeLocaleSettings(combined.sources[0].locale),
+            derivedFrom: {
+                operation: options.mode,
+                files: options.files,
+                options: options.mode === 'append' ? { sourceColumn: options.sourceColumn } : { joins: options.joins }
+            }
+        });
+        const rows = [combined.columns, ...combined.data.map(row => combined.columns.map(column => row[column]))];
+        await analyzeWithDictionary(file, rows, []);
+        await file.save();
+
+        res.status(201).json({
+            status: 'success',
+            data: { file, diagnostics: combined.diagnostics }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 export const getFilePreview = async (req, res, next) => {
     try {
         const file = await File.findById(req.params.id);
@@ -101,34 +302,16 @@ export const getFilePreview = async (req, res, next) => {
             return res.status(404).json({ status: 'fail', message: 'File not found' });
         }
 
-        // Download the file from Cloudinary
-        const response = await axios.get(file.fileUrl, { responseType: 'arraybuffer' });
-        const buffer = Buffer.from(response.data);
-
-        let headers = [];
-        let rows = [];
-
-        if (
-            file.mimeType === 'text/csv' ||
-            file.mimeType === 'application/csv' ||
-            file.mimeType === 'text/plain'
-        ) {
-            // Parse CSV
-            const csv = buffer.toString('utf-8');
-            const [headerLine, ...dataLines] = csv.split('\n');
-            headers = headerLine.split(',');
-            rows = dataLines.filter(line => line.trim()).map(line => line.split(','));
-        } else {
-            // Parse Excel
-            const workbook = XLSX.read(buffer, { type: 'buffer' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const json = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-            headers = json[0];
-            rows = json.slice(1);
-        }
+        // Download the file from Cloudinary and read the selected sheet;
+        // ?dictionary=false skips the data dictionary so the client can
+        // replay a recorded pipeline on the sheet as uploaded
+        const json = await readFileSheet(file, { header: 1, dictionary: req.query.dictionary !== 'false' });
+        const headers = json[0] || [];
+        const rows = json.slice(1);
 
-        res.status(200).json({ data: { headers, rows } });
+        // The data dictionary comes along so a client reading the sheet as
+        // uploaded can apply it as its column schema
+        res.status(200).json({ data: { headers, rows, sheetName: file.sheetName, schema: toDataDictionary(file.columns) } });
     } catch (error) {
         next(error);
     }
@@ -157,12 +340,9 @@ export const getFileStatistics = async (req, res, next) => {
             return next(new AppError('No file found with that ID', 404));
         }
 
-        const workbook = XLSX.readFile(file.path);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+        const data = await readFileSheet(file, { header: 1 });
 
-        const statistics = await calculateStatistics(data, file.columns);
+        const statistics = await calculateStatistics(data, file.columns, file.locale);
 
         res.status(200).json({
             status: 'success',
@@ -249,6 +429,10 @@ export const deleteFile = async (req, res, next) => {
         if (!file) {
             return next(new AppError('No file found with that ID', 404));
         }
+        await Pipeline.deleteOne({ file: file._id });
+        await SavedView.deleteMany({ file: file._id });
+        // Keeps the rest of its version history together
+        await file.leaveVersionGroup();
 
         res.status(204).json({
             status: 'success',
@@ -0,0 +1,91 @@
+import { AppError } from '../middleware/error.middleware.js';
+import File from '../models/file.model.js';
+import Pipeline from '../models/pipeline.model.js';
+import { normalizePipelineSteps, pipelineMatchesColumns } from '../utils/pipeline.js';
+
+// Saved pipelines offered for replay on a new upload
+const MAX_MATCHES = 5;
+
+export const getFilePipeline = async (req, res, next) => {
+    try {
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const pipeline = await Pipeline.findOne({ file: file._id });
+
+        res.status(200).json({
+            status: 'success',
+            data: { pipeline }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Replaces the file's pipeline. The body is { steps, sourceColumns }, where
+// sourceColumns are the sheet's column names before any step ran.
+export const saveFilePipeline = async (req, res, next) => {
+    try {
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const { steps, error } = normalizePipelineSteps(req.body.steps);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+        const sourceColumns = Array.isArray(req.body.sourceColumns)
+            ? req.body.sourceColumns.filter(column => typeof column === 'string')
+            : [];
+
+        const pipeline = await Pipeline.findOneAndUpdate(
+            { file: file._id },
+            { steps, sourceColumns, createdBy: req.user.id },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        res.status(200).json({
+            status: 'success',
+            data: { pipeline }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Pipelines the user recorded on other files whose columns are all present in
+// this one, newest first. The body is { columns } as read by the client.
+export const findMatchingPipelines = async (req, res, next) => {
+    try {
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+        if (!Array.isArray(req.body.columns)) {
+            return next(new AppError('columns must be an array of column names', 400));
+        }
+
+        const candidates = await Pipeline.find({
+            createdBy: req.user.id,
+            file: { $ne: file._id },
+            'steps.0': { $exists: true }
+        })
+            .sort('-updatedAt')
+            .populate('file', 'filename sheetName createdAt');
+
+        const pipelines = candidates
+            .filter(pipeline => pipeline.file && pipelineMatchesColumns(pipeline, req.body.columns))
+            .slice(0, MAX_MATCHES);
+
+        res.status(200).json({
+            status: 'success',
+            results: pipelines.length,
+            data: { pipelines }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,108 @@
+import { AppError } from '../middleware/error.middleware.js';
+import File from '../models/file.model.js';
+import SavedView from '../models/savedView.model.js';
+import { MAX_VIEWS_PER_FILE, normalizeViewState } from '../utils/savedViews.js';
+
+const findViewByName = (req, name) => SavedView.findOne({
+    user: req.user.id,
+    file: req.params.id,
+    name
+}).collation({ locale: 'en', strength: 2 });
+
+// The user's views of the file, by name
+export const getFileViews = async (req, res, next) => {
+    try {
+        const file = await File.findById(req.params.id);
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const views = await SavedView.find({ user: req.user.id, file: file._id }).sort('name');
+
+        res.status(200).json({
+            status: 'success',
+            results: views.length,
+            data: { views }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// The body is the view: { name, search, searchColumn, filters, sortKeys,
+// hiddenColumns, columnOrder }
+export const createFileView = async (req, res, next) => {
+    try {
+        const file = await File.findById(req.params.id);
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const { view, error } = normalizeViewState(req.body);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+        if (await findViewByName(req, view.name)) {
+            return next(new AppError(`You already have a view named "${view.name}"`, 400));
+        }
+        const count = await SavedView.countDocuments({ user: req.user.id, file: file._id });
+        if (count >= MAX_VIEWS_PER_FILE) {
+            return next(new AppError(`A file can have at most ${MAX_VIEWS_PER_FILE} saved views`, 400));
+        }
+
+        const saved = await SavedView.create({ ...view, file: file._id, user: req.user.id });
+
+        res.status(201).json({
+            status: 'success',
+            data: { view: saved }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Replaces a view's name and state; the body is as for createFileView
+export const updateFileView = async (req, res, next) => {
+    try {
+        const { view, error } = normalizeViewState(req.body);
+        if (error) {
+            return next(new AppError(error, 400));
+        }
+        const existing = await findViewByName(req, view.name);
+        if (existing && String(existing._id) !== req.params.viewId) {
+            return next(new AppError(`You already have a view named "${view.name}"`, 400));
+        }
+
+        const saved = await SavedView.findOneAndUpdate(
+            { _id: req.params.viewId, user: req.user.id, file: req.params.id },
+            view,
+            { new: true, runValidators: true }
+        );
+        if (!saved) {
+            return next(new AppError('No view found with that ID', 404));
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: { view: saved }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const deleteFileView = async (req, res, next) => {
+    try {
+        const view = await SavedView.findOneAndDelete({ _id: req.params.viewId, user: req.user.id, file: req.params.id });
+        if (!view) {
+            return next(new AppError('No view found with that ID', 404));
+        }
+
+        res.status(204).json({
+            status: 'success',
+            data: null
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,168 @@
+import { AppError } from '../middleware/error.middleware.js';
+import File from '../models/file.model.js';
+import { analyzeFileData } from '../utils/fileAnalysis.js';
+import { readFileSheet } from '../utils/sheetReader.js';
+import { getTypeOverrides, toDataDictionary } from '../utils/columnSchema.js';
+import { diffDatasets, DiffError } from '../utils/datasetDiff.js';
+
+// Fields listed for every version of a file
+const VERSION_FIELDS = 'filename sheetName version versionGroup rowCount columnCount createdAt';
+
+const versionsOf = (file) => file.versionGroup
+    ? File.find({ versionGroup: file.versionGroup }).select(VERSION_FIELDS).sort('version')
+    : Promise.resolve([file]);
+
+const versionSummary = (file) => ({
+    id: file._id,
+    filename: file.filename,
+    sheetName: file.sheetName,
+    version: file.version || 1,
+    createdAt: file.createdAt
+});
+
+// Reads a file's sheet by its stored column names (the data dictionary's
+// renames aren't applied, so renaming a column doesn't show as a schema
+// change) and analyses it with the dictionary's type overrides.
+const readVersion = async (file) => {
+    const grid = await readFileSheet(file, { header: 1, dictionary: false, defval: '' });
+    if (grid.length === 0) {
+        return { data: [], columns: [], locale: file.locale };
+    }
+    // readFileSheet already names blank and repeated headers uniquely
+    const [headers, ...rows] = grid;
+    const analysis = await analyzeFileData([headers, ...rows], file.locale, getTypeOverrides(toDataDictionary(file.columns)));
+    return {
+        data: rows.map(row => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? '']))),
+        columns: analysis.columns,
+        locale: file.locale
+    };
+};
+
+export const getFileVersions = async (req, res, next) => {
+    try {
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const versions = await versionsOf(file);
+
+        res.status(200).json({
+            status: 'success',
+            results: versions.length,
+            data: { versions }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Marks the file as the newest version of another of the user's files. The
+// body is { versionOf }, the ID of any version of that file; null takes the
+// file out of its version history.
+export const setFileVersion = async (req, res, next) => {
+    try {
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        const { versionOf } = req.body;
+        if (!versionOf) {
+            await file.leaveVersionGroup();
+            await file.save();
+            return res.status(200).json({ status: 'success', data: { file, versions: [file] } });
+        }
+        if (String(versionOf) === String(file._id)) {
+            return next(new AppError('A file can\'t be a version of itself', 400));
+        }
+
+        const previous = await File.findOne({ _id: versionOf, uploadedBy: req.user.id });
+        if (!previous) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+        const group = previous.versionGroup || previous._id;
+        if (file.versionGroup && String(file.versionGroup) === String(group)) {
+            return next(new AppError('This file is already a version of that file', 400));
+        }
+
+        // The first version starts the history and names it
+        if (!previous.versionGroup) {
+            previous.versionGroup = previous._id;
+            previous.version = 1;
+            await previous.save();
+        }
+        await file.leaveVersionGroup();
+        const latest = await File.findOne({ versionGroup: group }).sort('-version');
+        file.versionGroup = group;
+        file.version = (latest?.version || 1) + 1;
+        await file.save();
+
+        const versions = await versionsOf(file);
+
+        res.status(200).json({
+            status: 'success',
+            data: { file, versions }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Compares the file with an older version: ?base=<file ID> (the version just
+// before it by default) and optional ?keys=<column> (repeated) to match rows
+// on. See utils/datasetDiff.js for the result.
+export const diffFileVersions = async (req, res, next) => {
+    try {
+        // Only the user's own files can be compared
+        const file = await File.findOne({ _id: req.params.id, uploadedBy: req.user.id });
+        if (!file) {
+            return next(new AppError('No file found with that ID', 404));
+        }
+
+        let base = null;
+        if (req.query.base) {
+            base = await File.findOne({ _id: req.query.base, uploadedBy: req.user.id });
+            if (!base) {
+                return next(new AppError('No file found with that ID', 404));
+            }
+        } else if (file.versionGroup) {
+            base = await File.findOne({
+                versionGroup: file.versionGroup,
+                version: { $lt: file.version },
+                uploadedBy: req.user.id
+            }).sort('-version');
+        }
+        if (!base) {
+            return next(new AppError('Pick a version to compare with', 400));
+        }
+        if (String(base._id) === String(file._id)) {
+            return next(new AppError('Pick a different version to compare with', 400));
+        }
+
+        const keys = [].concat(req.query.keys || []).filter(key => typeof key === 'string' && key);
+        const [before, after] = [await readVersion(base), await readVersion(file)];
+
+        let diff;
+        try {
+            diff = diffDatasets(before, after, { keys });
+        } catch (error) {
+            if (error instanceof DiffError) {
+                return next(new AppError(error.message, 400));
+            }
+            throw error;
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: {
+                base: versionSummary(base),
+                current: versionSummary(file),
+                columns: after.columns.map(column => column.name).filter(name => before.columns.some(other => other.name === name)),
+                diff
+            }
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -3,7 +3,12 @@ import mongoose from 'mongoose';
 const chartConfigSchema = new mongoose.Schema({
     type: {
         type: String,
-        enum: ['bar', 'line', 'pie', 'scatter', 'area', '3d-bar', '3d-scatter', '3d-surface'],
+        enum: [
+            'bar', 'line', 'pie', 'scatter', 'area',
+            'histogram', 'box', 'violin', 'heatmap', 'correlation',
+            'waterfall', 'funnel', 'bubble', 'radar', 'treemap', 'sankey',
+            '3d-bar', '3d-scatter', '3d-surface'
+        ],
         required: true
     },
     xAxis: {
@@ -18,11 +23,74 @@ const chartConfigSchema = new mongoose.Schema({
         column: String,
         label: String
     },
+    // Y columns of 2D charts with several series; yAxis holds the first
+    series: [{
+        _id: false,
+        column: String,
+        label: String
+    }],
+    // Category column fanned out into one series per value
+    splitBy: {
+        column: String,
+        label: String
+    },
+    stackMode: {
+        type: String,
+        enum: ['grouped', 'stacked', 'percent'],
+        default: 'grouped'
+    },
     aggregation: {
         type: String,
-        enum: ['sum', 'average', 'count', 'min', 'max'],
+        enum: ['sum', 'average', 'count', 'distinct', 'median', 'min', 'max'],
         default: 'sum'
     },
+    // X grouping the chart was drawn with: date period, numeric bin count, top N categories
+    dateBucket: {
+        type: String,
+        enum: ['none', 'day', 'week', 'month', 'quarter', 'year'],
+        default: 'none'
+    },
+    bins: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+    topN: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+    // Bubble charts: column the bubble areas follow
+    size: {
+        column: String,
+        label: String
+    },
+    // Sankey diagrams: column the flows go to; xAxis is where they come from
+    target: {
+        column: String,
+        label: String
+    },
+    // Treemaps: category columns from the outer level in
+    hierarchy: [{
+        _id: false,
+        column: String,
+        label: String
+    }],
+    // Waterfalls: X values shown as subtotals
+    totals: [String],
+    // Line and scatter charts: trendline drawn over each series
+    trendline: {
+        type: {
+            type: String,
+            enum: ['none', 'linear', 'polynomial', 'exponential', 'moving-average'],
+            default: 'none'
+        },
+        degree: { type: Number, min: 2, max: 4, default: 2 },
+        window: { type: Number, min: 2, default: 3 },
+        confidence: { type: Boolean, default: false },
+        // Periods forecast past the last X value
+        forecast: { type: Number, min: 0, default: 0 }
+    },
     filters: [{
         column: String,
         operator: {
@@ -55,6 +123,12 @@ const analysisSchema = new mongoose.Schema({
         required: true
     },
     chartConfig: chartConfigSchema,
+    // Formula columns added to the file's rows before charting (see utils/formula.js)
+    calculatedColumns: [{
+        _id: false,
+        name: { type: String, required: true },
+        formula: { type: String, required: true }
+    }],
     results: {
         data: mongoose.Schema.Types.Mixed,
         summary: String,
@@ -1,4 +1,8 @@
 import mongoose from 'mongoose';
+import { SEMANTIC_TYPES } from '../utils/columnTypes.js';
+import { DISPLAY_FORMATS } from '../utils/columnSchema.js';
+import { OUTLIER_METHODS } from '../utils/outliers.js';
+import { COMBINE_MODES } from '../utils/combine.js';
 
 const columnSchema = new mongoose.Schema({
     name: String,
@@ -7,6 +11,34 @@ const columnSchema = new mongoose.Schema({
         enum: ['string', 'number', 'date', 'boolean'],
         required: true
     },
+    // Richer type shared with the client (see utils/columnTypes.js); `type`
+    // above is its storage type
+    semanticType: {
+        type: String,
+        enum: Object.keys(SEMANTIC_TYPES)
+    },
+    unit: String, // currency symbol
+    timeZone: String, // UTC offset of datetime values
+    // Data dictionary fields set in the client's schema editor
+    displayName: String,
+    description: String,
+    format: {
+        type: String,
+        enum: DISPLAY_FORMATS
+    },
+    // How outliers are flagged in this column; IQR with k=1.5 when unset
+    outliers: {
+        method: {
+            type: String,
+            enum: Object.keys(OUTLIER_METHODS)
+        },
+        threshold: Number
+    },
+    // semanticType was chosen by the user rather than inferred
+    typeOverridden: {
+        type: Boolean,
+        default: false
+    },
     statistics: {
         min: Number,
         max: Number,
@@ -40,6 +72,64 @@ const fileSchema = new mongoose.Schema({
         ref: 'User',
         required: true
     },
+    // Sheet this dataset was loaded from; preview, analysis and chart
+    // endpoints all read this sheet
+    sheetName: String,
+    sheetNames: [String],
+    // How numbers and dates in text cells are read (see utils/localeParsing.js)
+    locale: {
+        decimalSeparator: {
+            type: String,
+            enum: ['.', ','],
+            default: '.'
+        },
+        thousandsSeparator: {
+            type: String,
+            enum: [',', '.', ' ', "'", ''],
+            default: ','
+        },
+        currencySymbols: [String],
+        dateOrder: {
+            type: String,
+            enum: ['DMY', 'MDY'],
+            default: 'MDY'
+        }
+    },
+    // Where the table sits in the sheet (0-based rows and columns, last ones
+    // inclusive), as detected or adjusted on the client; the server reads the
+    // same region under the same column names (see utils/tableDetection.js).
+    // Unset for files uploaded before regions were stored, which are detected
+    region: {
+        headerRow: Number,
+        headerRowCount: {
+            type: Number,
+            enum: [1, 2]
+        },
+        firstDataRow: Number,
+        lastDataRow: Number,
+        firstColumn: Number,
+        lastColumn: Number
+    },
+    // Set on files built by appending or joining other files
+    derivedFrom: {
+        operation: {
+            type: String,
+            enum: COMBINE_MODES
+        },
+        files: [{
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'File'
+        }],
+        // The combine options (source column or joins) as sent by the client
+        options: mongoose.Schema.Types.Mixed
+    },
+    // Uploads of the same report form a version history; every version
+    // stores the ID of the first one and its number in the history
+    versionGroup: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'File'
+    },
+    version: Number,
     columns: [columnSchema],
     rowCount: Number,
     columnCount: Number,
@@ -66,6 +156,24 @@ const fileSchema = new mongoose.Schema({
 // Indexes for better query performance
 fileSchema.index({ uploadedBy: 1, createdAt: -1 });
 fileSchema.index({ filename: 'text' });
+fileSchema.index({ versionGroup: 1, version: 1 });
+
+// Takes the file out of its version history; the caller saves or deletes it.
+// A history is named after its first version, so when that one leaves, the
+// remaining versions are moved to the oldest of them.
+fileSchema.methods.leaveVersionGroup = async function() {
+    const group = this.versionGroup;
+    if (!group) return;
+    this.versionGroup = undefined;
+    this.version = undefined;
+    if (String(group) !== String(this._id)) return;
+
+    const others = { versionGroup: group, _id: { $ne: this._id } };
+    const next = await this.constructor.findOne(others).sort('version');
+    if (next) {
+        await this.constructor.updateMany(others, { versionGroup: next._id });
+    }
+};
 
 // Virtual populate for analysis results
 fileSchema.virtual('analyses', {
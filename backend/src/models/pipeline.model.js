@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import { PIPELINE_OPERATIONS } from '../utils/pipeline.js';
+
+// One recorded transformation. `operation` is the client's serialized step
+// (see src/utils/pipeline.ts); its `kind` is checked here, the rest is replayed
+// by the client.
+const pipelineStepSchema = new mongoose.Schema({
+    id: {
+        type: String,
+        required: true
+    },
+    label: String,
+    operation: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true,
+        validate: {
+            validator: (operation) => PIPELINE_OPERATIONS.includes(operation && operation.kind),
+            message: 'Unknown pipeline operation'
+        }
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+// The ordered steps that turn a file's raw sheet into the data the user works
+// with. One pipeline per file; saved pipelines are offered for replay on later
+// uploads with the same columns.
+const pipelineSchema = new mongoose.Schema({
+    file: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'File',
+        required: true,
+        unique: true
+    },
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    // Column names of the sheet the steps were recorded on
+    sourceColumns: [String],
+    steps: [pipelineStepSchema]
+}, {
+    timestamps: true
+});
+
+pipelineSchema.index({ createdBy: 1, updatedAt: -1 });
+
+const Pipeline = mongoose.model('Pipeline', pipelineSchema);
+
+export default Pipeline;
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import { FILTER_KINDS, MAX_VIEW_NAME_LENGTH, SORT_DIRECTIONS } from '../utils/savedViews.js';
+
+// A named way of looking at a file in the data preview (see
+// utils/savedViews.js). Views belong to the user who saved them; names are
+// unique per user and file.
+const savedViewSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'A view needs a name'],
+        trim: true,
+        maxlength: MAX_VIEW_NAME_LENGTH
+    },
+    file: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'File',
+        required: true
+    },
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    search: {
+        type: String,
+        default: ''
+    },
+    // Column the search is limited to; '' searches every column
+    searchColumn: {
+        type: String,
+        default: ''
+    },
+    // Column name -> filter, as in src/utils/gridUtils.ts
+    filters: {
+        type: mongoose.Schema.Types.Mixed,
+        default: {},
+        validate: {
+            validator: (filters) => Object.values(filters || {}).every(filter => FILTER_KINDS.includes(filter && filter.kind)),
+            message: 'Unknown column filter'
+        }
+    },
+    sortKeys: [{
+        _id: false,
+        column: String,
+        direction: {
+            type: String,
+            enum: SORT_DIRECTIONS
+        }
+    }],
+    hiddenColumns: [String],
+    // Columns in display order; columns not listed follow in sheet order
+    columnOrder: [String]
+}, {
+    timestamps: true,
+    // Keeps an empty filters object instead of dropping the field
+    minimize: false
+});
+
+savedViewSchema.index({ user: 1, file: 1, name: 1 }, { unique: true });
+
+const SavedView = mongoose.model('SavedView', savedViewSchema);
+
+export default SavedView;
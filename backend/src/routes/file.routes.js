@@ -1,6 +1,9 @@
 import express from 'express';
 import { protect, restrictTo } from '../middleware/auth.middleware.js';
 import * as fileController from '../controllers/file.controller.js';
+import * as pipelineController from '../controllers/pipeline.controller.js';
+import * as versionController from '../controllers/version.controller.js';
+import * as savedViewController from '../controllers/savedView.controller.js';
 
 const router = express.Router();
 
@@ -16,6 +19,7 @@ router.get('/', fileController.getAllFiles);
 router.get('/my-files', fileController.getMyFiles);
 router.get('/:id', fileController.getFile);
 router.patch('/:id', fileController.updateFile);
+router.patch('/:id/schema', fileController.updateFileSchema);
 router.delete('/:id', fileController.deleteFile);
 
 // File processing and analysis
@@ -24,6 +28,26 @@ router.get('/:id/preview', fileController.getFilePreview);
 router.get('/:id/columns', fileController.getFileColumns);
 router.get('/:id/statistics', fileController.getFileStatistics);
 
+// Appending or joining several files into a derived file
+router.post('/combine/preview', fileController.previewCombinedFiles);
+router.post('/combine', fileController.createCombinedFile);
+
+// Recorded transformation pipeline
+router.get('/:id/pipeline', pipelineController.getFilePipeline);
+router.put('/:id/pipeline', pipelineController.saveFilePipeline);
+router.post('/:id/pipeline/matches', pipelineController.findMatchingPipelines);
+
+// Version history of uploads of the same report
+router.get('/:id/versions', versionController.getFileVersions);
+router.put('/:id/version', versionController.setFileVersion);
+router.get('/:id/diff', versionController.diffFileVersions);
+
+// Saved views of the data preview
+router.get('/:id/views', savedViewController.getFileViews);
+router.post('/:id/views', savedViewController.createFileView);
+router.put('/:id/views/:viewId', savedViewController.updateFileView);
+router.delete('/:id/views/:viewId', savedViewController.deleteFileView);
+
 // Admin only routes
 router.use(restrictTo('admin'));
 router.get('/system/storage-stats', fileController.getStorageStats);
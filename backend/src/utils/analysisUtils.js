@@ -1,7 +1,10 @@
 import { calculateStatistics } from './fileAnalysis.js';
+import { describeOutlierSettings, detectOutliers, quantile } from './outliers.js';
+import { parseLocaleNumber } from './localeParsing.js';
 
-export const generateChart = async (data, config) => {
-    const { type, xAxis, yAxis, zAxis, aggregation, filters } = config;
+// Numbers in text cells are read with the file's locale settings
+export const generateChart = async (data, config, locale) => {
+    const { type, xAxis, yAxis, zAxis, series, splitBy, aggregation, bins, size, target, hierarchy, totals, filters } = config;
     
     // Apply filters if any
     let filteredData = applyFilters(data, filters);
@@ -11,11 +14,35 @@ export const generateChart = async (data, config) => {
         case 'bar':
         case 'line':
         case 'area':
-            return generate2DChart(filteredData, xAxis, yAxis, aggregation);
+            return generate2DChart(filteredData, xAxis, series?.length ? series : [yAxis], splitBy, aggregation, locale);
         case 'pie':
-            return generatePieChart(filteredData, xAxis.column, yAxis.column);
+            return generatePieChart(filteredData, xAxis.column, yAxis.column, locale);
         case 'scatter':
             return generateScatterChart(filteredData, xAxis, yAxis);
+        case 'histogram':
+            return generateHistogram(filteredData, xAxis, bins || DEFAULT_HISTOGRAM_BINS, locale);
+        case 'box':
+        case 'violin':
+            return generateDistributions(filteredData, xAxis, yAxis, locale);
+        case 'heatmap':
+            // Rows of the heatmap are the datasets of a split bar chart
+            return generate2DChart(filteredData, xAxis, [yAxis], splitBy, aggregation, locale);
+        case 'correlation': {
+            const columns = (series || []).map(item => item.column);
+            return { labels: columns, matrix: await calculateCorrelation(filteredData, columns, locale) };
+        }
+        case 'waterfall':
+            return generateWaterfall(filteredData, xAxis, yAxis, totals || [], locale);
+        case 'funnel':
+            return generateFunnel(filteredData, xAxis, yAxis, aggregation, locale);
+        case 'bubble':
+            return generateBubbleChart(filteredData, xAxis, yAxis, size, splitBy, locale);
+        case 'radar':
+            return generate2DChart(filteredData, xAxis, series?.length ? series : [yAxis], splitBy, aggregation, locale);
+        case 'treemap':
+            return generateTreemap(filteredData, hierarchy || [], yAxis, locale);
+        case 'sankey':
+            return generateSankey(filteredData, xAxis, target, yAxis, locale);
         case '3d-bar':
         case '3d-scatter':
         case '3d-surface':
@@ -25,7 +52,7 @@ export const generateChart = async (data, config) => {
     }
 };
 
-export const calculateCorrelation = async (data, columns) => {
+export const calculateCorrelation = async (data, columns, locale) => {
     const correlations = {};
     
     for (let i = 0; i < columns.length; i++) {
@@ -37,22 +64,33 @@ export const calculateCorrelation = async (data, columns) => {
                 continue;
             }
 
-            const col1Data = data.map(row => row[columns[i]]).filter(val => !isNaN(val));
-            const col2Data = data.map(row => row[columns[j]]).filter(val => !isNaN(val));
+            // Only rows where both columns hold numbers, so the pairs stay aligned
+            const pairs = data
+                .map(row => [parseLocaleNumber(row[columns[i]], locale), parseLocaleNumber(row[columns[j]], locale)])
+                .filter(([a, b]) => a !== null && b !== null);
 
-            correlations[columns[i]][columns[j]] = pearsonCorrelation(col1Data, col2Data);
+            correlations[columns[i]][columns[j]] = pearsonCorrelation(pairs.map(([a]) => a), pairs.map(([, b]) => b));
         }
     }
 
     return correlations;
 };
 
-export const performRegression = async (data, dependentVar, independentVars) => {
-    const X = data.map(row => independentVars.map(v => row[v]));
-    const y = data.map(row => row[dependentVar]);
+// Linear regression of one column on others, over the rows where all of them
+// are numbers in the file's locale; null when there are too few such rows or
+// the independent columns are collinear
+export const performRegression = async (data, dependentVar, independentVars, locale) => {
+    const X = [];
+    const y = [];
+    data.forEach(row => {
+        const values = [dependentVar, ...independentVars].map(column => parseLocaleNumber(row[column], locale));
+        if (values.some(value => value === null)) return;
+        y.push(values[0]);
+        X.push(values.slice(1));
+    });
 
-    // Perform multiple linear regression
     const result = multipleLinearRegression(X, y);
+    if (!result) return null;
 
     return {
         coefficients: result.coefficients,
@@ -63,11 +101,12 @@ export const performRegression = async (data, dependentVar, independentVars) =>
     };
 };
 
-export const calculateDescriptiveStats = async (data, columns) => {
-    return await calculateStatistics(data, columns);
+export const calculateDescriptiveStats = async (data, columns, locale) => {
+    return await calculateStatistics(data, columns, locale);
 };
 
-export const generateInsights = async (data, analysisResults) => {
+// `columns` are the file's stored columns, for per-column outlier methods
+export const generateInsights = async (data, analysisResults, columns = []) => {
     const insights = [];
 
     // Analyze trends
@@ -87,7 +126,7 @@ export const generateInsights = async (data, analysisResults) => {
     insights.push(...distributionInsights);
 
     // Analyze outliers
-    const outlierInsights = analyzeOutliers(data);
+    const outlierInsights = analyzeOutliers(data, columns);
     insights.push(...outlierInsights);
 
     return insights;
@@ -121,27 +160,203 @@ const applyFilters = (data, filters = []) => {
     });
 };
 
-const generate2DChart = (data, xAxis, yAxis, aggregation) => {
-    const grouped = groupData(data, xAxis.column, yAxis.column, aggregation);
+// One dataset per Y column, or per Y column and value of the split column
+const generate2DChart = (data, xAxis, series, splitBy, aggregation, locale) => {
+    const labels = Object.keys(groupData(data, xAxis.column, series[0].column, aggregation, locale));
+    if (!splitBy?.column) {
+        return {
+            labels,
+            datasets: series.map(yAxis => ({
+                label: yAxis.label,
+                data: Object.values(groupData(data, xAxis.column, yAxis.column, aggregation, locale))
+            }))
+        };
+    }
+
+    const splitValues = [...new Set(data.map(row => String(row[splitBy.column] ?? '')))];
+    return {
+        labels,
+        datasets: series.flatMap(yAxis => splitValues.map(splitValue => {
+            const rows = data.filter(row => String(row[splitBy.column] ?? '') === splitValue);
+            const grouped = groupData(rows, xAxis.column, yAxis.column, aggregation, locale);
+            return {
+                label: series.length > 1 ? `${yAxis.label} — ${splitValue}` : splitValue,
+                // X values without rows of this split value have no point
+                data: labels.map(label => grouped[label] ?? null)
+            };
+        }))
+    };
+};
+
+const generatePieChart = (data, labelColumn, valueColumn, locale) => {
+    const grouped = groupData(data, labelColumn, valueColumn, 'sum', locale);
     return {
         labels: Object.keys(grouped),
         datasets: [{
-            label: yAxis.label,
             data: Object.values(grouped)
         }]
     };
 };
 
-const generatePieChart = (data, labelColumn, valueColumn) => {
-    const grouped = groupData(data, labelColumn, valueColumn, 'sum');
+const DEFAULT_HISTOGRAM_BINS = 10;
+
+const generateHistogram = (data, xAxis, bins, locale) => {
+    const values = data.map(row => parseLocaleNumber(row[xAxis.column], locale)).filter(value => value !== null);
+    if (!values.length) return { labels: [], datasets: [{ label: 'Rows', data: [] }] };
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const width = (max - min) / bins || 1;
+    const counts = new Array(max === min ? 1 : bins).fill(0);
+    values.forEach(value => {
+        counts[Math.min(counts.length - 1, Math.floor((value - min) / width))]++;
+    });
+
     return {
-        labels: Object.keys(grouped),
+        labels: counts.map((_, i) => `${+(min + i * width).toPrecision(4)}–${+(min + (i + 1) * width).toPrecision(4)}`),
+        datasets: [{ label: 'Rows', data: counts }]
+    };
+};
+
+// Five-number summary of the Y column per X value, whiskers at 1.5 IQR
+const generateDistributions = (data, xAxis, yAxis, locale) => {
+    const groups = {};
+    data.forEach(row => {
+        const value = parseLocaleNumber(row[yAxis.column], locale);
+        if (value === null) return;
+        const key = row[xAxis.column] ?? '';
+        (groups[key] = groups[key] || []).push(value);
+    });
+
+    return {
+        labels: Object.keys(groups),
         datasets: [{
-            data: Object.values(grouped)
+            label: yAxis.label,
+            data: Object.values(groups).map(values => {
+                const sorted = [...values].sort((a, b) => a - b);
+                const q1 = quantile(sorted, 0.25);
+                const q3 = quantile(sorted, 0.75);
+                const inside = sorted.filter(value => value >= q1 - 1.5 * (q3 - q1) && value <= q3 + 1.5 * (q3 - q1));
+                return {
+                    min: sorted[0],
+                    q1,
+                    median: quantile(sorted, 0.5),
+                    q3,
+                    max: sorted[sorted.length - 1],
+                    whiskerLow: inside[0],
+                    whiskerHigh: inside[inside.length - 1],
+                    count: sorted.length
+                };
+            })
         }]
     };
 };
 
+// Change per step and the running total after it; subtotal steps only carry the total
+const generateWaterfall = (data, xAxis, yAxis, totals, locale) => {
+    const grouped = groupData(data, xAxis.column, yAxis.column, 'sum', locale);
+    const labels = Object.keys(grouped);
+    const changes = [];
+    const running = [];
+    let total = 0;
+    labels.forEach(label => {
+        const isTotal = totals.includes(label);
+        // Steps without numbers don't move the total
+        if (!isTotal) total += grouped[label] ?? 0;
+        changes.push(isTotal ? null : grouped[label]);
+        running.push(total);
+    });
+    if (!labels.length || !totals.includes(labels[labels.length - 1])) {
+        labels.push('Total');
+        changes.push(null);
+        running.push(total);
+    }
+
+    return {
+        labels,
+        datasets: [
+            { label: `Change in ${yAxis.label}`, data: changes },
+            { label: 'Running total', data: running }
+        ]
+    };
+};
+
+// Stages in data order with their share of the first stage
+const generateFunnel = (data, xAxis, yAxis, aggregation, locale) => {
+    const grouped = groupData(data, xAxis.column, yAxis.column, aggregation, locale);
+    const values = Object.values(grouped);
+    return {
+        labels: Object.keys(grouped),
+        datasets: [
+            { label: yAxis.label, data: values },
+            { label: '% of first stage', data: values.map(value => values[0] && value !== null ? (value / values[0]) * 100 : null) }
+        ]
+    };
+};
+
+// One point per row with numeric X, Y and size; one dataset per split value
+const generateBubbleChart = (data, xAxis, yAxis, size, splitBy, locale) => {
+    const points = data
+        .map(row => ({
+            x: parseLocaleNumber(row[xAxis.column], locale),
+            y: parseLocaleNumber(row[yAxis.column], locale),
+            size: parseLocaleNumber(row[size?.column], locale),
+            split: splitBy?.column ? String(row[splitBy.column] ?? '') : ''
+        }))
+        .filter(point => point.x !== null && point.y !== null && point.size !== null);
+    const splitValues = [...new Set(points.map(point => point.split))];
+
+    return {
+        datasets: splitValues.map(splitValue => ({
+            label: splitBy?.column ? splitValue : `${yAxis.label} vs ${xAxis.label}`,
+            data: points.filter(point => point.split === splitValue).map(({ x, y, size }) => ({ x, y, size }))
+        }))
+    };
+};
+
+// Sum of the Y column per combination of the hierarchy columns; rows without a positive value are left out
+const generateTreemap = (data, hierarchy, yAxis, locale) => {
+    const leaves = new Map();
+    data.forEach(row => {
+        const value = parseLocaleNumber(row[yAxis.column], locale);
+        if (value === null || value <= 0) return;
+        const path = hierarchy.map(level => String(row[level.column] ?? ''));
+        const key = JSON.stringify(path);
+        const leaf = leaves.get(key) || { path, value: 0 };
+        leaf.value += value;
+        leaves.set(key, leaf);
+    });
+    const sorted = [...leaves.values()].sort((a, b) => b.value - a.value);
+
+    return {
+        labels: sorted.map(leaf => leaf.path.join(' › ')),
+        paths: sorted.map(leaf => leaf.path),
+        datasets: [{ label: yAxis.label, data: sorted.map(leaf => leaf.value) }]
+    };
+};
+
+// Sum of the Y column per source and target value
+const generateSankey = (data, source, target, yAxis, locale) => {
+    const flows = new Map();
+    data.forEach(row => {
+        const value = parseLocaleNumber(row[yAxis.column], locale);
+        const from = String(row[source.column] ?? '');
+        const to = String(row[target?.column] ?? '');
+        if (value === null || value <= 0 || from === to) return;
+        const key = JSON.stringify([from, to]);
+        const flow = flows.get(key) || { source: from, target: to, value: 0 };
+        flow.value += value;
+        flows.set(key, flow);
+    });
+    const links = [...flows.values()];
+
+    return {
+        labels: links.map(link => `${link.source} → ${link.target}`),
+        links,
+        datasets: [{ label: yAxis.label, data: links.map(link => link.value) }]
+    };
+};
+
 const generateScatterChart = (data, xAxis, yAxis) => {
     return {
         datasets: [{
@@ -167,48 +382,61 @@ const generate3DChart = (data, xAxis, yAxis, zAxis, type) => {
     };
 };
 
-const groupData = (data, groupBy, valueColumn, aggregation) => {
+// Aggregates the value column per group, like the client's chart series: blank
+// cells aren't counted, count and distinct count the other cells, and the rest
+// only see cells holding numbers in the file's locale (null without any)
+const groupData = (data, groupBy, valueColumn, aggregation, locale) => {
     const grouped = {};
-    
+
     data.forEach(row => {
         const key = row[groupBy];
-        const value = Number(row[valueColumn]) || 0;
-        
         if (!grouped[key]) {
-            grouped[key] = {
-                sum: 0,
-                count: 0,
-                min: value,
-                max: value
-            };
+            grouped[key] = { count: 0, values: [], distinct: new Set() };
         }
-        
-        grouped[key].sum += value;
+
+        const cell = row[valueColumn];
+        if (cell === null || cell === undefined || cell === '') return;
         grouped[key].count++;
-        grouped[key].min = Math.min(grouped[key].min, value);
-        grouped[key].max = Math.max(grouped[key].max, value);
+        grouped[key].distinct.add(String(cell));
+        const value = parseLocaleNumber(cell, locale);
+        if (value !== null) grouped[key].values.push(value);
     });
 
     // Apply aggregation
     return Object.entries(grouped).reduce((result, [key, stats]) => {
+        const { values } = stats;
+        const sum = values.reduce((total, value) => total + value, 0);
+        if (values.length === 0 && aggregation !== 'count' && aggregation !== 'distinct') {
+            result[key] = null;
+            return result;
+        }
         switch (aggregation) {
             case 'sum':
-                result[key] = stats.sum;
+                result[key] = sum;
                 break;
             case 'average':
-                result[key] = stats.sum / stats.count;
+                result[key] = sum / values.length;
                 break;
             case 'count':
                 result[key] = stats.count;
                 break;
+            case 'distinct':
+                result[key] = stats.distinct.size;
+                break;
+            case 'median': {
+                const sorted = [...values].sort((a, b) => a - b);
+                const middle = Math.floor(sorted.length / 2);
+                result[key] = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+                break;
+            }
             case 'min':
-                result[key] = stats.min;
+                result[key] = Math.min(...values);
                 break;
             case 'max':
-                result[key] = stats.max;
+                result[key] = Math.max(...values);
                 break;
             default:
-                result[key] = stats.sum;
+                result[key] = sum;
         }
         return result;
     }, {});
@@ -228,64 +456,69 @@ const pearsonCorrelation = (x, y) => {
     return denominator === 0 ? 0 : numerator / denominator;
 };
 
+// Ordinary least squares with an intercept. Mirrors leastSquares in
+// src/utils/chartStats.ts, which fits the client's chart trendlines, so both
+// report the same coefficients: predictors are centred and scaled before the
+// normal equations are solved, then the coefficients are scaled back.
 const multipleLinearRegression = (X, y) => {
-    // Simple implementation of multiple linear regression
-    // For production use, consider using a statistical library
     const n = X.length;
-    const p = X[0].length;
-    
-    // Add column of 1s for intercept
-    const X_aug = X.map(row => [1, ...row]);
-    
-    // Calculate coefficients using normal equation
-    const X_t = transpose(X_aug);
-    const X_t_X = matrixMultiply(X_t, X_aug);
-    const X_t_X_inv = inverseMatrix(X_t_X);
-    const X_t_y = matrixMultiply(X_t, y.map(yi => [yi]));
-    const coefficients = matrixMultiply(X_t_X_inv, X_t_y).map(row => row[0]);
-
-    // Calculate predictions
-    const predictions = X_aug.map(row => 
-        row.reduce((sum, val, i) => sum + val * coefficients[i], 0)
-    );
+    const terms = (X[0]?.length ?? 0) + 1;
+    if (n <= terms) return null;
+
+    const means = X[0].map((_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+    const scales = means.map((mean, j) => Math.sqrt(X.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / n) || 1);
+    const standardize = row => [1, ...row.map((value, j) => (value - means[j]) / scales[j])];
+
+    const gram = Array.from({ length: terms }, () => new Array(terms).fill(0));
+    const moments = new Array(terms).fill(0);
+    X.forEach((row, r) => {
+        const z = standardize(row);
+        z.forEach((a, i) => {
+            moments[i] += a * y[r];
+            z.forEach((b, j) => { gram[i][j] += a * b; });
+        });
+    });
+    const inverse = inverseMatrix(gram);
+    if (!inverse) return null;
+    const beta = inverse.map(row => row.reduce((sum, value, j) => sum + value * moments[j], 0));
+    const predictions = X.map(row => standardize(row).reduce((sum, value, i) => sum + value * beta[i], 0));
 
-    // Calculate R-squared
     const yMean = y.reduce((sum, yi) => sum + yi, 0) / n;
-    const totalSS = y.reduce((sum, yi) => sum + Math.pow(yi - yMean, 2), 0);
-    const residualSS = y.reduce((sum, yi, i) => sum + Math.pow(yi - predictions[i], 2), 0);
-    const rSquared = 1 - (residualSS / totalSS);
-    const adjustedRSquared = 1 - ((1 - rSquared) * (n - 1) / (n - p - 1));
+    const totalSS = y.reduce((sum, yi) => sum + (yi - yMean) ** 2, 0);
+    const residualSS = y.reduce((sum, yi, i) => sum + (yi - predictions[i]) ** 2, 0);
+    const rSquared = totalSS > 0 ? 1 - residualSS / totalSS : null;
+    const coefficients = beta.slice(1).map((b, j) => b / scales[j]);
 
     return {
-        coefficients: coefficients.slice(1),
-        intercept: coefficients[0],
+        coefficients,
+        intercept: beta[0] - coefficients.reduce((sum, c, j) => sum + c * means[j], 0),
         rSquared,
-        adjustedRSquared,
+        adjustedRSquared: rSquared === null ? null : 1 - ((1 - rSquared) * (n - 1)) / (n - terms),
         predictions
     };
 };
 
-// Matrix operations helpers
-const transpose = matrix => {
-    return matrix[0].map((_, i) => matrix.map(row => row[i]));
-};
-
-const matrixMultiply = (a, b) => {
-    return a.map(row => 
-        transpose(b).map(col =>
-            row.reduce((sum, val, i) => sum + val * col[i], 0)
-        )
-    );
-};
-
+// Inverse of a small symmetric matrix by Gauss–Jordan elimination; null when singular
 const inverseMatrix = matrix => {
-    // Simple implementation for 2x2 matrices
-    // For production use, consider using a linear algebra library
-    const det = matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
-    return [
-        [matrix[1][1] / det, -matrix[0][1] / det],
-        [-matrix[1][0] / det, matrix[0][0] / det]
-    ];
+    const n = matrix.length;
+    const rows = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+    const scale = Math.max(...matrix.map(row => Math.max(...row.map(Math.abs))));
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+        }
+        if (Math.abs(rows[pivot][col]) <= scale * 1e-12) return null;
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        const divisor = rows[col][col];
+        rows[col] = rows[col].map(value => value / divisor);
+        rows.forEach((row, r) => {
+            if (r === col) return;
+            const factor = row[col];
+            rows[r] = row.map((value, c) => value - factor * rows[col][c]);
+        });
+    }
+    return rows.map(row => row.slice(n));
 };
 
 // Analysis helper functions
@@ -342,7 +575,7 @@ const analyzeDistributions = (data) => {
     return insights;
 };
 
-const analyzeOutliers = (data) => {
+const analyzeOutliers = (data, columns = []) => {
     const insights = [];
     const numericColumns = Object.keys(data[0]).filter(key => 
         data.every(row => !isNaN(row[key]))
@@ -350,12 +583,15 @@ const analyzeOutliers = (data) => {
 
     numericColumns.forEach(column => {
         const values = data.map(row => row[column]).filter(val => !isNaN(val));
-        const outliers = detectOutliers(values);
+        // Rows are keyed by the dictionary name once the dictionary is applied
+        const stored = columns.find(c => (c.displayName || c.name) === column);
+        const settings = stored && stored.outliers && stored.outliers.method ? stored.outliers : undefined;
+        const result = detectOutliers(values, settings);
         
-        if (outliers.length > 0) {
+        if (result && result.values.length > 0) {
             insights.push(
-                `${column} has ${outliers.length} outliers, which is ` +
-                `${((outliers.length / values.length) * 100).toFixed(1)}% of the data.`
+                `${column} has ${result.values.length} outliers (${describeOutlierSettings(result.bounds)}), which is ` +
+                `${((result.values.length / values.length) * 100).toFixed(1)}% of the data.`
             );
         }
     });
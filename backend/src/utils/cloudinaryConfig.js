@@ -17,4 +17,14 @@ const storage = new CloudinaryStorage({
   },
 });
 
-export { cloudinary, storage }; 
\ No newline at end of file
+// Uploads a file built on the server (e.g. a combined dataset) to the same
+// folder as user uploads; resolves with Cloudinary's upload result
+const uploadBuffer = (buffer, options = {}) => new Promise((resolve, reject) => {
+  const stream = cloudinary.uploader.upload_stream(
+    { folder: 'excel-uploads', resource_type: 'raw', ...options },
+    (error, result) => (error ? reject(error) : resolve(result))
+  );
+  stream.end(buffer);
+});
+
+export { cloudinary, storage, uploadBuffer }; 
\ No newline at end of file
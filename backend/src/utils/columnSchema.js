@@ -0,0 +1,137 @@
+import { SEMANTIC_TYPES, toBoolean } from './columnTypes.js';
+import { parseLocaleNumber } from './localeParsing.js';
+import { normalizeOutlierSettings } from './outliers.js';
+
+// The data dictionary: user corrections to a file's inferred columns (renames,
+// type overrides, display formats, descriptions, outlier methods). Mirrors src/utils/columnSchema.ts
+// on the client; entries are keyed by the column name as read from the file.
+export const DISPLAY_FORMATS = [
+    'auto', 'integer', 'decimal-2', 'thousands', 'percent', 'currency',
+    'date-iso', 'date-dmy', 'date-mdy', 'date-long',
+    'uppercase', 'lowercase', 'zero-pad-5'
+];
+
+const columnName = (column) => (column.displayName && column.displayName.trim()) || column.name;
+
+// Validates schema entries sent by the client. Returns { entries } or { error }.
+export const normalizeSchemaEntries = (entries, headers) => {
+    if (!Array.isArray(entries)) {
+        return { error: 'columns must be an array of schema entries' };
+    }
+
+    const normalized = [];
+    for (const entry of entries) {
+        if (!entry || typeof entry.name !== 'string' || !headers.includes(entry.name)) {
+            return { error: `Unknown column: ${entry && entry.name}` };
+        }
+        if (entry.semanticType && !SEMANTIC_TYPES[entry.semanticType]) {
+            return { error: `Unknown column type: ${entry.semanticType}` };
+        }
+        if (entry.format && !DISPLAY_FORMATS.includes(entry.format)) {
+            return { error: `Unknown display format: ${entry.format}` };
+        }
+        const outliers = entry.outliers ? normalizeOutlierSettings(entry.outliers) : null;
+        if (entry.outliers && !outliers) {
+            return { error: `Invalid outlier settings for column: ${entry.name}` };
+        }
+        normalized.push({
+            name: entry.name,
+            displayName: typeof entry.displayName === 'string' ? entry.displayName.trim() : '',
+            semanticType: entry.semanticType || null,
+            format: entry.format || null,
+            description: typeof entry.description === 'string' ? entry.description.trim() : '',
+            outliers
+        });
+    }
+
+    const finalNames = headers.map(header => {
+        const entry = normalized.find(e => e.name === header);
+        return entry ? columnName(entry) : header;
+    });
+    const duplicate = finalNames.find((name, index) => finalNames.indexOf(name) !== index);
+    if (duplicate !== undefined) {
+        return { error: `Two columns would both be called "${duplicate}"` };
+    }
+
+    return { entries: normalized };
+};
+
+// Mongoose fills in an empty `outliers` subdocument, so check the method
+const hasOutlierSettings = (column) => !!(column.outliers && column.outliers.method);
+
+// Reads the dictionary back out of stored File.columns
+export const toDataDictionary = (columns = []) => columns
+    .filter(column => column.displayName || column.description || column.format || column.typeOverridden || hasOutlierSettings(column))
+    .map(column => ({
+        name: column.name,
+        displayName: column.displayName || '',
+        semanticType: column.typeOverridden ? column.semanticType : null,
+        format: column.format || null,
+        description: column.description || '',
+        outliers: hasOutlierSettings(column) ? { method: column.outliers.method, threshold: column.outliers.threshold } : null
+    }));
+
+// Semantic type overrides keyed by the column name in the file
+export const getTypeOverrides = (dictionary = []) => {
+    const overrides = {};
+    dictionary.forEach(entry => {
+        if (entry.semanticType) overrides[entry.name] = entry.semanticType;
+    });
+    return overrides;
+};
+
+// Copies dictionary fields onto freshly analysed columns
+export const withDataDictionary = (columns, dictionary = []) => columns.map(column => {
+    const entry = dictionary.find(e => e.name === column.name);
+    if (!entry) return column;
+    return {
+        ...column,
+        displayName: entry.displayName || undefined,
+        description: entry.description || undefined,
+        format: entry.format || undefined,
+        outliers: entry.outliers || undefined,
+        typeOverridden: !!entry.semanticType
+    };
+});
+
+const coerceToStorageType = (value, storageType, locale) => {
+    if (value === null || value === undefined || value === '') return value;
+    if (storageType === 'string') return String(value);
+    if (storageType === 'boolean') {
+        const bool = toBoolean(value);
+        return bool === null ? value : bool;
+    }
+    if (storageType === 'number') {
+        const number = parseLocaleNumber(value, locale);
+        return number === null ? value : number;
+    }
+    return value;
+};
+
+// Renames columns and coerces overridden types in rows read with
+// XLSX.utils.sheet_to_json, either as objects or as arrays ({ header: 1 }).
+export const applyDataDictionary = (data, columns = [], locale, { header } = {}) => {
+    const entries = new Map(columns.map(column => [column.name, column]));
+    if (entries.size === 0 || data.length === 0) return data;
+
+    const coerce = (key, value) => {
+        const column = entries.get(key);
+        return column && column.typeOverridden ? coerceToStorageType(value, column.type, locale) : value;
+    };
+
+    if (header === 1) {
+        const [headers, ...rows] = data;
+        return [
+            headers.map(name => entries.has(name) ? columnName(entries.get(name)) : name),
+            ...rows.map(row => row.map((value, index) => coerce(headers[index], value)))
+        ];
+    }
+
+    return data.map(row => {
+        const mapped = {};
+        Object.keys(row).forEach(key => {
+            mapped[entries.has(key) ? columnName(entries.get(key)) : key] = coerce(key, row[key]);
+        });
+        return mapped;
+    });
+};
@@ -0,0 +1,131 @@
+import { isDate } from './validators.js';
+import { normalizeLocaleSettings, parseLocaleNumber } from './localeParsing.js';
+
+// Mirrors src/utils/columnTypes.ts on the client. `storageType` is what the
+// File columnSchema keeps in `type`; `semanticType` is the richer type.
+export const SEMANTIC_TYPES = {
+    boolean: 'boolean',
+    integer: 'number',
+    decimal: 'number',
+    currency: 'number',
+    percentage: 'number',
+    category: 'string',
+    identifier: 'string',
+    email: 'string',
+    url: 'string',
+    date: 'date',
+    datetime: 'date',
+    text: 'string'
+};
+
+const CATEGORY_MAX_CARDINALITY = 50;
+const PATTERN_THRESHOLD = 0.9;
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CODE_PATTERN = /^(?=.*\d)[A-Za-z0-9][A-Za-z0-9_-]{2,}$/;
+const ID_NAME_PATTERN = /(^|[\s_-])(id|uuid|guid|key|code|sku)$|^id[\s_-]|[a-z]Id$/i;
+const TIME_ZONE_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+
+export const isBooleanLike = (value) =>
+    typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_TOKENS.has(value.trim().toLowerCase()));
+
+export const toBoolean = (value) => {
+    if (typeof value === 'boolean') return value;
+    if (typeof value !== 'string') return null;
+    const token = value.trim().toLowerCase();
+    if (!BOOLEAN_TOKENS.has(token)) return null;
+    return token === 'true' || token === 'yes' || token === 'y';
+};
+
+const mostCommon = (values) => {
+    const counts = new Map();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    let best;
+    counts.forEach((count, value) => {
+        if (best === undefined || count > counts.get(best)) best = value;
+    });
+    return best;
+};
+
+// Currency symbol a formatted value starts or ends with, if any
+const currencySymbolOf = (value, symbols) => {
+    if (typeof value !== 'string') return null;
+    const text = value.replace(/[()+\-%\s]/g, '');
+    return symbols.find(symbol => text.startsWith(symbol) || text.endsWith(symbol)) || null;
+};
+
+const withType = (semanticType, cardinality, extra = {}) => ({
+    semanticType,
+    storageType: SEMANTIC_TYPES[semanticType],
+    cardinality,
+    ...extra
+});
+
+// Infers { semanticType, storageType, cardinality, unit?, timeZone? } for a column.
+// `override` is a type set in the file's data dictionary and skips inference.
+export const inferColumnType = (values, { locale, name = '', override } = {}) => {
+    const settings = normalizeLocaleSettings(locale);
+    const nonEmptyValues = values.filter(v => v !== null && v !== undefined && v !== '');
+    const count = nonEmptyValues.length;
+    const cardinality = new Set(nonEmptyValues.map(v => String(v))).size;
+
+    if (override) {
+        if (override !== 'currency') return withType(override, cardinality);
+        const symbols = nonEmptyValues.map(v => currencySymbolOf(v, settings.currencySymbols)).filter(Boolean);
+        return withType('currency', cardinality, symbols.length > 0 ? { unit: mostCommon(symbols) } : {});
+    }
+
+    if (count === 0) return withType('text', 0);
+
+    if (nonEmptyValues.every(isBooleanLike)) return withType('boolean', cardinality);
+
+    const allUnique = cardinality === count && count > 1;
+    const looksLikeIdName = ID_NAME_PATTERN.test(String(name).trim());
+
+    // Date cells come back as Date objects
+    if (nonEmptyValues.every(v => !(v instanceof Date))) {
+        const numbers = nonEmptyValues.map(v => parseLocaleNumber(v, settings));
+        if (numbers.every(n => n !== null)) {
+            const allIntegers = numbers.every(n => Number.isInteger(n));
+            if (looksLikeIdName && allIntegers && allUnique) return withType('identifier', cardinality);
+
+            const symbols = nonEmptyValues
+                .map(v => currencySymbolOf(v, settings.currencySymbols))
+                .filter(Boolean);
+            if (symbols.length > count / 2) return withType('currency', cardinality, { unit: mostCommon(symbols) });
+            if (nonEmptyValues.filter(v => typeof v === 'string' && v.trim().endsWith('%')).length > count / 2) {
+                return withType('percentage', cardinality);
+            }
+            return withType(allIntegers ? 'integer' : 'decimal', cardinality);
+        }
+    }
+
+    const dates = nonEmptyValues.filter(v => isDate(v));
+    if (dates.length > count * 0.6) {
+        const withTime = dates.filter(v => v instanceof Date
+            ? v.getUTCHours() + v.getUTCMinutes() + v.getUTCSeconds() > 0
+            : /\d:\d{2}/.test(v));
+        if (withTime.length <= dates.length / 2) return withType('date', cardinality);
+        const zones = withTime
+            .map(v => typeof v === 'string' ? v.trim().match(TIME_ZONE_PATTERN)?.[1] : null)
+            .filter(Boolean)
+            .map(zone => zone === 'Z' ? 'UTC' : zone.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2'));
+        return withType('datetime', cardinality, zones.length > 0 ? { timeZone: mostCommon(zones) } : {});
+    }
+
+    const strings = nonEmptyValues.map(v => String(v).trim());
+    const share = (pattern) => strings.filter(v => pattern.test(v)).length / count;
+    if (share(EMAIL_PATTERN) >= PATTERN_THRESHOLD) return withType('email', cardinality);
+    if (share(URL_PATTERN) >= PATTERN_THRESHOLD) return withType('url', cardinality);
+
+    if (allUnique && (looksLikeIdName || strings.every(v => UUID_PATTERN.test(v) || CODE_PATTERN.test(v)))) {
+        return withType('identifier', cardinality);
+    }
+
+    if (cardinality <= CATEGORY_MAX_CARDINALITY && cardinality <= count / 2) return withType('category', cardinality);
+
+    return withType('text', cardinality);
+};
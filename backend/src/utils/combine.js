@@ -0,0 +1,296 @@
+import { DEFAULT_LOCALE_SETTINGS, parseLocaleNumber } from './localeParsing.js';
+
+// Combining several files into one dataset: appending stacks their rows
+// (columns are matched by name), joining lines rows up on key columns. Every
+// source is { label, data, locale }, with data as an array of row objects.
+
+export const COMBINE_MODES = ['append', 'join'];
+export const JOIN_TYPES = ['inner', 'left', 'full'];
+
+export const DEFAULT_SOURCE_COLUMN = 'Source';
+
+// Thrown when the sources can't be combined as asked (missing key columns,
+// a taken source column name); the message is meant for the user
+export class CombineError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'CombineError';
+    }
+}
+
+// Column names that only differ in case or spacing are the same column
+const columnKey = (name) => String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isBlank = (value) => value === null || value === undefined || String(value).trim() === '';
+
+// Kind of a column's non-blank values in one source: 'number', 'text' or
+// 'mixed' (anything else, e.g. dates and booleans, counts as 'mixed')
+const valueKind = (rows, column) => {
+    let kind = null;
+    for (const row of rows) {
+        const value = row[column];
+        if (isBlank(value)) continue;
+        const current = typeof value === 'number' ? 'number' : typeof value === 'string' ? 'text' : 'mixed';
+        if (kind && kind !== current) return 'mixed';
+        kind = current;
+    }
+    return kind;
+};
+
+// Stacks the rows of every source. Columns are matched by name ignoring case
+// and spacing and keep the name they have in the first source that has them;
+// sources without a column get blank cells. A column that holds numbers in
+// one source and numeric text in another (e.g. "1.234,50" in a German
+// export) is read as numbers everywhere, using each source's own locale.
+export const appendDatasets = (sources, { sourceColumn = DEFAULT_SOURCE_COLUMN } = {}) => {
+    const columns = [];
+    const byKey = new Map();
+    // Source column name -> aligned column name, per source
+    const mappings = sources.map(source => {
+        const mapping = new Map();
+        Object.keys(source.data[0] || {}).forEach(name => {
+            const key = columnKey(name);
+            if (!byKey.has(key)) {
+                byKey.set(key, name);
+                columns.push(name);
+            }
+            mapping.set(name, byKey.get(key));
+        });
+        return mapping;
+    });
+
+    const numericColumns = new Set(columns.filter(column =>
+        sources.some((source, i) => [...mappings[i]].some(([name, aligned]) =>
+            aligned === column && valueKind(source.data, name) === 'number'
+        ))
+    ));
+    const alignedColumns = new Set();
+
+    if (sourceColumn && byKey.has(columnKey(sourceColumn))) {
+        throw new CombineError(`A column named "${sourceColumn}" already exists; pick another name for the source column`);
+    }
+
+    const data = [];
+    sources.forEach((source, i) => {
+        const locale = source.locale || DEFAULT_LOCALE_SETTINGS;
+        source.data.forEach(row => {
+            const combined = {};
+            if (sourceColumn) combined[sourceColumn] = source.label;
+            columns.forEach(column => { combined[column] = ''; });
+            mappings[i].forEach((aligned, name) => {
+                let value = row[name];
+                if (numericColumns.has(aligned) && typeof value === 'string' && !isBlank(value)) {
+                    const number = parseLocaleNumber(value, locale);
+                    if (number !== null) {
+                        value = number;
+                        alignedColumns.add(aligned);
+                    }
+                }
+                combined[aligned] = value ?? '';
+            });
+            data.push(combined);
+        });
+    });
+
+    const diagnostics = {
+        mode: 'append',
+        sources: sources.map((source, i) => {
+            const present = new Set(mappings[i].values());
+            return {
+                label: source.label,
+                rows: source.data.length,
+                missingColumns: columns.filter(column => !present.has(column)),
+                renamedColumns: [...mappings[i]]
+                    .filter(([name, aligned]) => name !== aligned)
+                    .map(([name, aligned]) => ({ from: name, to: aligned }))
+            };
+        }),
+        numericColumns: [...alignedColumns]
+    };
+
+    return { data, diagnostics };
+};
+
+// Key values are compared as trimmed text, so the number 1001 matches the
+// text "1001"; dates compare by their ISO form. Rows with a blank key part
+// never match.
+export const keyOf = (row, columns) => {
+    const parts = [];
+    for (const column of columns) {
+        const value = row[column];
+        if (isBlank(value)) return null;
+        parts.push(value instanceof Date ? value.toISOString() : String(value).trim());
+    }
+    return JSON.stringify(parts);
+};
+
+// Joins two datasets on pairs of key columns (leftKeys[i] matches
+// rightKeys[i]). Right key columns are dropped since they repeat the left
+// ones; other right columns whose name is already taken get the right
+// source's label appended. A full join fills the left key columns of
+// unmatched right rows with their right key values.
+export const joinDatasets = (left, right, { type = 'inner', leftKeys, rightKeys }) => {
+    if (!JOIN_TYPES.includes(type)) {
+        throw new CombineError(`Unknown join type "${type}"`);
+    }
+    if (!leftKeys?.length || leftKeys.length !== rightKeys?.length) {
+        throw new CombineError('Pick the same number of key columns on both sides');
+    }
+
+    const leftColumns = Object.keys(left.data[0] || {});
+    const rightColumns = Object.keys(right.data[0] || {});
+    const missing = [
+        ...leftKeys.filter(column => !leftColumns.includes(column)).map(column => `"${column}" in ${left.label}`),
+        ...rightKeys.filter(column => !rightColumns.includes(column)).map(column => `"${column}" in ${right.label}`)
+    ];
+    if (missing.length > 0) {
+        throw new CombineError(`Key column ${missing.join(', ')} not found`);
+    }
+
+    const taken = new Set(leftColumns.map(columnKey));
+    const rightOutput = new Map();
+    rightColumns.filter(column => !rightKeys.includes(column)).forEach(column => {
+        let name = column;
+        for (let n = 2; taken.has(columnKey(name)); n++) {
+            name = n === 2 ? `${column} (${right.label})` : `${column} (${right.label} ${n})`;
+        }
+        taken.add(columnKey(name));
+        rightOutput.set(column, name);
+    });
+
+    const index = new Map();
+    let blankRightKeys = 0;
+    right.data.forEach((row, i) => {
+        const key = keyOf(row, rightKeys);
+        if (key === null) {
+            blankRightKeys++;
+            return;
+        }
+        if (!index.has(key)) index.set(key, []);
+        index.get(key).push(i);
+    });
+
+    const emptyLeft = Object.fromEntries(leftColumns.map(column => [column, '']));
+    const emptyRight = Object.fromEntries([...rightOutput.values()].map(name => [name, '']));
+    const withRight = (base, row) => {
+        const combined = { ...base };
+        rightOutput.forEach((name, column) => { combined[name] = row[column] ?? ''; });
+        return combined;
+    };
+
+    const data = [];
+    const matchedRight = new Set();
+    let matchedLeftRows = 0;
+    let blankLeftKeys = 0;
+    left.data.forEach(row => {
+        const key = keyOf(row, leftKeys);
+        if (key === null) blankLeftKeys++;
+        const matches = key === null ? undefined : index.get(key);
+        if (matches) {
+            matchedLeftRows++;
+            matches.forEach(i => {
+                matchedRight.add(i);
+                data.push(withRight(row, right.data[i]));
+            });
+        } else if (type !== 'inner') {
+            data.push({ ...row, ...emptyRight });
+        }
+    });
+
+    if (type === 'full') {
+        right.data.forEach((row, i) => {
+            if (matchedRight.has(i)) return;
+            const base = { ...emptyLeft };
+            leftKeys.forEach((column, k) => { base[column] = row[rightKeys[k]] ?? ''; });
+            data.push(withRight(base, row));
+        });
+    }
+
+    const rate = (count, total) => total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+    const diagnostics = {
+        label: right.label,
+        type,
+        leftKeys,
+        rightKeys,
+        leftRows: left.data.length,
+        rightRows: right.data.length,
+        matchedLeftRows,
+        matchedRightRows: matchedRight.size,
+        unmatchedLeftRows: left.data.length - matchedLeftRows,
+        unmatchedRightRows: right.data.length - matchedRight.size,
+        leftMatchRate: rate(matchedLeftRows, left.data.length),
+        rightMatchRate: rate(matchedRight.size, right.data.length),
+        // Keys found on more than one right row; each match repeats the left row
+        duplicateRightKeys: [...index.values()].filter(rows => rows.length > 1).length,
+        blankLeftKeys,
+        blankRightKeys,
+        renamedColumns: [...rightOutput]
+            .filter(([column, name]) => column !== name)
+            .map(([column, name]) => ({ from: column, to: name })),
+        resultRows: data.length
+    };
+
+    return { data, diagnostics };
+};
+
+// Joins the sources left to right: the first source with the second, the
+// result with the third and so on. joins[i] describes how source i + 1 is
+// joined on.
+export const joinAll = (sources, joins) => {
+    let result = sources[0];
+    const steps = [];
+    sources.slice(1).forEach((source, i) => {
+        const joined = joinDatasets(result, source, joins[i] || {});
+        steps.push(joined.diagnostics);
+        result = { label: result.label, data: joined.data };
+    });
+    return { data: result.data, diagnostics: { mode: 'join', joins: steps } };
+};
+
+// Validates a combine request body: { files, mode, sourceColumn?, joins? },
+// where joins has one { type, leftKeys, rightKeys } per file after the first.
+// Returns { options } or { error }.
+export const normalizeCombineOptions = (body = {}) => {
+    const { files, mode, sourceColumn, joins } = body;
+    if (!Array.isArray(files) || files.length < 2 || files.some(id => typeof id !== 'string')) {
+        return { error: 'Pick at least two files to combine' };
+    }
+    if (new Set(files).size !== files.length) {
+        return { error: 'Each file can only be picked once' };
+    }
+    if (!COMBINE_MODES.includes(mode)) {
+        return { error: `Combine mode must be one of: ${COMBINE_MODES.join(', ')}` };
+    }
+
+    if (mode === 'append') {
+        if (sourceColumn !== undefined && sourceColumn !== null && typeof sourceColumn !== 'string') {
+            return { error: 'The source column name must be text' };
+        }
+        return { options: { files, mode, sourceColumn: sourceColumn ? sourceColumn.trim() : '' } };
+    }
+
+    if (!Array.isArray(joins) || joins.length !== files.length - 1) {
+        return { error: 'Describe how every file after the first is joined' };
+    }
+    const keyList = (keys) => Array.isArray(keys) && keys.length > 0 && keys.every(key => typeof key === 'string' && key);
+    for (const join of joins) {
+        if (!join || !JOIN_TYPES.includes(join.type)) {
+            return { error: `Join type must be one of: ${JOIN_TYPES.join(', ')}` };
+        }
+        if (!keyList(join.leftKeys) || !keyList(join.rightKeys) || join.leftKeys.length !== join.rightKeys.length) {
+            return { error: 'Every join needs matching pairs of key columns' };
+        }
+    }
+    return {
+        options: {
+            files,
+            mode,
+            joins: joins.map(({ type, leftKeys, rightKeys }) => ({ type, leftKeys, rightKeys }))
+        }
+    };
+};
+
+// Combines already-read sources with validated options
+export const combineDatasets = (sources, options) => options.mode === 'append'
+    ? appendDatasets(sources, { sourceColumn: options.sourceColumn })
+    : joinAll(sources, options.joins);
@@ -0,0 +1,207 @@
+import { DEFAULT_LOCALE_SETTINGS, parseLocaleNumber } from './localeParsing.js';
+import { keyOf } from './combine.js';
+
+// Comparing two versions of a dataset (e.g. this week's and last week's
+// upload of the same report). Rows are matched on key columns: keys found
+// only in the newer version are added rows, keys only in the older one are
+// removed rows, and matched rows are compared cell by cell. Every side is
+// { data, columns, locale }, with data as an array of row objects and columns
+// as analysed by fileAnalysis.js (name, type, semanticType, statistics).
+
+// Rows of each kind (added, removed, changed) listed in a diff
+export const MAX_DIFF_ROWS = 200;
+
+// Thrown when the versions can't be compared as asked (a key column missing
+// from one of them); the message is meant for the user
+export class DiffError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'DiffError';
+    }
+}
+
+const STATISTIC_FIELDS = ['nullCount', 'uniqueCount', 'min', 'max', 'mean', 'median'];
+
+// Column names that suggest a row identifier, tried first as keys
+const KEY_NAME_PATTERN = /(^|\b|_)(id|key|code|sku|no|number|ref)(\b|_|$)/i;
+
+const isBlank = (value) => value === null || value === undefined || String(value).trim() === '';
+
+// Cells are equal when they read the same: numbers are compared as numbers
+// (so 1000 equals "1,000" in a US file), other values as trimmed text
+const cellNumber = (value, locale) => typeof value === 'number' ? value : parseLocaleNumber(value, locale);
+
+const cellsEqual = (before, after, baseLocale, currentLocale) => {
+    if (isBlank(before) || isBlank(after)) return isBlank(before) && isBlank(after);
+    if (before instanceof Date || after instanceof Date) {
+        const time = (value) => value instanceof Date ? value.getTime() : new Date(value).getTime();
+        return time(before) === time(after);
+    }
+    const x = cellNumber(before, baseLocale);
+    const y = cellNumber(after, currentLocale);
+    if (x !== null && y !== null) {
+        return Math.abs(x - y) <= 1e-9 * Math.max(1, Math.abs(x), Math.abs(y));
+    }
+    return String(before).trim() === String(after).trim();
+};
+
+// Whole rows are matched on the text of all their common cells
+const rowSignature = (row, columns, locale) => JSON.stringify(columns.map(column => {
+    const value = row[column];
+    if (isBlank(value)) return '';
+    if (value instanceof Date) return value.toISOString();
+    const number = cellNumber(value, locale);
+    return number !== null ? number : String(value).trim();
+}));
+
+const columnType = (column) => column.semanticType || column.type;
+
+// A common column whose values are filled in and unique in both versions,
+// preferring ones named like identifiers; [] when there's none
+export const suggestDiffKeys = (base, current, columns) => {
+    const isUnique = (data, column) => {
+        const seen = new Set();
+        for (const row of data) {
+            const key = keyOf(row, [column]);
+            if (key === null || seen.has(key)) return false;
+            seen.add(key);
+        }
+        return seen.size > 0;
+    };
+    const candidates = [
+        ...columns.filter(column => KEY_NAME_PATTERN.test(column)),
+        ...columns.filter(column => !KEY_NAME_PATTERN.test(column))
+    ];
+    const key = candidates.find(column => isUnique(base.data, column) && isUnique(current.data, column));
+    return key === undefined ? [] : [key];
+};
+
+// Every column's statistics in both versions; numeric fields also get the
+// change from the older version
+const statisticDeltas = (base, current) => {
+    const baseColumns = new Map(base.columns.map(column => [column.name, column]));
+    const currentColumns = new Map(current.columns.map(column => [column.name, column]));
+    const names = [...currentColumns.keys(), ...[...baseColumns.keys()].filter(name => !currentColumns.has(name))];
+
+    return names.map(name => {
+        const before = baseColumns.get(name)?.statistics || null;
+        const after = currentColumns.get(name)?.statistics || null;
+        const delta = {};
+        STATISTIC_FIELDS.forEach(field => {
+            const x = before?.[field];
+            const y = after?.[field];
+            if (typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y)) {
+                delta[field] = y - x;
+            }
+        });
+        return {
+            column: name,
+            type: columnType(currentColumns.get(name) || baseColumns.get(name)),
+            before,
+            after,
+            delta
+        };
+    });
+};
+
+// Compares the older version `base` with `current`. `keys` are the columns
+// rows are matched on; when none are given a unique column is picked, and
+// without one whole rows are matched (so rows can only be added or removed,
+// never changed). Rows sharing a key are paired in order.
+export const diffDatasets = (base, current, { keys = [] } = {}) => {
+    const baseNames = base.columns.map(column => column.name);
+    const currentNames = current.columns.map(column => column.name);
+    const common = currentNames.filter(name => baseNames.includes(name));
+
+    const missingKey = keys.find(key => !common.includes(key));
+    if (missingKey !== undefined) {
+        throw new DiffError(`Column "${missingKey}" is not in both versions`);
+    }
+    const keyColumns = keys.length > 0 ? keys : suggestDiffKeys(base, current, common);
+    const matchedBy = keyColumns.length > 0 ? 'key' : 'row';
+    const baseLocale = base.locale || DEFAULT_LOCALE_SETTINGS;
+    const currentLocale = current.locale || DEFAULT_LOCALE_SETTINGS;
+    const matchKey = (row, locale) => matchedBy === 'key' ? keyOf(row, keyColumns) : rowSignature(row, common, locale);
+    const compareColumns = common.filter(name => !keyColumns.includes(name));
+
+    // Key -> indices of the older rows with it, consumed as rows are paired
+    const baseByKey = new Map();
+    let blankKeys = 0;
+    base.data.forEach((row, index) => {
+        const key = matchKey(row, baseLocale);
+        if (key === null) {
+            blankKeys++;
+            return;
+        }
+        if (!baseByKey.has(key)) baseByKey.set(key, []);
+        baseByKey.get(key).push(index);
+    });
+    const duplicateKeys = new Set([...baseByKey].filter(([, rows]) => rows.length > 1).map(([key]) => key));
+
+    const added = [];
+    const pairs = [];
+    const currentKeys = new Set();
+    current.data.forEach((row, index) => {
+        const key = matchKey(row, currentLocale);
+        if (key === null) blankKeys++;
+        else if (currentKeys.has(key)) duplicateKeys.add(key);
+        else currentKeys.add(key);
+        const match = key === null ? undefined : baseByKey.get(key)?.shift();
+        if (match === undefined) added.push(index);
+        else pairs.push([match, index]);
+    });
+    const paired = new Set(pairs.map(([baseIndex]) => baseIndex));
+    const removed = base.data.map((_, index) => index).filter(index => !paired.has(index));
+
+    const changedRows = [];
+    const changedColumns = {};
+    let changed = 0;
+    let changedCells = 0;
+    pairs.forEach(([baseIndex, currentIndex]) => {
+        const before = base.data[baseIndex];
+        const after = current.data[currentIndex];
+        const changes = compareColumns
+            .filter(column => !cellsEqual(before[column], after[column], baseLocale, currentLocale))
+            .map(column => ({ column, before: before[column] ?? '', after: after[column] ?? '' }));
+        if (changes.length === 0) return;
+        changed++;
+        changedCells += changes.length;
+        changes.forEach(({ column }) => { changedColumns[column] = (changedColumns[column] || 0) + 1; });
+        if (changedRows.length < MAX_DIFF_ROWS) {
+            changedRows.push({
+                key: Object.fromEntries(keyColumns.map(column => [column, after[column]])),
+                row: after,
+                changes
+            });
+        }
+    });
+
+    const baseColumns = new Map(base.columns.map(column => [column.name, column]));
+    return {
+        keys: keyColumns,
+        matchedBy,
+        summary: {
+            baseRows: base.data.length,
+            currentRows: current.data.length,
+            added: added.length,
+            removed: removed.length,
+            changed,
+            unchanged: pairs.length - changed,
+            changedCells,
+            blankKeys,
+            duplicateKeys: duplicateKeys.size
+        },
+        schema: {
+            addedColumns: currentNames.filter(name => !baseNames.includes(name)),
+            removedColumns: baseNames.filter(name => !currentNames.includes(name)),
+            typeChanges: current.columns
+                .filter(column => baseColumns.has(column.name) && columnType(baseColumns.get(column.name)) !== columnType(column))
+                .map(column => ({ column: column.name, before: columnType(baseColumns.get(column.name)), after: columnType(column) }))
+        },
+        changedColumns,
+        addedRows: added.slice(0, MAX_DIFF_ROWS).map(index => current.data[index]),
+        removedRows: removed.slice(0, MAX_DIFF_ROWS).map(index => base.data[index]),
+        changedRows,
+        statistics: statisticDeltas(base, current)
+    };
+};
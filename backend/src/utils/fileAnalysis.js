@@ -1,6 +1,10 @@
-import { isNumber, isDate } from './validators.js';
+import { parseLocaleDate, parseLocaleNumber, resolveDateOrder } from './localeParsing.js';
+import { inferColumnType, toBoolean } from './columnTypes.js';
+import { describeOutlierSettings, detectOutliers } from './outliers.js';
 
-export const analyzeFileData = async (data) => {
+// `locale` is the file's number/date settings; US formats when omitted.
+// `overrides` maps column names to semantic types set in the data dictionary.
+export const analyzeFileData = async (data, locale, overrides = {}) => {
     if (!data || data.length === 0) {
         throw new Error('No data provided for analysis');
     }
@@ -13,7 +17,7 @@ export const analyzeFileData = async (data) => {
     // Analyze each column
     for (let i = 0; i < headers.length; i++) {
         const columnData = rows.map(row => row[i]);
-        const columnAnalysis = analyzeColumn(headers[i], columnData);
+        const columnAnalysis = analyzeColumn(headers[i], columnData, locale, overrides[headers[i]]);
         columns.push(columnAnalysis);
 
         // Adjust quality score based on null values and data consistency
@@ -31,10 +35,14 @@ export const analyzeFileData = async (data) => {
     };
 };
 
-const analyzeColumn = (header, data) => {
+const analyzeColumn = (header, data, locale, override) => {
+    const typeInfo = inferColumnType(data, { locale, name: header, override });
     const analysis = {
         name: header,
-        type: detectDataType(data),
+        type: typeInfo.storageType,
+        semanticType: typeInfo.semanticType,
+        unit: typeInfo.unit,
+        timeZone: typeInfo.timeZone,
         statistics: {
             nullCount: 0,
             uniqueCount: 0,
@@ -54,14 +62,15 @@ const analyzeColumn = (header, data) => {
 
     // Calculate statistics based on data type
     if (analysis.type === 'number') {
-        const numbers = nonNullValues.map(Number);
+        const numbers = nonNullValues.map(val => parseLocaleNumber(val, locale)).filter(num => num !== null);
         analysis.statistics.min = Math.min(...numbers);
         analysis.statistics.max = Math.max(...numbers);
         analysis.statistics.mean = calculateMean(numbers);
         analysis.statistics.median = calculateMedian(numbers);
         analysis.statistics.mode = calculateMode(numbers);
     } else if (analysis.type === 'date') {
-        const dates = nonNullValues.map(val => new Date(val));
+        const dateOrder = resolveDateOrder(nonNullValues, locale);
+        const dates = nonNullValues.map(val => parseLocaleDate(val, dateOrder)).filter(Boolean);
         analysis.statistics.min = new Date(Math.min(...dates));
         analysis.statistics.max = new Date(Math.max(...dates));
     }
@@ -69,46 +78,45 @@ const analyzeColumn = (header, data) => {
     return analysis;
 };
 
-const detectDataType = (data) => {
-    const sample = data.filter(val => val !== null && val !== undefined && val !== '').slice(0, 100);
-    if (sample.length === 0) return 'string';
-
-    const numberCount = sample.filter(val => isNumber(val)).length;
-    const dateCount = sample.filter(val => isDate(val)).length;
-
-    const numberPercentage = (numberCount / sample.length) * 100;
-    const datePercentage = (dateCount / sample.length) * 100;
-
-    if (numberPercentage >= 80) return 'number';
-    if (datePercentage >= 80) return 'date';
-    return 'string';
-};
-
-export const calculateStatistics = async (data, columns) => {
+export const calculateStatistics = async (data, columns, locale) => {
     const stats = {};
     const headers = data[0];
     const rows = data.slice(1);
 
     columns.forEach((column, index) => {
         const columnData = rows.map(row => row[index]);
+        // Renamed columns are reported under their data dictionary name
+        const key = column.displayName || column.name;
         
         if (column.type === 'number') {
             const numbers = columnData
-                .filter(val => val !== null && val !== undefined && val !== '')
-                .map(Number);
+                .map(val => parseLocaleNumber(val, locale))
+                .filter(num => num !== null);
 
-            stats[column.name] = {
+            // Uses the column's outlier method from the data dictionary
+            const outliers = detectOutliers(numbers, column.outliers && column.outliers.method ? column.outliers : undefined);
+
+            stats[key] = {
                 min: Math.min(...numbers),
                 max: Math.max(...numbers),
                 mean: calculateMean(numbers),
                 median: calculateMedian(numbers),
                 standardDeviation: calculateStandardDeviation(numbers),
                 quartiles: calculateQuartiles(numbers),
-                outliers: detectOutliers(numbers)
+                outliers: outliers ? outliers.values : [],
+                outlierMethod: outliers ? describeOutlierSettings(outliers.bounds) : null,
+                outlierBounds: outliers ? { lower: outliers.bounds.lower, upper: outliers.bounds.upper } : null
+            };
+        } else if (column.type === 'boolean') {
+            const booleans = columnData.map(toBoolean).filter(val => val !== null);
+            const trueCount = booleans.filter(Boolean).length;
+            stats[key] = {
+                trueCount,
+                falseCount: booleans.length - trueCount
             };
         } else if (column.type === 'string') {
             const frequencies = calculateFrequencies(columnData);
-            stats[column.name] = {
+            stats[key] = {
                 uniqueValues: new Set(columnData).size,
                 mostCommon: Object.entries(frequencies)
                     .sort((a, b) => b[1] - a[1])
@@ -165,15 +173,6 @@ const calculateQuartiles = (numbers) => {
     };
 };
 
-const detectOutliers = (numbers) => {
-    const quartiles = calculateQuartiles(numbers);
-    const iqr = quartiles.Q3 - quartiles.Q1;
-    const lowerBound = quartiles.Q1 - 1.5 * iqr;
-    const upperBound = quartiles.Q3 + 1.5 * iqr;
-
-    return numbers.filter(num => num < lowerBound || num > upperBound);
-};
-
 const calculateFrequencies = (values) => {
     return values.reduce((freq, val) => {
         freq[val] = (freq[val] || 0) + 1;
@@ -0,0 +1,458 @@
+import { inferColumnType, toBoolean } from './columnTypes.js';
+import { parseLocaleNumber } from './localeParsing.js';
+
+// Calculated columns saved with an analysis. Mirrors src/utils/formula.ts on
+// the client so charts generated on the server see the same values.
+
+export class FormulaError extends Error {
+    constructor(message, position = 0) {
+        super(message);
+        this.name = 'FormulaError';
+        this.position = position;
+    }
+}
+
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+const tokenize = (formula) => {
+    const tokens = [];
+    let i = 0;
+
+    while (i < formula.length) {
+        const char = formula[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        if (char === '"') {
+            let text = '';
+            i++;
+            while (i < formula.length && !(formula[i] === '"' && formula[i + 1] !== '"')) {
+                if (formula[i] === '"') i++;
+                text += formula[i++];
+            }
+            if (i >= formula.length) throw new FormulaError('Unclosed text — add a closing "', start);
+            i++;
+            tokens.push({ kind: 'string', text, position: start });
+        } else if (char === '[') {
+            const end = formula.indexOf(']', i);
+            if (end === -1) throw new FormulaError('Unclosed column reference — add a closing ]', start);
+            tokens.push({ kind: 'column', text: formula.slice(i + 1, end), position: start });
+            i = end + 1;
+        } else if (/[0-9.]/.test(char)) {
+            const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+            if (!match) throw new FormulaError(`Unexpected "${char}"`, start);
+            tokens.push({ kind: 'number', text: match[0], position: start });
+            i += match[0].length;
+        } else if (/[\p{L}_]/u.test(char)) {
+            const match = formula.slice(i).match(/^[\p{L}_][\p{L}\p{N}_.]*/u);
+            tokens.push({ kind: 'name', text: match[0], position: start });
+            i += match[0].length;
+        } else if (char === '(' || char === ')' || char === ',') {
+            tokens.push({ kind: char, text: char, position: start });
+            i++;
+        } else {
+            const operator = OPERATORS.find(op => formula.startsWith(op, i));
+            if (!operator) throw new FormulaError(`Unexpected "${char}"`, start);
+            tokens.push({ kind: 'operator', text: operator, position: start });
+            i += operator.length;
+        }
+    }
+
+    tokens.push({ kind: 'end', text: '', position: formula.length });
+    return tokens;
+};
+
+const PRECEDENCE = {
+    '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+    '&': 2,
+    '+': 3, '-': 3,
+    '*': 4, '/': 4,
+    '^': 5
+};
+
+export const parseFormula = (formula) => {
+    const text = String(formula || '').replace(/^(\s*)=/, '$1 ');
+    if (!text.trim()) throw new FormulaError('Enter a formula');
+    const tokens = tokenize(text);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+    const expect = (kind, message) => {
+        if (peek().kind !== kind) throw new FormulaError(message, peek().position);
+        return next();
+    };
+
+    const parsePrimary = () => {
+        const token = next();
+        switch (token.kind) {
+            case 'number':
+                return { type: 'number', value: Number(token.text) };
+            case 'string':
+                return { type: 'string', value: token.text };
+            case 'column':
+                return { type: 'column', name: token.text, position: token.position };
+            case '(': {
+                const inner = parseExpression(0);
+                expect(')', 'Missing closing )');
+                return inner;
+            }
+            case 'operator':
+                if (token.text === '-' || token.text === '+') {
+                    const operand = parseExpression(6);
+                    return token.text === '-' ? { type: 'negate', operand, position: token.position } : operand;
+                }
+                break;
+            case 'name': {
+                const upper = token.text.toUpperCase();
+                if (peek().kind === '(') {
+                    next();
+                    const args = [];
+                    if (peek().kind !== ')') {
+                        do {
+                            args.push(parseExpression(0));
+                        } while (peek().kind === ',' && next());
+                    }
+                    expect(')', `Missing closing ) for ${upper}`);
+                    return { type: 'call', name: upper, args, position: token.position };
+                }
+                if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' };
+                return { type: 'column', name: token.text, position: token.position };
+            }
+        }
+        throw new FormulaError(token.kind === 'end' ? 'The formula ends too early' : `Unexpected "${token.text}"`, token.position);
+    };
+
+    const parseExpression = (minPrecedence) => {
+        let left = parsePrimary();
+        while (peek().kind === 'operator' && PRECEDENCE[peek().text] > minPrecedence) {
+            const operator = next();
+            const precedence = PRECEDENCE[operator.text];
+            const right = parseExpression(operator.text === '^' ? precedence - 1 : precedence);
+            left = { type: 'binary', operator: operator.text, left, right, position: operator.position };
+        }
+        return left;
+    };
+
+    const node = parseExpression(0);
+    if (peek().kind !== 'end') throw new FormulaError(`Unexpected "${peek().text}"`, peek().position);
+    return node;
+};
+
+const isBlank = (value) => value === null || value === '';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIsoDate = (date) => date.toISOString().slice(0, 10);
+
+const toDate = (value) => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const time = Date.parse(value);
+    return isNaN(time) ? null : new Date(time);
+};
+
+const toText = (value) => {
+    if (value === null) return '';
+    if (value instanceof Date) return toIsoDate(value);
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return String(value);
+};
+
+const toNumber = (value) => typeof value === 'number' && isFinite(value) ? value : null;
+
+const monthsBetween = (start, end) => {
+    let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    if (months > 0 && end.getUTCDate() < start.getUTCDate()) months--;
+    if (months < 0 && end.getUTCDate() > start.getUTCDate()) months++;
+    return months;
+};
+
+const numeric = (fn) => (args) => {
+    const numbers = args.map(toNumber);
+    if (numbers.some(n => n === null)) return null;
+    return fn(...numbers);
+};
+
+const datePart = (fn) => ([value]) => value instanceof Date ? fn(value) : null;
+
+const sameType = (types) => {
+    const known = types.filter(type => type !== 'any');
+    return known.length > 0 && known.every(type => type === known[0]) ? known[0] : 'any';
+};
+
+const FUNCTIONS = {
+    IF: {
+        signature: 'IF(condition, then, [else])',
+        params: ['boolean', 'any', 'any'],
+        optional: 1,
+        returns: args => sameType(args.slice(1)),
+        evaluate: ([condition, then, otherwise = null]) => condition === true ? then : otherwise
+    },
+    AND: { signature: 'AND(a, b, …)', params: ['boolean'], variadic: true, returns: 'boolean', evaluate: args => args.every(arg => arg === true) },
+    OR: { signature: 'OR(a, b, …)', params: ['boolean'], variadic: true, returns: 'boolean', evaluate: args => args.some(arg => arg === true) },
+    NOT: { signature: 'NOT(condition)', params: ['boolean'], returns: 'boolean', evaluate: ([value]) => value === null ? null : value !== true },
+    ISBLANK: { signature: 'ISBLANK(value)', params: ['any'], returns: 'boolean', evaluate: ([value]) => isBlank(value) },
+    ROUND: {
+        signature: 'ROUND(number, [digits])',
+        params: ['number', 'number'],
+        optional: 1,
+        returns: 'number',
+        evaluate: ([value, digits = 0]) => numeric((n, d) => {
+            const factor = Math.pow(10, Math.round(d));
+            return Math.round(n * factor) / factor;
+        })([value, digits])
+    },
+    ABS: { signature: 'ABS(number)', params: ['number'], returns: 'number', evaluate: numeric(Math.abs) },
+    MIN: { signature: 'MIN(a, b, …)', params: ['number'], variadic: true, returns: 'number', evaluate: numeric(Math.min) },
+    MAX: { signature: 'MAX(a, b, …)', params: ['number'], variadic: true, returns: 'number', evaluate: numeric(Math.max) },
+    CONCAT: { signature: 'CONCAT(a, b, …)', params: ['text'], variadic: true, returns: 'text', evaluate: args => args.map(toText).join('') },
+    LEFT: {
+        signature: 'LEFT(text, [count])',
+        params: ['text', 'number'],
+        optional: 1,
+        returns: 'text',
+        evaluate: ([value, count = 1]) => isBlank(value) ? null : toText(value).slice(0, Math.max(0, toNumber(count) ?? 0))
+    },
+    RIGHT: {
+        signature: 'RIGHT(text, [count])',
+        params: ['text', 'number'],
+        optional: 1,
+        returns: 'text',
+        evaluate: ([value, count = 1]) => {
+            const n = Math.max(0, toNumber(count) ?? 0);
+            return isBlank(value) ? null : n === 0 ? '' : toText(value).slice(-n);
+        }
+    },
+    MID: {
+        signature: 'MID(text, start, count)',
+        params: ['text', 'number', 'number'],
+        returns: 'text',
+        evaluate: ([value, start, count]) => {
+            const from = toNumber(start);
+            const n = toNumber(count);
+            if (isBlank(value) || from === null || n === null) return null;
+            return toText(value).substr(Math.max(0, from - 1), Math.max(0, n));
+        }
+    },
+    UPPER: { signature: 'UPPER(text)', params: ['text'], returns: 'text', evaluate: ([value]) => isBlank(value) ? null : toText(value).toUpperCase() },
+    LOWER: { signature: 'LOWER(text)', params: ['text'], returns: 'text', evaluate: ([value]) => isBlank(value) ? null : toText(value).toLowerCase() },
+    TRIM: { signature: 'TRIM(text)', params: ['text'], returns: 'text', evaluate: ([value]) => isBlank(value) ? null : toText(value).replace(/\s+/g, ' ').trim() },
+    LEN: { signature: 'LEN(text)', params: ['text'], returns: 'number', evaluate: ([value]) => toText(value).length },
+    YEAR: { signature: 'YEAR(date)', params: ['date'], returns: 'number', evaluate: datePart(date => date.getUTCFullYear()) },
+    MONTH: { signature: 'MONTH(date)', params: ['date'], returns: 'number', evaluate: datePart(date => date.getUTCMonth() + 1) },
+    DAY: { signature: 'DAY(date)', params: ['date'], returns: 'number', evaluate: datePart(date => date.getUTCDate()) },
+    QUARTER: { signature: 'QUARTER(date)', params: ['date'], returns: 'number', evaluate: datePart(date => Math.floor(date.getUTCMonth() / 3) + 1) },
+    DATEDIFF: {
+        signature: 'DATEDIFF(start, end, [unit])',
+        params: ['date', 'date', 'text'],
+        optional: 1,
+        returns: 'number',
+        evaluate: ([start, end, unit = 'd']) => {
+            if (!(start instanceof Date) || !(end instanceof Date)) return null;
+            const key = toText(unit).toLowerCase()[0];
+            if (key === 'm') return monthsBetween(start, end);
+            if (key === 'y') return Math.trunc(monthsBetween(start, end) / 12);
+            return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+        }
+    },
+    TODAY: { signature: 'TODAY()', params: [], returns: 'date', evaluate: () => new Date(`${toIsoDate(new Date())}T00:00:00Z`) }
+};
+
+const TYPE_LABELS = {
+    number: 'a number',
+    text: 'text',
+    date: 'a date',
+    boolean: 'TRUE/FALSE',
+    any: 'a value'
+};
+
+const accepts = (expected, actual) =>
+    expected === 'any' || actual === 'any' || expected === 'text' || expected === actual;
+
+// File column storage types ('string', 'number', 'date', 'boolean') to formula types
+const toFormulaType = (storageType) => storageType === 'string' ? 'text' : storageType;
+
+const findColumn = (columns, name) =>
+    Object.keys(columns).find(column => column === name) ?? Object.keys(columns).find(column => column.toLowerCase() === name.toLowerCase());
+
+// Returns the formula's result type, or throws a FormulaError
+const checkFormula = (node, columns) => {
+    switch (node.type) {
+        case 'number':
+            return 'number';
+        case 'string':
+            return 'text';
+        case 'boolean':
+            return 'boolean';
+        case 'column': {
+            const column = findColumn(columns, node.name);
+            if (column === undefined) throw new FormulaError(`Unknown column "${node.name}"`, node.position);
+            return columns[column];
+        }
+        case 'negate': {
+            const type = checkFormula(node.operand, columns);
+            if (!accepts('number', type) || type === 'text') throw new FormulaError(`Can't negate ${TYPE_LABELS[type]}`, node.position);
+            return 'number';
+        }
+        case 'binary': {
+            const left = checkFormula(node.left, columns);
+            const right = checkFormula(node.right, columns);
+            const { operator, position } = node;
+            if (operator === '&') return 'text';
+            if (PRECEDENCE[operator] === 1) {
+                if (left !== right && left !== 'any' && right !== 'any') {
+                    throw new FormulaError(`Can't compare ${TYPE_LABELS[left]} with ${TYPE_LABELS[right]}`, position);
+                }
+                return 'boolean';
+            }
+            if (left === 'date' && (operator === '+' || operator === '-') && right === 'number') return 'date';
+            if (left === 'number' && operator === '+' && right === 'date') return 'date';
+            if (left === 'date' && operator === '-' && right === 'date') return 'number';
+            [left, right].forEach(type => {
+                if (type !== 'number' && type !== 'any') {
+                    throw new FormulaError(`"${operator}" needs numbers, but got ${TYPE_LABELS[type]}`, position);
+                }
+            });
+            return 'number';
+        }
+        case 'call': {
+            const spec = FUNCTIONS[node.name];
+            if (!spec) throw new FormulaError(`Unknown function ${node.name}`, node.position);
+            const required = spec.params.length - (spec.optional || 0);
+            if (node.args.length < required || (!spec.variadic && node.args.length > spec.params.length)) {
+                throw new FormulaError(`Wrong number of arguments: ${spec.signature}`, node.position);
+            }
+            const types = node.args.map((arg, i) => {
+                const type = checkFormula(arg, columns);
+                const expected = spec.params[Math.min(i, spec.params.length - 1)];
+                if (!accepts(expected, type)) {
+                    throw new FormulaError(`${node.name} expects ${TYPE_LABELS[expected]} as argument ${i + 1}, but got ${TYPE_LABELS[type]}`, node.position);
+                }
+                return type;
+            });
+            return typeof spec.returns === 'function' ? spec.returns(types) : spec.returns;
+        }
+    }
+};
+
+const readCell = (value, type, locale) => {
+    if (value === null || value === undefined || value === '') return null;
+    if (type === 'number') return parseLocaleNumber(value, locale);
+    if (type === 'date') return toDate(value);
+    if (type === 'boolean') return toBoolean(value);
+    return typeof value === 'string' ? value : String(value);
+};
+
+const compare = (operator, left, right) => {
+    if (isBlank(left) || isBlank(right)) {
+        if (operator === '=') return isBlank(left) && isBlank(right);
+        if (operator === '<>') return isBlank(left) !== isBlank(right);
+        return null;
+    }
+    const a = left instanceof Date ? left.getTime() : typeof left === 'string' ? left.toLowerCase() : left;
+    const b = right instanceof Date ? right.getTime() : typeof right === 'string' ? right.toLowerCase() : right;
+    switch (operator) {
+        case '=': return a === b;
+        case '<>': return a !== b;
+        case '<': return a < b;
+        case '>': return a > b;
+        case '<=': return a <= b;
+        default: return a >= b;
+    }
+};
+
+const evaluateNode = (node, row, columns, locale) => {
+    switch (node.type) {
+        case 'number':
+        case 'string':
+        case 'boolean':
+            return node.value;
+        case 'column': {
+            const column = findColumn(columns, node.name);
+            return readCell(row[column], columns[column], locale);
+        }
+        case 'negate': {
+            const value = toNumber(evaluateNode(node.operand, row, columns, locale));
+            return value === null ? null : -value;
+        }
+        case 'binary': {
+            const left = evaluateNode(node.left, row, columns, locale);
+            const right = evaluateNode(node.right, row, columns, locale);
+            if (node.operator === '&') return toText(left) + toText(right);
+            if (PRECEDENCE[node.operator] === 1) return compare(node.operator, left, right);
+
+            if (left instanceof Date || right instanceof Date) {
+                if (left instanceof Date && right instanceof Date) return Math.round((left.getTime() - right.getTime()) / DAY_MS);
+                const date = left instanceof Date ? left : right;
+                const days = toNumber(left instanceof Date ? right : left);
+                if (days === null) return null;
+                return new Date(date.getTime() + (node.operator === '-' ? -days : days) * DAY_MS);
+            }
+
+            const a = toNumber(left);
+            const b = toNumber(right);
+            if (a === null || b === null) return null;
+            switch (node.operator) {
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                case '/': return b === 0 ? null : a / b;
+                default: return Math.pow(a, b);
+            }
+        }
+        case 'call':
+            return FUNCTIONS[node.name].evaluate(node.args.map(arg => evaluateNode(arg, row, columns, locale)));
+    }
+};
+
+const toCellValue = (value) => {
+    if (value === null) return '';
+    if (value instanceof Date) return isNaN(value.getTime()) ? '' : toIsoDate(value);
+    if (typeof value === 'number') return isFinite(value) ? Math.round(value * 1e10) / 1e10 : '';
+    return value;
+};
+
+const getColumnTypes = (data, locale) => {
+    const columns = Object.keys(data[0] || {});
+    return Object.fromEntries(columns.map(column => [
+        column,
+        toFormulaType(inferColumnType(data.map(row => row[column]), { locale, name: column }).storageType)
+    ]));
+};
+
+// Validates calculated columns sent by the client. Returns { calculatedColumns } or { error }.
+export const normalizeCalculatedColumns = (columns) => {
+    if (columns === undefined || columns === null) return { calculatedColumns: [] };
+    if (!Array.isArray(columns)) {
+        return { error: 'calculatedColumns must be an array' };
+    }
+    for (const column of columns) {
+        if (!column || typeof column.name !== 'string' || !column.name.trim() || typeof column.formula !== 'string') {
+            return { error: 'Each calculated column needs a name and a formula' };
+        }
+        try {
+            parseFormula(column.formula);
+        } catch (error) {
+            return { error: `Invalid formula for ${column.name}: ${error.message}` };
+        }
+    }
+    return { calculatedColumns: columns.map(({ name, formula }) => ({ name: name.trim(), formula })) };
+};
+
+// Adds calculated columns, in order, to rows read with readFileSheet. A later
+// column may use an earlier one. Throws a FormulaError when a formula doesn't
+// fit the data.
+export const applyCalculatedColumns = (data, calculatedColumns = [], locale) => {
+    let rows = data;
+    calculatedColumns.forEach(({ name, formula }) => {
+        const { [name]: _replaced, ...columnTypes } = getColumnTypes(rows, locale);
+        const node = parseFormula(formula);
+        checkFormula(node, columnTypes);
+        rows = rows.map(row => ({ ...row, [name]: toCellValue(evaluateNode(node, row, columnTypes, locale)) }));
+    });
+    return rows;
+};
@@ -0,0 +1,111 @@
+import XLSX from 'xlsx';
+
+// Mirrors src/utils/importFormats.ts on the client so stored uploads are read
+// the same way they were parsed in the browser.
+
+const EXTENSION_FORMATS = {
+    xlsx: 'workbook',
+    xls: 'workbook',
+    ods: 'workbook',
+    csv: 'delimited',
+    tsv: 'delimited',
+    tab: 'delimited',
+    txt: 'delimited',
+    json: 'json'
+};
+
+const MIME_FORMATS = {
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'workbook', // .xlsx
+    'application/vnd.ms-excel': 'workbook', // .xls
+    'application/vnd.oasis.opendocument.spreadsheet': 'workbook', // .ods
+    'text/csv': 'delimited', // .csv
+    'application/csv': 'delimited', // .csv (sometimes)
+    'text/tab-separated-values': 'delimited', // .tsv
+    'text/plain': 'delimited', // .tsv/.txt (sometimes .csv)
+    'application/json': 'json', // .json
+    'text/json': 'json' // .json (sometimes)
+};
+
+export const detectImportFormat = (filename = '', mimeType = '') => {
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    return EXTENSION_FORMATS[extension] || MIME_FORMATS[mimeType] || null;
+};
+
+const isPlainObject = (value) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const findRecords = (value, depth = 0) => {
+    if (Array.isArray(value)) return value;
+    if (!isPlainObject(value) || depth > 2) return null;
+
+    for (const child of Object.values(value)) {
+        if (Array.isArray(child) && child.some(isPlainObject)) return child;
+    }
+    for (const child of Object.values(value)) {
+        const nested = findRecords(child, depth + 1);
+        if (nested) return nested;
+    }
+    return null;
+};
+
+const flattenRecord = (record, prefix = '', target = {}) => {
+    Object.entries(record).forEach(([key, value]) => {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(value)) {
+            flattenRecord(value, name, target);
+        } else if (Array.isArray(value)) {
+            target[name] = value.every(item => !isPlainObject(item) && !Array.isArray(item))
+                ? value.join(', ')
+                : JSON.stringify(value);
+        } else {
+            target[name] = value ?? '';
+        }
+    });
+    return target;
+};
+
+export const jsonToWorkbook = (text) => {
+    let parsed;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new Error('The JSON file could not be parsed');
+    }
+
+    const records = findRecords(parsed) ?? (isPlainObject(parsed) ? [parsed] : null);
+    if (!records || records.length === 0) {
+        throw new Error('No records found in the JSON file');
+    }
+
+    let worksheet;
+    if (records.every(Array.isArray)) {
+        worksheet = XLSX.utils.aoa_to_sheet(records);
+    } else if (records.every(isPlainObject)) {
+        worksheet = XLSX.utils.json_to_sheet(records.map(record => flattenRecord(record)));
+    } else {
+        worksheet = XLSX.utils.json_to_sheet(records.map(value => ({ value: isPlainObject(value) ? JSON.stringify(value) : value })));
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Data');
+    return workbook;
+};
+
+export const delimitedTextToWorkbook = (text) => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const options = { type: 'string', raw: true };
+    if (firstLine.includes('\t')) options.FS = '\t';
+    return XLSX.read(text.replace(/^\uFEFF/, ''), options);
+};
+
+export const readWorkbookFromBuffer = (buffer, format) => {
+    switch (format) {
+        case 'json':
+            return jsonToWorkbook(buffer.toString('utf-8'));
+        case 'delimited':
+            return delimitedTextToWorkbook(buffer.toString('utf-8'));
+        default:
+            // Date cells come back as Date objects rather than serial numbers
+            return XLSX.read(buffer, { type: 'buffer', cellDates: true });
+    }
+};
@@ -0,0 +1,174 @@
+// Mirrors src/utils/localeParsing.ts on the client so a file's numbers and
+// dates are read the same way on both sides.
+
+export const DEFAULT_LOCALE_SETTINGS = {
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    currencySymbols: ['$', '€', '£', '¥', '₹', 'CHF', 'USD', 'EUR', 'GBP'],
+    dateOrder: 'MDY'
+};
+
+const DECIMAL_SEPARATORS = ['.', ','];
+const THOUSANDS_SEPARATORS = [',', '.', ' ', "'", ''];
+const DATE_ORDERS = ['DMY', 'MDY'];
+
+// Falls back to the defaults for anything missing or invalid (e.g. a file
+// uploaded before locale settings existed)
+export const normalizeLocaleSettings = (locale) => {
+    const settings = locale && typeof locale.toObject === 'function' ? locale.toObject() : locale || {};
+    return {
+        decimalSeparator: DECIMAL_SEPARATORS.includes(settings.decimalSeparator)
+            ? settings.decimalSeparator
+            : DEFAULT_LOCALE_SETTINGS.decimalSeparator,
+        thousandsSeparator: THOUSANDS_SEPARATORS.includes(settings.thousandsSeparator)
+            ? settings.thousandsSeparator
+            : DEFAULT_LOCALE_SETTINGS.thousandsSeparator,
+        currencySymbols: Array.isArray(settings.currencySymbols) && settings.currencySymbols.length > 0
+            ? settings.currencySymbols.filter(symbol => typeof symbol === 'string' && symbol)
+            : DEFAULT_LOCALE_SETTINGS.currencySymbols,
+        dateOrder: DATE_ORDERS.includes(settings.dateOrder)
+            ? settings.dateOrder
+            : DEFAULT_LOCALE_SETTINGS.dateOrder
+    };
+};
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Parses "1.234,56 €", "(1,234)", "-12,5 %" etc. Percentages keep their face
+// value (12% -> 12). Returns null for anything that isn't a number.
+export const parseLocaleNumber = (value, locale = DEFAULT_LOCALE_SETTINGS) => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    const settings = normalizeLocaleSettings(locale);
+    let text = value.replace(/[\s\u00a0\u202f]+/g, ' ').trim();
+    if (text === '') return null;
+
+    let negative = false;
+    let currency = false;
+
+    const accounting = text.match(/^\((.*)\)$/);
+    if (accounting) {
+        negative = true;
+        text = accounting[1].trim();
+    }
+    if (text.endsWith('%')) {
+        text = text.slice(0, -1).trim();
+    }
+
+    const sign = text.match(/^[+-]/);
+    if (sign) {
+        negative = negative || sign[0] === '-';
+        text = text.slice(1).trim();
+    }
+
+    const symbols = [...settings.currencySymbols].sort((a, b) => b.length - a.length);
+    for (const symbol of symbols) {
+        if (text.startsWith(symbol)) {
+            text = text.slice(symbol.length).trim();
+            currency = true;
+            break;
+        }
+        if (text.endsWith(symbol)) {
+            text = text.slice(0, -symbol.length).trim();
+            currency = true;
+            break;
+        }
+    }
+
+    // "$-5" puts the sign after the symbol
+    if (currency && !sign && /^[+-]/.test(text)) {
+        negative = negative || text[0] === '-';
+        text = text.slice(1).trim();
+    }
+
+    const decimal = escapeRegExp(settings.decimalSeparator);
+    const plain = new RegExp(`^(\\d+(${decimal}\\d*)?|${decimal}\\d+)$`);
+    const grouped = settings.thousandsSeparator
+        ? new RegExp(`^\\d{1,3}(${escapeRegExp(settings.thousandsSeparator)}\\d{3})+(${decimal}\\d*)?$`)
+        : null;
+    const scientific = settings.decimalSeparator === '.' ? /^\d+(\.\d+)?e[+-]?\d+$/i : null;
+
+    let normalized;
+    if (plain.test(text) || scientific?.test(text)) {
+        normalized = text.replace(settings.decimalSeparator, '.');
+    } else if (grouped?.test(text)) {
+        normalized = text.split(settings.thousandsSeparator).join('').replace(settings.decimalSeparator, '.');
+    } else {
+        return null;
+    }
+
+    const number = Number(normalized);
+    if (!isFinite(number)) return null;
+    return negative ? -number : number;
+};
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const TIME_SUFFIX = String.raw`(?:[T\s]+\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s?[AaPp][Mm])?(?:Z|[+-]\d{2}:?\d{2})?)?`;
+const YEAR_FIRST_DATE = new RegExp(`^(\\d{4})([-/.])(\\d{1,2})\\2(\\d{1,2})${TIME_SUFFIX}$`);
+const NUMERIC_DATE = new RegExp(`^(\\d{1,2})([-/.])(\\d{1,2})\\2(\\d{4}|\\d{2})${TIME_SUFFIX}$`);
+const MONTH_NAME_FIRST_DATE = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/; // Jan 1, 2023
+const DAY_FIRST_NAMED_DATE = /^(\d{1,2})[\s-]+([A-Za-z]{3,9})\.?[\s-]+(\d{4})$/; // 1 Jan 2023, 31-Dec-2024
+
+const monthFromName = (name) => {
+    const lower = name.toLowerCase();
+    return MONTH_NAMES.findIndex(month => month.startsWith(lower) && lower.length >= 3) + 1;
+};
+
+const expandYear = (year) => {
+    const value = parseInt(year, 10);
+    if (year.length === 4) return value;
+    return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const toDate = (year, month, day) => {
+    if (year <= 1900 || year >= 2100 || month < 1 || month > 12 || day < 1) return null;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > daysInMonth) return null;
+    return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Parses a date string to a UTC Date. `order` ('DMY' or 'MDY') decides how
+// 03/04/2024 is read; year-first and month-name dates are unambiguous.
+export const parseLocaleDate = (value, order = DEFAULT_LOCALE_SETTINGS.dateOrder) => {
+    if (value instanceof Date) return isNaN(value) ? null : value;
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+
+    const yearFirst = text.match(YEAR_FIRST_DATE);
+    if (yearFirst) return toDate(parseInt(yearFirst[1], 10), parseInt(yearFirst[3], 10), parseInt(yearFirst[4], 10));
+
+    const numeric = text.match(NUMERIC_DATE);
+    if (numeric) {
+        const first = parseInt(numeric[1], 10);
+        const second = parseInt(numeric[3], 10);
+        const year = expandYear(numeric[4]);
+        return order === 'DMY' ? toDate(year, second, first) : toDate(year, first, second);
+    }
+
+    const monthFirst = text.match(MONTH_NAME_FIRST_DATE);
+    if (monthFirst) return toDate(parseInt(monthFirst[3], 10), monthFromName(monthFirst[1]), parseInt(monthFirst[2], 10));
+
+    const dayFirst = text.match(DAY_FIRST_NAMED_DATE);
+    if (dayFirst) return toDate(parseInt(dayFirst[3], 10), monthFromName(dayFirst[2]), parseInt(dayFirst[1], 10));
+
+    return null;
+};
+
+// Picks the day/month order that reads the most values as valid dates,
+// falling back to the file's preferred order when both fit equally
+export const resolveDateOrder = (values, locale = DEFAULT_LOCALE_SETTINGS) => {
+    const { dateOrder } = normalizeLocaleSettings(locale);
+    let validDMY = 0;
+    let validMDY = 0;
+
+    values.forEach(value => {
+        if (typeof value !== 'string' || !NUMERIC_DATE.test(value.trim())) return;
+        if (parseLocaleDate(value, 'DMY')) validDMY++;
+        if (parseLocaleDate(value, 'MDY')) validMDY++;
+    });
+
+    if (validDMY === validMDY) return dateOrder;
+    return validDMY > validMDY ? 'DMY' : 'MDY';
+};
@@ -0,0 +1,80 @@
+import { parseLocaleNumber } from './localeParsing.js';
+
+// Outlier detection used by column statistics and insights. Mirrors
+// src/utils/outliers.ts on the client so both flag the same values; the
+// method is chosen per column and stored in the data dictionary.
+export const OUTLIER_METHODS = {
+    iqr: { label: 'IQR', defaultThreshold: 1.5 },
+    mad: { label: 'robust z-score (MAD)', defaultThreshold: 3.5 },
+    percentile: { label: 'percentile caps', defaultThreshold: 1 }
+};
+
+export const DEFAULT_OUTLIER_SETTINGS = { method: 'iqr', threshold: OUTLIER_METHODS.iqr.defaultThreshold };
+
+// Short label for messages, e.g. "IQR, k=1.5"
+export const describeOutlierSettings = ({ method, threshold }) => {
+    if (method === 'iqr') return `IQR, k=${threshold}`;
+    if (method === 'mad') return `MAD, z>${threshold}`;
+    return `p${threshold}/p${100 - threshold}`;
+};
+
+// Validates settings sent by the client. Returns null when they are unusable.
+export const normalizeOutlierSettings = (settings) => {
+    if (!settings || !OUTLIER_METHODS[settings.method]) return null;
+    const threshold = Number(settings.threshold);
+    if (!(threshold > 0) || (settings.method === 'percentile' && threshold >= 50)) return null;
+    return { method: settings.method, threshold };
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const quantile = (sorted, q) => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Scales MAD to the standard deviation of a normal distribution
+const MAD_SCALE = 0.6745;
+// Scales the mean absolute deviation the same way, used when MAD is 0
+const MEAN_AD_SCALE = 0.7979;
+
+export const computeOutlierBounds = (numbers, settings = DEFAULT_OUTLIER_SETTINGS) => {
+    if (numbers.length < 3) return null;
+    const sorted = Float64Array.from(numbers).sort();
+    const { method, threshold } = settings;
+
+    if (method === 'iqr') {
+        const q1 = quantile(sorted, 0.25);
+        const q3 = quantile(sorted, 0.75);
+        const iqr = q3 - q1;
+        return { method, threshold, lower: q1 - threshold * iqr, upper: q3 + threshold * iqr };
+    }
+
+    if (method === 'mad') {
+        const median = quantile(sorted, 0.5);
+        const deviations = Float64Array.from(sorted, x => Math.abs(x - median)).sort();
+        let spread = quantile(deviations, 0.5) / MAD_SCALE;
+        if (spread === 0) {
+            // More than half the values are identical; fall back to the mean absolute deviation
+            spread = deviations.reduce((sum, d) => sum + d, 0) / deviations.length / MEAN_AD_SCALE;
+        }
+        if (spread === 0) return { method, threshold, lower: median, upper: median };
+        return { method, threshold, lower: median - threshold * spread, upper: median + threshold * spread };
+    }
+
+    const tail = Math.min(Math.max(threshold, 0), 50) / 100;
+    return { method, threshold, lower: quantile(sorted, tail), upper: quantile(sorted, 1 - tail) };
+};
+
+// Flags values of a column; non-numeric and empty values are never outliers.
+// Returns { bounds, values } or null when there are too few numbers.
+export const detectOutliers = (values, settings = DEFAULT_OUTLIER_SETTINGS, locale) => {
+    const numbers = values.map(value => parseLocaleNumber(value, locale)).filter(num => num !== null);
+    const bounds = computeOutlierBounds(numbers, settings || DEFAULT_OUTLIER_SETTINGS);
+    if (!bounds) return null;
+    return {
+        bounds,
+        values: numbers.filter(num => num < bounds.lower || num > bounds.upper)
+    };
+};
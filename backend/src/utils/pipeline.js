@@ -0,0 +1,38 @@
+// Recorded transformation pipelines. Mirrors the operation kinds of
+// src/utils/pipeline.ts; the server stores and matches pipelines, the client
+// replays them.
+export const PIPELINE_OPERATIONS = ['clean', 'filter', 'schema', 'derive', 'reshape', 'dedupe'];
+
+export const MAX_PIPELINE_STEPS = 500;
+
+// Validates steps sent by the client. Returns { steps } or { error }.
+export const normalizePipelineSteps = (steps) => {
+    if (!Array.isArray(steps)) {
+        return { error: 'steps must be an array' };
+    }
+    if (steps.length > MAX_PIPELINE_STEPS) {
+        return { error: `A pipeline can have at most ${MAX_PIPELINE_STEPS} steps` };
+    }
+
+    const normalized = [];
+    for (const step of steps) {
+        if (!step || typeof step.id !== 'string' || !step.operation || typeof step.operation !== 'object') {
+            return { error: 'Each step needs an id and an operation' };
+        }
+        if (!PIPELINE_OPERATIONS.includes(step.operation.kind)) {
+            return { error: `Unknown pipeline operation: ${step.operation.kind}` };
+        }
+        normalized.push({
+            id: step.id,
+            label: typeof step.label === 'string' ? step.label : '',
+            operation: step.operation,
+            createdAt: step.createdAt ? new Date(step.createdAt) : new Date()
+        });
+    }
+
+    return { steps: normalized };
+};
+
+// A pipeline fits a sheet when every column it was recorded on is still there
+export const pipelineMatchesColumns = (pipeline, columns) =>
+    pipeline.sourceColumns.length > 0 && pipeline.sourceColumns.every(column => columns.includes(column));
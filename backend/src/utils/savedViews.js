@@ -0,0 +1,66 @@
+// Saved views: named DataPreview states (search, column filters, sort order,
+// hidden columns and column order) stored per user and file. Mirrors
+// src/utils/savedViews.ts; the server stores views, the client applies them.
+
+export const FILTER_KINDS = ['range', 'dateRange', 'values', 'text'];
+export const SORT_DIRECTIONS = ['asc', 'desc'];
+
+export const MAX_VIEW_NAME_LENGTH = 100;
+export const MAX_VIEWS_PER_FILE = 50;
+
+const isStringArray = (value) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Validates a view sent by the client. Returns { view } or { error }; fields
+// left out get their empty value.
+export const normalizeViewState = (body) => {
+    if (!body || typeof body !== 'object') {
+        return { error: 'A view must be an object' };
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+        return { error: 'A view needs a name' };
+    }
+    if (name.length > MAX_VIEW_NAME_LENGTH) {
+        return { error: `View names can be at most ${MAX_VIEW_NAME_LENGTH} characters` };
+    }
+
+    const search = body.search ?? '';
+    const searchColumn = body.searchColumn ?? '';
+    if (typeof search !== 'string' || typeof searchColumn !== 'string') {
+        return { error: 'search and searchColumn must be text' };
+    }
+
+    const filters = body.filters ?? {};
+    if (typeof filters !== 'object' || Array.isArray(filters)) {
+        return { error: 'filters must map column names to filters' };
+    }
+    for (const [column, filter] of Object.entries(filters)) {
+        if (!filter || !FILTER_KINDS.includes(filter.kind)) {
+            return { error: `Unknown filter on column "${column}"` };
+        }
+    }
+
+    const sortKeys = body.sortKeys ?? [];
+    if (!Array.isArray(sortKeys) || !sortKeys.every(key => key && typeof key.column === 'string' && SORT_DIRECTIONS.includes(key.direction))) {
+        return { error: 'sortKeys must be a list of { column, direction }' };
+    }
+
+    const hiddenColumns = body.hiddenColumns ?? [];
+    const columnOrder = body.columnOrder ?? [];
+    if (!isStringArray(hiddenColumns) || !isStringArray(columnOrder)) {
+        return { error: 'hiddenColumns and columnOrder must be lists of column names' };
+    }
+
+    return {
+        view: {
+            name,
+            search,
+            searchColumn,
+            filters,
+            sortKeys: sortKeys.map(({ column, direction }) => ({ column, direction })),
+            hiddenColumns,
+            columnOrder
+        }
+    };
+};
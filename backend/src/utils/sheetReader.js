@@ -0,0 +1,83 @@
+import XLSX from 'xlsx';
+import axios from 'axios';
+import { detectImportFormat, readWorkbookFromBuffer } from './importFormats.js';
+import { applyDataDictionary } from './columnSchema.js';
+import { buildHeaderNames, detectTableRegion, normalizeRegion } from './tableDetection.js';
+
+// Download the stored upload from Cloudinary and parse it into a workbook.
+// JSON and tab-separated uploads are converted to a single-sheet workbook.
+export const loadWorkbook = async (file) => {
+    const response = await axios.get(file.fileUrl, { responseType: 'arraybuffer' });
+    const buffer = Buffer.from(response.data);
+    const format = detectImportFormat(file.filename, file.mimeType) || 'workbook';
+    return readWorkbookFromBuffer(buffer, format);
+};
+
+// Resolve the sheet a file document points at, falling back to the first sheet
+export const resolveSheetName = (workbook, sheetName) => {
+    if (sheetName && workbook.SheetNames.includes(sheetName)) {
+        return sheetName;
+    }
+    return workbook.SheetNames[0];
+};
+
+// Cuts the file's table region out of the worksheet: the region stored at
+// upload (or detected, like the client does, for files without one), with
+// its column names flattened and deduplicated the way the client names them.
+// Returns { headers, rows } with blank rows dropped.
+const readTable = (worksheet, storedRegion, { raw = true, defval }) => {
+    const ref = worksheet['!ref'];
+    if (!ref) return { headers: [], rows: [] };
+    // Anchored at A1 so region indexes match the client's grid
+    const { e } = XLSX.utils.decode_range(ref);
+    const grid = XLSX.utils.sheet_to_json(worksheet, {
+        header: 1,
+        raw,
+        defval: null,
+        blankrows: true,
+        range: { s: { r: 0, c: 0 }, e }
+    });
+    if (grid.length === 0) return { headers: [], rows: [] };
+
+    const merges = worksheet['!merges'] || [];
+    const hasRegion = storedRegion && storedRegion.headerRow !== undefined && storedRegion.headerRow !== null;
+    const region = normalizeRegion(grid, hasRegion ? storedRegion : detectTableRegion(grid, merges));
+    const headers = buildHeaderNames(grid, region, merges);
+
+    const rows = [];
+    for (let r = region.firstDataRow; r <= region.lastDataRow; r++) {
+        const cells = headers.map((_, index) => grid[r]?.[region.firstColumn + index] ?? null);
+        if (cells.every(value => value === null || String(value).trim() === '')) continue;
+        rows.push(cells.map(value => value === null ? defval : value));
+    }
+    return { headers, rows };
+};
+
+// Read the selected sheet of a file document. Pass { header: 1 } to get an
+// array of arrays (header row first) instead of an array of objects. Columns
+// are renamed and retyped by the file's data dictionary unless
+// { dictionary: false } is passed. Only the file's table region is read, so
+// title rows and footnotes around the table are skipped; empty cells are
+// left out of row objects unless a defval is passed.
+export const readFileSheet = async (file, options = {}) => {
+    const { dictionary = true, ...sheetOptions } = options;
+    const workbook = await loadWorkbook(file);
+    if (workbook.SheetNames.length === 0) {
+        throw new Error('No sheets found in the uploaded file');
+    }
+
+    const sheetName = resolveSheetName(workbook, file.sheetName);
+    const worksheet = workbook.Sheets[sheetName];
+    const { headers, rows } = readTable(worksheet, file.region, sheetOptions);
+    if (headers.length === 0) return [];
+    const data = sheetOptions.header === 1
+        ? [headers, ...rows]
+        : rows.map(cells => {
+            const row = {};
+            headers.forEach((name, index) => {
+                if (cells[index] !== undefined) row[name] = cells[index];
+            });
+            return row;
+        });
+    return dictionary ? applyDataDictionary(data, file.columns, file.locale, sheetOptions) : data;
+};
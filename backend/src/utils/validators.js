@@ -1,40 +1,16 @@
-export const isNumber = (value) => {
-    if (typeof value === 'number') return true;
-    if (typeof value !== 'string') return false;
-
-    // Remove common number formatting
-    const cleanValue = value
-        .replace(/,/g, '')  // Remove commas
-        .replace(/\$/g, '') // Remove dollar signs
-        .replace(/%$/, '')  // Remove trailing percent
-        .trim();
+import { parseLocaleDate, parseLocaleNumber } from './localeParsing.js';
 
-    // Test if it's a valid number
-    return !isNaN(cleanValue) && isFinite(cleanValue);
+// `locale` is the file's number/date settings (see utils/localeParsing.js);
+// without one, US formats are assumed
+export const isNumber = (value, locale) => {
+    return parseLocaleNumber(value, locale) !== null;
 };
 
+// Day-first and month-first readings are both accepted here; the order for
+// a whole column is picked with resolveDateOrder
 export const isDate = (value) => {
-    if (value instanceof Date) return true;
-    if (typeof value !== 'string') return false;
-
-    // Common date formats
-    const datePatterns = [
-        /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
-        /^\d{2}\/\d{2}\/\d{4}$/, // MM/DD/YYYY or DD/MM/YYYY
-        /^\d{2}-\d{2}-\d{4}$/, // MM-DD-YYYY or DD-MM-YYYY
-        /^\d{4}\/\d{2}\/\d{2}$/, // YYYY/MM/DD
-        /^\d{2}\.\d{2}\.\d{4}$/, // DD.MM.YYYY
-        /^\d{4}\.\d{2}\.\d{2}$/, // YYYY.MM.DD
-    ];
-
-    // Test against patterns
-    if (!datePatterns.some(pattern => pattern.test(value))) {
-        return false;
-    }
-
-    // Try parsing the date
-    const date = new Date(value);
-    return date instanceof Date && !isNaN(date);
+    if (value instanceof Date) return !isNaN(value);
+    return parseLocaleDate(value, 'DMY') !== null || parseLocaleDate(value, 'MDY') !== null;
 };
 
 export const isEmail = (value) => {
@@ -79,7 +55,7 @@ export const isValidFileName = (value) => {
     return fileNamePattern.test(value);
 };
 
-export const isValidFileSize = (size, maxSize = 10 * 1024 * 1024) => {
+export const isValidFileSize = (size, maxSize = 50 * 1024 * 1024) => {
     return typeof size === 'number' && size > 0 && size <= maxSize;
 };
 
@@ -12,8 +12,41 @@ import {
   Tooltip,
   Legend,
   Filler,
+  ChartData,
+  ChartType,
+  LegendItem,
+  Point,
+  TooltipItem,
 } from 'chart.js';
 import { Bar, Line, Pie, Scatter } from 'react-chartjs-2';
+import { LocaleSettings } from "@/utils/localeParsing";
+import {
+  buildCategorySeries,
+  buildScatterSeries,
+  ChartGrouping,
+  DATE_BUCKETS,
+  DEFAULT_CHART_GROUPING,
+  describeAggregation,
+  nextPeriodLabels,
+  periodPosition,
+  StackMode,
+  toPercentStacked
+} from "@/utils/chartSeries";
+import {
+  DEFAULT_TRENDLINE,
+  describeTrend,
+  fitTrend,
+  isStatisticalChart,
+  StatisticalChartType,
+  TrendFit,
+  TrendlineSettings,
+  TrendPoint
+} from "@/utils/chartStats";
+import { backgroundColors, borderColors, colorAt, withAlpha } from "@/utils/chartPalette";
+import { StatisticalChart } from "@/components/chart/StatisticalChart";
+import { BusinessChartType, isBusinessChart } from "@/utils/businessCharts";
+import { BusinessChart } from "@/components/chart/BusinessChart";
+import type { Row } from "@/utils/excelUtils";
 
 ChartJS.register(
   CategoryScale,
@@ -28,91 +61,238 @@ ChartJS.register(
   Filler
 );
 
+// Values by label, or {x, y} points on scatter plots. The same data goes to
+// whichever chart component draws the type, so it has to fit each of them.
+type ChartValues = (number | Point | null)[];
+type Chart2DData = ChartData<'bar', ChartValues, string>
+  & ChartData<'line', ChartValues, string>
+  & ChartData<'pie', ChartValues, string>
+  & ChartData<'scatter', ChartValues, string>;
+
+// Confidence band datasets are marked `band: true` by trendDatasets
+const isBand = (dataset: object | undefined) => dataset !== undefined && 'band' in dataset;
+
+// Points a scatter trendline is drawn through
+const TREND_SAMPLES = 60;
+
+// A series' trendline in its color, dashed, with the band shaded where shown:
+// around the fit when confidence bands are on, and always around forecasts.
+// Line charts take values by label; scatter plots take {x, y} points.
+const trendDatasets = (label: string, index: number, fit: TrendFit | null, xs: (number | null)[], showConfidence: boolean, byLabel: boolean) => {
+  if (!fit) return [];
+  const points = xs.map(x => x === null ? null : fit.at(x));
+  const datum = (point: TrendPoint | null, value: (point: TrendPoint) => number) =>
+    byLabel ? (point ? value(point) : null) : point && { x: point.x, y: value(point) };
+  const hasBand = (point: TrendPoint | null) => point !== null && (showConfidence || point.x > fit.lastX);
+  const band = (value: (point: TrendPoint) => number) => points.map(point => datum(hasBand(point) ? point : null, value));
+  const color = colorAt(borderColors, index);
+
+  const trend = {
+    label: describeTrend(label, fit),
+    data: points.map(point => datum(point, p => p.y)),
+    borderColor: color,
+    backgroundColor: color,
+    borderWidth: 2,
+    borderDash: [6, 4],
+    pointRadius: 0,
+    showLine: true,
+    fill: false,
+    tension: 0,
+  };
+  if (!points.some(hasBand)) return [trend];
+  return [
+    trend,
+    // Lower edge, filled up to by the upper one; kept out of the legend and tooltips
+    { label: `${label} band`, band: true, data: band(p => p.lower), borderWidth: 0, pointRadius: 0, pointHitRadius: 0, showLine: true, fill: false },
+    { label: `${label} band`, band: true, data: band(p => p.upper), borderWidth: 0, pointRadius: 0, pointHitRadius: 0, showLine: true, fill: '-1', backgroundColor: withAlpha(color, 0.15) },
+  ];
+};
+
 interface Chart2DProps {
-  data: any[];
+  data: Row[];
   xAxis: string;
-  yAxis: string;
-  chartType: 'bar' | 'line' | 'pie' | 'area' | 'scatter';
+  // One series per column
+  yAxes: string[];
+  // Category column fanned out into one series per value; '' for none
+  splitBy?: string;
+  // How bar and area series are laid out
+  stackMode?: StackMode;
+  // Aggregation and X bucketing; scatter plots show every row
+  grouping?: ChartGrouping;
+  // Bubble: column the bubble areas follow
+  sizeColumn?: string;
+  // Sankey: column the flows go to
+  targetColumn?: string;
+  // Treemap: category columns from the outer level in
+  hierarchy?: string[];
+  // Waterfall: X values shown as subtotals
+  waterfallTotals?: string[];
+  // Line and scatter charts: trendline per series, with bands and forecast
+  trendline?: TrendlineSettings;
+  chartType: 'bar' | 'line' | 'pie' | 'area' | 'scatter' | StatisticalChartType | BusinessChartType;
+  locale?: LocaleSettings;
 }
 
-export const Chart2D = ({ data, xAxis, yAxis, chartType }: Chart2DProps) => {
+export const Chart2D = ({
+  data,
+  xAxis,
+  yAxes,
+  splitBy = '',
+  stackMode = 'grouped',
+  grouping = DEFAULT_CHART_GROUPING,
+  sizeColumn,
+  targetColumn,
+  hierarchy,
+  waterfallTotals,
+  trendline = DEFAULT_TRENDLINE,
+  chartType,
+  locale
+}: Chart2DProps) => {
   const chartRef = useRef(null);
 
-  const processData = () => {
-    const labels = data.map(item => item[xAxis]);
-    const values = data.map(item => item[yAxis]);
-
-    const backgroundColors = [
-      'rgba(59, 130, 246, 0.8)',
-      'rgba(147, 51, 234, 0.8)',
-      'rgba(236, 72, 153, 0.8)',
-      'rgba(34, 197, 94, 0.8)',
-      'rgba(251, 146, 60, 0.8)',
-      'rgba(14, 165, 233, 0.8)',
-      'rgba(168, 85, 247, 0.8)',
-      'rgba(244, 63, 94, 0.8)',
-    ];
-
-    const borderColors = [
-      'rgba(59, 130, 246, 1)',
-      'rgba(147, 51, 234, 1)',
-      'rgba(236, 72, 153, 1)',
-      'rgba(34, 197, 94, 1)',
-      'rgba(251, 146, 60, 1)',
-      'rgba(14, 165, 233, 1)',
-      'rgba(168, 85, 247, 1)',
-      'rgba(244, 63, 94, 1)',
-    ];
+  if (isStatisticalChart(chartType)) {
+    return (
+      <StatisticalChart
+        data={data}
+        chartType={chartType}
+        xAxis={xAxis}
+        yAxes={yAxes}
+        splitBy={splitBy}
+        stackMode={stackMode}
+        grouping={grouping}
+        locale={locale}
+      />
+    );
+  }
+
+  if (isBusinessChart(chartType)) {
+    return (
+      <BusinessChart
+        data={data}
+        chartType={chartType}
+        xAxis={xAxis}
+        yAxes={yAxes}
+        splitBy={splitBy}
+        sizeColumn={sizeColumn}
+        targetColumn={targetColumn}
+        hierarchy={hierarchy}
+        waterfallTotals={waterfallTotals}
+        grouping={grouping}
+        locale={locale}
+      />
+    );
+  }
+
+  // Stacking applies to bars and areas with more than one series
+  const isStackable = chartType === 'bar' || chartType === 'area';
+  const stacked = isStackable && stackMode !== 'grouped';
+  const percent = isStackable && stackMode === 'percent';
+
+  const hasTrend = (chartType === 'line' || chartType === 'scatter') && trendline.type !== 'none';
+  // Forecasts continue time series, so they need dates grouped into periods
+  const forecast = chartType === 'line' && hasTrend && grouping.dateBucket !== 'none' ? trendline.forecast : 0;
 
+  const processData = (): Chart2DData => {
     if (chartType === 'scatter') {
+      const scatter = buildScatterSeries(data, { xAxis, yAxes, splitBy, locale });
       return {
+        datasets: [
+          ...scatter.map((series, index) => ({
+            label: series.label,
+            data: series.points,
+            backgroundColor: colorAt(backgroundColors, index),
+            borderColor: colorAt(borderColors, index),
+            borderWidth: 2,
+          })),
+          ...(hasTrend ? scatter.flatMap((series, index) => {
+            const xs = series.points.map(point => point.x);
+            const min = xs.reduce((a, b) => b < a ? b : a, xs[0]);
+            const max = xs.reduce((a, b) => b > a ? b : a, xs[0]);
+            // Moving averages have a value at each X; fitted curves are sampled evenly
+            const sampled = trendline.type === 'moving-average'
+              ? [...new Set(xs)].sort((a, b) => a - b)
+              : Array.from({ length: TREND_SAMPLES }, (_, i) => min + ((max - min) * i) / (TREND_SAMPLES - 1));
+            return trendDatasets(series.label, index, fitTrend(series.points, trendline), sampled, trendline.confidence, false);
+          }) : []),
+        ],
+      };
+    }
+
+    // Pie charts show the first Y column's values by X
+    if (chartType === 'pie') {
+      const { labels, series } = buildCategorySeries(data, { xAxis, yAxes: yAxes.slice(0, 1), locale, ...grouping });
+      return {
+        labels,
         datasets: [
           {
-            label: `${yAxis} vs ${xAxis}`,
-            data: data.map(item => ({
-              x: item[xAxis],
-              y: item[yAxis]
-            })),
-            backgroundColor: 'rgba(59, 130, 246, 0.8)',
-            borderColor: 'rgba(59, 130, 246, 1)',
+            label: describeAggregation(grouping.aggregation, yAxes[0]),
+            data: series[0]?.values ?? [],
+            backgroundColor: labels.map((_, index) => colorAt(backgroundColors, index)),
+            borderColor: labels.map((_, index) => colorAt(borderColors, index)),
             borderWidth: 2,
           },
         ],
       };
     }
 
+    const { labels, positions, series } = buildCategorySeries(data, { xAxis, yAxes, splitBy, locale, ...grouping });
+    const shown = percent ? toPercentStacked(series) : series;
+    // Line trendlines run over the X values (periods of date buckets, bin midpoints or
+    // the numbers themselves), or the label number (1, 2, …) on categorical axes, and
+    // continue into the periods after the last date for forecasts
+    const lastPeriod = positions ? labels.filter((_, i) => positions[i] !== null).pop() : labels[labels.length - 1];
+    const forecastLabels = forecast > 0 && lastPeriod !== undefined ? nextPeriodLabels(lastPeriod, grouping.dateBucket, forecast) : [];
+    const xs = positions
+      ? [...positions, ...forecastLabels.map(label => periodPosition(label, grouping.dateBucket))]
+      : Array.from({ length: labels.length + forecastLabels.length }, (_, i) => i + 1);
+    const trends = chartType === 'line' && hasTrend
+      ? series.flatMap((item, index) => {
+        const points = item.values.flatMap((y, i) => y === null || xs[i] === null ? [] : [{ x: xs[i]!, y }]);
+        return trendDatasets(item.label, index, fitTrend(points, trendline), xs, trendline.confidence, true);
+      })
+      : [];
     return {
-      labels,
+      labels: [...labels, ...forecastLabels],
       datasets: [
-        {
-          label: yAxis,
-          data: values,
-          backgroundColor: chartType === 'pie' 
-            ? backgroundColors.slice(0, labels.length)
-            : chartType === 'area'
-            ? 'rgba(59, 130, 246, 0.4)'
-            : 'rgba(59, 130, 246, 0.8)',
-          borderColor: chartType === 'pie'
-            ? borderColors.slice(0, labels.length)
-            : 'rgba(59, 130, 246, 1)',
+        ...shown.map((item, index) => ({
+          label: item.label,
+          data: item.values,
+          backgroundColor: chartType === 'area'
+            ? withAlpha(colorAt(borderColors, index), stacked ? 0.6 : 0.3)
+            : colorAt(backgroundColors, index),
+          borderColor: colorAt(borderColors, index),
           borderWidth: 2,
-          fill: chartType === 'area' ? true : chartType === 'line' ? false : true,
+          // Stacked areas fill down to the series below
+          fill: chartType === 'area' ? (stacked && index > 0 ? '-1' : 'origin') : chartType === 'line' ? false : true,
           tension: chartType === 'line' || chartType === 'area' ? 0.4 : 0,
-        },
+          spanGaps: true,
+        })),
+        ...trends,
       ],
     };
   };
 
+  const isScatter = chartType === 'scatter';
+  const measure = isScatter || yAxes.length !== 1 ? yAxes.join(', ') : describeAggregation(grouping.aggregation, yAxes[0]);
+  const bucket = !isScatter && grouping.dateBucket !== 'none' ? DATE_BUCKETS.find(b => b.id === grouping.dateBucket)?.label.toLowerCase() : '';
+  const xTitle = bucket ? `${xAxis} (${bucket})` : xAxis;
+  const yTitle = percent ? `Share of total (%)` : measure;
+  const title = `${measure} by ${xTitle}${splitBy ? ` and ${splitBy}` : ''}`;
+
   const options = {
     responsive: true,
     maintainAspectRatio: false,
     plugins: {
+      // Clicking a legend entry hides or shows its series
       legend: {
         position: 'top' as const,
+        labels: {
+          filter: (item: LegendItem, chartData: ChartData) => !isBand(chartData.datasets[item.datasetIndex]),
+        },
       },
       title: {
         display: true,
-        text: `${yAxis} by ${xAxis}`,
+        text: title,
         font: {
           size: 16,
           weight: 'bold' as const,
@@ -124,13 +304,19 @@ export const Chart2D = ({ data, xAxis, yAxis, chartType }: Chart2DProps) => {
         bodyColor: 'white',
         borderColor: 'rgba(255, 255, 255, 0.1)',
         borderWidth: 1,
+        filter: (item: TooltipItem<ChartType>) => !isBand(item.dataset),
+        ...(percent ? {
+          callbacks: {
+            label: (context: TooltipItem<ChartType>) => `${context.dataset.label}: ${context.parsed.y?.toFixed(1)}%`,
+          },
+        } : {}),
       },
     },
     scales: chartType !== 'pie' ? {
       x: {
         title: {
           display: true,
-          text: xAxis,
+          text: xTitle,
           font: {
             weight: 'bold' as const,
           },
@@ -138,11 +324,12 @@ export const Chart2D = ({ data, xAxis, yAxis, chartType }: Chart2DProps) => {
         grid: {
           color: 'rgba(0, 0, 0, 0.1)',
         },
+        stacked,
       },
       y: {
         title: {
           display: true,
-          text: yAxis,
+          text: yTitle,
           font: {
             weight: 'bold' as const,
           },
@@ -150,6 +337,8 @@ export const Chart2D = ({ data, xAxis, yAxis, chartType }: Chart2DProps) => {
         grid: {
           color: 'rgba(0, 0, 0, 0.1)',
         },
+        stacked,
+        ...(percent ? { min: 0, max: 100 } : {}),
       },
     } : {},
   };
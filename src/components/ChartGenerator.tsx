@@ -9,18 +9,36 @@ import { ChartControls, ChartConfig } from "@/components/chart/ChartControls";
 import { ChartSidebar } from "@/components/chart/ChartSidebar";
 import { AIInsights } from './AIInsights';
 import { createAnalysis, exportAnalysis } from "@/utils/api";
-import jsPDF from 'jspdf';
+import { LocaleSettings } from "@/utils/localeParsing";
+import { DEFAULT_CHART_GROUPING, isChartReady } from "@/utils/chartSeries";
+import { DEFAULT_TRENDLINE } from "@/utils/chartStats";
+import { ColumnSchemaEntry, getTypeOverrides, toDataDictionary } from "@/utils/columnSchema";
+import { CalculatedColumn } from "@/utils/formula";
 // @ts-ignore: No types for jspdf in node_modules
+import jsPDF from 'jspdf';
 
 interface ChartGeneratorProps {
   data: any[];
   fileId?: string | null;
+  locale?: LocaleSettings;
+  schema?: ColumnSchemaEntry[];
+  // Formula columns in the data; saved with the chart so the server can recompute them
+  calculatedColumns?: CalculatedColumn[];
 }
 
-export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
+export const ChartGenerator = ({ data, fileId, locale, schema = [], calculatedColumns = [] }: ChartGeneratorProps) => {
   const [config, setConfig] = useState<ChartConfig>({
     xAxis: "",
     yAxis: "",
+    yAxes: [],
+    splitBy: "",
+    stackMode: 'grouped',
+    grouping: DEFAULT_CHART_GROUPING,
+    sizeColumn: "",
+    targetColumn: "",
+    hierarchy: [],
+    waterfallTotals: [],
+    trendline: DEFAULT_TRENDLINE,
     zAxis: "",
     chartType: 'bar',
     chartDimension: '2d'
@@ -46,6 +64,26 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
     );
   }
 
+  // Series, split, stacking and grouping of 2D charts, as saved with the chart
+  const seriesConfig = config.chartDimension === '3d' ? {} : {
+    series: config.yAxes.map(column => ({ column, label: column })),
+    ...(config.splitBy ? { splitBy: { column: config.splitBy, label: config.splitBy } } : {}),
+    stackMode: config.stackMode,
+    ...(config.chartType === 'scatter' ? {} : {
+      aggregation: config.grouping.aggregation,
+      dateBucket: config.grouping.dateBucket,
+      bins: config.grouping.bins,
+      topN: config.grouping.topN
+    }),
+    ...(config.chartType === 'bubble' ? { size: { column: config.sizeColumn, label: config.sizeColumn } } : {}),
+    ...(config.chartType === 'sankey' ? { target: { column: config.targetColumn, label: config.targetColumn } } : {}),
+    ...(config.chartType === 'treemap' ? { hierarchy: config.hierarchy.map(column => ({ column, label: column })) } : {}),
+    ...(config.chartType === 'waterfall' ? { totals: config.waterfallTotals } : {}),
+    ...((config.chartType === 'line' || config.chartType === 'scatter') && config.trendline.type !== 'none' ? { trendline: config.trendline } : {})
+  };
+  const xLabel = config.chartType === 'treemap' ? config.hierarchy.join(' › ') : config.xAxis;
+  const yLabel = config.chartDimension === '3d' ? config.yAxis : config.yAxes.join(', ');
+
   const handleSaveChart = async () => {
     setSaving(true);
     try {
@@ -56,16 +94,18 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
         return;
       }
       const body = {
-        name: `Chart: ${config.chartType} (${config.xAxis} vs ${config.yAxis}${config.zAxis ? ' vs ' + config.zAxis : ''})`,
+        name: `Chart: ${config.chartType} (${xLabel} vs ${yLabel}${config.zAxis ? ' vs ' + config.zAxis : ''})${config.splitBy && config.chartDimension === '2d' ? ` by ${config.splitBy}` : ''}`,
         type: 'visualization',
         chartConfig: {
           type: config.chartDimension === '3d' ? '3d-bar' : config.chartType,
           xAxis: { column: config.xAxis, label: config.xAxis },
           yAxis: { column: config.yAxis, label: config.yAxis },
+          ...seriesConfig,
           ...(config.chartDimension === '3d' && config.zAxis ? { zAxis: { column: config.zAxis, label: config.zAxis } } : {})
         },
         data: data,
         file: fileId,
+        calculatedColumns
       };
       const res = await createAnalysis(body, token);
       setAnalysisId(res.data.analysis._id);
@@ -184,9 +224,11 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
       type: is3D ? '3d-bar' : config.chartType,
       xAxis: { column: config.xAxis, label: config.xAxis },
       yAxis: { column: config.yAxis, label: config.yAxis },
+      ...seriesConfig,
       ...(is3D && config.zAxis ? { zAxis: { column: config.zAxis, label: config.zAxis } } : {})
     },
-    statistics: calculateBasicStats(data, [config.xAxis, config.yAxis, is3D ? config.zAxis : undefined].filter(Boolean) as string[])
+    statistics: calculateBasicStats(data, [config.xAxis, ...(is3D ? [config.yAxis, config.zAxis] : [...config.yAxes, config.splitBy, config.sizeColumn, config.targetColumn, ...config.hierarchy])].filter(Boolean) as string[]),
+    dataDictionary: toDataDictionary(data, schema, locale)
   };
 
   return (
@@ -205,7 +247,13 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
       {/* Chart Controls */}
       <div className="w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="bg-white shadow-md rounded-xl p-4">
-          <ChartControls data={data} onConfigChange={handleConfigChange} />
+          <ChartControls
+            data={data}
+            locale={locale}
+            typeOverrides={getTypeOverrides(schema)}
+            calculatedColumns={calculatedColumns.map(column => column.name)}
+            onConfigChange={handleConfigChange}
+          />
         </div>
       </div>
       {/* Download Buttons */}
@@ -233,7 +281,7 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
 
 
       {/* Chart Display */}
-      {config.xAxis && config.yAxis && (
+      {isChartReady(config) && (
         <div className="space-y-6">
           {/* Chart Card */}
           <Card className="border-0 shadow-xl overflow-hidden">
@@ -268,8 +316,17 @@ export const ChartGenerator = ({ data, fileId }: ChartGeneratorProps) => {
                     <Chart2D
                       data={data}
                       xAxis={config.xAxis}
-                      yAxis={config.yAxis}
+                      yAxes={config.yAxes}
+                      splitBy={config.splitBy}
+                      stackMode={config.stackMode}
+                      grouping={config.grouping}
+                      sizeColumn={config.sizeColumn}
+                      targetColumn={config.targetColumn}
+                      hierarchy={config.hierarchy}
+                      waterfallTotals={config.waterfallTotals}
+                      trendline={config.trendline}
                       chartType={config.chartType as any}
+                      locale={locale}
                     />
                   </div>
                 )}
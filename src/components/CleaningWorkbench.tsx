@@ -0,0 +1,249 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowRight, CheckCircle2, Eye, EyeOff, Wand2 } from "lucide-react";
+import {
+  CASE_MODES,
+  CaseMode,
+  CleaningFix,
+  CleaningSuggestion,
+  FILL_STRATEGIES,
+  FillStrategy,
+  isMissing,
+  previewCleaningFix
+} from "@/utils/dataCleaning";
+import { LocaleSettings } from "@/utils/localeParsing";
+import type { Row } from "@/utils/excelUtils";
+
+interface CleaningWorkbenchProps {
+  data: Row[];
+  suggestions: CleaningSuggestion[];
+  locale?: LocaleSettings;
+  // Columns that can be filled with a mean or median
+  numericColumns: string[];
+  qualityScore: number;
+  // Omitted when the data can't be edited; suggestions are then read-only
+  onApply?: (fix: CleaningFix) => void;
+  // Opens the column profile, e.g. to review outliers before capping them
+  onReviewColumn?: (column: string) => void;
+}
+
+// Changes listed in a preview; the count above the list is always complete
+const PREVIEW_LIMIT = 50;
+
+const SEVERITY_STYLES: Record<CleaningSuggestion['severity'], string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  medium: 'bg-orange-100 text-orange-700 border-orange-200',
+  low: 'bg-gray-100 text-gray-600 border-gray-200'
+};
+
+const showValue = (value: unknown) => isMissing(value) ? '(empty)' : String(value);
+
+export const CleaningWorkbench = ({
+  data,
+  suggestions,
+  locale,
+  numericColumns,
+  qualityScore,
+  onApply,
+  onReviewColumn
+}: CleaningWorkbenchProps) => {
+  // Fix options the user changed, keyed by suggestion id
+  const [drafts, setDrafts] = useState<Record<string, CleaningFix>>({});
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const fixFor = (suggestion: CleaningSuggestion) => drafts[suggestion.id] || suggestion.fix;
+  const updateDraft = (suggestion: CleaningSuggestion, changes: Partial<CleaningFix>) => {
+    setDrafts(current => ({ ...current, [suggestion.id]: { ...fixFor(suggestion), ...changes } as CleaningFix }));
+  };
+
+  const previewed = suggestions.find(suggestion => suggestion.id === previewId);
+  const previewFix = previewed ? fixFor(previewed) : null;
+  const preview = useMemo(
+    () => previewFix ? previewCleaningFix(data, previewFix, locale) : null,
+    [data, previewFix, locale]
+  );
+
+  const rowLabel = (index: number) => data[index]?._id ?? index + 1;
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-sm text-green-800">
+        <CheckCircle2 className="h-4 w-4" />
+        No cleaning issues found. Data quality score: {qualityScore}/100
+      </div>
+    );
+  }
+
+  const renderOptions = (suggestion: CleaningSuggestion) => {
+    const fix = fixFor(suggestion);
+    if (fix.kind === 'fill-missing') {
+      const strategies = FILL_STRATEGIES.filter(strategy => !strategy.numericOnly || numericColumns.includes(fix.column));
+      return (
+        <div className="flex items-center gap-2">
+          <Select value={fix.strategy} onValueChange={(value) => updateDraft(suggestion, { strategy: value as FillStrategy })}>
+            <SelectTrigger className="h-8 w-[200px] text-xs bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {strategies.map(strategy => (
+                <SelectItem key={strategy.id} value={strategy.id}>{strategy.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fix.strategy === 'constant' && (
+            <Input
+              value={fix.value ?? ''}
+              placeholder="Value, e.g. Unknown"
+              onChange={(e) => updateDraft(suggestion, { value: e.target.value })}
+              className="h-8 w-[160px] text-xs bg-white"
+            />
+          )}
+        </div>
+      );
+    }
+    if (fix.kind === 'normalize-case') {
+      return (
+        <Select value={fix.mode} onValueChange={(value) => updateDraft(suggestion, { mode: value as CaseMode })}>
+          <SelectTrigger className="h-8 w-[160px] text-xs bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CASE_MODES.map(mode => (
+              <SelectItem key={mode.id} value={mode.id}>{mode.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    if (fix.kind === 'cap-outliers' && onReviewColumn) {
+      return (
+        <Button variant="link" size="sm" className="h-8 px-0 text-xs" onClick={() => onReviewColumn(fix.column)}>
+          Review in column profile
+        </Button>
+      );
+    }
+    return null;
+  };
+
+  const renderPreview = () => {
+    if (!preview) return null;
+    const total = preview.changes.length + preview.removedRows.length;
+    if (total === 0) {
+      return <p className="text-xs text-gray-500">Nothing would change with these options.</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-gray-600">
+          {preview.removedRows.length > 0
+            ? `${preview.removedRows.length} rows would be removed`
+            : `${preview.changes.length} cells would change`}
+          {total > PREVIEW_LIMIT && ` (showing the first ${PREVIEW_LIMIT})`}
+        </p>
+        <div className="max-h-64 overflow-auto border rounded-md bg-white">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-medium w-16">Row</th>
+                <th className="px-2 py-1.5 text-left font-medium">Before</th>
+                <th className="px-2 py-1.5 w-6" />
+                <th className="px-2 py-1.5 text-left font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.removedRows.slice(0, PREVIEW_LIMIT).map(index => {
+                const { _id, ...values } = data[index];
+                return (
+                  <tr key={index} className="border-t border-gray-100">
+                    <td className="px-2 py-1 font-mono text-gray-500">{rowLabel(index)}</td>
+                    <td className="px-2 py-1 truncate max-w-[320px]" title={Object.values(values).map(showValue).join(', ')}>
+                      {Object.values(values).map(showValue).join(', ')}
+                    </td>
+                    <td className="px-2 py-1 text-gray-400"><ArrowRight className="h-3 w-3" /></td>
+                    <td className="px-2 py-1 italic text-red-600">removed</td>
+                  </tr>
+                );
+              })}
+              {preview.changes.slice(0, PREVIEW_LIMIT).map(change => (
+                <tr key={`${change.row}:${change.column}`} className="border-t border-gray-100">
+                  <td className="px-2 py-1 font-mono text-gray-500">{rowLabel(change.row)}</td>
+                  <td className={`px-2 py-1 ${isMissing(change.before) ? 'italic text-red-400' : 'text-gray-700'}`}>
+                    <span className="whitespace-pre">{showValue(change.before)}</span>
+                  </td>
+                  <td className="px-2 py-1 text-gray-400"><ArrowRight className="h-3 w-3" /></td>
+                  <td className={`px-2 py-1 ${isMissing(change.after) ? 'italic text-red-400' : 'text-green-700 font-medium'}`}>
+                    {showValue(change.after)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-medium text-yellow-800 flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          Data Cleaning ({suggestions.length} suggestion{suggestions.length === 1 ? '' : 's'})
+        </h4>
+        <span className="text-xs text-yellow-800">Quality score: <span className="font-semibold">{qualityScore}/100</span></span>
+      </div>
+      <div className="space-y-2">
+        {suggestions.map(suggestion => {
+          const isPreviewing = suggestion.id === previewId;
+          const fix = fixFor(suggestion);
+          const incomplete = fix.kind === 'fill-missing' && fix.strategy === 'constant' && !fix.value;
+          return (
+            <div key={suggestion.id} className="p-3 bg-white/70 border border-yellow-100 rounded-md space-y-2">
+              <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={`text-[10px] uppercase ${SEVERITY_STYLES[suggestion.severity]}`}>
+                      {suggestion.severity}
+                    </Badge>
+                    <span className="text-sm font-medium text-gray-900 truncate">{suggestion.title}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">{suggestion.message}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {renderOptions(suggestion)}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => setPreviewId(isPreviewing ? null : suggestion.id)}
+                  >
+                    {isPreviewing ? <EyeOff className="h-3.5 w-3.5 mr-1" /> : <Eye className="h-3.5 w-3.5 mr-1" />}
+                    {isPreviewing ? 'Hide' : 'Preview'}
+                  </Button>
+                  {onApply && (
+                    <Button
+                      size="sm"
+                      className="h-8 text-xs"
+                      disabled={incomplete}
+                      onClick={() => {
+                        onApply(fix);
+                        setPreviewId(null);
+                      }}
+                    >
+                      <Wand2 className="h-3.5 w-3.5 mr-1" />
+                      Apply
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isPreviewing && renderPreview()}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ColumnTypeBadge } from "@/components/ColumnTypeBadge";
+import { ColumnProfile, NumericProfile, profileColumn } from "@/utils/columnProfile";
+import { ExcelColumn, Row } from "@/utils/excelUtils";
+import { LocaleSettings } from "@/utils/localeParsing";
+import { OUTLIER_METHODS, OutlierMethod, OutlierResult, OutlierSettings } from "@/utils/outliers";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface ColumnProfileDrawerProps {
+  // The column to profile; the drawer is closed when null
+  column: ExcelColumn | null;
+  rows: Row[];
+  locale?: LocaleSettings;
+  // Outliers of a numeric column under its current method
+  outliers?: OutlierResult | null;
+  // Omitted when the method can't be changed
+  onOutlierSettingsChange?: (column: string, settings: OutlierSettings) => void;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 100 ? 2 : 4 });
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const formatStat = (value: number, numeric: NumericProfile) =>
+  numeric.isDate ? new Date(value).toISOString().slice(0, 10) : formatNumber(value);
+
+const describeSkew = (skewness: number) => {
+  if (Math.abs(skewness) < 0.5) return 'roughly symmetric';
+  return skewness > 0 ? 'right-skewed (long tail of high values)' : 'left-skewed (long tail of low values)';
+};
+
+const describeKurtosis = (kurtosis: number) => {
+  if (Math.abs(kurtosis) < 1) return 'normal tails';
+  return kurtosis > 0 ? 'heavy tails / outlier-prone' : 'light tails';
+};
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="p-2 rounded-md bg-gray-50 border border-gray-100">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm font-semibold text-gray-900 truncate" title={value}>{value}</div>
+    {hint && <div className="text-[11px] text-gray-500">{hint}</div>}
+  </div>
+);
+
+const barOptions = (horizontal: boolean) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  indexAxis: horizontal ? 'y' as const : 'x' as const,
+  plugins: { legend: { display: false } },
+  scales: {
+    x: { ticks: { maxRotation: 45, autoSkip: true } },
+    y: { beginAtZero: true }
+  }
+});
+
+export const ColumnProfileDrawer = ({ column, rows, locale, outliers, onOutlierSettingsChange, onClose }: ColumnProfileDrawerProps) => {
+  const [profile, setProfile] = useState<ColumnProfile | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [thresholdText, setThresholdText] = useState('');
+
+  useEffect(() => {
+    setThresholdText(outliers ? String(outliers.bounds.threshold) : '');
+  }, [outliers]);
+
+  useEffect(() => {
+    if (!column) return;
+    let cancelled = false;
+    setProfile(null);
+    setProgress(0);
+
+    profileColumn(rows, column.name, column.typeInfo, {
+      locale,
+      onProgress: (processed, total) => {
+        if (!cancelled) setProgress(total > 0 ? (processed / total) * 100 : 100);
+      },
+      isCancelled: () => cancelled
+    }).then(result => {
+      if (!cancelled && result) setProfile(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [column, rows, locale]);
+
+  const renderNumeric = (numeric: NumericProfile) => {
+    const { quantiles } = numeric;
+    const histogramData = {
+      labels: numeric.histogram.map(bin => bin.start === bin.end
+        ? formatStat(bin.start, numeric)
+        : `${formatStat(bin.start, numeric)} – ${formatStat(bin.end, numeric)}`),
+      datasets: [{
+        label: 'Rows',
+        data: numeric.histogram.map(bin => bin.count),
+        backgroundColor: 'rgba(59, 130, 246, 0.6)',
+        borderColor: 'rgba(59, 130, 246, 1)',
+        borderWidth: 1
+      }]
+    };
+
+    return (
+      <>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">Distribution</h4>
+          <div className="h-56">
+            <Bar data={histogramData} options={barOptions(false)} />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          <Stat label="Min" value={formatStat(numeric.min, numeric)} />
+          <Stat label="Max" value={formatStat(numeric.max, numeric)} />
+          <Stat label="Mean" value={formatStat(numeric.mean, numeric)} />
+          {!numeric.isDate && <Stat label="Std. deviation" value={formatNumber(numeric.stdDev)} />}
+          <Stat label="p5" value={formatStat(quantiles.p5, numeric)} />
+          <Stat label="p25" value={formatStat(quantiles.p25, numeric)} />
+          <Stat label="Median" value={formatStat(quantiles.p50, numeric)} />
+          <Stat label="p75" value={formatStat(quantiles.p75, numeric)} />
+          <Stat label="p95" value={formatStat(quantiles.p95, numeric)} />
+          <Stat label="Skewness" value={numeric.skewness.toFixed(2)} hint={describeSkew(numeric.skewness)} />
+          <Stat label="Kurtosis (excess)" value={numeric.kurtosis.toFixed(2)} hint={describeKurtosis(numeric.kurtosis)} />
+        </div>
+      </>
+    );
+  };
+
+  const renderOutliers = (result: OutlierResult) => {
+    const { bounds } = result;
+    const method = OUTLIER_METHODS[bounds.method];
+    const applyThreshold = () => {
+      const threshold = Number(thresholdText);
+      const valid = threshold > 0 && (bounds.method !== 'percentile' || threshold < 50);
+      if (!column || !onOutlierSettingsChange || !valid || threshold === bounds.threshold) {
+        setThresholdText(String(bounds.threshold));
+        return;
+      }
+      onOutlierSettingsChange(column.name, { method: bounds.method, threshold });
+    };
+
+    return (
+      <div className="space-y-3 p-3 rounded-md border border-orange-200 bg-orange-50/50">
+        <h4 className="text-sm font-semibold text-gray-800">Outliers</h4>
+        <p className="text-sm text-gray-700">
+          <span className="font-semibold text-orange-700">{result.count.toLocaleString()}</span> values {method.describe(bounds.threshold)}
+          {' '}(below {formatNumber(bounds.lower)} or above {formatNumber(bounds.upper)})
+        </p>
+        {onOutlierSettingsChange && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Method</Label>
+              <Select
+                value={bounds.method}
+                onValueChange={(value) => column && onOutlierSettingsChange(column.name, {
+                  method: value as OutlierMethod,
+                  threshold: OUTLIER_METHODS[value as OutlierMethod].defaultThreshold
+                })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OUTLIER_METHODS) as OutlierMethod[]).map(id => (
+                    <SelectItem key={id} value={id}>{OUTLIER_METHODS[id].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">{method.thresholdLabel}</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                className="h-9"
+                value={thresholdText}
+                onChange={(e) => setThresholdText(e.target.value)}
+                onBlur={applyThreshold}
+                onKeyDown={(e) => e.key === 'Enter' && applyThreshold()}
+              />
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">The method is saved with the column schema and used for highlighting, cleaning suggestions and server insights.</p>
+      </div>
+    );
+  };
+
+  const renderTopValues = (current: ColumnProfile) => {
+    const shown = current.topValues.reduce((sum, top) => sum + top.count, 0);
+    const other = current.rowCount - current.nullCount - shown;
+    const labels = [...current.topValues.map(top => top.value), ...(other > 0 ? ['(other)'] : [])];
+    const data = {
+      labels,
+      datasets: [{
+        label: 'Rows',
+        data: [...current.topValues.map(top => top.count), ...(other > 0 ? [other] : [])],
+        backgroundColor: labels.map(label => label === '(other)' ? 'rgba(156, 163, 175, 0.6)' : 'rgba(147, 51, 234, 0.6)'),
+        borderWidth: 0
+      }]
+    };
+
+    return (
+      <div>
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Top values</h4>
+        <div style={{ height: Math.max(120, labels.length * 28) }}>
+          <Bar data={data} options={barOptions(true)} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!column} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-xl p-0">
+        <ScrollArea className="h-full">
+          <div className="p-6 space-y-5">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2 pr-6">
+                <span className="truncate">{column?.name}</span>
+                {column && <ColumnTypeBadge info={column.typeInfo} />}
+              </SheetTitle>
+              <SheetDescription>Column profile across {rows.length.toLocaleString()} rows</SheetDescription>
+            </SheetHeader>
+
+            {!profile && (
+              <div className="space-y-2">
+                <Progress value={progress} />
+                <p className="text-xs text-gray-500">Profiling… {Math.round(progress)}%</p>
+              </div>
+            )}
+
+            {profile && (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  <Stat label="Missing" value={profile.nullCount.toLocaleString()} hint={`${formatPercent(profile.nullRatio)} of rows`} />
+                  <Stat
+                    label="Distinct"
+                    value={`${profile.distinctCapped ? '≥ ' : ''}${profile.distinctCount.toLocaleString()}`}
+                    hint={`${formatPercent(profile.distinctRatio)} of values`}
+                  />
+                  {profile.length && (
+                    <Stat
+                      label="Length (chars)"
+                      value={`${profile.length.min} – ${profile.length.max}`}
+                      hint={`avg ${profile.length.mean.toFixed(1)}`}
+                    />
+                  )}
+                </div>
+
+                {profile.numeric ? renderNumeric(profile.numeric) : renderTopValues(profile)}
+                {outliers && renderOutliers(outliers)}
+                {profile.numeric && profile.distinctCount <= 20 && renderTopValues(profile)}
+
+                {profile.patterns.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-800 mb-2">Patterns</h4>
+                    <p className="text-xs text-gray-500 mb-2">A = letter, 9 = digit</p>
+                    <div className="space-y-1">
+                      {profile.patterns.map(({ pattern, count }) => (
+                        <div key={pattern} className="flex items-center justify-between gap-3 text-sm">
+                          <code className="px-1.5 py-0.5 bg-gray-100 rounded text-xs truncate">{pattern}</code>
+                          <span className="text-xs text-gray-500 shrink-0">
+                            {count.toLocaleString()} ({formatPercent(count / Math.max(1, profile.rowCount - profile.nullCount))})
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
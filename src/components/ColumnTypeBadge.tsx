@@ -0,0 +1,29 @@
+import { Badge } from "@/components/ui/badge";
+import { Calendar, CalendarClock, Coins, Fingerprint, Hash, Link, Mail, Percent, Sigma, Tags, ToggleLeft, Type } from "lucide-react";
+import { ColumnTypeInfo, describeColumnType, SemanticType } from "@/utils/columnTypes";
+
+const TYPE_STYLES: Record<SemanticType, { icon: typeof Hash; iconClass: string; badgeClass: string }> = {
+  integer: { icon: Hash, iconClass: 'text-blue-600', badgeClass: 'bg-blue-100 text-blue-800 border-blue-300' },
+  decimal: { icon: Sigma, iconClass: 'text-blue-600', badgeClass: 'bg-blue-100 text-blue-800 border-blue-300' },
+  currency: { icon: Coins, iconClass: 'text-emerald-600', badgeClass: 'bg-emerald-100 text-emerald-800 border-emerald-300' },
+  percentage: { icon: Percent, iconClass: 'text-cyan-600', badgeClass: 'bg-cyan-100 text-cyan-800 border-cyan-300' },
+  boolean: { icon: ToggleLeft, iconClass: 'text-amber-600', badgeClass: 'bg-amber-100 text-amber-800 border-amber-300' },
+  category: { icon: Tags, iconClass: 'text-purple-600', badgeClass: 'bg-purple-100 text-purple-800 border-purple-300' },
+  identifier: { icon: Fingerprint, iconClass: 'text-slate-600', badgeClass: 'bg-slate-100 text-slate-800 border-slate-300' },
+  email: { icon: Mail, iconClass: 'text-pink-600', badgeClass: 'bg-pink-100 text-pink-800 border-pink-300' },
+  url: { icon: Link, iconClass: 'text-indigo-600', badgeClass: 'bg-indigo-100 text-indigo-800 border-indigo-300' },
+  date: { icon: Calendar, iconClass: 'text-green-600', badgeClass: 'bg-green-100 text-green-800 border-green-300' },
+  datetime: { icon: CalendarClock, iconClass: 'text-green-600', badgeClass: 'bg-green-100 text-green-800 border-green-300' },
+  text: { icon: Type, iconClass: 'text-gray-600', badgeClass: 'bg-gray-100 text-gray-800 border-gray-300' }
+};
+
+export const ColumnTypeIcon = ({ type, className = "h-4 w-4" }: { type: SemanticType; className?: string }) => {
+  const { icon: Icon, iconClass } = TYPE_STYLES[type];
+  return <Icon className={`${className} ${iconClass}`} />;
+};
+
+export const ColumnTypeBadge = ({ info, className = "text-xs" }: { info: ColumnTypeInfo; className?: string }) => (
+  <Badge className={`${className} ${TYPE_STYLES[info.semanticType].badgeClass}`}>
+    {describeColumnType(info)}
+  </Badge>
+);
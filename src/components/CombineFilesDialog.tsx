@@ -0,0 +1,387 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { CombineFilesRequest, CombinePreview, createCombinedFile, JoinType, previewCombinedFiles, ServerFile } from "@/utils/api";
+
+interface CombineFilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Picked files in the order they're combined; the first is the left side of every join
+  files: { id: string; label: string }[];
+  onCreated: (file: ServerFile) => void;
+}
+
+interface KeyPair {
+  left: string;
+  right: string;
+}
+
+interface JoinConfig {
+  type: JoinType;
+  keys: KeyPair[];
+}
+
+const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  inner: 'Inner — matching rows only',
+  left: 'Left — keep every row on the left',
+  full: 'Full — keep every row on both sides'
+};
+
+// Preview rows shown in the dialog; the server returns a few more
+const PREVIEW_ROWS = 10;
+
+// Waits for typing to settle before asking the server for a new preview
+const PREVIEW_DELAY = 400;
+
+const sameColumn = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A key pair per file after the first: the first column its left side shares
+// by name, if any
+const suggestJoins = (sources: CombinePreview['sources']): JoinConfig[] =>
+  sources.slice(1).map((source, i) => {
+    const leftColumns = sources.slice(0, i + 1).flatMap(left => left.columns);
+    const right = source.columns.find(column => leftColumns.some(left => sameColumn(left, column)));
+    const left = right ? leftColumns.find(column => sameColumn(column, right)) : undefined;
+    return { type: 'left', keys: [{ left: left ?? '', right: right ?? '' }] };
+  });
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return String(value);
+};
+
+export const CombineFilesDialog = ({ open, onOpenChange, files, onCreated }: CombineFilesDialogProps) => {
+  const [mode, setMode] = useState<'append' | 'join'>('append');
+  const [sourceColumn, setSourceColumn] = useState('Source');
+  const [joins, setJoins] = useState<JoinConfig[]>([]);
+  const [preview, setPreview] = useState<CombinePreview | null>(null);
+  const [sources, setSources] = useState<CombinePreview['sources']>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filename, setFilename] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Starts over whenever the dialog opens with a new pick
+  useEffect(() => {
+    if (!open) return;
+    setMode('append');
+    setSourceColumn('Source');
+    setJoins([]);
+    setPreview(null);
+    setSources([]);
+    setError(null);
+    setFilename(`Combined ${new Date().toISOString().slice(0, 10)}`);
+  }, [open, files]);
+
+  const joinsComplete = joins.length === files.length - 1
+    && joins.every(join => join.keys.length > 0 && join.keys.every(pair => pair.left && pair.right));
+
+  const request = useMemo<CombineFilesRequest | null>(() => {
+    const ids = files.map(file => file.id);
+    if (mode === 'append') return { files: ids, mode, sourceColumn: sourceColumn.trim() };
+    if (!joinsComplete) return null;
+    return {
+      files: ids,
+      mode,
+      joins: joins.map(join => ({
+        type: join.type,
+        leftKeys: join.keys.map(pair => pair.left),
+        rightKeys: join.keys.map(pair => pair.right)
+      }))
+    };
+  }, [files, mode, sourceColumn, joins, joinsComplete]);
+
+  useEffect(() => {
+    if (!open || !request) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      setError(null);
+      previewCombinedFiles(request)
+        .then(res => {
+          if (cancelled) return;
+          setPreview(res.data);
+          setSources(res.data.sources);
+        })
+        .catch(e => {
+          if (cancelled) return;
+          setPreview(null);
+          setError(e instanceof Error ? e.message : 'Failed to combine the files');
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, request]);
+
+  const handleModeChange = (value: string) => {
+    setPreview(null);
+    setError(null);
+    setMode(value as 'append' | 'join');
+  };
+
+  // Key columns are suggested once every file's columns are known
+  useEffect(() => {
+    if (mode === 'join' && joins.length === 0 && sources.length === files.length) setJoins(suggestJoins(sources));
+  }, [mode, joins, sources, files]);
+
+  const updateJoin = (index: number, updates: Partial<JoinConfig>) => {
+    setJoins(current => current.map((join, i) => i === index ? { ...join, ...updates } : join));
+  };
+
+  const updateKey = (joinIndex: number, keyIndex: number, updates: Partial<KeyPair>) => {
+    const join = joins[joinIndex];
+    updateJoin(joinIndex, { keys: join.keys.map((pair, i) => i === keyIndex ? { ...pair, ...updates } : pair) });
+  };
+
+  const handleSave = async () => {
+    if (!request) return;
+    setSaving(true);
+    try {
+      const res = await createCombinedFile({ ...request, filename: filename.trim() });
+      toast.success(`Saved ${res.data.file.filename} (${(res.data.file.rowCount || 0).toLocaleString()} rows)`);
+      onCreated(res.data.file);
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save the combined file');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const diagnostics = preview?.diagnostics;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Combine files</DialogTitle>
+          <DialogDescription>
+            Append stacks the rows of every file, matching columns by name. Join lines rows up on key columns, left to right in the order below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {files.map((file, index) => (
+              <Badge key={file.id} variant="outline" className="font-normal">
+                {index + 1}. {file.label}
+              </Badge>
+            ))}
+          </div>
+
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="grid w-full max-w-xs grid-cols-2">
+              <TabsTrigger value="append">Append</TabsTrigger>
+              <TabsTrigger value="join">Join</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {mode === 'append' ? (
+            <div className="space-y-1 max-w-xs">
+              <Label htmlFor="combine-source-column">Source column</Label>
+              <Input
+                id="combine-source-column"
+                value={sourceColumn}
+                placeholder="Leave empty for none"
+                onChange={(e) => setSourceColumn(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Names the file each row came from.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sources.length === 0 && !loading && (
+                <p className="text-sm text-gray-500">The files' columns couldn't be read yet; fix the append preview first.</p>
+              )}
+              {joins.map((join, joinIndex) => {
+                const right = sources[joinIndex + 1];
+                const leftColumns = [...new Set(sources.slice(0, joinIndex + 1).flatMap(source => source.columns))];
+                return (
+                  <div key={joinIndex} className="p-3 border rounded-lg space-y-2 bg-gray-50">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">Join {files[joinIndex + 1]?.label}</span>
+                      <Select value={join.type} onValueChange={(value) => updateJoin(joinIndex, { type: value as JoinType })}>
+                        <SelectTrigger className="h-8 w-64 bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(type => (
+                            <SelectItem key={type} value={type}>{JOIN_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {join.keys.map((pair, keyIndex) => (
+                      <div key={keyIndex} className="flex flex-wrap items-center gap-2 text-sm">
+                        <Select value={pair.left} onValueChange={(value) => updateKey(joinIndex, keyIndex, { left: value })}>
+                          <SelectTrigger className="h-8 w-52 bg-white">
+                            <SelectValue placeholder="Left key column" />
+                          </SelectTrigger>
+                          <SelectContent className="max-h-60">
+                            {leftColumns.map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-gray-500">=</span>
+                        <Select value={pair.right} onValueChange={(value) => updateKey(joinIndex, keyIndex, { right: value })}>
+                          <SelectTrigger className="h-8 w-52 bg-white">
+                            <SelectValue placeholder="Right key column" />
+                          </SelectTrigger>
+                          <SelectContent className="max-h-60">
+                            {(right?.columns || []).map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        {join.keys.length > 1 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => updateJoin(joinIndex, { keys: join.keys.filter((_, i) => i !== keyIndex) })}
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Remove key</span>
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => updateJoin(joinIndex, { keys: [...join.keys, { left: '', right: '' }] })}
+                    >
+                      <Plus className="h-3 w-3 mr-1" /> Add key column
+                    </Button>
+                  </div>
+                );
+              })}
+              {!joinsComplete && sources.length > 0 && (
+                <p className="text-sm text-gray-500">Pick a key column on both sides of every join to see a preview.</p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" /> Combining…
+            </div>
+          )}
+
+          {preview && !loading && diagnostics?.mode === mode && (
+            <div className="space-y-3">
+              {diagnostics.mode === 'append' ? (
+                <div className="space-y-1 text-sm">
+                  {diagnostics.sources.map(source => (
+                    <div key={source.label} className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{source.label}</span>
+                      <Badge variant="secondary">{source.rows.toLocaleString()} rows</Badge>
+                      {source.missingColumns.length > 0 && (
+                        <span className="text-amber-700">Missing: {source.missingColumns.join(', ')}</span>
+                      )}
+                      {source.renamedColumns.length > 0 && (
+                        <span className="text-gray-500">
+                          Matched: {source.renamedColumns.map(r => `${r.from.trim()} → ${r.to}`).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {diagnostics.numericColumns.length > 0 && (
+                    <p className="text-xs text-gray-500">Numbers stored as text were converted in: {diagnostics.numericColumns.join(', ')}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {diagnostics.joins.map(join => (
+                    <div key={join.label} className="p-3 border rounded-lg text-sm space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{join.label}</span>
+                        <Badge className={join.leftMatchRate >= 90 ? 'bg-green-100 text-green-700' : join.leftMatchRate >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}>
+                          {join.leftMatchRate}% of left rows matched
+                        </Badge>
+                        <Badge variant="outline">{join.rightMatchRate}% of right rows matched</Badge>
+                      </div>
+                      <div className="text-gray-600">
+                        {join.unmatchedLeftRows.toLocaleString()} of {join.leftRows.toLocaleString()} left rows and{' '}
+                        {join.unmatchedRightRows.toLocaleString()} of {join.rightRows.toLocaleString()} right rows have no match
+                        {join.type === 'inner' ? ' and are left out' : join.type === 'left' ? '; unmatched right rows are left out' : ''}.
+                      </div>
+                      {join.duplicateRightKeys > 0 && (
+                        <div className="text-amber-700">
+                          {join.duplicateRightKeys.toLocaleString()} keys appear on more than one right row, so their left rows are repeated.
+                        </div>
+                      )}
+                      {(join.blankLeftKeys > 0 || join.blankRightKeys > 0) && (
+                        <div className="text-amber-700">
+                          Rows with a blank key never match: {join.blankLeftKeys.toLocaleString()} on the left, {join.blankRightKeys.toLocaleString()} on the right.
+                        </div>
+                      )}
+                      {join.renamedColumns.length > 0 && (
+                        <div className="text-gray-500">
+                          Renamed to avoid clashes: {join.renamedColumns.map(r => r.to).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="text-sm text-gray-600">
+                {preview.rowCount.toLocaleString()} rows × {preview.columns.length} columns
+              </div>
+              <div className="border rounded-md overflow-auto max-h-72">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                    <tr>
+                      {preview.columns.map(column => (
+                        <th key={column} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <tr key={index} className="border-t">
+                        {preview.columns.map(column => (
+                          <td key={column} className="px-2 py-1 whitespace-nowrap">{formatCell(row[column])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1 max-w-sm">
+            <Label htmlFor="combine-filename">Save as</Label>
+            <Input id="combine-filename" value={filename} onChange={(e) => setFilename(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!preview || loading || saving || !filename.trim() || preview.rowCount === 0}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save combined file
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
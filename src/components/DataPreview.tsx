@@ -1,23 +1,115 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileSpreadsheet, Download, Eye, BarChart, Search, AlertTriangle, Hash, Calendar, Type, TrendingUp } from "lucide-react";
+import { FileSpreadsheet, Download, Eye, BarChart, Search, AlertTriangle, Hash, TrendingUp, FilterX, ListFilter } from "lucide-react";
 import { toast } from "sonner";
-import { analyzeExcelData, exportDataToExcel, getDataStatistics } from "@/utils/excelUtils";
+import { analyzeExcelData, exportDataToExcel, getDataCleaningSuggestions, getDataStatistics, Row } from "@/utils/excelUtils";
+import { LocaleSettings, parseLocaleNumber } from "@/utils/localeParsing";
+import { ColumnTypeBadge, ColumnTypeIcon } from "@/components/ColumnTypeBadge";
 import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from "@/components/ui/accordion";
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip";
+import { SchemaEditor } from "@/components/SchemaEditor";
+import { DataGrid } from "@/components/grid/DataGrid";
+import { ColumnProfileDrawer } from "@/components/ColumnProfileDrawer";
+import { CleaningWorkbench } from "@/components/CleaningWorkbench";
+import { ColumnSchemaEntry, formatCellValue, getColumnName, getOutlierSettings, getTypeOverrides, updateSchemaEntry } from "@/utils/columnSchema";
+import { DEFAULT_OUTLIER_SETTINGS, describeOutlierSettings, detectOutliers, isOutsideBounds, OutlierResult, OutlierSettings } from "@/utils/outliers";
+import { ColumnFilter, filterRows, SortKey, sortRows, toggleSortKey } from "@/utils/gridUtils";
+import { applyCleaningFix, calculateQualityScore, CleaningFix, describeCleaningFix, describeQualityScore } from "@/utils/dataCleaning";
+import { describeFilterStep, PipelineOperation } from "@/utils/pipeline";
+import { addCalculatedColumn, CalculatedColumn } from "@/utils/formula";
+import { FormulaEditor } from "@/components/FormulaEditor";
+import { ReshapeDialog } from "@/components/ReshapeDialog";
+import { applyReshape, describeReshape, ReshapeOperation } from "@/utils/reshape";
+import { DedupeDialog } from "@/components/DedupeDialog";
+import { applyDedupe, DedupeOperation, describeDedupe } from "@/utils/fuzzyDedup";
+import { ColumnVisibilityMenu, SavedViewsBar } from "@/components/SavedViewsBar";
+import { EMPTY_VIEW_STATE, getActiveFilters, orderColumns, SavedView, searchRows, ViewState } from "@/utils/savedViews";
 
 interface DataPreviewProps {
   data: any[];
   fileName?: string;
+  locale?: LocaleSettings;
+  schema?: ColumnSchemaEntry[];
+  // Columns added by formulas so far, listed for editing
+  calculatedColumns?: CalculatedColumn[];
+  // Omitted when the schema can't be edited (no editor is shown)
+  onSchemaChange?: (schema: ColumnSchemaEntry[]) => void;
+  // Receives the rows after a cleaning fix, kept filter, calculated column, reshape or dedupe, with the pipeline step
+  // that produced them; the data is read-only when omitted
+  onDataChange?: (data: Row[], operation: PipelineOperation, label: string) => void;
+  // The user's saved views of the file; the views bar is shown when onSaveView is set
+  views?: SavedView[];
+  // Creates a view, or replaces `view` when given; resolves to the saved view (null when saving failed)
+  onSaveView?: (name: string, state: ViewState, view?: SavedView) => Promise<SavedView | null>;
+  onDeleteView?: (view: SavedView) => void;
 }
 
-export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
+export const DataPreview = ({
+  data,
+  fileName,
+  locale,
+  schema = [],
+  calculatedColumns = [],
+  onSchemaChange,
+  onDataChange,
+  views = [],
+  onSaveView,
+  onDeleteView
+}: DataPreviewProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedColumn, setSelectedColumn] = useState<string>("");
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [filters, setFilters] = useState<Record<string, ColumnFilter>>({});
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null);
+
+  const columns = useMemo(() => data && data.length > 0 ? Object.keys(data[0]) : [], [data]);
+  const typeOverrides = useMemo(() => getTypeOverrides(schema), [schema]);
+  const analyzedColumns = useMemo(() => analyzeExcelData(data, locale, typeOverrides), [data, locale, typeOverrides]);
+  // Computed once per dataset; the grid checks outliers for every visible cell
+  const columnStats = useMemo(() => {
+    const stats: Record<string, ReturnType<typeof getDataStatistics>> = {};
+    analyzedColumns.forEach(column => {
+      stats[column.name] = getDataStatistics(data, column.name, locale, typeOverrides[column.name]);
+    });
+    return stats;
+  }, [analyzedColumns, data, locale, typeOverrides]);
+
+  const outlierSettings = useMemo(() => getOutlierSettings(schema), [schema]);
+  const outlierResults = useMemo(() => {
+    const results: Record<string, OutlierResult | null> = {};
+    analyzedColumns.forEach(column => {
+      if (column.type !== 'number') return;
+      results[column.name] = detectOutliers(column.values, outlierSettings[column.name] || DEFAULT_OUTLIER_SETTINGS, locale);
+    });
+    return results;
+  }, [analyzedColumns, outlierSettings, locale]);
+
+  const cleaningSuggestions = useMemo(
+    () => getDataCleaningSuggestions(data, locale, outlierSettings, typeOverrides),
+    [data, locale, outlierSettings, typeOverrides]
+  );
+  const qualityScore = useMemo(() => calculateQualityScore(data), [data]);
+
+  // Sorts and filters of columns that no longer exist (another sheet, a rename) are ignored
+  const activeFilters = useMemo(() => getActiveFilters(filters, columns), [filters, columns]);
+  const activeSortKeys = useMemo(() => sortKeys.filter(key => columns.includes(key.column)), [sortKeys, columns]);
+
+  // Filter data based on search
+  const searchedData = useMemo(
+    () => searchRows(data || [], searchTerm, selectedColumn, columns),
+    [data, searchTerm, selectedColumn, columns]
+  );
+
+  const filteredData = useMemo(() => {
+    const typeInfos = Object.fromEntries(analyzedColumns.map(column => [column.name, column.typeInfo]));
+    return sortRows(filterRows(searchedData, activeFilters, locale), activeSortKeys, typeInfos, locale);
+  }, [searchedData, activeFilters, activeSortKeys, analyzedColumns, locale]);
 
   if (!data || data.length === 0) {
     return (
@@ -30,9 +122,20 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
     );
   }
 
-  const columns = Object.keys(data[0]);
   const totalRows = data.length;
-  const analyzedColumns = analyzeExcelData(data);
+  const schemaEntryFor = (column: string) => schema.find(entry => getColumnName(entry) === column);
+  const dataColumns = analyzedColumns.filter(column => column.name !== '_id');
+  const gridColumns = dataColumns.filter(column => !hiddenColumns.includes(column.name));
+  const activeView = views.find(view => view._id === activeViewId) || null;
+  const viewState: ViewState = {
+    search: searchTerm,
+    searchColumn: selectedColumn,
+    filters: activeFilters,
+    sortKeys: activeSortKeys,
+    hiddenColumns: hiddenColumns.filter(column => columns.includes(column)),
+    columnOrder
+  };
+  const filterCount = Object.keys(activeFilters).length;
 
   // Calculate quick summary stats
   const totalCells = totalRows * columns.length;
@@ -43,19 +146,6 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
   }, 0);
   
   const numericColumns = analyzedColumns.filter(col => col.type === 'number');
-  const dateColumns = analyzedColumns.filter(col => col.type === 'date');
-  const textColumns = analyzedColumns.filter(col => col.type === 'text');
-
-  // Filter data based on search
-  const filteredData = data.filter(row => {
-    if (!searchTerm) return true;
-    if (selectedColumn && selectedColumn !== "") {
-      return String(row[selectedColumn] || '').toLowerCase().includes(searchTerm.toLowerCase());
-    }
-    return columns.some(col => 
-      String(row[col] || '').toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  });
 
   const handleExportData = () => {
     const success = exportDataToExcel(filteredData, fileName?.replace(/\.[^/.]+$/, "") || 'excel_data');
@@ -66,40 +156,116 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
     }
   };
 
-  const getColumnTypeColor = (type: string) => {
-    switch (type) {
-      case 'number': return 'bg-blue-100 text-blue-800 border-blue-300';
-      case 'date': return 'bg-green-100 text-green-800 border-green-300';
-      default: return 'bg-gray-100 text-gray-800 border-gray-300';
-    }
+  const handleFilterChange = (column: string, filter: ColumnFilter | undefined) => {
+    setFilters(current => {
+      const next = { ...current };
+      if (filter) next[column] = filter;
+      else delete next[column];
+      return next;
+    });
   };
 
-  const getColumnTypeIcon = (type: string) => {
-    switch (type) {
-      case 'number': return <Hash className="h-4 w-4 text-blue-600" />;
-      case 'date': return <Calendar className="h-4 w-4 text-green-600" />;
-      default: return <Type className="h-4 w-4 text-gray-600" />;
-    }
+  const clearFilters = () => {
+    setFilters({});
+    setSearchTerm("");
   };
 
-  const isCellEmpty = (value: any) => {
-    return value === null || value === undefined || value === '';
+  // Selecting a view replaces the search, filters, sort and columns; "All data" clears them
+  const handleSelectView = (view: SavedView | null) => {
+    const state = view || EMPTY_VIEW_STATE;
+    setSearchTerm(state.search);
+    setSelectedColumn(state.searchColumn);
+    setFilters(state.filters);
+    setSortKeys(state.sortKeys);
+    setHiddenColumns(state.hiddenColumns);
+    setColumnOrder(state.columnOrder);
+    setActiveViewId(view?._id ?? null);
   };
 
-  const isOutlier = (value: any, column: string) => {
-    const columnData = analyzedColumns.find(col => col.name === column);
-    if (columnData?.type !== 'number') return false;
-    
-    const stats = getDataStatistics(data, column);
-    if (!stats || stats.type !== 'number') return false;
-    
-    const numValue = Number(value);
-    const range = stats.max - stats.min;
-    const threshold = range * 0.1; // Consider values outside 10% of range as potential outliers
-    
-    return Math.abs(numValue - stats.average) > threshold;
+  const handleSaveView = onSaveView
+    ? async (name: string, view?: SavedView) => {
+      const saved = await onSaveView(name, viewState, view);
+      if (saved) setActiveViewId(saved._id);
+      return saved;
+    }
+    : undefined;
+
+  const isOutlier = (column: string, value: unknown) => {
+    const bounds = outlierResults[column]?.bounds;
+    if (!bounds) return false;
+    const numValue = parseLocaleNumber(value, locale);
+    return numValue !== null && isOutsideBounds(numValue, bounds);
   };
 
+  // Saved in the column schema so the server's statistics and insights use the same method
+  const handleOutlierSettingsChange = onSchemaChange
+    ? (column: string, settings: OutlierSettings) => onSchemaChange(updateSchemaEntry(schema, column, { outliers: settings }))
+    : undefined;
+
+  const handleApplyFix = onDataChange
+    ? (fix: CleaningFix) => {
+      const { rows, preview } = applyCleaningFix(data, fix, locale);
+      if (preview.changes.length === 0 && preview.removedRows.length === 0) {
+        toast.info("Nothing to change");
+        return;
+      }
+      const nextScore = calculateQualityScore(rows);
+      const label = describeCleaningFix(fix, preview);
+      onDataChange(rows, { kind: 'clean', fix }, label);
+      toast.success(label, {
+        description: nextScore !== qualityScore ? `Quality score ${qualityScore} → ${nextScore}` : undefined
+      });
+    }
+    : undefined;
+
+  // Turns the column filters into a pipeline step that drops the other rows
+  const handleKeepFilteredRows = onDataChange
+    ? () => {
+      const rows = filterRows(data, activeFilters, locale);
+      const label = describeFilterStep(activeFilters, rows.length, totalRows);
+      onDataChange(rows, { kind: 'filter', filters: activeFilters }, label);
+      setFilters({});
+      toast.success(label);
+    }
+    : undefined;
+
+  const handleAddCalculatedColumn = onDataChange
+    ? (column: string, formula: string) => {
+      const rows = addCalculatedColumn(data, column, formula, locale, typeOverrides);
+      const label = `${columns.includes(column) ? 'Recalculated' : 'Added'} "${column}" = ${formula}`;
+      onDataChange(rows, { kind: 'derive', column, formula }, label);
+      toast.success(label);
+    }
+    : undefined;
+
+  const handleReshape = onDataChange
+    ? (reshape: ReshapeOperation) => {
+      const rows = applyReshape(data, reshape, locale);
+      const label = describeReshape(reshape);
+      onDataChange(rows, { kind: 'reshape', reshape }, label);
+      // Sorts and filters may name columns the reshape removed
+      setSortKeys([]);
+      setFilters({});
+      toast.success(label, { description: `${rows.length} rows × ${Object.keys(rows[0] || {}).filter(column => column !== '_id').length} columns` });
+    }
+    : undefined;
+
+  const handleDedupe = onDataChange
+    ? (dedupe: DedupeOperation) => {
+      const { rows, mergedClusters, removedRows } = applyDedupe(data, dedupe);
+      if (mergedClusters === 0) {
+        toast.info("No duplicates to merge");
+        return;
+      }
+      const label = describeDedupe(dedupe, mergedClusters, removedRows);
+      onDataChange(rows, { kind: 'dedupe', dedupe }, label);
+      toast.success(label, { description: `${rows.length} rows remain` });
+    }
+    : undefined;
+
+  const formatValue = (column: string, value: unknown) =>
+    formatCellValue(value, schemaEntryFor(column)?.format, analyzedColumns.find(col => col.name === column)?.typeInfo, locale);
+
   return (
     <div className="max-w-full mx-auto space-y-6">
       {/* Quick Summary Stats */}
@@ -155,11 +321,8 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
               </div>
               <div>
                 <p className="text-sm text-purple-700 font-medium">Data Quality</p>
-                <p className="text-xl font-bold text-purple-900">
-                  {emptyCells < totalCells * 0.05 ? 'Excellent' : 
-                   emptyCells < totalCells * 0.15 ? 'Good' : 
-                   emptyCells < totalCells * 0.30 ? 'Fair' : 'Poor'}
-                </p>
+                <p className="text-xl font-bold text-purple-900">{describeQualityScore(qualityScore)}</p>
+                <p className="text-xs text-purple-600">Score {qualityScore}/100</p>
               </div>
             </div>
           </CardContent>
@@ -179,14 +342,43 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
                 Showing {filteredData.length} of {totalRows} rows • {columns.length} columns
               </CardDescription>
             </div>
-            <Button
-              onClick={handleExportData}
-              variant="outline"
-              className="flex items-center gap-2 shrink-0"
-            >
-              <Download className="h-4 w-4" />
-              Export Data
-            </Button>
+            <div className="flex items-center gap-2">
+              {handleAddCalculatedColumn && (
+                <FormulaEditor
+                  data={data}
+                  locale={locale}
+                  typeOverrides={typeOverrides}
+                  calculatedColumns={calculatedColumns}
+                  onSave={handleAddCalculatedColumn}
+                />
+              )}
+              {handleReshape && (
+                <ReshapeDialog
+                  data={data}
+                  locale={locale}
+                  numericColumns={numericColumns.map(column => column.name)}
+                  onApply={handleReshape}
+                />
+              )}
+              {handleDedupe && (
+                <DedupeDialog
+                  data={data}
+                  textColumns={analyzedColumns.filter(column => column.type === 'text').map(column => column.name)}
+                  onApply={handleDedupe}
+                />
+              )}
+              {onSchemaChange && (
+                <SchemaEditor data={data} schema={schema} locale={locale} onSave={onSchemaChange} />
+              )}
+              <Button
+                onClick={handleExportData}
+                variant="outline"
+                className="flex items-center gap-2 shrink-0"
+              >
+                <Download className="h-4 w-4" />
+                Export Data
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -237,21 +429,28 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
                   <AccordionContent>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                       {analyzedColumns.map((column) => {
-                        const stats = getDataStatistics(data, column.name);
+                        const stats = columnStats[column.name];
+                        const description = schemaEntryFor(column.name)?.description;
                         return (
-                          <Card key={column.name} className="p-3 hover:shadow-md transition-shadow">
+                          <Card
+                            key={column.name}
+                            className="p-3 hover:shadow-md transition-shadow cursor-pointer"
+                            title="Open column profile"
+                            onClick={() => setProfiledColumn(column.name)}
+                          >
                             <div className="space-y-2">
                               <div className="flex items-center justify-between">
                                 <div className="flex items-center gap-2 min-w-0">
-                                  {getColumnTypeIcon(column.type)}
+                                  <ColumnTypeIcon type={column.typeInfo.semanticType} />
                                   <span className="font-medium text-sm truncate" title={column.name}>
                                     {column.name}
                                   </span>
                                 </div>
-                                <Badge className={`text-xs flex-shrink-0 ${getColumnTypeColor(column.type)}`}>
-                                  {column.type}
-                                </Badge>
+                                <ColumnTypeBadge info={column.typeInfo} className="text-xs flex-shrink-0" />
                               </div>
+                              {description && (
+                                <p className="text-xs text-gray-500 line-clamp-2" title={description}>{description}</p>
+                              )}
                               {stats && (
                                 <div className="text-xs text-gray-600 space-y-1">
                                   {stats.type === 'number' && (
@@ -262,12 +461,20 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
                                       </div>
                                       <div className="flex justify-between">
                                         <span>Range:</span>
-                                        <span>{stats.min} - {stats.max}</span>
+                                        <span>{stats.unit}{stats.min} - {stats.unit}{stats.max}{stats.semanticType === 'percentage' && '%'}</span>
                                       </div>
                                       <div className="flex justify-between">
                                         <span>Avg:</span>
                                         <span>{stats.average.toFixed(2)}</span>
                                       </div>
+                                      {outlierResults[column.name] && (
+                                        <div className="flex justify-between gap-2">
+                                          <span>Outliers:</span>
+                                          <span className={outlierResults[column.name]!.count > 0 ? 'text-orange-700' : ''}>
+                                            {outlierResults[column.name]!.count} ({describeOutlierSettings(outlierResults[column.name]!.bounds)})
+                                          </span>
+                                        </div>
+                                      )}
                                     </>
                                   )}
                                   {stats.type !== 'number' && (
@@ -280,6 +487,26 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
                                         <span>Unique:</span>
                                         <span>{stats.unique}</span>
                                       </div>
+                                      {'trueCount' in stats && (
+                                        <div className="flex justify-between">
+                                          <span>True / False:</span>
+                                          <span>{stats.trueCount} / {stats.falseCount}</span>
+                                        </div>
+                                      )}
+                                      {'earliest' in stats && (
+                                        <div className="flex justify-between gap-2">
+                                          <span>Span:</span>
+                                          <span className="truncate" title={`${stats.earliest} – ${stats.latest}`}>{stats.earliest} – {stats.latest}</span>
+                                        </div>
+                                      )}
+                                      {'topValues' in stats && stats.topValues[0] && (
+                                        <div className="flex justify-between gap-2">
+                                          <span>Top:</span>
+                                          <span className="truncate" title={stats.topValues.map(top => `${top.value} (${top.count})`).join(', ')}>
+                                            {stats.topValues[0].value} ({stats.topValues[0].count})
+                                          </span>
+                                        </div>
+                                      )}
                                     </>
                                   )}
                                 </div>
@@ -294,123 +521,121 @@ export const DataPreview = ({ data, fileName }: DataPreviewProps) => {
               </Accordion>
             </TooltipProvider>
 
-            {/* Data Cleaning Suggestions */}
-            {emptyCells > 0 && (
-              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <h4 className="text-sm font-medium text-yellow-800 mb-2 flex items-center gap-2">
-                  <AlertTriangle className="h-4 w-4" />
-                  Data Quality Insights
-                </h4>
-                <div className="text-sm text-yellow-700 space-y-1">
-                  <p>• {emptyCells} missing values detected ({((emptyCells / totalCells) * 100).toFixed(1)}% of total)</p>
-                  <p>• Consider filling missing numeric values with 0 or median</p>
-                  <p>• Consider filling missing text values with "N/A" or "Unknown"</p>
-                  {emptyCells > totalCells * 0.3 && (
-                    <p className="font-medium">• High percentage of missing data - consider data quality review</p>
-                  )}
-                </div>
-              </div>
-            )}
+            {/* Data Cleaning Suggestions: preview and apply fixes */}
+            <CleaningWorkbench
+              data={data}
+              suggestions={cleaningSuggestions}
+              locale={locale}
+              numericColumns={numericColumns.map(column => column.name)}
+              qualityScore={qualityScore}
+              onApply={handleApplyFix}
+              onReviewColumn={setProfiledColumn}
+            />
 
-            {/* Full Data Table with Enhanced Scrolling */}
+            {/* Virtualized grid: click a header to sort (Shift+click adds a key), drag to reorder, drag the edge to resize */}
             <div>
-              <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center gap-2">
-                <FileSpreadsheet className="h-4 w-4" />
-                Complete Dataset ({filteredData.length} rows)
-              </h3>
-              
-              {/* Responsive Table Container */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <h3 className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Complete Dataset ({filteredData.length} of {totalRows} rows)
+                </h3>
+                {activeSortKeys.length > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    Sorted by {activeSortKeys.map(key => `${key.column} ${key.direction === 'asc' ? '↑' : '↓'}`).join(', ')}
+                  </Badge>
+                )}
+                {filterCount > 0 && (
+                  <Badge variant="outline" className="text-xs bg-blue-50 border-blue-200 text-blue-700">
+                    {filterCount} column filter{filterCount === 1 ? '' : 's'}
+                  </Badge>
+                )}
+                {filterCount > 0 && handleKeepFilteredRows && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    title="Remove the rows hidden by the column filters, as a pipeline step"
+                    onClick={handleKeepFilteredRows}
+                  >
+                    <ListFilter className="h-3.5 w-3.5 mr-1" />
+                    Keep filtered rows
+                  </Button>
+                )}
+                {(filterCount > 0 || searchTerm) && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFilters}>
+                    <FilterX className="h-3.5 w-3.5 mr-1" />
+                    Clear filters
+                  </Button>
+                )}
+                {activeSortKeys.length > 0 && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setSortKeys([])}>
+                    Clear sort
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <ColumnVisibilityMenu
+                  columns={orderColumns(dataColumns.map(column => column.name), columnOrder)}
+                  hiddenColumns={hiddenColumns}
+                  onChange={setHiddenColumns}
+                />
+                {handleSaveView && onDeleteView && (
+                  <SavedViewsBar
+                    views={views}
+                    activeView={activeView}
+                    current={viewState}
+                    onSelect={handleSelectView}
+                    onSave={handleSaveView}
+                    onDelete={onDeleteView}
+                  />
+                )}
+              </div>
+
               <div className="border rounded-lg bg-white shadow-sm">
-                <ScrollArea className="h-[600px] w-full">
-                  <div className="min-w-full">
-                    <table className="w-full border-collapse">
-                      {/* Sticky Header */}
-                      <thead className="sticky top-0 z-10 bg-gray-50 border-b-2 border-gray-200">
-                        <tr>
-                          <th className="sticky left-0 z-20 bg-gray-100 border-r-2 border-gray-300 px-4 py-3 text-center font-semibold text-gray-900 min-w-[60px]">
-                            #
-                          </th>
-                          {columns.map((column, colIndex) => {
-                            const columnType = analyzedColumns.find(col => col.name === column)?.type;
-                            return (
-                              <th 
-                                key={column} 
-                                className="px-4 py-3 text-left font-semibold text-gray-900 border-r border-gray-200 min-w-[150px] max-w-[250px]"
-                              >
-                                <div className="flex items-center gap-2">
-                                  {getColumnTypeIcon(columnType || 'text')}
-                                  <span className="truncate flex-1" title={column}>
-                                    {column}
-                                  </span>
-                                  <Badge className={`text-xs flex-shrink-0 ${getColumnTypeColor(columnType || 'text')}`}>
-                                    {columnType}
-                                  </Badge>
-                                </div>
-                              </th>
-                            );
-                          })}
-                        </tr>
-                      </thead>
-                      
-                      {/* Table Body - All Real Data */}
-                      <tbody>
-                        {filteredData.map((row, rowIndex) => (
-                          <tr 
-                            key={rowIndex} 
-                            className={`border-b border-gray-100 hover:bg-blue-50 transition-colors ${
-                              rowIndex % 2 === 0 ? 'bg-white' : 'bg-gray-25'
-                            }`}
-                          >
-                            {/* Sticky Row Number */}
-                            <td className="sticky left-0 z-10 bg-gray-50 border-r-2 border-gray-300 px-4 py-3 text-center text-sm text-gray-500 font-mono">
-                              {rowIndex + 1}
-                            </td>
-                            
-                            {/* Data Cells */}
-                            {columns.map((column) => {
-                              const value = row[column];
-                              const isEmpty = isCellEmpty(value);
-                              const isOutlierValue = isOutlier(value, column);
-                              
-                              return (
-                                <td 
-                                  key={column} 
-                                  className={`px-4 py-3 text-sm border-r border-gray-100 min-w-[150px] max-w-[250px] ${
-                                    isEmpty ? 'bg-red-50 text-red-400 italic' : 
-                                    isOutlierValue ? 'bg-orange-50 text-orange-700' : 'text-gray-900'
-                                  }`}
-                                  title={isEmpty ? 'Missing value' : isOutlierValue ? `Potential outlier: ${value}` : String(value || '')}
-                                >
-                                  <div className="truncate">
-                                    {isEmpty ? '(empty)' : String(value)}
-                                  </div>
-                                </td>
-                              );
-                            })}
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </ScrollArea>
+                <DataGrid
+                  rows={filteredData}
+                  sourceRows={searchedData}
+                  columns={gridColumns}
+                  sortKeys={activeSortKeys}
+                  columnOrder={columnOrder}
+                  onColumnOrderChange={setColumnOrder}
+                  onSortToggle={(column, append) => setSortKeys(current => toggleSortKey(current, column, append))}
+                  filters={activeFilters}
+                  onFilterChange={handleFilterChange}
+                  formatValue={formatValue}
+                  isOutlier={isOutlier}
+                  descriptions={Object.fromEntries(gridColumns.map(column => [column.name, schemaEntryFor(column.name)?.description]))}
+                  onColumnProfile={setProfiledColumn}
+                />
               </div>
             </div>
 
             {/* Data Summary Footer */}
             <div className="flex flex-col sm:flex-row justify-between items-center gap-4 pt-4 border-t border-gray-200">
               <div className="text-sm text-gray-600">
-                Displaying all {filteredData.length} rows of {totalRows} total records
+                Displaying {filteredData.length} of {totalRows} total records
                 {searchTerm && ` (filtered by "${searchTerm}")`}
+                {filterCount > 0 && ` • ${filterCount} column filter${filterCount === 1 ? '' : 's'} active`}
               </div>
               <div className="flex items-center gap-4 text-sm text-gray-500">
                 <span>Columns: {columns.length}</span>
                 <span>•</span>
-                <span>Data Quality: {((1 - emptyCells / totalCells) * 100).toFixed(1)}%</span>
+                <span>Data Quality: {qualityScore}/100</span>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <ColumnProfileDrawer
+        column={analyzedColumns.find(column => column.name === profiledColumn) || null}
+        rows={data}
+        locale={locale}
+        outliers={profiledColumn ? outlierResults[profiledColumn] : null}
+        onOutlierSettingsChange={handleOutlierSettingsChange}
+        onClose={() => setProfiledColumn(null)}
+      />
     </div>
   );
 };
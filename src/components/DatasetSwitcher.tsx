@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import { Layers } from "lucide-react";
+import { SheetDataset } from "@/utils/excelUtils";
+
+interface DatasetSwitcherProps {
+  datasets: SheetDataset[];
+  activeIndex: number;
+  onChange: (index: number) => void;
+}
+
+export const DatasetSwitcher = ({ datasets, activeIndex, onChange }: DatasetSwitcherProps) => {
+  // Single-sheet uploads have nothing to switch between
+  if (datasets.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-white/80 rounded-xl border border-gray-200/50 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 mr-2">
+        <Layers className="h-4 w-4 text-blue-600" />
+        Sheets
+      </div>
+      {datasets.map((dataset, index) => (
+        <Button
+          key={dataset.sheetName}
+          size="sm"
+          variant={index === activeIndex ? "default" : "outline"}
+          onClick={() => onChange(index)}
+          className={index === activeIndex ? "bg-gradient-to-r from-blue-600 to-purple-600" : ""}
+        >
+          {dataset.sheetName}
+          <span className="ml-2 text-xs opacity-75">{dataset.data.length} rows</span>
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CopyX, Loader2 } from "lucide-react";
+import { isMissing } from "@/utils/dataCleaning";
+import {
+  ClusterResolution,
+  clusterKey,
+  DedupeOperation,
+  DEFAULT_THRESHOLD,
+  DuplicateCluster,
+  findDuplicateClusters,
+  mergeCluster,
+  SURVIVOR_RULES,
+  SurvivorRule
+} from "@/utils/fuzzyDedup";
+import type { Row } from "@/utils/excelUtils";
+
+interface DedupeDialogProps {
+  // Rows with the current schema applied
+  data: Row[];
+  // Text columns, offered first as keys
+  textColumns: string[];
+  onApply: (operation: DedupeOperation) => void;
+}
+
+// Groups rendered at a time; the rest are behind "Show more"
+const PAGE_SIZE = 20;
+
+const showValue = (value: unknown) => isMissing(value) ? '(empty)' : String(value);
+
+export const DedupeDialog = ({ data, textColumns, onApply }: DedupeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [keys, setKeys] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [survivorRule, setSurvivorRule] = useState<SurvivorRule>('first');
+  const [fillBlanks, setFillBlanks] = useState(true);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, ClusterResolution>>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const columns = useMemo(() => Object.keys(data[0] || {}).filter(column => column !== '_id'), [data]);
+  const keyOptions = useMemo(
+    () => [...columns.filter(column => textColumns.includes(column)), ...columns.filter(column => !textColumns.includes(column))],
+    [columns, textColumns]
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setClusters(null);
+      setResolutions({});
+    }
+    setOpen(next);
+  };
+
+  // Results no longer match once the settings change
+  const resetResults = () => {
+    setClusters(null);
+    setResolutions({});
+  };
+
+  const toggleKey = (column: string) => {
+    setKeys(current => current.includes(column) ? current.filter(key => key !== column) : [...current, column]);
+    resetResults();
+  };
+
+  const handleFind = () => {
+    setSearching(true);
+    // Lets the spinner render before the comparison blocks the page
+    setTimeout(() => {
+      setClusters(findDuplicateClusters(data, { keys, threshold }));
+      setResolutions({});
+      setVisibleCount(PAGE_SIZE);
+      setSearching(false);
+    }, 0);
+  };
+
+  const resolve = (cluster: DuplicateCluster, changes: Partial<ClusterResolution>) => {
+    const key = clusterKey(cluster.ids);
+    setResolutions(current => ({
+      ...current,
+      [key]: { ...current[key], ...changes, members: [...cluster.ids].sort((a, b) => a - b) }
+    }));
+  };
+
+  const merged = useMemo(
+    () => (clusters || []).map(cluster =>
+      mergeCluster(data, cluster, { survivorRule, fillBlanks }, resolutions[clusterKey(cluster.ids)])
+    ),
+    [clusters, data, survivorRule, fillBlanks, resolutions]
+  );
+  const removedRows = (clusters || []).reduce((sum, cluster, i) => sum + (merged[i] ? cluster.rows.length - 1 : 0), 0);
+
+  const handleApply = () => {
+    onApply({ keys, threshold, survivorRule, fillBlanks, resolutions: Object.values(resolutions) });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2 shrink-0">
+          <CopyX className="h-4 w-4" />
+          Find Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Near-duplicate rows</DialogTitle>
+          <DialogDescription>
+            Rows whose key columns are nearly the same (ignoring case, punctuation and word order) are grouped for review.
+            Each group is merged into one row; pick the row to keep or click a cell to take its value.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_260px] gap-4">
+          <div className="space-y-2">
+            <Label>Key columns ({keys.length})</Label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto p-2 border rounded-md">
+              {keyOptions.map(column => (
+                <label key={column} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                  <Checkbox checked={keys.includes(column)} onCheckedChange={() => toggleKey(column)} />
+                  {column}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Similarity: {Math.round(threshold * 100)}%</Label>
+              <Slider
+                min={60}
+                max={100}
+                step={1}
+                value={[Math.round(threshold * 100)]}
+                onValueChange={([value]) => {
+                  setThreshold(value / 100);
+                  resetResults();
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Keep by default</Label>
+              <Select value={survivorRule} onValueChange={(value) => setSurvivorRule(value as SurvivorRule)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SURVIVOR_RULES.map(rule => (
+                    <SelectItem key={rule.id} value={rule.id}>{rule.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="dedupe-fill-blanks" checked={fillBlanks} onCheckedChange={setFillBlanks} />
+              <Label htmlFor="dedupe-fill-blanks" className="text-sm font-normal">Fill blanks from other rows</Label>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleFind} disabled={keys.length === 0 || searching} variant="secondary">
+            {searching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Find duplicates
+          </Button>
+          {clusters && (
+            <span className="text-sm text-gray-600">
+              {clusters.length === 0
+                ? 'No near-duplicates found'
+                : `${clusters.length} groups; ${removedRows} rows would be merged away`}
+            </span>
+          )}
+        </div>
+
+        {clusters && clusters.length > 0 && (
+          <div className="space-y-3">
+            {clusters.slice(0, visibleCount).map((cluster, index) => {
+              const key = clusterKey(cluster.ids);
+              const resolution = resolutions[key];
+              const result = merged[index];
+              const survivorId = result ? data[result.index]._id : null;
+              return (
+                <div key={key} className={`border rounded-lg ${result ? '' : 'opacity-60'}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">Group {index + 1}</span>
+                      <Badge variant="outline">{cluster.rows.length} rows</Badge>
+                      <Badge variant="secondary">{Math.round(cluster.score * 100)}% similar</Badge>
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => resolve(cluster, { skip: !resolution?.skip })}>
+                      {resolution?.skip ? 'Merge these rows' : 'Not duplicates'}
+                    </Button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead className="text-gray-500">
+                        <tr>
+                          <th className="px-2 py-1.5 text-left font-medium">Keep</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Row</th>
+                          {columns.map(column => (
+                            <th key={column} className={`px-2 py-1.5 text-left font-medium whitespace-nowrap ${keys.includes(column) ? 'text-blue-700' : ''}`}>
+                              {column}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cluster.rows.map(rowIndex => {
+                          const row = data[rowIndex];
+                          return (
+                            <tr key={row._id} className="border-t border-gray-100">
+                              <td className="px-2 py-1">
+                                <input
+                                  type="radio"
+                                  name={`survivor-${key}`}
+                                  checked={survivorId === row._id}
+                                  disabled={!result}
+                                  onChange={() => resolve(cluster, { survivor: row._id })}
+                                />
+                              </td>
+                              <td className="px-2 py-1 text-gray-400">{row._id}</td>
+                              {columns.map(column => {
+                                const chosen = result && resolution?.fields?.[column] === row._id;
+                                return (
+                                  <td
+                                    key={column}
+                                    className={`px-2 py-1 whitespace-nowrap cursor-pointer hover:bg-blue-50 ${chosen ? 'bg-blue-100 font-medium' : ''} ${isMissing(row[column]) ? 'italic text-gray-400' : 'text-gray-700'}`}
+                                    title="Use this value in the merged row"
+                                    onClick={() => result && resolve(cluster, { fields: { ...resolution?.fields, [column]: row._id } })}
+                                  >
+                                    {showValue(row[column])}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          );
+                        })}
+                        {result && (
+                          <tr className="border-t-2 border-green-200 bg-green-50">
+                            <td className="px-2 py-1 text-green-700 font-medium" colSpan={2}>Merged</td>
+                            {columns.map(column => (
+                              <td key={column} className="px-2 py-1 whitespace-nowrap text-green-900 font-medium">
+                                {showValue(result.row[column])}
+                              </td>
+                            ))}
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              );
+            })}
+            {clusters.length > visibleCount && (
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                Show more ({clusters.length - visibleCount} left)
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={!clusters || removedRows === 0}>
+            Merge {removedRows > 0 ? `${removedRows} rows` : 'duplicates'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,21 +1,60 @@
-
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, FileSpreadsheet, X, AlertCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Upload, FileSpreadsheet, X, AlertCircle, Layers } from "lucide-react";
 import { toast } from "sonner";
-import * as XLSX from 'xlsx';
+import { SheetDataset, SheetSummary } from "@/utils/excelUtils";
+import { TableRegion } from "@/utils/tableDetection";
+import { createWorkbookParser, ParseCancelledError, ParseProgress, WorkbookParser } from "@/utils/workbookParser";
+import { detectImportFormat, SUPPORTED_EXTENSIONS } from "@/utils/importFormats";
+import { TableRegionEditor } from "@/components/TableRegionEditor";
+import { PasteDataDialog } from "@/components/PasteDataDialog";
+import { LocaleSettingsEditor } from "@/components/LocaleSettingsEditor";
+import { getDefaultLocaleSettings, LocaleSettings } from "@/utils/localeParsing";
+
+// Parsing runs in a Web Worker, so larger files no longer freeze the tab
+const MAX_FILE_SIZE_MB = 50;
 
 interface FileUploadProps {
-  onFileUpload: (data: any[], file: File) => void;
+  onFileUpload: (datasets: SheetDataset[], file: File) => void;
+  onDatasetsUpdate?: (datasets: SheetDataset[]) => void;
 }
 
-export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
+export const FileUpload = ({ onFileUpload, onDatasetsUpdate }: FileUploadProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [sheetSummaries, setSheetSummaries] = useState<SheetSummary[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [loadedDatasets, setLoadedDatasets] = useState<SheetDataset[]>([]);
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(getDefaultLocaleSettings);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parserRef = useRef<WorkbookParser | null>(null);
+
+  // Release the worker (and the workbook it holds) when the card goes away
+  useEffect(() => () => parserRef.current?.dispose(), []);
+
+  const reportError = (error: unknown, fallback: string) => {
+    if (error instanceof ParseCancelledError) {
+      toast.info("File processing cancelled");
+      return;
+    }
+    console.error('Error processing Excel file:', error);
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setUploadError(errorMessage);
+    toast.error(errorMessage);
+  };
+
+  const warnAmbiguousDates = (datasets: SheetDataset[]) => {
+    const columns = datasets.flatMap(dataset => dataset.ambiguousDateColumns || []);
+    if (columns.length === 0) return;
+    const order = localeSettings.dateOrder === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+    toast.warning(`Dates in ${columns.map(column => `"${column}"`).join(', ')} fit both day-first and month-first; read as ${order}. Change it under "Number & date format" if that's wrong.`);
+  };
 
   const processExcelFile = async (file: File) => {
     console.log('Processing file:', file.name, 'Size:', file.size);
@@ -23,128 +62,182 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
     // Clear any previous errors
     setUploadError(null);
     
-    // File size check (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      const error = "File size too large. Please upload files smaller than 10MB.";
+    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      const error = `File size too large. Please upload files smaller than ${MAX_FILE_SIZE_MB}MB.`;
       setUploadError(error);
       toast.error(error);
       return;
     }
 
-    // File type validation
-    const validTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-      'application/vnd.ms-excel', // .xls
-      'text/csv', // .csv
-    ];
+    const format = detectImportFormat(file);
     
-    const isValidType = validTypes.includes(file.type) || file.name.match(/\.(xlsx?|csv)$/i);
-    
-    if (!isValidType) {
-      const error = "Please upload an Excel file (.xlsx, .xls) or CSV file";
+    if (!format) {
+      const error = `Unsupported file type. Supported formats: ${SUPPORTED_EXTENSIONS.join(', ')}`;
       setUploadError(error);
       toast.error(error);
       return;
     }
 
+    // Each file gets a fresh worker; the previous workbook is released
+    parserRef.current?.dispose();
+    const parser = createWorkbookParser();
+    parserRef.current = parser;
+
     setIsProcessing(true);
     
     try {
-      console.log('Reading file as array buffer...');
       const arrayBuffer = await file.arrayBuffer();
       console.log('Array buffer size:', arrayBuffer.byteLength);
       
-      const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-      console.log('Workbook sheets:', workbook.SheetNames);
+      const summaries = await parser.readWorkbook(arrayBuffer, format, setProgress);
+      console.log('Workbook sheets:', summaries.map(sheet => sheet.name));
       
-      if (workbook.SheetNames.length === 0) {
-        throw new Error("No sheets found in the Excel file");
+      // Workbooks with several sheets go through the sheet picker first
+      if (summaries.length > 1) {
+        setPendingFile(file);
+        setSheetSummaries(summaries);
+        const firstWithData = summaries.find(sheet => sheet.rowCount > 1) || summaries[0];
+        setSelectedSheets([firstWithData.name]);
+        return;
       }
       
-      // Get the first sheet
-      const firstSheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[firstSheetName];
-      
-      // Convert to JSON with header row as keys
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-        header: 1,
-        defval: '', // Default value for empty cells
-        raw: false // This helps with date parsing
-      });
-      
-      console.log('Raw JSON data rows:', jsonData.length);
-      
-      if (jsonData.length === 0) {
-        throw new Error("The Excel file appears to be empty");
-      }
-      
-      if (jsonData.length < 2) {
-        throw new Error("The Excel file must contain at least a header row and one data row");
+      await loadSheets(file, [summaries[0].name]);
+    } catch (error) {
+      reportError(error, "Failed to parse Excel file. Please check the file format.");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  const loadSheets = async (file: File, sheetNames: string[]) => {
+    const parser = parserRef.current;
+    if (!parser) return;
+
+    const datasets = await parser.parseSheets(sheetNames.map(sheetName => ({ sheetName })), setProgress, localeSettings);
+    
+    const totalRows = datasets.reduce((sum, dataset) => sum + dataset.data.length, 0);
+    console.log(`Successfully processed ${totalRows} rows from ${datasets.length} sheet(s)`);
+    
+    onFileUpload(datasets, file);
+    setSelectedFile(file);
+    setLoadedDatasets(datasets);
+    setUploadError(null);
+    toast.success(datasets.length > 1
+      ? `Successfully parsed ${totalRows} rows from ${datasets.length} sheets!`
+      : `Successfully parsed ${totalRows} rows from Excel file!`);
+    warnAmbiguousDates(datasets);
+  };
+
+  const handleLoadSelectedSheets = async () => {
+    if (!pendingFile || selectedSheets.length === 0) return;
+    setIsProcessing(true);
+    try {
+      // Keep workbook order regardless of the order sheets were ticked
+      const ordered = sheetSummaries.map(sheet => sheet.name).filter(name => selectedSheets.includes(name));
+      await loadSheets(pendingFile, ordered);
+      setPendingFile(null);
+      setSheetSummaries([]);
+    } catch (error) {
+      if (error instanceof ParseCancelledError) {
+        // The worker was terminated with the workbook, so the picker can't continue
+        cancelSheetPicker();
       }
-      
-      // First row contains headers
-      const headers = jsonData[0] as string[];
-      const rows = jsonData.slice(1) as any[][];
-      
-      console.log('Headers:', headers);
-      console.log('Data rows:', rows.length);
-      
-      // Convert to array of objects
-      const processedData = rows
-        .filter(row => row.some(cell => cell !== null && cell !== undefined && cell !== '')) // Filter out completely empty rows
-        .map((row, index) => {
-          const rowData: any = { _id: index + 1 };
-          headers.forEach((header, colIndex) => {
-            let value = row[colIndex];
-            
-            // Handle null/undefined values
-            if (value === null || value === undefined) {
-              value = '';
-            }
-            
-            // Try to parse numbers (but keep original if it's already a number)
-            if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
-              const numValue = Number(value);
-              if (!isNaN(numValue)) {
-                value = numValue;
-              }
-            }
-            
-            // Handle dates better
-            if (typeof value === 'string' && value.match(/^\d{4}-\d{2}-\d{2}$|^\d{1,2}\/\d{1,2}\/\d{4}$|^\d{1,2}-\d{1,2}-\d{4}$/)) {
-              const dateValue = new Date(value);
-              if (!isNaN(dateValue.getTime())) {
-                value = dateValue.toISOString().split('T')[0];
-              }
-            }
-            
-            rowData[header || `Column_${colIndex + 1}`] = value;
-          });
-          return rowData;
-        });
-      
-      if (processedData.length === 0) {
-        throw new Error("No valid data found in the Excel file");
+      reportError(error, "Failed to parse the selected sheets.");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  // Re-parse one sheet with a manually corrected table region
+  const handleRegionApply = async (sheetName: string, region: TableRegion) => {
+    const parser = parserRef.current;
+    if (!parser) return;
+    setIsProcessing(true);
+    try {
+      const [reparsed] = await parser.parseSheets([{ sheetName, region }], setProgress, localeSettings);
+      const datasets = loadedDatasets.map(dataset =>
+        dataset.sheetName === sheetName ? { ...dataset, ...reparsed } : dataset
+      );
+      setLoadedDatasets(datasets);
+      onDatasetsUpdate?.(datasets);
+      toast.success(`Re-parsed ${reparsed.data.length} rows from "${sheetName}"`);
+    } catch (error) {
+      if (error instanceof ParseCancelledError) {
+        toast.info("File processing cancelled");
+      } else {
+        toast.error(error instanceof Error ? error.message : "Failed to apply the table region.");
       }
-      
-      console.log(`Successfully processed ${processedData.length} rows with ${headers.length} columns`);
-      console.log('Sample data:', processedData.slice(0, 3));
-      
-      onFileUpload(processedData, file);
-      setSelectedFile(file);
-      setUploadError(null);
-      toast.success(`Successfully parsed ${processedData.length} rows from Excel file!`);
-      
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  // Re-parse every loaded sheet (keeping its table region) with new locale settings
+  const handleLocaleApply = async (settings: LocaleSettings) => {
+    const parser = parserRef.current;
+    if (!parser) return;
+    setIsProcessing(true);
+    try {
+      const datasets = await parser.parseSheets(
+        loadedDatasets.map(dataset => ({ sheetName: dataset.sheetName, region: dataset.region })),
+        setProgress,
+        settings
+      );
+      setLocaleSettings(settings);
+      setLoadedDatasets(datasets);
+      onDatasetsUpdate?.(datasets);
+      toast.success("Re-parsed the data with the new number and date format");
+      warnAmbiguousDates(datasets);
     } catch (error) {
-      console.error('Error processing Excel file:', error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to parse Excel file. Please check the file format.";
-      setUploadError(errorMessage);
-      toast.error(errorMessage);
+      if (error instanceof ParseCancelledError) {
+        toast.info("File processing cancelled");
+      } else {
+        toast.error(error instanceof Error ? error.message : "Failed to apply the number and date format.");
+      }
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
+  const handleCancelProcessing = () => {
+    parserRef.current?.cancel();
+    parserRef.current = null;
+  };
+
+  const toggleSheet = (sheetName: string) => {
+    setSelectedSheets(current => current.includes(sheetName)
+      ? current.filter(name => name !== sheetName)
+      : [...current, sheetName]);
+  };
+
+  // Pasted ranges become a TSV file so they follow the same upload path as files
+  const handlePasteSubmit = (text: string) => {
+    const file = new File([text], `pasted-data-${new Date().toISOString().slice(0, 10)}.tsv`, {
+      type: 'text/tab-separated-values'
+    });
+    processExcelFile(file);
+  };
+
+  const handleCardPaste = (e: React.ClipboardEvent) => {
+    // Leave pastes into inputs (e.g. the table region editor) alone
+    if (isProcessing || (e.target instanceof HTMLElement && e.target.closest('input, textarea'))) return;
+    const text = e.clipboardData.getData('text/plain');
+    if (text && /[\t\n]/.test(text.trim())) {
+      e.preventDefault();
+      handlePasteSubmit(text);
+    }
+  };
+
+  const cancelSheetPicker = () => {
+    setPendingFile(null);
+    setSheetSummaries([]);
+    setSelectedSheets([]);
+  };
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
@@ -154,7 +247,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
     if (files.length > 0) {
       processExcelFile(files[0]);
     }
-  }, []);
+  }, [localeSettings]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -172,6 +265,9 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
 
   const clearFile = () => {
     setSelectedFile(null);
+    setLoadedDatasets([]);
+    parserRef.current?.dispose();
+    parserRef.current = null;
     setUploadError(null);
   };
 
@@ -191,6 +287,8 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
           setIsDragOver(true);
         }}
         onDragLeave={() => setIsDragOver(false)}
+        onPaste={handleCardPaste}
+        tabIndex={-1}
       >
         <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12 px-4 sm:px-6 text-center">
           {isProcessing ? (
@@ -201,10 +299,80 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
               </div>
               <div className="space-y-2">
                 <p className="text-lg font-medium text-gray-900">Processing your Excel file...</p>
-                <p className="text-sm text-gray-600">Parsing data and detecting column types...</p>
-                <div className="w-48 sm:w-64 bg-gray-200 rounded-full h-2">
-                  <div className="bg-blue-600 h-2 rounded-full animate-pulse" style={{ width: '70%' }}></div>
+                <p className="text-sm text-gray-600">
+                  {progress?.phase === 'parsing'
+                    ? `Sheet "${progress.sheetName}"${progress.sheetCount && progress.sheetCount > 1 ? ` (${(progress.sheetIndex ?? 0) + 1} of ${progress.sheetCount})` : ''}: ${progress.rowsParsed.toLocaleString()} of ${progress.totalRows.toLocaleString()} rows`
+                    : 'Reading workbook...'}
+                </p>
+                <div className="w-48 sm:w-64 bg-gray-200 rounded-full h-2 mx-auto">
+                  {progress?.phase === 'parsing' && progress.totalRows > 0 ? (
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{ width: `${Math.round((progress.rowsParsed / progress.totalRows) * 100)}%` }}
+                    ></div>
+                  ) : (
+                    <div className="bg-blue-600 h-2 rounded-full animate-pulse" style={{ width: '100%' }}></div>
+                  )}
                 </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCancelProcessing}
+                  className="mt-3 hover:bg-red-50 hover:border-red-200 hover:text-red-600"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : pendingFile ? (
+            <div className="w-full max-w-md space-y-4 text-left">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Layers className="h-5 w-5 text-blue-600" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-lg font-medium text-gray-900 truncate">{pendingFile.name}</p>
+                  <p className="text-sm text-gray-600">
+                    This workbook has {sheetSummaries.length} sheets. Choose which ones to load.
+                  </p>
+                </div>
+              </div>
+              <div className="border rounded-lg divide-y bg-white max-h-64 overflow-y-auto">
+                {sheetSummaries.map((sheet) => (
+                  <label
+                    key={sheet.name}
+                    className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-blue-50"
+                  >
+                    <Checkbox
+                      checked={selectedSheets.includes(sheet.name)}
+                      onCheckedChange={() => toggleSheet(sheet.name)}
+                    />
+                    <span className="flex-1 text-sm font-medium text-gray-900 truncate" title={sheet.name}>
+                      {sheet.name}
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {sheet.rowCount > 0 ? `${sheet.rowCount} rows × ${sheet.columnCount} cols` : 'empty'}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Each selected sheet is loaded as a separate dataset.
+              </p>
+              <LocaleSettingsEditor settings={localeSettings} onApply={setLocaleSettings} immediate />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={cancelSheetPicker}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleLoadSelectedSheets}
+                  disabled={selectedSheets.length === 0}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  Load {selectedSheets.length} {selectedSheets.length === 1 ? 'sheet' : 'sheets'}
+                </Button>
               </div>
             </div>
           ) : selectedFile ? (
@@ -220,6 +388,20 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                 <p className="text-xs text-gray-500">
                   Size: {(selectedFile.size / 1024).toFixed(1)} KB
                 </p>
+                {loadedDatasets.length > 0 && (
+                  <p className="text-xs text-gray-500 break-words">
+                    {loadedDatasets.length === 1 ? 'Sheet' : 'Sheets'}: {loadedDatasets.map(dataset => dataset.sheetName).join(', ')}
+                  </p>
+                )}
+                <div className="flex flex-col items-center">
+                  <TableRegionEditor sheets={loadedDatasets} onApply={handleRegionApply} />
+                  <LocaleSettingsEditor settings={localeSettings} onApply={handleLocaleApply} />
+                </div>
+                {loadedDatasets.some(dataset => dataset.ambiguousDateColumns?.length) && (
+                  <p className="text-xs text-amber-700 max-w-md mx-auto">
+                    Ambiguous dates read as {localeSettings.dateOrder === 'DMY' ? 'day first' : 'month first'}: {loadedDatasets.flatMap(dataset => dataset.ambiguousDateColumns || []).join(', ')}
+                  </p>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -267,15 +449,18 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                   or click to browse and select a file
                 </p>
                 <div className="flex flex-wrap gap-2 justify-center">
-                  <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">.xlsx</span>
-                  <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">.xls</span>
-                  <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">.csv</span>
+                  {SUPPORTED_EXTENSIONS.map(extension => (
+                    <span key={extension} className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">{extension}</span>
+                  ))}
                 </div>
                 <p className="text-xs text-gray-500">
-                  Maximum file size: 10MB
+                  Maximum file size: {MAX_FILE_SIZE_MB}MB
                 </p>
+                <div className="flex justify-center">
+                  <LocaleSettingsEditor settings={localeSettings} onApply={setLocaleSettings} immediate />
+                </div>
               </div>
-              <div className="pt-2">
+              <div className="pt-2 flex flex-col sm:flex-row gap-3 justify-center">
                 <Button 
                   size="lg"
                   onClick={handleChooseFileClick}
@@ -284,10 +469,11 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                   <Upload className="h-5 w-5 mr-2" />
                   Choose File
                 </Button>
+                <PasteDataDialog onSubmit={handlePasteSubmit} />
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".xlsx,.xls,.csv"
+                  accept={SUPPORTED_EXTENSIONS.join(',')}
                   className="hidden"
                   onChange={handleFileSelect}
                 />
@@ -306,7 +492,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
             </div>
             <div>
               <p className="text-sm font-medium text-gray-900">Supported formats</p>
-              <p className="text-xs text-gray-600">Excel files (.xlsx, .xls) and CSV files with headers in the first row</p>
+              <p className="text-xs text-gray-600">Excel (.xlsx, .xls), OpenDocument (.ods), CSV/TSV and JSON files, or a range pasted from Excel or Google Sheets. Header rows and the table area are detected automatically; multi-sheet workbooks let you pick the sheets to load</p>
             </div>
           </div>
         </CardContent>
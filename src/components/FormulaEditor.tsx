@@ -0,0 +1,252 @@
+import { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle2, Sigma } from "lucide-react";
+import { SemanticType } from "@/utils/columnTypes";
+import { LocaleSettings } from "@/utils/localeParsing";
+import {
+  CalculatedColumn,
+  compileFormula,
+  FORMULA_FUNCTIONS,
+  FormulaError,
+  FormulaType,
+  getFormulaColumnTypes
+} from "@/utils/formula";
+import type { Row } from "@/utils/excelUtils";
+
+interface FormulaEditorProps {
+  // Rows with the current schema applied; formulas refer to these column names
+  data: Row[];
+  locale?: LocaleSettings;
+  typeOverrides?: Record<string, SemanticType>;
+  // Columns added by earlier formulas; picking one edits it
+  calculatedColumns?: CalculatedColumn[];
+  onSave: (column: string, formula: string) => void;
+}
+
+// Rows shown under the formula while typing
+const PREVIEW_ROWS = 5;
+
+const TYPE_LABELS: Record<FormulaType, string> = {
+  number: 'Number',
+  text: 'Text',
+  date: 'Date',
+  boolean: 'TRUE/FALSE',
+  any: 'Mixed'
+};
+
+// Bare names only work for single words; anything else needs brackets
+const columnReference = (column: string) => /^[\p{L}_][\p{L}\p{N}_]*$/u.test(column) ? column : `[${column}]`;
+
+export const FormulaEditor = ({ data, locale, typeOverrides = {}, calculatedColumns = [], onSave }: FormulaEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [formula, setFormula] = useState("");
+  const formulaRef = useRef<HTMLTextAreaElement>(null);
+
+  const columnTypes = useMemo(
+    () => open ? getFormulaColumnTypes(data, locale, typeOverrides) : {},
+    [open, data, locale, typeOverrides]
+  );
+  const calculatedNames = calculatedColumns.map(column => column.name);
+  const trimmedName = name.trim();
+  const isRedefining = calculatedNames.includes(trimmedName);
+
+  // A calculated column can't refer to itself, so it's left out when it's being redefined
+  const scope = useMemo(() => {
+    const { [trimmedName]: _self, ...others } = columnTypes;
+    return isRedefining ? others : columnTypes;
+  }, [columnTypes, trimmedName, isRedefining]);
+
+  const result = useMemo(() => {
+    if (!formula.trim()) return null;
+    try {
+      const compiled = compileFormula(formula, scope, locale);
+      return { compiled, rows: data.slice(0, PREVIEW_ROWS).map(row => ({ row, value: compiled.evaluate(row) })) };
+    } catch (error) {
+      if (error instanceof FormulaError) return { error };
+      throw error;
+    }
+  }, [formula, scope, data, locale]);
+
+  const nameError = !trimmedName
+    ? 'Name the new column'
+    : trimmedName === '_id' || (trimmedName in columnTypes && !isRedefining)
+      ? `"${trimmedName}" is already a column of the sheet`
+      : null;
+  const error = nameError || (result && 'error' in result ? result.error?.message : null) || (!result ? 'Enter a formula' : null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setName("");
+      setFormula("");
+    }
+    setOpen(next);
+  };
+
+  const insert = (text: string) => {
+    const textarea = formulaRef.current;
+    const start = textarea?.selectionStart ?? formula.length;
+    const end = textarea?.selectionEnd ?? formula.length;
+    setFormula(formula.slice(0, start) + text + formula.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleSave = () => {
+    onSave(trimmedName, formula.trim());
+    setOpen(false);
+  };
+
+  const preview = result && 'compiled' in result ? result : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2 shrink-0">
+          <Sigma className="h-4 w-4" />
+          Add Column
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Calculated column</DialogTitle>
+          <DialogDescription>
+            Write a spreadsheet-style formula, e.g. <code className="font-mono">([Revenue] - [Cost]) / [Revenue]</code>.
+            The column is recorded in the pipeline and can be used in charts like any other.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_260px] gap-4">
+          <div className="space-y-3 min-w-0">
+            <div className="space-y-1">
+              <Label htmlFor="formula-name">Column name</Label>
+              <Input id="formula-name" value={name} placeholder="e.g. Margin" onChange={(e) => setName(e.target.value)} />
+            </div>
+            {calculatedColumns.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-gray-500 mr-1">Edit:</span>
+                {calculatedColumns.map((column, index) => (
+                  <Badge
+                    key={`${column.name}-${index}`}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => {
+                      setName(column.name);
+                      setFormula(column.formula);
+                    }}
+                  >
+                    {column.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="formula-text">Formula</Label>
+              <Textarea
+                id="formula-text"
+                ref={formulaRef}
+                value={formula}
+                placeholder='IF([Amount] > 1000, "Large", "Small")'
+                onChange={(e) => setFormula(e.target.value)}
+                className="font-mono text-sm min-h-[90px]"
+                spellCheck={false}
+              />
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(columnTypes).map(([column, type]) => (
+                <Badge
+                  key={column}
+                  variant="outline"
+                  className="cursor-pointer font-normal"
+                  title={`${TYPE_LABELS[type]} — click to insert`}
+                  onClick={() => insert(columnReference(column))}
+                >
+                  {column}
+                </Badge>
+              ))}
+            </div>
+            {result && 'error' in result && result.error && (
+              <div className="flex items-start gap-2 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {result.error.message}
+                  {formula.trim() && <span className="text-red-400"> (at character {result.error.position + 1})</span>}
+                </span>
+              </div>
+            )}
+            {preview && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Result type: <span className="font-medium">{TYPE_LABELS[preview.compiled.resultType]}</span>
+                </div>
+                <div className="border rounded-md overflow-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-500">
+                      <tr>
+                        {preview.compiled.columns.map(column => (
+                          <th key={column} className="px-2 py-1.5 text-left font-medium">{column}</th>
+                        ))}
+                        <th className="px-2 py-1.5 text-left font-medium text-blue-700">{trimmedName || 'Result'}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map(({ row, value }, index) => (
+                        <tr key={row._id ?? index} className="border-t border-gray-100">
+                          {preview.compiled.columns.map(column => (
+                            <td key={column} className="px-2 py-1 text-gray-600">{String(row[column] ?? '')}</td>
+                          ))}
+                          <td className={`px-2 py-1 font-medium ${value === '' ? 'italic text-gray-400' : 'text-blue-800'}`}>
+                            {value === '' ? '(empty)' : String(value)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+          <ScrollArea className="h-[360px] border rounded-md p-2">
+            <div className="space-y-3">
+              {(['Logic', 'Math', 'Text', 'Date'] as const).map(category => (
+                <div key={category}>
+                  <p className="text-xs font-semibold text-gray-500 mb-1">{category}</p>
+                  {Object.entries(FORMULA_FUNCTIONS)
+                    .filter(([, spec]) => spec.category === category)
+                    .map(([fn, spec]) => (
+                      <button
+                        key={fn}
+                        type="button"
+                        className="block w-full text-left px-1.5 py-1 rounded hover:bg-gray-100"
+                        onClick={() => insert(`${fn}(`)}
+                      >
+                        <span className="font-mono text-xs text-gray-900">{spec.signature}</span>
+                        <span className="block text-[11px] text-gray-500">{spec.description}</span>
+                      </button>
+                    ))}
+                </div>
+              ))}
+              <p className="text-[11px] text-gray-500 px-1.5">
+                Operators: + - * / ^, &amp; joins text, = &lt;&gt; &lt; &gt; &lt;= &gt;= compare. Adding days to a date gives a date.
+              </p>
+            </div>
+          </ScrollArea>
+        </div>
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs text-red-600">{nameError}</span>
+          <Button onClick={handleSave} disabled={!!error}>
+            {isRedefining ? 'Update Column' : 'Add Column'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
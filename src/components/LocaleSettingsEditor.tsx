@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Globe } from "lucide-react";
+import { DateOrder, findLocalePreset, LOCALE_PRESETS, LocaleSettings } from "@/utils/localeParsing";
+
+interface LocaleSettingsEditorProps {
+  settings: LocaleSettings;
+  onApply: (settings: LocaleSettings) => void;
+  // Apply every change straight away instead of showing an Apply button
+  immediate?: boolean;
+}
+
+const THOUSANDS_OPTIONS: { value: LocaleSettings['thousandsSeparator']; label: string }[] = [
+  { value: ',', label: 'Comma (1,234)' },
+  { value: '.', label: 'Period (1.234)' },
+  { value: ' ', label: 'Space (1 234)' },
+  { value: "'", label: "Apostrophe (1'234)" },
+  { value: '', label: 'None (1234)' }
+];
+
+// Select items can't have an empty value, so "no separator" gets a placeholder
+const NO_SEPARATOR = 'none';
+
+const describe = (settings: LocaleSettings) => {
+  const preset = findLocalePreset(settings);
+  return preset ? preset.label : `Custom — decimal "${settings.decimalSeparator}", ${settings.dateOrder === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'}`;
+};
+
+export const LocaleSettingsEditor = ({ settings, onApply, immediate = false }: LocaleSettingsEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<LocaleSettings>(settings);
+  const [currencyText, setCurrencyText] = useState(settings.currencySymbols.join(' '));
+
+  // Keep the text being typed (e.g. a trailing space) if it means the same symbols
+  const syncCurrencyText = (symbols: string[]) => {
+    setCurrencyText(current => current.split(/\s+/).filter(Boolean).join(' ') === symbols.join(' ') ? current : symbols.join(' '));
+  };
+
+  useEffect(() => {
+    setDraft(settings);
+    syncCurrencyText(settings.currencySymbols);
+  }, [settings]);
+
+  const update = (changes: Partial<LocaleSettings>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    if (immediate && next.decimalSeparator !== next.thousandsSeparator) onApply(next);
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = LOCALE_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    syncCurrencyText(preset.settings.currencySymbols);
+    update(preset.settings);
+  };
+
+  const handleCurrencyChange = (text: string) => {
+    setCurrencyText(text);
+    update({ currencySymbols: text.split(/\s+/).filter(Boolean) });
+  };
+
+  const separatorClash = draft.decimalSeparator === draft.thousandsSeparator;
+  const unchanged = JSON.stringify(draft) === JSON.stringify(settings);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full max-w-md text-left">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between text-gray-700">
+          <span className="flex items-center gap-2 min-w-0">
+            <Globe className="h-4 w-4 text-blue-600 shrink-0" />
+            <span className="truncate">Number & date format: {describe(settings)}</span>
+          </span>
+          <ChevronDown className={`h-4 w-4 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Preset</Label>
+          <Select value={findLocalePreset(draft)?.id || 'custom'} onValueChange={applyPreset}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCALE_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+              ))}
+              <SelectItem value="custom" disabled>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Decimal separator</Label>
+            <Select
+              value={draft.decimalSeparator}
+              onValueChange={(value) => update({ decimalSeparator: value as LocaleSettings['decimalSeparator'] })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">Period (1.5)</SelectItem>
+                <SelectItem value=",">Comma (1,5)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Thousands separator</Label>
+            <Select
+              value={draft.thousandsSeparator || NO_SEPARATOR}
+              onValueChange={(value) => update({ thousandsSeparator: (value === NO_SEPARATOR ? '' : value) as LocaleSettings['thousandsSeparator'] })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THOUSANDS_OPTIONS.map(option => (
+                  <SelectItem key={option.label} value={option.value || NO_SEPARATOR}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Ambiguous dates</Label>
+            <Select value={draft.dateOrder} onValueChange={(value) => update({ dateOrder: value as DateOrder })}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DMY">Day first (DD/MM)</SelectItem>
+                <SelectItem value="MDY">Month first (MM/DD)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Currency symbols</Label>
+            <Input value={currencyText} onChange={(e) => handleCurrencyChange(e.target.value)} className="h-9" />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Applies to text values (CSV, TSV, JSON and pasted data). When every date in a column fits both orders, the ambiguous-date setting decides.
+        </p>
+        {separatorClash && (
+          <p className="text-xs text-red-600">The decimal and thousands separators must differ.</p>
+        )}
+        {!immediate && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" disabled={unchanged} onClick={() => {
+              setDraft(settings);
+              syncCurrencyText(settings.currencySymbols);
+            }}>
+              Reset
+            </Button>
+            <Button size="sm" disabled={unchanged || separatorClash} onClick={() => onApply(draft)}>
+              Apply
+            </Button>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -21,6 +21,8 @@ export const Navigation = ({ userRole, onLogout, activeTab, onTabChange }: Navig
     { id: 'upload', label: 'Upload', icon: '📤' },
     { id: 'preview', label: 'Preview', icon: '👁️' },
     { id: 'charts', label: 'Charts', icon: '📊' },
+    { id: 'pivot', label: 'Pivot', icon: '🧮' },
+    { id: 'sql', label: 'SQL', icon: '🗃️' },
     { id: 'history', label: 'History', icon: '📋' },
     ...(userRole === 'admin' ? [{ id: 'admin', label: 'Admin', icon: '🛡️' }] : [])
   ];
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ClipboardPaste } from "lucide-react";
+
+interface PasteDataDialogProps {
+  onSubmit: (text: string) => void;
+}
+
+export const PasteDataDialog = ({ onSubmit }: PasteDataDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+
+  const lineCount = text.trim() ? text.trim().split(/\r?\n/).length : 0;
+
+  const handleSubmit = () => {
+    onSubmit(text);
+    setText("");
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline" className="border-2 hover:border-blue-500 hover:text-blue-600">
+          <ClipboardPaste className="h-5 w-5 mr-2" />
+          Paste Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Paste data</DialogTitle>
+          <DialogDescription>
+            Copy a range from Excel or Google Sheets (including the header row) and paste it below.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"Region\tRevenue\tCost\nNorth\t1200\t800"}
+          className="min-h-[240px] font-mono text-xs"
+          autoFocus
+        />
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs text-gray-500">{lineCount} {lineCount === 1 ? 'line' : 'lines'}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={lineCount < 2}>Load data</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
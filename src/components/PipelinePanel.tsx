@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronUp, History, Play, Redo2, Undo2, X } from "lucide-react";
+import { PipelineStep } from "@/utils/pipeline";
+
+export interface PipelineOffer {
+  // Where the saved pipeline was recorded, e.g. "sales-2024-05.xlsx — Sheet1"
+  source: string;
+  steps: PipelineStep[];
+  updatedAt: string;
+}
+
+interface PipelinePanelProps {
+  steps: PipelineStep[];
+  redoSteps: PipelineStep[];
+  onUndo: () => void;
+  onRedo: () => void;
+  // A pipeline saved on an earlier upload that fits this sheet
+  offer?: PipelineOffer | null;
+  onApplyOffer?: () => void;
+  onDismissOffer?: () => void;
+}
+
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const PipelinePanel = ({ steps, redoSteps, onUndo, onRedo, offer, onApplyOffer, onDismissOffer }: PipelinePanelProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, except while typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && steps.length > 0) {
+        event.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && event.shiftKey) || key === 'y') && redoSteps.length > 0) {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [steps.length, redoSteps.length, onUndo, onRedo]);
+
+  if (steps.length === 0 && redoSteps.length === 0 && !offer) return null;
+
+  return (
+    <div className="bg-white/80 border border-gray-200 rounded-lg shadow-sm p-3 space-y-3">
+      {offer && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-md bg-blue-50 border border-blue-200">
+          <div className="flex-1 text-sm text-blue-900">
+            <span className="font-medium">Saved pipeline found.</span>{' '}
+            {offer.steps.length} step{offer.steps.length === 1 ? '' : 's'} recorded on {offer.source}
+            {' '}({new Date(offer.updatedAt).toLocaleDateString()}) fit this sheet.
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" className="h-8" onClick={onApplyOffer}>
+              <Play className="h-3.5 w-3.5 mr-1" />
+              Replay steps
+            </Button>
+            <Button size="sm" variant="ghost" className="h-8" onClick={onDismissOffer}>
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(steps.length > 0 || redoSteps.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <History className="h-4 w-4 text-gray-500" />
+          <span className="text-sm font-medium text-gray-800">Pipeline</span>
+          <Badge variant="outline" className="text-xs">{steps.length} step{steps.length === 1 ? '' : 's'}</Badge>
+          {steps.length > 0 && (
+            <span className="text-xs text-gray-500 truncate max-w-[320px]" title={steps[steps.length - 1].label}>
+              Last: {steps[steps.length - 1].label}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            <Button variant="outline" size="sm" className="h-8" disabled={steps.length === 0} onClick={onUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-3.5 w-3.5 mr-1" />
+              Undo
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" disabled={redoSteps.length === 0} onClick={onRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-3.5 w-3.5 mr-1" />
+              Redo
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8" onClick={() => setExpanded(!expanded)}>
+              {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {expanded && (steps.length > 0 || redoSteps.length > 0) && (
+        <ol className="space-y-1 text-sm">
+          {steps.map((step, index) => (
+            <li key={step.id} className="flex items-center gap-2">
+              <span className="w-6 text-right text-xs text-gray-400 font-mono">{index + 1}.</span>
+              <span className="text-gray-800">{step.label}</span>
+              <span className="ml-auto text-xs text-gray-400">{new Date(step.createdAt).toLocaleTimeString()}</span>
+            </li>
+          ))}
+          {[...redoSteps].reverse().map(step => (
+            <li key={step.id} className="flex items-center gap-2 text-gray-400 line-through" title="Undone">
+              <span className="w-6" />
+              <span>{step.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import { DragEvent, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, Download, GripVertical, Table2, X } from "lucide-react";
+import { toast } from "sonner";
+import { ColumnTypeIcon } from "@/components/ColumnTypeBadge";
+import { PivotTable } from "@/components/pivot/PivotTable";
+import { PivotChart, PivotChartType } from "@/components/pivot/PivotChart";
+import { analyzeExcelData, exportDataToExcel, Row } from "@/utils/excelUtils";
+import { SemanticType } from "@/utils/columnTypes";
+import { LocaleSettings } from "@/utils/localeParsing";
+import {
+  computePivot,
+  DEFAULT_PERCENTILE,
+  PIVOT_AGGREGATIONS,
+  PIVOT_DISPLAY_MODES,
+  PivotAggregation,
+  PivotConfig,
+  PivotDisplayMode,
+  pivotToRows,
+  PivotValueField
+} from "@/utils/pivot";
+
+interface PivotTableBuilderProps {
+  // Rows with the column schema applied
+  data: Row[];
+  fileName?: string;
+  locale?: LocaleSettings;
+  typeOverrides?: Record<string, SemanticType>;
+}
+
+type Zone = 'rows' | 'columns' | 'values';
+
+// What's being dragged: a field from the list, or a chip from one of the zones
+interface DragPayload {
+  column: string;
+  from?: Zone;
+  index?: number;
+}
+
+const ZONES: { id: Zone; label: string; hint: string }[] = [
+  { id: 'rows', label: 'Rows', hint: 'Drop fields to group rows by' },
+  { id: 'columns', label: 'Columns', hint: 'Drop fields to spread across columns' },
+  { id: 'values', label: 'Values', hint: 'Drop fields to aggregate' }
+];
+
+const DRAG_TYPE = 'application/x-pivot-field';
+
+const EMPTY_CONFIG: PivotConfig = {
+  rows: [],
+  columns: [],
+  values: [],
+  displayMode: 'value',
+  showSubtotals: true,
+  showGrandTotals: true
+};
+
+let nextFieldId = 0;
+
+// Drops fields the data doesn't have, e.g. after switching sheets or renaming a column
+const pruneConfig = (config: PivotConfig, columnNames: string[]): PivotConfig => ({
+  ...config,
+  rows: config.rows.filter(column => columnNames.includes(column)),
+  columns: config.columns.filter(column => columnNames.includes(column)),
+  values: config.values.filter(field => columnNames.includes(field.column))
+});
+
+export const PivotTableBuilder = ({ data, fileName, locale, typeOverrides = {} }: PivotTableBuilderProps) => {
+  const [config, setConfig] = useState<PivotConfig>(EMPTY_CONFIG);
+  const [dropTarget, setDropTarget] = useState<Zone | null>(null);
+  const [view, setView] = useState<'table' | 'chart'>('table');
+  const [chartType, setChartType] = useState<PivotChartType>('bar');
+
+  const analyzedColumns = useMemo(
+    () => analyzeExcelData(data, locale, typeOverrides).filter(column => column.name !== '_id'),
+    [data, locale, typeOverrides]
+  );
+  const columnNames = useMemo(() => analyzedColumns.map(column => column.name), [analyzedColumns]);
+  const numericColumns = analyzedColumns.filter(column => column.type === 'number').map(column => column.name);
+  const activeConfig = useMemo(() => pruneConfig(config, columnNames), [config, columnNames]);
+
+  const result = useMemo(
+    () => activeConfig.values.length > 0 ? computePivot(data, activeConfig, locale) : null,
+    [data, activeConfig, locale]
+  );
+
+  const update = (changes: Partial<PivotConfig>) => setConfig({ ...activeConfig, ...changes });
+
+  const createValueField = (column: string): PivotValueField => ({
+    id: `value-${nextFieldId++}`,
+    column,
+    // Text columns can only be counted
+    aggregation: numericColumns.includes(column) ? 'sum' : 'count'
+  });
+
+  // Moves or adds a field to a zone. Rows and columns hold a field at most once
+  // between them; values can aggregate the same field several ways.
+  const moveField = (payload: DragPayload, to: Zone, at?: number) => {
+    setConfig(current => {
+      const pruned = pruneConfig(current, columnNames);
+      const next = { ...pruned, rows: [...pruned.rows], columns: [...pruned.columns], values: [...pruned.values] };
+      let moved: PivotValueField | undefined;
+      if (payload.from === 'values' && payload.index !== undefined) {
+        [moved] = next.values.splice(payload.index, 1);
+      } else if (payload.from && payload.index !== undefined) {
+        next[payload.from].splice(payload.index, 1);
+      }
+
+      if (to === 'values') {
+        const field = moved || createValueField(payload.column);
+        next.values.splice(at ?? next.values.length, 0, field);
+      } else {
+        next.rows = next.rows.filter(column => column !== payload.column);
+        next.columns = next.columns.filter(column => column !== payload.column);
+        next[to].splice(Math.min(at ?? next[to].length, next[to].length), 0, payload.column);
+      }
+      return next;
+    });
+  };
+
+  const removeField = (zone: Zone, index: number) => {
+    if (zone === 'values') {
+      update({ values: activeConfig.values.filter((_, i) => i !== index) });
+    } else {
+      update({ [zone]: activeConfig[zone].filter((_, i) => i !== index) });
+    }
+  };
+
+  const updateValueField = (index: number, changes: Partial<PivotValueField>) => {
+    update({ values: activeConfig.values.map((field, i) => i === index ? { ...field, ...changes } : field) });
+  };
+
+  const startDrag = (event: DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readDrag = (event: DragEvent): DragPayload | null => {
+    const raw = event.dataTransfer.getData(DRAG_TYPE);
+    return raw ? JSON.parse(raw) : null;
+  };
+
+  const handleDrop = (event: DragEvent, zone: Zone, at?: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    const payload = readDrag(event);
+    if (payload) moveField(payload, zone, at);
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const name = `${(fileName || 'data').replace(/\.[^.]+$/, '')}_pivot`;
+    if (exportDataToExcel(pivotToRows(result), name)) {
+      toast.success("Pivot table exported to Excel");
+    } else {
+      toast.error("Failed to export the pivot table");
+    }
+  };
+
+  const typeOf = (column: string) => analyzedColumns.find(c => c.name === column)?.typeInfo.semanticType || 'text';
+
+  const renderValueOptions = (field: PivotValueField, index: number) => (
+    <div className="flex items-center gap-1" onMouseDown={(e) => e.stopPropagation()}>
+      <Select
+        value={field.aggregation}
+        onValueChange={(value) => updateValueField(index, {
+          aggregation: value as PivotAggregation,
+          ...(value === 'percentile' && !field.percentile ? { percentile: DEFAULT_PERCENTILE } : {})
+        })}
+      >
+        <SelectTrigger className="h-7 w-[130px] text-xs bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PIVOT_AGGREGATIONS
+            .filter(aggregation => !aggregation.numeric || numericColumns.includes(field.column))
+            .map(aggregation => (
+              <SelectItem key={aggregation.id} value={aggregation.id}>{aggregation.label}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      {field.aggregation === 'percentile' && (
+        <Input
+          type="number"
+          min={1}
+          max={99}
+          value={field.percentile ?? DEFAULT_PERCENTILE}
+          onChange={(e) => {
+            const percentile = Number(e.target.value);
+            if (percentile >= 1 && percentile <= 99) updateValueField(index, { percentile });
+          }}
+          className="h-7 w-[64px] text-xs bg-white"
+          title="Percentile (1–99)"
+        />
+      )}
+    </div>
+  );
+
+  const renderZone = ({ id, label, hint }: typeof ZONES[number]) => {
+    const items = id === 'values' ? activeConfig.values.map(field => field.column) : activeConfig[id];
+    return (
+      <div
+        key={id}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDropTarget(id);
+        }}
+        onDragLeave={() => setDropTarget(current => current === id ? null : current)}
+        onDrop={(e) => handleDrop(e, id)}
+        className={`min-h-[96px] rounded-lg border-2 border-dashed p-2 space-y-1.5 transition-colors ${
+          dropTarget === id ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-50/60'
+        }`}
+      >
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</p>
+        {items.length === 0 && <p className="text-xs text-gray-400">{hint}</p>}
+        {items.map((column, index) => (
+          <div
+            key={id === 'values' ? activeConfig.values[index].id : column}
+            draggable
+            onDragStart={(e) => startDrag(e, { column, from: id, index })}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, id, index)}
+            className="flex flex-wrap items-center gap-1.5 rounded-md border bg-white px-2 py-1 text-sm shadow-sm cursor-grab"
+          >
+            <GripVertical className="h-3.5 w-3.5 text-gray-400" />
+            <ColumnTypeIcon type={typeOf(column)} className="h-3.5 w-3.5" />
+            <span className="flex-1 truncate" title={column}>{column}</span>
+            {id === 'values' && renderValueOptions(activeConfig.values[index], index)}
+            <button type="button" className="text-gray-400 hover:text-gray-700" onClick={() => removeField(id, index)}>
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (!data || data.length === 0) return null;
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Table2 className="h-5 w-5" />
+          Pivot Table
+        </CardTitle>
+        <CardDescription>
+          Drag fields into rows, columns and values. Each value field has its own aggregation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-4">
+          <div className="space-y-1 max-h-[360px] overflow-auto pr-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Fields</p>
+            {analyzedColumns.map(column => (
+              <div
+                key={column.name}
+                draggable
+                onDragStart={(e) => startDrag(e, { column: column.name })}
+                onDoubleClick={() => moveField({ column: column.name }, column.type === 'number' ? 'values' : 'rows')}
+                title="Drag into rows, columns or values (double-click to add)"
+                className="flex items-center gap-2 rounded-md border bg-white px-2 py-1.5 text-sm cursor-grab hover:border-blue-300"
+              >
+                <ColumnTypeIcon type={column.typeInfo.semanticType} className="h-3.5 w-3.5" />
+                <span className="truncate">{column.name}</span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {ZONES.map(renderZone)}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-gray-600">Show as</Label>
+            <Select value={config.displayMode} onValueChange={(value) => update({ displayMode: value as PivotDisplayMode })}>
+              <SelectTrigger className="h-9 w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PIVOT_DISPLAY_MODES.map(mode => (
+                  <SelectItem key={mode.id} value={mode.id}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="pivot-subtotals" checked={config.showSubtotals} onCheckedChange={(checked) => update({ showSubtotals: checked })} />
+            <Label htmlFor="pivot-subtotals" className="text-sm text-gray-600">Subtotals</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="pivot-totals" checked={config.showGrandTotals} onCheckedChange={(checked) => update({ showGrandTotals: checked })} />
+            <Label htmlFor="pivot-totals" className="text-sm text-gray-600">Grand totals</Label>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant={view === 'table' ? 'default' : 'outline'} size="sm" onClick={() => setView('table')}>
+              <Table2 className="h-4 w-4 mr-1" />
+              Table
+            </Button>
+            <Button variant={view === 'chart' ? 'default' : 'outline'} size="sm" onClick={() => setView('chart')} disabled={!result}>
+              <BarChart3 className="h-4 w-4 mr-1" />
+              Chart
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={!result}>
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+          </div>
+        </div>
+
+        {!result ? (
+          <div className="text-center py-12 text-sm text-gray-500 border rounded-lg bg-gray-50/60">
+            Add at least one field to Values to build the pivot table.
+          </div>
+        ) : view === 'table' ? (
+          <PivotTable result={result} />
+        ) : (
+          <div className="space-y-3">
+            <Select value={chartType} onValueChange={(value) => setChartType(value as PivotChartType)}>
+              <SelectTrigger className="h-9 w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bar">Bar Chart</SelectItem>
+                <SelectItem value="stacked-bar">Stacked Bars</SelectItem>
+                <SelectItem value="line">Line Chart</SelectItem>
+              </SelectContent>
+            </Select>
+            <PivotChart result={result} chartType={chartType} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
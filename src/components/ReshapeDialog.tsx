@@ -0,0 +1,321 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertTriangle, ArrowRightLeft } from "lucide-react";
+import { LocaleSettings } from "@/utils/localeParsing";
+import {
+  applyReshape,
+  describeReshape,
+  MAX_TRANSPOSE_ROWS,
+  ReshapeError,
+  ReshapeOperation,
+  ReshapeType,
+  SplitTarget,
+  WIDE_AGGREGATIONS,
+  WideAggregation
+} from "@/utils/reshape";
+import type { Row } from "@/utils/excelUtils";
+
+interface ReshapeDialogProps {
+  // Rows with the current schema applied
+  data: Row[];
+  locale?: LocaleSettings;
+  // Offered as a quick pick of columns to unpivot, e.g. one per month
+  numericColumns: string[];
+  onApply: (operation: ReshapeOperation) => void;
+}
+
+// Rows of the result shown before applying
+const PREVIEW_ROWS = 5;
+
+const DELIMITERS: { id: string; label: string; value: string }[] = [
+  { id: 'comma', label: 'Comma', value: ',' },
+  { id: 'semicolon', label: 'Semicolon', value: ';' },
+  { id: 'pipe', label: 'Pipe', value: '|' },
+  { id: 'space', label: 'Space', value: ' ' },
+  { id: 'newline', label: 'Line break', value: '\n' },
+  { id: 'custom', label: 'Other…', value: '' }
+];
+
+const TYPE_DESCRIPTIONS: Record<ReshapeType, string> = {
+  unpivot: 'Turn columns such as Jan…Dec into two columns, one holding the column name and one its value, so they chart as a series.',
+  pivot: 'Spread the values of one column into a column each, filled from another column.',
+  transpose: 'Swap rows and columns; the values of one column become the new column names.',
+  split: 'Split text by a delimiter into several columns, or into one row per part.'
+};
+
+export const ReshapeDialog = ({ data, locale, numericColumns, onApply }: ReshapeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<ReshapeType>('unpivot');
+  const [unpivotColumns, setUnpivotColumns] = useState<string[]>([]);
+  const [keyColumn, setKeyColumn] = useState('Attribute');
+  const [valueColumn, setValueColumn] = useState('Value');
+  const [dropBlanks, setDropBlanks] = useState(true);
+  const [wideKey, setWideKey] = useState('');
+  const [wideValue, setWideValue] = useState('');
+  const [aggregation, setAggregation] = useState<WideAggregation>('first');
+  const [headerColumn, setHeaderColumn] = useState('');
+  const [nameColumn, setNameColumn] = useState('Field');
+  const [splitColumn, setSplitColumn] = useState('');
+  const [delimiterId, setDelimiterId] = useState('comma');
+  const [customDelimiter, setCustomDelimiter] = useState('');
+  const [splitInto, setSplitInto] = useState<SplitTarget>('columns');
+
+  const columns = useMemo(() => Object.keys(data[0] || {}).filter(column => column !== '_id'), [data]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setUnpivotColumns([]);
+      setHeaderColumn(columns[0] || '');
+    }
+    setOpen(next);
+  };
+
+  const operation = useMemo<ReshapeOperation | null>(() => {
+    switch (type) {
+      case 'unpivot':
+        return { type, columns: unpivotColumns, keyColumn, valueColumn, dropBlanks };
+      case 'pivot':
+        return wideKey && wideValue ? { type, keyColumn: wideKey, valueColumn: wideValue, aggregation } : null;
+      case 'transpose':
+        return headerColumn ? { type, headerColumn, nameColumn } : null;
+      default: {
+        const delimiter = delimiterId === 'custom' ? customDelimiter : DELIMITERS.find(d => d.id === delimiterId)?.value ?? '';
+        return splitColumn ? { type, column: splitColumn, delimiter, into: splitInto } : null;
+      }
+    }
+  }, [type, unpivotColumns, keyColumn, valueColumn, dropBlanks, wideKey, wideValue, aggregation, headerColumn, nameColumn, splitColumn, delimiterId, customDelimiter, splitInto]);
+
+  const result = useMemo(() => {
+    if (!open || !operation) return null;
+    try {
+      return { rows: applyReshape(data, operation, locale) };
+    } catch (error) {
+      if (error instanceof ReshapeError) return { error: error.message };
+      throw error;
+    }
+  }, [open, operation, data, locale]);
+
+  const preview = result && 'rows' in result ? result.rows : null;
+  const previewColumns = preview && preview.length > 0 ? Object.keys(preview[0]).filter(column => column !== '_id') : [];
+
+  const toggleUnpivotColumn = (column: string) => {
+    setUnpivotColumns(current => current.includes(column)
+      ? current.filter(c => c !== column)
+      : columns.filter(c => c === column || current.includes(c)));
+  };
+
+  const handleApply = () => {
+    if (!operation || !preview) return;
+    onApply(operation);
+    setOpen(false);
+  };
+
+  const columnSelect = (value: string, onChange: (value: string) => void, placeholder: string, exclude?: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="max-h-60">
+        {columns.filter(column => column !== exclude).map(column => (
+          <SelectItem key={column} value={column}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2 shrink-0">
+          <ArrowRightLeft className="h-4 w-4" />
+          Reshape
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reshape table</DialogTitle>
+          <DialogDescription>{TYPE_DESCRIPTIONS[type]} The change is recorded in the pipeline and can be undone.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={type} onValueChange={(value) => setType(value as ReshapeType)}>
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="unpivot">Unpivot</TabsTrigger>
+            <TabsTrigger value="pivot">Pivot wide</TabsTrigger>
+            <TabsTrigger value="transpose">Transpose</TabsTrigger>
+            <TabsTrigger value="split">Split</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {type === 'unpivot' && (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_240px] gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns to unpivot ({unpivotColumns.length})</Label>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setUnpivotColumns(columns.filter(c => numericColumns.includes(c)))}>
+                    Numeric columns
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setUnpivotColumns([])}>
+                    Clear
+                  </Button>
+                </div>
+              </div>
+              <ScrollArea className="h-40 border rounded-md p-2">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+                  {columns.map(column => (
+                    <label key={column} className="flex items-center gap-2 text-sm px-1 py-0.5 rounded hover:bg-gray-50 cursor-pointer">
+                      <Checkbox checked={unpivotColumns.includes(column)} onCheckedChange={() => toggleUnpivotColumn(column)} />
+                      <span className="truncate">{column}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="reshape-key">Key column name</Label>
+                <Input id="reshape-key" value={keyColumn} onChange={(e) => setKeyColumn(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reshape-value">Value column name</Label>
+                <Input id="reshape-value" value={valueColumn} onChange={(e) => setValueColumn(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="reshape-drop-blanks" checked={dropBlanks} onCheckedChange={setDropBlanks} />
+                <Label htmlFor="reshape-drop-blanks" className="text-sm font-normal">Skip blank values</Label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {type === 'pivot' && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Column names from</Label>
+              {columnSelect(wideKey, setWideKey, 'Key column', wideValue)}
+            </div>
+            <div className="space-y-1">
+              <Label>Values from</Label>
+              {columnSelect(wideValue, setWideValue, 'Value column', wideKey)}
+            </div>
+            <div className="space-y-1">
+              <Label>When a cell has several values</Label>
+              <Select value={aggregation} onValueChange={(value) => setAggregation(value as WideAggregation)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WIDE_AGGREGATIONS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="sm:col-span-3 text-xs text-gray-500">Rows are grouped by all other columns.</p>
+          </div>
+        )}
+
+        {type === 'transpose' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>New column names from</Label>
+              {columnSelect(headerColumn, setHeaderColumn, 'Header column')}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reshape-name">Column holding the old column names</Label>
+              <Input id="reshape-name" value={nameColumn} onChange={(e) => setNameColumn(e.target.value)} />
+            </div>
+            <p className="sm:col-span-2 text-xs text-gray-500">Tables of up to {MAX_TRANSPOSE_ROWS} rows can be transposed.</p>
+          </div>
+        )}
+
+        {type === 'split' && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Column</Label>
+              {columnSelect(splitColumn, setSplitColumn, 'Column to split')}
+            </div>
+            <div className="space-y-1">
+              <Label>Delimiter</Label>
+              <div className="flex gap-2">
+                <Select value={delimiterId} onValueChange={setDelimiterId}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIMITERS.map(delimiter => (
+                      <SelectItem key={delimiter.id} value={delimiter.id}>{delimiter.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {delimiterId === 'custom' && (
+                  <Input value={customDelimiter} onChange={(e) => setCustomDelimiter(e.target.value)} className="h-9 w-20 font-mono" />
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Into</Label>
+              <Select value={splitInto} onValueChange={(value) => setSplitInto(value as SplitTarget)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="columns">Several columns</SelectItem>
+                  <SelectItem value="rows">One row per part</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {result && 'error' in result && (
+          <div className="flex items-start gap-2 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{result.error}</span>
+          </div>
+        )}
+
+        {preview && operation && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {describeReshape(operation)}: {data.length.toLocaleString()} rows × {columns.length} columns →{' '}
+              <span className="font-medium text-gray-900">{preview.length.toLocaleString()} rows × {previewColumns.length} columns</span>
+            </p>
+            <div className="border rounded-md overflow-auto max-h-56">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    {previewColumns.map(column => (
+                      <th key={column} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.slice(0, PREVIEW_ROWS).map(row => (
+                    <tr key={row._id} className="border-t border-gray-100">
+                      {previewColumns.map(column => (
+                        <td key={column} className="px-2 py-1 text-gray-700 whitespace-nowrap">{String(row[column] ?? '')}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={!preview}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bookmark, Columns3, Save, Trash2 } from "lucide-react";
+import { describeView, SavedView, ViewState } from "@/utils/savedViews";
+
+// Select value for "no view": every row and column
+const ALL_DATA = '__all__';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  activeView: SavedView | null;
+  // The grid's current search, filters, sort and columns
+  current: ViewState;
+  onSelect: (view: SavedView | null) => void;
+  // Creates a view, or replaces `view` when given; null when saving failed
+  onSave: (name: string, view?: SavedView) => Promise<SavedView | null>;
+  onDelete: (view: SavedView) => void;
+}
+
+const sameState = (view: ViewState, current: ViewState) => JSON.stringify([
+  view.search, view.searchColumn, view.filters, view.sortKeys, view.hiddenColumns, view.columnOrder
+]) === JSON.stringify([
+  current.search, current.searchColumn, current.filters, current.sortKeys, current.hiddenColumns, current.columnOrder
+]);
+
+export const SavedViewsBar = ({ views, activeView, current, onSelect, onSave, onDelete }: SavedViewsBarProps) => {
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const modified = activeView !== null && !sameState(activeView, current);
+  const trimmedName = name.trim();
+
+  const save = async (view?: SavedView) => {
+    setSaving(true);
+    try {
+      const saved = await onSave(view ? view.name : trimmedName, view);
+      if (saved) setSaveOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Bookmark className="h-4 w-4 text-blue-600" />
+      <Select
+        value={activeView?._id ?? ALL_DATA}
+        onValueChange={(value) => onSelect(views.find(view => view._id === value) || null)}
+      >
+        <SelectTrigger className="h-8 w-[220px]">
+          <SelectValue placeholder="Saved views" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_DATA}>All data</SelectItem>
+          {views.map(view => (
+            <SelectItem key={view._id} value={view._id}>{view.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeView && (
+        <span className="text-xs text-gray-500 truncate max-w-[320px]" title={describeView(activeView)}>
+          {describeView(activeView)}
+        </span>
+      )}
+      {modified && <Badge variant="outline" className="text-xs">Modified</Badge>}
+      {modified && (
+        <Button variant="ghost" size="sm" className="h-8 text-xs" disabled={saving} onClick={() => save(activeView!)}>
+          <Save className="h-3.5 w-3.5 mr-1" />
+          Update view
+        </Button>
+      )}
+      <Popover
+        open={saveOpen}
+        onOpenChange={(open) => {
+          if (open) setName("");
+          setSaveOpen(open);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 text-xs">
+            <Save className="h-3.5 w-3.5 mr-1" />
+            Save as view
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3" align="start">
+          <div className="space-y-1">
+            <Label htmlFor="saved-view-name">View name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              placeholder="e.g. Open orders, newest first"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && trimmedName) save();
+              }}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Saves {describeView(current)}.</p>
+          <Button size="sm" className="w-full" disabled={!trimmedName || saving} onClick={() => save()}>
+            Save view
+          </Button>
+        </PopoverContent>
+      </Popover>
+      {activeView && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs text-red-600 hover:text-red-700"
+          title={`Delete the view "${activeView.name}"`}
+          onClick={() => onDelete(activeView)}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface ColumnVisibilityMenuProps {
+  // Column names in display order
+  columns: string[];
+  hiddenColumns: string[];
+  onChange: (hiddenColumns: string[]) => void;
+}
+
+export const ColumnVisibilityMenu = ({ columns, hiddenColumns, onChange }: ColumnVisibilityMenuProps) => {
+  const hiddenCount = hiddenColumns.filter(column => columns.includes(column)).length;
+  const toggle = (column: string) => onChange(
+    hiddenColumns.includes(column) ? hiddenColumns.filter(name => name !== column) : [...hiddenColumns, column]
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs">
+          <Columns3 className="h-3.5 w-3.5 mr-1" />
+          Columns{hiddenCount > 0 && ` (${hiddenCount} hidden)`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2" align="start">
+        <div className="flex items-center justify-between">
+          <Label>Shown columns</Label>
+          {hiddenCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange([])}>
+              Show all
+            </Button>
+          )}
+        </div>
+        <div className="max-h-64 overflow-y-auto space-y-1.5">
+          {columns.map(column => (
+            <label key={column} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={!hiddenColumns.includes(column)}
+                // At least one column stays visible
+                disabled={!hiddenColumns.includes(column) && hiddenCount === columns.length - 1}
+                onCheckedChange={() => toggle(column)}
+              />
+              <span className="truncate">{column}</span>
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface ViewSourceSelectProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  onChange: (viewId: string | null) => void;
+}
+
+// Picks the rows charts and AI insights are built from: all data or a saved view
+export const ViewSourceSelect = ({ views, activeViewId, onChange }: ViewSourceSelectProps) => {
+  if (views.length === 0) return null;
+  const activeView = views.find(view => view._id === activeViewId) || null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-white/80 rounded-xl border border-gray-200/50 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 mr-2">
+        <Bookmark className="h-4 w-4 text-blue-600" />
+        Data source
+      </div>
+      <Select value={activeView?._id ?? ALL_DATA} onValueChange={(value) => onChange(value === ALL_DATA ? null : value)}>
+        <SelectTrigger className="h-8 w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_DATA}>All data</SelectItem>
+          {views.map(view => (
+            <SelectItem key={view._id} value={view._id}>View: {view.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeView && <span className="text-xs text-gray-500">{describeView(activeView)}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { BookOpen } from "lucide-react";
+import { ColumnTypeIcon } from "@/components/ColumnTypeBadge";
+import { inferColumnType, SEMANTIC_TYPES, SemanticType } from "@/utils/columnTypes";
+import { ColumnSchemaEntry, DISPLAY_FORMATS, DisplayFormat, getColumnName, validateColumnSchema } from "@/utils/columnSchema";
+import { LocaleSettings } from "@/utils/localeParsing";
+import type { Row } from "@/utils/excelUtils";
+
+interface SchemaEditorProps {
+  // Rows with the current schema already applied
+  data: Row[];
+  schema: ColumnSchemaEntry[];
+  locale?: LocaleSettings;
+  onSave: (schema: ColumnSchemaEntry[]) => void;
+}
+
+// Select items can't have an empty value, so "use the inferred type" gets a placeholder
+const INFERRED = 'inferred';
+
+export const SchemaEditor = ({ data, schema, locale, onSave }: SchemaEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ColumnSchemaEntry[]>([]);
+
+  const currentColumns = Object.keys(data[0] || {}).filter(column => column !== '_id');
+  // Schema entries are keyed by the name the column had in the file
+  const sourceName = (column: string) => schema.find(entry => getColumnName(entry) === column)?.name ?? column;
+  const sourceColumns = currentColumns.map(sourceName);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(sourceColumns.map(name => ({ name, ...schema.find(entry => entry.name === name) })));
+    }
+    setOpen(next);
+  };
+
+  const update = (name: string, changes: Partial<ColumnSchemaEntry>) => {
+    setDraft(current => current.map(entry => entry.name === name ? { ...entry, ...changes } : entry));
+  };
+
+  const error = validateColumnSchema(draft, sourceColumns);
+
+  const handleSave = () => {
+    // Drop empty fields so the saved dictionary only holds actual corrections
+    const cleaned = draft.map(entry => ({
+      name: entry.name,
+      ...(entry.displayName?.trim() && entry.displayName.trim() !== entry.name ? { displayName: entry.displayName.trim() } : {}),
+      ...(entry.semanticType ? { semanticType: entry.semanticType } : {}),
+      ...(entry.format && entry.format !== 'auto' ? { format: entry.format } : {}),
+      ...(entry.description?.trim() ? { description: entry.description.trim() } : {}),
+      ...(entry.outliers ? { outliers: entry.outliers } : {})
+    }));
+    onSave(cleaned);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2 shrink-0">
+          <BookOpen className="h-4 w-4" />
+          Edit Schema
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Column schema</DialogTitle>
+          <DialogDescription>
+            Correct detected types, rename columns, pick display formats and describe what each column means.
+            The data dictionary is saved with the file and used by statistics, charts and AI insights.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-3">
+            <div className="hidden md:grid grid-cols-[1fr_1fr_1fr_1fr_1.5fr] gap-3 text-xs font-medium text-gray-500 px-1">
+              <span>Column</span>
+              <span>Name</span>
+              <span>Type</span>
+              <span>Display format</span>
+              <span>Description</span>
+            </div>
+            {draft.map(entry => {
+              const column = currentColumns[sourceColumns.indexOf(entry.name)];
+              const inferred = inferColumnType(data.map(row => row[column]), { locale, name: entry.name });
+              const effectiveType = entry.semanticType || inferred.semanticType;
+              const formats = DISPLAY_FORMATS.filter(format => format.baseTypes.includes(SEMANTIC_TYPES[effectiveType].baseType));
+
+              return (
+                <div key={entry.name} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_1fr_1.5fr] gap-3 items-center p-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <ColumnTypeIcon type={effectiveType} />
+                    <span className="text-sm font-medium truncate" title={entry.name}>{entry.name}</span>
+                  </div>
+                  <Input
+                    value={entry.displayName ?? ''}
+                    placeholder={entry.name}
+                    onChange={(e) => update(entry.name, { displayName: e.target.value })}
+                    className="h-9"
+                  />
+                  <Select
+                    value={entry.semanticType || INFERRED}
+                    onValueChange={(value) => update(entry.name, {
+                      semanticType: value === INFERRED ? undefined : value as SemanticType,
+                      format: undefined
+                    })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={INFERRED}>Detected ({SEMANTIC_TYPES[inferred.semanticType].label})</SelectItem>
+                      {(Object.keys(SEMANTIC_TYPES) as SemanticType[]).map(type => (
+                        <SelectItem key={type} value={type}>{SEMANTIC_TYPES[type].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={entry.format || 'auto'}
+                    onValueChange={(value) => update(entry.name, { format: value as DisplayFormat })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {formats.map(format => (
+                        <SelectItem key={format.id} value={format.id}>{format.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={entry.description ?? ''}
+                    placeholder="What does this column mean?"
+                    onChange={(e) => update(entry.name, { description: e.target.value })}
+                    className="h-9"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs text-red-600">{error}</span>
+          <Button onClick={handleSave} disabled={!!error}>
+            Save Schema
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,151 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, BarChart3, Database, Play, TableProperties } from "lucide-react";
+import { DataPreview } from "@/components/DataPreview";
+import { runSql, SqlError, SqlResult, SqlTable } from "@/utils/sql";
+import type { Row } from "@/utils/excelUtils";
+
+export interface SqlConsoleTable extends SqlTable {
+  // Dataset the table was registered from, shown next to its name
+  label: string;
+}
+
+interface SqlConsoleProps {
+  tables: SqlConsoleTable[];
+  // Adds the result rows as a dataset and opens it in the preview or charts tab
+  onUseResult: (rows: Row[], tab: 'preview' | 'charts') => void;
+}
+
+// Names that need quoting in a query: anything but letters, digits and _
+const quoteName = (name: string) => /^[\p{L}_][\p{L}\p{N}_]*$/u.test(name) ? name : `"${name}"`;
+
+export const SqlConsole = ({ tables, onUseResult }: SqlConsoleProps) => {
+  const [query, setQuery] = useState(() => tables[0] ? `SELECT *\nFROM ${tables[0].name}\nLIMIT 100` : '');
+  const [result, setResult] = useState<SqlResult | null>(null);
+  const [error, setError] = useState<SqlError | null>(null);
+  const queryRef = useRef<HTMLTextAreaElement>(null);
+
+  const insert = (text: string) => {
+    const textarea = queryRef.current;
+    const start = textarea?.selectionStart ?? query.length;
+    const end = textarea?.selectionEnd ?? query.length;
+    setQuery(query.slice(0, start) + text + query.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleRun = () => {
+    try {
+      setResult(runSql(query, tables));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof SqlError)) throw e;
+      setError(e);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            SQL Console
+          </CardTitle>
+          <CardDescription>
+            Every loaded sheet is a table. Query them with SELECT, WHERE, GROUP BY, HAVING, ORDER BY, JOIN and LIMIT;
+            functions from calculated columns work too. Text is compared without regard to case.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-4">
+            <div className="space-y-3 max-h-[360px] overflow-y-auto pr-1">
+              {tables.map(table => (
+                <div key={table.name} className="space-y-1">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1.5 text-sm font-medium text-gray-800 hover:text-blue-700"
+                    title={`${table.label} — click to insert`}
+                    onClick={() => insert(quoteName(table.name))}
+                  >
+                    <TableProperties className="h-4 w-4 text-blue-600" />
+                    {table.name}
+                    <span className="text-xs font-normal text-gray-400">{table.data.length} rows</span>
+                  </button>
+                  <div className="flex flex-wrap gap-1 pl-5">
+                    {Object.keys(table.data[0] || {}).filter(column => column !== '_id').map(column => (
+                      <Badge
+                        key={column}
+                        variant="outline"
+                        className="cursor-pointer font-normal"
+                        title="Click to insert"
+                        onClick={() => insert(quoteName(column))}
+                      >
+                        {column}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-3 min-w-0">
+              <Textarea
+                ref={queryRef}
+                value={query}
+                placeholder="SELECT region, SUM(revenue) AS total FROM sales GROUP BY region ORDER BY total DESC"
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                    e.preventDefault();
+                    handleRun();
+                  }
+                }}
+                className="font-mono text-sm min-h-[180px]"
+                spellCheck={false}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <Button onClick={handleRun} disabled={!query.trim()} className="flex items-center gap-2">
+                  <Play className="h-4 w-4" />
+                  Run
+                </Button>
+                <span className="text-xs text-gray-500">Ctrl+Enter</span>
+                {result && (
+                  <>
+                    <span className="text-sm text-gray-600 mr-auto">{result.rows.length} rows</span>
+                    <Button variant="outline" disabled={result.rows.length === 0} onClick={() => onUseResult(result.rows, 'preview')}>
+                      Use as dataset
+                    </Button>
+                    <Button variant="outline" disabled={result.rows.length === 0} onClick={() => onUseResult(result.rows, 'charts')} className="flex items-center gap-2">
+                      <BarChart3 className="h-4 w-4" />
+                      Chart results
+                    </Button>
+                  </>
+                )}
+              </div>
+              {error && (
+                <div className="flex items-start gap-2 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    {error.message}
+                    <span className="text-red-400"> (at character {error.position + 1})</span>
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && !error && (
+        result.rows.length > 0
+          ? <DataPreview data={result.rows} fileName="Query result" />
+          : <p className="text-center text-sm text-gray-500">The query returned no rows.</p>
+      )}
+    </div>
+  );
+};
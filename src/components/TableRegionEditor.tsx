@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, TableProperties } from "lucide-react";
+import * as XLSX from 'xlsx';
+import { TableRegion } from "@/utils/tableDetection";
+
+interface TableRegionEditorProps {
+  sheets: { sheetName: string; region?: TableRegion }[];
+  onApply: (sheetName: string, region: TableRegion) => void;
+}
+
+// Form values are shown the way Excel shows them: 1-based rows, lettered columns
+interface RegionForm {
+  headerRow: string;
+  headerRowCount: '1' | '2';
+  firstDataRow: string;
+  lastDataRow: string;
+  firstColumn: string;
+  lastColumn: string;
+}
+
+const toForm = (region: TableRegion): RegionForm => ({
+  headerRow: String(region.headerRow + 1),
+  headerRowCount: String(region.headerRowCount) as '1' | '2',
+  firstDataRow: String(region.firstDataRow + 1),
+  lastDataRow: String(region.lastDataRow + 1),
+  firstColumn: XLSX.utils.encode_col(region.firstColumn),
+  lastColumn: XLSX.utils.encode_col(region.lastColumn)
+});
+
+const fromForm = (form: RegionForm): TableRegion | null => {
+  const rows = [form.headerRow, form.firstDataRow, form.lastDataRow].map(value => parseInt(value, 10) - 1);
+  const columns = [form.firstColumn, form.lastColumn].map(value => value.trim().toUpperCase());
+  if (rows.some(row => isNaN(row) || row < 0)) return null;
+  if (columns.some(column => !/^[A-Z]{1,3}$/.test(column))) return null;
+
+  return {
+    headerRow: rows[0],
+    headerRowCount: form.headerRowCount === '2' ? 2 : 1,
+    firstDataRow: rows[1],
+    lastDataRow: rows[2],
+    firstColumn: XLSX.utils.decode_col(columns[0]),
+    lastColumn: XLSX.utils.decode_col(columns[1])
+  };
+};
+
+export const TableRegionEditor = ({ sheets, onApply }: TableRegionEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [sheetName, setSheetName] = useState(sheets[0]?.sheetName || '');
+  const current = sheets.find(sheet => sheet.sheetName === sheetName) || sheets[0];
+  const [form, setForm] = useState<RegionForm | null>(current?.region ? toForm(current.region) : null);
+
+  // Reload the form whenever the selected sheet or its applied region changes
+  useEffect(() => {
+    setForm(current?.region ? toForm(current.region) : null);
+  }, [current?.sheetName, current?.region]);
+
+  if (!current?.region || !form) return null;
+
+  const update = (field: keyof RegionForm, value: string) => {
+    setForm({ ...form, [field]: value } as RegionForm);
+  };
+
+  const parsed = fromForm(form);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full max-w-md text-left">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between text-gray-700">
+          <span className="flex items-center gap-2">
+            <TableProperties className="h-4 w-4 text-blue-600" />
+            Table detection: header on row {current.region.headerRow + 1}, data rows {current.region.firstDataRow + 1}–{current.region.lastDataRow + 1}
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-3">
+        {sheets.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Sheet</Label>
+            <Select value={current.sheetName} onValueChange={setSheetName}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheets.map(sheet => (
+                  <SelectItem key={sheet.sheetName} value={sheet.sheetName}>{sheet.sheetName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Header row</Label>
+            <Input type="number" min={1} value={form.headerRow} onChange={(e) => update('headerRow', e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Header rows</Label>
+            <Select value={form.headerRowCount} onValueChange={(value) => update('headerRowCount', value)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Single row</SelectItem>
+                <SelectItem value="2">Two rows (Parent / Child)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">First data row</Label>
+            <Input type="number" min={1} value={form.firstDataRow} onChange={(e) => update('firstDataRow', e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Last data row</Label>
+            <Input type="number" min={1} value={form.lastDataRow} onChange={(e) => update('lastDataRow', e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">First column</Label>
+            <Input value={form.firstColumn} onChange={(e) => update('firstColumn', e.target.value)} className="h-9 uppercase" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Last column</Label>
+            <Input value={form.lastColumn} onChange={(e) => update('lastColumn', e.target.value)} className="h-9 uppercase" />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setForm(toForm(current.region!))}>
+            Reset
+          </Button>
+          <Button size="sm" disabled={!parsed} onClick={() => parsed && onApply(current.sheetName, parsed)}>
+            Apply
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
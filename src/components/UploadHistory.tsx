@@ -1,24 +1,34 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { History, FileSpreadsheet, BarChart3, Download, Eye, Trash } from "lucide-react";
+import { History, FileSpreadsheet, BarChart3, Download, Eye, Trash, Combine, FolderOpen, GitCompare } from "lucide-react";
 import { toast } from "sonner";
-import { getUserFiles, getFileAnalyses, downloadAnalysis, getFilePreview, deleteFile } from "@/utils/api";
+import { getUserFiles, getFileAnalyses, downloadAnalysis, getFilePreview, getFilePipeline, deleteFile, FileVersion, ServerFile } from "@/utils/api";
 import { DataPreview } from "./DataPreview";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
+import { CombineFilesDialog } from "./CombineFilesDialog";
+import { VersionHistoryDialog } from "./VersionHistoryDialog";
+import { gridToRows, SheetDataset } from "@/utils/excelUtils";
+import { getDefaultLocaleSettings, LocaleSettings } from "@/utils/localeParsing";
 
 interface FileHistory {
   id: string;
   fileName: string;
+  sheetName?: string;
   uploadDate: string;
   rows: number;
   columns: number;
   status: string;
   analyses: AnalysisHistory[];
+  locale?: LocaleSettings;
+  // Built by appending or joining other files
+  derived?: boolean;
+  // Number in the version history of the report, when it has one
+  version?: number;
 }
 
 interface AnalysisHistory {
@@ -33,9 +43,27 @@ interface AnalysisHistory {
 
 interface UploadHistoryProps {
   userRole?: string;
+  // Loads a combined file into the workspace for charts and cleaning
+  onOpenDataset?: (dataset: SheetDataset, fileName: string) => void;
 }
 
-export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
+const toFileHistory = (file: ServerFile, analyses: AnalysisHistory[]): FileHistory => ({
+  id: file._id,
+  fileName: file.originalName || file.filename,
+  sheetName: file.sheetName,
+  uploadDate: new Date(file.createdAt).toLocaleDateString(),
+  rows: file.rowCount || 0,
+  columns: file.columnCount || 0,
+  status: file.processingStatus,
+  analyses,
+  locale: file.locale,
+  derived: !!file.derivedFrom?.operation,
+  version: file.versionGroup ? file.version : undefined,
+});
+
+const fileLabel = (file: FileHistory) => file.sheetName ? `${file.fileName} — ${file.sheetName}` : file.fileName;
+
+export const UploadHistory = ({ userRole, onOpenDataset }: UploadHistoryProps = {}) => {
   const [files, setFiles] = useState<FileHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -49,6 +77,8 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
   const [confirmTarget, setConfirmTarget] = useState<string | string[] | null>(null);
   const [bulkDeleteProgress, setBulkDeleteProgress] = useState<number>(0);
   const [bulkDeleting, setBulkDeleting] = useState(false);
+  const [showCombine, setShowCombine] = useState(false);
+  const [versionsFile, setVersionsFile] = useState<{ id: string; label: string } | null>(null);
 
   useEffect(() => {
     const fetchHistory = async () => {
@@ -69,15 +99,7 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
           } catch (e) {
             // If no analyses, leave empty
           }
-          filesWithAnalyses.push({
-            id: file._id,
-            fileName: file.originalName,
-            uploadDate: new Date(file.createdAt).toLocaleDateString(),
-            rows: file.rowCount || 0,
-            columns: file.columnCount || 0,
-            status: file.processingStatus,
-            analyses,
-          });
+          filesWithAnalyses.push(toFileHistory(file, analyses));
           // Throttle requests
           if (i < filesData.length - 1) await new Promise(res => setTimeout(res, 150));
         }
@@ -111,6 +133,68 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
     }
   };
 
+  // Reopens a file in the workspace (combined files only exist on the server,
+  // and uploads are gone from the upload tab after a refresh). A recorded
+  // pipeline is replayed on the sheet as read before any step, so it comes
+  // back with its undo history.
+  const handleOpenFile = async (file: FileHistory) => {
+    if (!onOpenDataset) return;
+    try {
+      const token = localStorage.getItem('token') || undefined;
+      const pipeline = await getFilePipeline(file.id, token)
+        .then(res => res.data.pipeline?.steps || [])
+        .catch(() => []);
+      // Read as uploaded: the data dictionary is applied on the client as the
+      // dataset's schema, so it can be edited, and a pipeline replays on the raw rows
+      const res = await getFilePreview(file.id, token, { dictionary: false });
+      const locale = { ...getDefaultLocaleSettings(), ...file.locale };
+      // The server already cut the file's table region out of the sheet, so the
+      // whole preview is the table and isn't detected again
+      const { headers, rows } = res.data;
+      const { data, region, ambiguousDateColumns } = gridToRows([headers, ...rows], {
+        headerRow: 0,
+        headerRowCount: 1,
+        firstDataRow: 1,
+        lastDataRow: rows.length,
+        firstColumn: 0,
+        lastColumn: Math.max(0, headers.length - 1)
+      }, [], locale);
+      onOpenDataset({
+        sheetName: res.data.sheetName || file.sheetName || 'Combined',
+        data,
+        fileId: file.id,
+        region,
+        locale,
+        ambiguousDateColumns,
+        schema: res.data.schema,
+        pipeline,
+      }, file.fileName);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to open the file');
+    }
+  };
+
+  // Picked files in the order they were ticked
+  const combineFiles = useMemo(
+    () => selectedFiles
+      .map(id => files.find(file => file.id === id))
+      .filter((file): file is FileHistory => !!file)
+      .map(file => ({ id: file.id, label: fileLabel(file) })),
+    [selectedFiles, files]
+  );
+
+  const handleCombined = (file: ServerFile) => {
+    setFiles(current => [toFileHistory(file, []), ...current]);
+    setSelectedFiles([]);
+  };
+
+  const fileOptions = useMemo(() => files.map(file => ({ id: file.id, label: fileLabel(file) })), [files]);
+
+  const handleVersionsChange = (versions: FileVersion[]) => {
+    const numbers = new Map(versions.map(version => [version._id, version.versionGroup ? version.version : undefined]));
+    setFiles(current => current.map(file => numbers.has(file.id) ? { ...file, version: numbers.get(file.id) } : file));
+  };
+
   const handleDownloadCharts = async (analysisId: string) => {
     try {
       const token = localStorage.getItem('token') || undefined;
@@ -309,7 +393,7 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-gray-50">
-                      {userRole === 'admin' && <TableHead className="w-8"><input type="checkbox" checked={allSelected} onChange={toggleSelectAll} /></TableHead>}
+                      <TableHead className="w-8"><input type="checkbox" checked={allSelected} onChange={toggleSelectAll} /></TableHead>
                       <TableHead>File</TableHead>
                       <TableHead>Upload Date</TableHead>
                       <TableHead>Rows/Cols</TableHead>
@@ -321,19 +405,26 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
                   <TableBody>
                     {files.map((file) => (
                       <TableRow key={file.id} className="hover:bg-gray-50">
-                        {userRole === 'admin' && (
-                          <TableCell className="w-8">
-                            <input
-                              type="checkbox"
-                              checked={selectedFiles.includes(file.id)}
-                              onChange={() => toggleFileSelect(file.id)}
-                            />
-                          </TableCell>
-                        )}
+                        <TableCell className="w-8">
+                          <input
+                            type="checkbox"
+                            checked={selectedFiles.includes(file.id)}
+                            onChange={() => toggleFileSelect(file.id)}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium">
                           <div className="flex items-center gap-2">
                             <FileSpreadsheet className="h-4 w-4 text-green-600" />
-                            {file.fileName}
+                            <div>
+                              <div className="flex items-center gap-2">
+                                {file.fileName}
+                                {file.derived && <Badge variant="secondary" className="text-xs">Combined</Badge>}
+                                {file.version && <Badge variant="outline" className="text-xs">v{file.version}</Badge>}
+                              </div>
+                              {file.sheetName && (
+                                <div className="text-xs text-gray-500">Sheet: {file.sheetName}</div>
+                              )}
+                            </div>
                           </div>
                         </TableCell>
                         <TableCell>{file.uploadDate}</TableCell>
@@ -372,10 +463,28 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => handleViewDetails(file.id, file.fileName)}
+                              onClick={() => handleViewDetails(file.id, fileLabel(file))}
                             >
                               <Eye className="h-3 w-3" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setVersionsFile({ id: file.id, label: fileLabel(file) })}
+                              title="Versions and changes"
+                            >
+                              <GitCompare className="h-3 w-3" />
+                            </Button>
+                            {onOpenDataset && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleOpenFile(file)}
+                                title="Open in the workspace"
+                              >
+                                <FolderOpen className="h-3 w-3" />
+                              </Button>
+                            )}
                             {file.analyses.map((analysis) => (
                               <Button
                                 key={analysis.id}
@@ -395,19 +504,43 @@ export const UploadHistory = ({ userRole }: UploadHistoryProps = {}) => {
                   </TableBody>
                 </Table>
               </div>
-              {/* Bulk Delete Button for Admins */}
-              {userRole === 'admin' && selectedFiles.length > 0 && (
-                <div className="flex justify-end my-2">
+              {selectedFiles.length > 0 && (
+                <div className="flex justify-end gap-2 my-2">
                   <Button
-                    variant="destructive"
+                    variant="outline"
                     size="sm"
-                    onClick={handleBulkDelete}
+                    onClick={() => setShowCombine(true)}
+                    disabled={selectedFiles.length < 2}
+                    title={selectedFiles.length < 2 ? 'Pick at least two files' : undefined}
                     className="flex items-center gap-2"
                   >
-                    <Trash className="h-4 w-4" /> Delete Selected
+                    <Combine className="h-4 w-4" /> Combine Selected
                   </Button>
+                  {/* Bulk Delete Button for Admins */}
+                  {userRole === 'admin' && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={handleBulkDelete}
+                      className="flex items-center gap-2"
+                    >
+                      <Trash className="h-4 w-4" /> Delete Selected
+                    </Button>
+                  )}
                 </div>
               )}
+              <CombineFilesDialog
+                open={showCombine}
+                onOpenChange={setShowCombine}
+                files={combineFiles}
+                onCreated={handleCombined}
+              />
+              <VersionHistoryDialog
+                file={versionsFile}
+                onClose={() => setVersionsFile(null)}
+                files={fileOptions}
+                onVersionsChange={handleVersionsChange}
+              />
               {/* Confirmation Dialog */}
               <Dialog open={showConfirm} onOpenChange={setShowConfirm}>
                 <DialogContent>
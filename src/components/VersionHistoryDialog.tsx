@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, GitCompare, Link2, Loader2, Unlink } from "lucide-react";
+import { toast } from "sonner";
+import { diffFileVersions, FileVersion, getFileVersions, setFileVersion, VersionDiffResult } from "@/utils/api";
+import type { Row } from "@/utils/excelUtils";
+
+interface VersionHistoryDialogProps {
+  // The file whose history is shown; the dialog is closed when null
+  file: { id: string; label: string } | null;
+  onClose: () => void;
+  // The user's other files, offered as the file this one is a new version of
+  files: { id: string; label: string }[];
+  // Receives the files whose version changed
+  onVersionsChange: (versions: FileVersion[]) => void;
+}
+
+const STATISTICS: { field: string; label: string }[] = [
+  { field: 'mean', label: 'Mean' },
+  { field: 'median', label: 'Median' },
+  { field: 'min', label: 'Min' },
+  { field: 'max', label: 'Max' },
+  { field: 'nullCount', label: 'Blanks' },
+  { field: 'uniqueCount', label: 'Unique' }
+];
+
+// Rows shown in each table of the diff; the server lists up to 200
+const SHOWN_ROWS = 50;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return String(value);
+};
+
+const formatDelta = (delta: number) =>
+  `${delta > 0 ? '+' : ''}${delta.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const versionLabel = (version: FileVersion) =>
+  `v${version.version || 1} — ${new Date(version.createdAt).toLocaleDateString()}`;
+
+const RowsTable = ({ rows, total, className }: { rows: Row[]; total: number; className: string }) => {
+  const columns = Object.keys(rows[0] || {});
+  if (rows.length === 0) return <div className="text-sm text-gray-500 py-6 text-center">None</div>;
+  return (
+    <div className="space-y-1">
+      <div className="overflow-x-auto border rounded-md">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>{columns.map(column => <th key={column} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{column}</th>)}</tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, SHOWN_ROWS).map((row, i) => (
+              <tr key={i} className={`border-t ${className}`}>
+                {columns.map(column => <td key={column} className="px-2 py-1 whitespace-nowrap">{formatCell(row[column])}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {total > Math.min(rows.length, SHOWN_ROWS) && (
+        <div className="text-xs text-gray-500">Showing {Math.min(rows.length, SHOWN_ROWS)} of {total.toLocaleString()} rows</div>
+      )}
+    </div>
+  );
+};
+
+export const VersionHistoryDialog = ({ file, onClose, files, onVersionsChange }: VersionHistoryDialogProps) => {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [linkTarget, setLinkTarget] = useState('');
+  const [linking, setLinking] = useState(false);
+  const [baseId, setBaseId] = useState('');
+  const [currentId, setCurrentId] = useState('');
+  const [keys, setKeys] = useState<string[]>([]);
+  const [result, setResult] = useState<VersionDiffResult | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest version against the one before it, or this file against its predecessor
+  const pickComparison = (list: FileVersion[], fileId: string) => {
+    const index = list.findIndex(version => version._id === fileId);
+    const current = index > 0 ? index : list.length - 1;
+    setCurrentId(list[current]?._id || '');
+    setBaseId(current > 0 ? list[current - 1]._id : '');
+  };
+
+  useEffect(() => {
+    if (!file) return;
+    setVersions([]);
+    setLinkTarget('');
+    setKeys([]);
+    setResult(null);
+    setError(null);
+    setLoading(true);
+    getFileVersions(file.id)
+      .then(res => {
+        setVersions(res.data.versions);
+        pickComparison(res.data.versions, file.id);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load versions'))
+      .finally(() => setLoading(false));
+  }, [file]);
+
+  const versionIds = useMemo(() => new Set(versions.map(version => version._id)), [versions]);
+  const linkOptions = files.filter(other => !versionIds.has(other.id));
+  const linked = versions.length > 1;
+
+  const handleLink = async () => {
+    if (!file || !linkTarget) return;
+    setLinking(true);
+    try {
+      const res = await setFileVersion(file.id, linkTarget);
+      setVersions(res.data.versions);
+      pickComparison(res.data.versions, file.id);
+      setResult(null);
+      setLinkTarget('');
+      onVersionsChange(res.data.versions);
+      toast.success(`Saved as version ${res.data.file.version}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to link the file');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!file) return;
+    setLinking(true);
+    try {
+      const res = await setFileVersion(file.id, null);
+      onVersionsChange(res.data.versions);
+      setVersions(res.data.versions);
+      pickComparison(res.data.versions, file.id);
+      setResult(null);
+      toast.success('Removed from the version history');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to unlink the file');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleCompare = async (compareKeys = keys) => {
+    if (!baseId || !currentId) return;
+    setComparing(true);
+    setError(null);
+    try {
+      const res = await diffFileVersions(currentId, baseId, compareKeys);
+      setResult(res.data);
+      setKeys(res.data.diff.keys);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to compare the versions');
+      setResult(null);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const toggleKey = (column: string) => {
+    const next = keys.includes(column) ? keys.filter(key => key !== column) : [...keys, column];
+    setKeys(next);
+    if (next.length > 0) handleCompare(next);
+  };
+
+  const diff = result?.diff;
+  // Columns with changes, most changes first
+  const changedColumns = diff
+    ? Object.entries(diff.changedColumns).sort((a, b) => b[1] - a[1]).map(([column]) => column)
+    : [];
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            {file?.label}. Link weekly uploads of the same report to compare them: rows added and removed, changed cells,
+            column changes and how each column's statistics moved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-6 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading versions...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg border divide-y">
+              {versions.map(version => (
+                <div key={version._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">v{version.version || 1}</Badge>
+                    <span className="font-medium">{version.filename}</span>
+                    {version.sheetName && <span className="text-gray-500">— {version.sheetName}</span>}
+                    {version._id === file?.id && <Badge variant="secondary" className="text-xs">This file</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}
+                    {version.rowCount !== undefined && ` · ${version.rowCount.toLocaleString()} rows`}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1 flex-1 min-w-[240px]">
+                <Label>Mark this file as a new version of</Label>
+                <Select value={linkTarget} onValueChange={setLinkTarget}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder={linkOptions.length > 0 ? 'Pick an earlier upload' : 'No other files'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {linkOptions.map(other => (
+                      <SelectItem key={other.id} value={other.id}>{other.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={handleLink} disabled={!linkTarget || linking}>
+                <Link2 className="h-4 w-4 mr-2" /> Link
+              </Button>
+              {linked && (
+                <Button variant="ghost" onClick={handleUnlink} disabled={linking}>
+                  <Unlink className="h-4 w-4 mr-2" /> Remove from history
+                </Button>
+              )}
+            </div>
+
+            {linked && (
+              <div className="flex flex-wrap items-end gap-2 border-t pt-4">
+                <div className="space-y-1">
+                  <Label>Older</Label>
+                  <Select value={baseId} onValueChange={(value) => { setBaseId(value); setResult(null); }}>
+                    <SelectTrigger className="h-9 w-52"><SelectValue placeholder="Pick a version" /></SelectTrigger>
+                    <SelectContent>
+                      {versions.filter(version => version._id !== currentId).map(version => (
+                        <SelectItem key={version._id} value={version._id}>{versionLabel(version)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Newer</Label>
+                  <Select value={currentId} onValueChange={(value) => { setCurrentId(value); setResult(null); }}>
+                    <SelectTrigger className="h-9 w-52"><SelectValue placeholder="Pick a version" /></SelectTrigger>
+                    <SelectContent>
+                      {versions.filter(version => version._id !== baseId).map(version => (
+                        <SelectItem key={version._id} value={version._id}>{versionLabel(version)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={() => handleCompare()} disabled={!baseId || !currentId || comparing}>
+                  {comparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+                  Compare
+                </Button>
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4" /> {error}
+              </div>
+            )}
+
+            {result && diff && (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Match rows on</Label>
+                  <div className="flex flex-wrap gap-3 p-2 border rounded-md max-h-24 overflow-y-auto">
+                    {result.columns.map(column => (
+                      <label key={column} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                        <Checkbox checked={keys.includes(column)} onCheckedChange={() => toggleKey(column)} disabled={comparing} />
+                        {column}
+                      </label>
+                    ))}
+                  </div>
+                  {diff.matchedBy === 'row' && (
+                    <p className="text-xs text-amber-700">
+                      No column identifies rows in both versions, so whole rows are compared: an edited row shows as removed and added.
+                      Pick key columns to see changed cells.
+                    </p>
+                  )}
+                  {(diff.summary.duplicateKeys > 0 || (diff.matchedBy === 'key' && diff.summary.blankKeys > 0)) && (
+                    <p className="text-xs text-amber-700">
+                      {diff.summary.duplicateKeys > 0 && `${diff.summary.duplicateKeys} keys appear on several rows and are paired in order. `}
+                      {diff.matchedBy === 'key' && diff.summary.blankKeys > 0 && `${diff.summary.blankKeys} rows have a blank key and can't be matched.`}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+                  <div className="rounded-md bg-gray-50 p-2">
+                    <div className="text-lg font-semibold">{diff.summary.baseRows.toLocaleString()} → {diff.summary.currentRows.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">Rows</div>
+                  </div>
+                  <div className="rounded-md bg-green-50 p-2">
+                    <div className="text-lg font-semibold text-green-700">+{diff.summary.added.toLocaleString()}</div>
+                    <div className="text-xs text-green-700">Added</div>
+                  </div>
+                  <div className="rounded-md bg-red-50 p-2">
+                    <div className="text-lg font-semibold text-red-700">−{diff.summary.removed.toLocaleString()}</div>
+                    <div className="text-xs text-red-700">Removed</div>
+                  </div>
+                  <div className="rounded-md bg-amber-50 p-2">
+                    <div className="text-lg font-semibold text-amber-700">{diff.summary.changed.toLocaleString()}</div>
+                    <div className="text-xs text-amber-700">Changed ({diff.summary.changedCells.toLocaleString()} cells)</div>
+                  </div>
+                  <div className="rounded-md bg-gray-50 p-2">
+                    <div className="text-lg font-semibold">{diff.summary.unchanged.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">Unchanged</div>
+                  </div>
+                </div>
+
+                {(diff.schema.addedColumns.length > 0 || diff.schema.removedColumns.length > 0 || diff.schema.typeChanges.length > 0) && (
+                  <div className="flex flex-wrap gap-1.5 text-xs">
+                    <span className="text-gray-600 mr-1">Columns:</span>
+                    {diff.schema.addedColumns.map(column => (
+                      <Badge key={`+${column}`} className="bg-green-100 text-green-800 hover:bg-green-100">+ {column}</Badge>
+                    ))}
+                    {diff.schema.removedColumns.map(column => (
+                      <Badge key={`-${column}`} className="bg-red-100 text-red-800 hover:bg-red-100">− {column}</Badge>
+                    ))}
+                    {diff.schema.typeChanges.map(change => (
+                      <Badge key={`~${change.column}`} variant="outline">{change.column}: {change.before} → {change.after}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                <Tabs defaultValue="changed">
+                  <TabsList>
+                    <TabsTrigger value="changed">Changed ({diff.summary.changed})</TabsTrigger>
+                    <TabsTrigger value="added">Added ({diff.summary.added})</TabsTrigger>
+                    <TabsTrigger value="removed">Removed ({diff.summary.removed})</TabsTrigger>
+                    <TabsTrigger value="statistics">Statistics</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="changed">
+                    {diff.changedRows.length === 0 ? (
+                      <div className="text-sm text-gray-500 py-6 text-center">None</div>
+                    ) : (
+                      <div className="space-y-1">
+                        <div className="overflow-x-auto border rounded-md">
+                          <table className="w-full text-xs">
+                            <thead className="bg-gray-50 text-gray-600">
+                              <tr>
+                                {[...diff.keys, ...changedColumns].map(column => (
+                                  <th key={column} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">
+                                    {column}
+                                    {diff.changedColumns[column] && <span className="ml-1 text-amber-600">({diff.changedColumns[column]})</span>}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {diff.changedRows.slice(0, SHOWN_ROWS).map((changedRow, i) => {
+                                const changes = new Map(changedRow.changes.map(change => [change.column, change]));
+                                return (
+                                  <tr key={i} className="border-t">
+                                    {diff.keys.map(column => (
+                                      <td key={column} className="px-2 py-1 whitespace-nowrap font-medium">{formatCell(changedRow.key[column])}</td>
+                                    ))}
+                                    {changedColumns.map(column => {
+                                      const change = changes.get(column);
+                                      return change ? (
+                                        <td key={column} className="px-2 py-1 whitespace-nowrap bg-amber-50">
+                                          <span className="line-through text-red-600 mr-1">{formatCell(change.before) || '(empty)'}</span>
+                                          <span className="text-green-700">{formatCell(change.after) || '(empty)'}</span>
+                                        </td>
+                                      ) : (
+                                        <td key={column} className="px-2 py-1 whitespace-nowrap text-gray-500">{formatCell(changedRow.row[column])}</td>
+                                      );
+                                    })}
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                        {diff.summary.changed > Math.min(diff.changedRows.length, SHOWN_ROWS) && (
+                          <div className="text-xs text-gray-500">
+                            Showing {Math.min(diff.changedRows.length, SHOWN_ROWS)} of {diff.summary.changed.toLocaleString()} rows
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </TabsContent>
+                  <TabsContent value="added">
+                    <RowsTable rows={diff.addedRows} total={diff.summary.added} className="bg-green-50/50" />
+                  </TabsContent>
+                  <TabsContent value="removed">
+                    <RowsTable rows={diff.removedRows} total={diff.summary.removed} className="bg-red-50/50" />
+                  </TabsContent>
+                  <TabsContent value="statistics">
+                    <div className="overflow-x-auto border rounded-md">
+                      <table className="w-full text-xs">
+                        <thead className="bg-gray-50 text-gray-600">
+                          <tr>
+                            <th className="px-2 py-1.5 text-left font-medium">Column</th>
+                            {STATISTICS.map(stat => <th key={stat.field} className="px-2 py-1.5 text-right font-medium">{stat.label}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diff.statistics.map(stat => (
+                            <tr key={stat.column} className="border-t">
+                              <td className="px-2 py-1 whitespace-nowrap">
+                                <span className="font-medium">{stat.column}</span>
+                                <span className="ml-1 text-gray-400">{stat.type}</span>
+                                {!stat.before && <Badge className="ml-1 bg-green-100 text-green-800 hover:bg-green-100 text-[10px]">new</Badge>}
+                                {!stat.after && <Badge className="ml-1 bg-red-100 text-red-800 hover:bg-red-100 text-[10px]">removed</Badge>}
+                              </td>
+                              {STATISTICS.map(({ field }) => {
+                                const before = stat.before?.[field];
+                                const after = stat.after?.[field];
+                                const delta = stat.delta[field];
+                                if (before == null && after == null) return <td key={field} className="px-2 py-1 text-right text-gray-300">—</td>;
+                                return (
+                                  <td key={field} className="px-2 py-1 text-right whitespace-nowrap">
+                                    <div>{formatCell(after ?? before)}</div>
+                                    {delta !== undefined && delta !== 0 && (
+                                      <div className={delta > 0 ? 'text-green-700' : 'text-red-600'}>{formatDelta(delta)}</div>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </TabsContent>
+                </Tabs>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
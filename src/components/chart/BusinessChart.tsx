@@ -0,0 +1,448 @@
+import { MutableRefObject, useRef } from "react";
+import { Chart as ChartJS, ChartType, Plugin, RadialLinearScale, ScriptableContext, TooltipCallbacks, TooltipItem } from 'chart.js';
+import { Bar, Bubble, Radar, Scatter } from 'react-chartjs-2';
+import { LocaleSettings } from "@/utils/localeParsing";
+import { buildCategorySeries, ChartGrouping, DEFAULT_CHART_GROUPING, describeAggregation } from "@/utils/chartSeries";
+import {
+  buildBubbles,
+  buildFunnel,
+  buildSankey,
+  buildTreemap,
+  buildWaterfall,
+  BusinessChartType,
+  FunnelStage,
+  SankeyLink,
+  SankeyNode,
+  TreemapRect
+} from "@/utils/businessCharts";
+import { backgroundColors, borderColors, colorAt, withAlpha } from "@/utils/chartPalette";
+import type { Row } from "@/utils/excelUtils";
+
+ChartJS.register(RadialLinearScale);
+
+interface BusinessChartProps {
+  data: Row[];
+  chartType: BusinessChartType;
+  // Waterfall steps, funnel stages, bubble X, radar spokes, Sankey sources
+  xAxis: string;
+  // The first is the value (bubble Y); radar shows one series per column
+  yAxes: string[];
+  // Bubble and radar: one series per value
+  splitBy?: string;
+  // Bubble: column the bubble areas follow
+  sizeColumn?: string;
+  // Sankey: column the flows go to
+  targetColumn?: string;
+  // Treemap: category columns from the outer level in
+  hierarchy?: string[];
+  // Waterfall: X values shown as subtotals
+  waterfallTotals?: string[];
+  grouping?: ChartGrouping;
+  locale?: LocaleSettings;
+}
+
+const INCREASE_COLOR = 'rgba(34, 197, 94, 0.8)';
+const DECREASE_COLOR = 'rgba(244, 63, 94, 0.8)';
+const TOTAL_COLOR = 'rgba(59, 130, 246, 0.8)';
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const formatPercent = (value: number | null) => value === null ? '–' : `${value.toFixed(1)}%`;
+
+const baseOptions = <TType extends ChartType>(title: string, callbacks: Partial<TooltipCallbacks<TType>> = {}) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: { display: false },
+    title: {
+      display: true,
+      text: title,
+      font: {
+        size: 16,
+        weight: 'bold' as const,
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: 'white',
+      bodyColor: 'white',
+      borderColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 1,
+      callbacks,
+    },
+  },
+});
+
+const axisTitle = (text: string) => ({
+  display: text !== '',
+  text,
+  font: {
+    weight: 'bold' as const,
+  },
+});
+
+// Treemaps and Sankey diagrams are drawn by plugins over a hidden 0..1 scatter
+// whose invisible points carry the tooltips
+interface TreemapPoint {
+  x: number;
+  y: number;
+  rect: TreemapRect;
+}
+
+interface SankeyPoint {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+const unitOptions = <Point,>(title: string, label: (point: Point) => string | string[]) => ({
+  ...baseOptions<'scatter'>(title, {
+    title: () => '',
+    label: context => label(context.raw as Point),
+  }),
+  scales: {
+    x: { type: 'linear' as const, min: 0, max: 1, display: false },
+    // 0 at the top, as the layouts are computed
+    y: { type: 'linear' as const, min: 0, max: 1, reverse: true, display: false },
+  },
+});
+
+// Hit radius in pixels of a point covering `width` × `height` of the unit square
+const unitHitRadius = <Point,>(width: (point: Point) => number, height: (point: Point) => number) =>
+  (context: ScriptableContext<'line'>) => {
+    const area = context.chart.chartArea;
+    const point = context.raw as Point | undefined;
+    if (!area || !point) return 0;
+    return Math.max(4, Math.min(width(point) * area.width, height(point) * area.height) / 2);
+  };
+
+// Shortens text with an ellipsis until it fits the width
+const fitText = (ctx: CanvasRenderingContext2D, text: string, width: number) => {
+  if (ctx.measureText(text).width <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > width) fitted = fitted.slice(0, -1);
+  return fitted.length > 1 ? `${fitted}…` : '';
+};
+
+// Chart.js keeps the plugins a chart was created with, so they draw what the
+// latest render left in a ref rather than what they were created with.
+
+// Writes each stage's value and share of the first stage inside its bar
+const funnelPlugin = (latest: MutableRefObject<FunnelStage[] | null>): Plugin<'bar'> => ({
+  id: 'funnelLabels',
+  afterDatasetsDraw: (chart) => {
+    if (!latest.current) return;
+    const stages = latest.current;
+    const { ctx } = chart;
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillStyle = 'white';
+    chart.getDatasetMeta(0).data.forEach((bar, index) => {
+      const stage = stages[index];
+      if (!stage) return;
+      const { x, base, y } = bar.getProps(['x', 'base', 'y'], true);
+      const text = fitText(ctx, `${formatValue(stage.value)} (${formatPercent(stage.percentOfFirst)})`, Math.abs(x - base) - 8);
+      if (text) ctx.fillText(text, (x + base) / 2, y);
+    });
+    ctx.restore();
+  },
+});
+
+interface TreemapLayout {
+  leaves: TreemapRect[];
+  groups: TreemapRect[];
+}
+
+// Leaves in their top-level group's color, outer groups outlined thicker than inner ones
+const treemapPlugin = (latest: MutableRefObject<TreemapLayout | null>): Plugin<'scatter'> => ({
+  id: 'treemap',
+  beforeDatasetsDraw: (chart) => {
+    if (!latest.current) return;
+    const { leaves, groups } = latest.current;
+    const { ctx, scales: { x, y } } = chart;
+    const box = (rect: TreemapRect) => {
+      const left = x.getPixelForValue(rect.x0);
+      const top = y.getPixelForValue(rect.y0);
+      return { left, top, width: x.getPixelForValue(rect.x1) - left, height: y.getPixelForValue(rect.y1) - top };
+    };
+    ctx.save();
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    leaves.forEach(rect => {
+      const { left, top, width, height } = box(rect);
+      ctx.fillStyle = withAlpha(colorAt(backgroundColors, rect.group), 0.85 - Math.min(rect.depth, 3) * 0.1);
+      ctx.fillRect(left, top, width, height);
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(left, top, width, height);
+
+      // Labels go in tiles large enough to hold them
+      if (width < 36 || height < 18) return;
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 11px sans-serif';
+      const label = fitText(ctx, rect.label, width - 8);
+      if (label) ctx.fillText(label, left + 4, top + 4);
+      if (height >= 34) {
+        ctx.font = '11px sans-serif';
+        const value = fitText(ctx, formatValue(rect.value), width - 8);
+        if (value) ctx.fillText(value, left + 4, top + 18);
+      }
+    });
+
+    groups.forEach(rect => {
+      const { left, top, width, height } = box(rect);
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = Math.max(1, 3 - rect.depth);
+      ctx.strokeRect(left, top, width, height);
+    });
+    ctx.restore();
+  },
+});
+
+interface SankeyLayout {
+  nodes: SankeyNode[];
+  links: SankeyLink[];
+}
+
+// Flows as bands curving from source to target, under the nodes and their names
+const sankeyPlugin = (latest: MutableRefObject<SankeyLayout | null>): Plugin<'scatter'> => ({
+  id: 'sankey',
+  beforeDatasetsDraw: (chart) => {
+    if (!latest.current) return;
+    const { nodes, links } = latest.current;
+    const { ctx, scales: { x, y } } = chart;
+    const lastColumn = Math.max(0, ...nodes.map(node => node.column));
+    ctx.save();
+
+    links.forEach(link => {
+      const source = nodes[link.source];
+      const target = nodes[link.target];
+      const x0 = x.getPixelForValue(source.x1);
+      const x1 = x.getPixelForValue(target.x0);
+      const middle = (x0 + x1) / 2;
+      ctx.fillStyle = withAlpha(colorAt(backgroundColors, link.source), 0.35);
+      ctx.beginPath();
+      ctx.moveTo(x0, y.getPixelForValue(link.sy0));
+      ctx.bezierCurveTo(middle, y.getPixelForValue(link.sy0), middle, y.getPixelForValue(link.ty0), x1, y.getPixelForValue(link.ty0));
+      ctx.lineTo(x1, y.getPixelForValue(link.ty1));
+      ctx.bezierCurveTo(middle, y.getPixelForValue(link.ty1), middle, y.getPixelForValue(link.sy1), x0, y.getPixelForValue(link.sy1));
+      ctx.closePath();
+      ctx.fill();
+    });
+
+    ctx.font = '11px sans-serif';
+    ctx.textBaseline = 'middle';
+    nodes.forEach((node, index) => {
+      const left = x.getPixelForValue(node.x0);
+      const right = x.getPixelForValue(node.x1);
+      const top = y.getPixelForValue(node.y0);
+      const bottom = y.getPixelForValue(node.y1);
+      ctx.fillStyle = colorAt(borderColors, index);
+      ctx.fillRect(left, top, right - left, Math.max(1, bottom - top));
+
+      // Names sit beside their node, on the inner side for the last column
+      ctx.fillStyle = 'rgb(31, 41, 55)';
+      const last = node.column === lastColumn && lastColumn > 0;
+      ctx.textAlign = last ? 'right' : 'left';
+      ctx.fillText(node.name, last ? left - 6 : right + 6, (top + bottom) / 2);
+    });
+    ctx.restore();
+  },
+});
+
+export const BusinessChart = ({
+  data,
+  chartType,
+  xAxis,
+  yAxes,
+  splitBy = '',
+  sizeColumn = '',
+  targetColumn = '',
+  hierarchy = [],
+  waterfallTotals = [],
+  grouping = DEFAULT_CHART_GROUPING,
+  locale
+}: BusinessChartProps) => {
+  const valueColumn = yAxes[0] || '';
+  const funnel = useRef<FunnelStage[] | null>(null);
+  const treemap = useRef<TreemapLayout | null>(null);
+  const sankey = useRef<SankeyLayout | null>(null);
+
+  const renderChart = () => {
+    switch (chartType) {
+      case 'waterfall': {
+        const steps = buildWaterfall(data, { xAxis, valueColumn, totals: waterfallTotals, locale });
+        const chartData = {
+          labels: steps.map(step => step.label),
+          datasets: [{
+            label: valueColumn,
+            data: steps.map(step => [step.start, step.end] as [number, number]),
+            backgroundColor: steps.map(step => step.kind === 'total' ? TOTAL_COLOR : step.kind === 'increase' ? INCREASE_COLOR : DECREASE_COLOR),
+            borderWidth: 0,
+          }],
+        };
+        const options = {
+          ...baseOptions<'bar'>(`${valueColumn} by ${xAxis}`, {
+            label: context => {
+              const step = steps[context.dataIndex];
+              if (step.kind === 'total') return `Total: ${formatValue(step.end)}`;
+              const change = step.end - step.start;
+              return [`Change: ${change >= 0 ? '+' : ''}${formatValue(change)}`, `Running total: ${formatValue(step.end)}`];
+            },
+          }),
+          scales: {
+            x: { title: axisTitle(xAxis), grid: { display: false } },
+            y: { title: axisTitle(valueColumn) },
+          },
+        };
+        return <Bar key={chartType} data={chartData} options={options} />;
+      }
+
+      case 'funnel': {
+        const stages = buildFunnel(data, { xAxis, valueColumn, aggregation: grouping.aggregation, locale });
+        const chartData = {
+          labels: stages.map(stage => stage.label),
+          datasets: [{
+            label: valueColumn,
+            // Bars centered on zero narrow towards the last stage
+            data: stages.map(stage => [-stage.value / 2, stage.value / 2] as [number, number]),
+            backgroundColor: stages.map((_, index) => colorAt(backgroundColors, index)),
+            borderColor: stages.map((_, index) => colorAt(borderColors, index)),
+            borderWidth: 1,
+            categoryPercentage: 1,
+            barPercentage: 0.9,
+          }],
+        };
+        const options = {
+          ...baseOptions<'bar'>(`${describeAggregation(grouping.aggregation, valueColumn)} by ${xAxis}`, {
+            label: context => {
+              const stage = stages[context.dataIndex];
+              return [
+                `${valueColumn}: ${formatValue(stage.value)}`,
+                `Of first stage: ${formatPercent(stage.percentOfFirst)}`,
+                `Of previous stage: ${formatPercent(stage.percentOfPrevious)}`,
+              ];
+            },
+          }),
+          indexAxis: 'y' as const,
+          scales: {
+            x: { display: false },
+            y: { grid: { display: false } },
+          },
+        };
+        funnel.current = stages;
+        return <Bar key={chartType} data={chartData} options={options} plugins={[funnelPlugin(funnel)]} />;
+      }
+
+      case 'bubble': {
+        const series = buildBubbles(data, { xAxis, yAxis: valueColumn, sizeColumn, splitBy, locale });
+        const chartData = {
+          datasets: series.map((item, index) => ({
+            label: item.label,
+            data: item.points,
+            backgroundColor: withAlpha(colorAt(backgroundColors, index), 0.5),
+            borderColor: colorAt(borderColors, index),
+            borderWidth: 1,
+          })),
+        };
+        const options = {
+          ...baseOptions<'bubble'>(`${valueColumn} vs ${xAxis}, sized by ${sizeColumn}`, {
+            label: (context: TooltipItem<'bubble'>) => {
+              const { x, y, size } = context.raw as (typeof series)[number]['points'][number];
+              return `${splitBy ? `${context.dataset.label}: ` : ''}${xAxis} ${formatValue(x)}, ${valueColumn} ${formatValue(y)}, ${sizeColumn} ${formatValue(size)}`;
+            },
+          }),
+          scales: {
+            x: { title: axisTitle(xAxis), grace: '5%' },
+            y: { title: axisTitle(valueColumn), grace: '5%' },
+          },
+        };
+        options.plugins.legend.display = splitBy !== '';
+        return <Bubble key={chartType} data={chartData} options={options} />;
+      }
+
+      case 'radar': {
+        const { labels, series } = buildCategorySeries(data, { xAxis, yAxes, splitBy, locale, ...grouping });
+        const chartData = {
+          labels,
+          datasets: series.map((item, index) => ({
+            label: item.label,
+            data: item.values,
+            backgroundColor: withAlpha(colorAt(backgroundColors, index), 0.2),
+            borderColor: colorAt(borderColors, index),
+            pointBackgroundColor: colorAt(borderColors, index),
+            borderWidth: 2,
+            fill: true,
+          })),
+        };
+        const options = {
+          ...baseOptions(`${describeAggregation(grouping.aggregation, yAxes.join(', '))} by ${xAxis}`),
+          scales: {
+            r: { beginAtZero: true },
+          },
+        };
+        options.plugins.legend.display = series.length > 1;
+        return <Radar key={chartType} data={chartData} options={options} />;
+      }
+
+      case 'treemap': {
+        const layout = buildTreemap(data, { hierarchy, valueColumn, locale });
+        treemap.current = layout;
+        const chartData = {
+          datasets: [{
+            data: layout.leaves.map(rect => ({ x: (rect.x0 + rect.x1) / 2, y: (rect.y0 + rect.y1) / 2, rect })),
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            pointHitRadius: unitHitRadius<TreemapPoint>(point => point.rect.x1 - point.rect.x0, point => point.rect.y1 - point.rect.y0),
+          }],
+        };
+        const options = unitOptions<TreemapPoint>(
+          `${valueColumn} by ${hierarchy.join(' › ')}`,
+          point => `${point.rect.path.join(' › ')}: ${formatValue(point.rect.value)}`
+        );
+        return <Scatter key={chartType} data={chartData} options={options} plugins={[treemapPlugin(treemap)]} />;
+      }
+
+      case 'sankey': {
+        const layout = buildSankey(data, { sourceColumn: xAxis, targetColumn, valueColumn, locale });
+        sankey.current = layout;
+        const chartData = {
+          datasets: [{
+            data: [
+              ...layout.links.map(link => ({
+                x: (layout.nodes[link.source].x1 + layout.nodes[link.target].x0) / 2,
+                y: (link.sy0 + link.sy1 + link.ty0 + link.ty1) / 4,
+                width: 0.02,
+                height: link.sy1 - link.sy0,
+                text: `${layout.nodes[link.source].name} → ${layout.nodes[link.target].name}: ${formatValue(link.value)}`,
+              })),
+              // Nodes come last so they win over the flows around them
+              ...layout.nodes.map(node => ({
+                x: (node.x0 + node.x1) / 2,
+                y: (node.y0 + node.y1) / 2,
+                width: node.x1 - node.x0,
+                height: node.y1 - node.y0,
+                text: `${node.name}: ${formatValue(node.value)}`,
+              })),
+            ],
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            pointHitRadius: unitHitRadius<SankeyPoint>(point => Math.max(point.width, point.height), point => point.height),
+          }],
+        };
+        const options = unitOptions<SankeyPoint>(`${valueColumn} from ${xAxis} to ${targetColumn}`, point => point.text);
+        return <Scatter key={chartType} data={chartData} options={options} plugins={[sankeyPlugin(sankey)]} />;
+      }
+    }
+  };
+
+  return (
+    <div className="w-full h-64 sm:h-80 lg:h-96">
+      {renderChart()}
+    </div>
+  );
+};
@@ -1,48 +1,106 @@
 
 import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart3, LineChart, PieChart, Box, Hash, Calendar, Type } from "lucide-react";
-import { detectColumnType } from "@/utils/excelUtils";
+import { BarChart3, LineChart, PieChart, Box, ChevronDown, Layers, Sigma, TrendingUp } from "lucide-react";
+import { LocaleSettings } from "@/utils/localeParsing";
+import { ColumnTypeInfo, inferColumnType, isMeasureType, SemanticType } from "@/utils/columnTypes";
+import { ColumnTypeBadge, ColumnTypeIcon } from "@/components/ColumnTypeBadge";
+import {
+  BIN_COUNTS,
+  CHART_AGGREGATIONS,
+  ChartAggregation,
+  ChartGrouping,
+  DATE_BUCKETS,
+  DateBucket,
+  DEFAULT_CHART_GROUPING,
+  isChartReady,
+  splitLabel,
+  STACK_MODES,
+  StackMode,
+  TOP_N_OPTIONS
+} from "@/utils/chartSeries";
+import {
+  DEFAULT_HISTOGRAM_BINS,
+  DEFAULT_TRENDLINE,
+  FORECAST_PERIODS,
+  MOVING_AVERAGE_WINDOWS,
+  POLYNOMIAL_DEGREES,
+  STATISTICAL_CHART_TYPES,
+  StatisticalChartType,
+  TRENDLINE_TYPES,
+  TrendlineSettings,
+  TrendlineType
+} from "@/utils/chartStats";
+import { BUSINESS_CHART_TYPES, BusinessChartType } from "@/utils/businessCharts";
 
 interface ChartControlsProps {
   data: any[];
+  locale?: LocaleSettings;
+  // Types set in the column schema editor, keyed by column name
+  typeOverrides?: Record<string, SemanticType>;
+  // Columns computed from formulas, marked in the axis lists
+  calculatedColumns?: string[];
   onConfigChange: (config: ChartConfig) => void;
 }
 
+export type ChartType = 'bar' | 'line' | 'pie' | 'area' | 'scatter' | StatisticalChartType | BusinessChartType | '3d-bar' | '3d-scatter' | '3d-surface';
+
 export interface ChartConfig {
   xAxis: string;
+  // The first of yAxes; 3D charts and saved charts read it
   yAxis: string;
+  // Every Y column of a 2D chart, one series each
+  yAxes: string[];
+  // Category column split into one series per value; '' for none
+  splitBy: string;
+  stackMode: StackMode;
+  // Aggregation and X bucketing of 2D charts other than scatter plots
+  grouping: ChartGrouping;
+  // Bubble charts: column the bubble areas follow
+  sizeColumn: string;
+  // Sankey diagrams: column the flows go to; X is where they come from
+  targetColumn: string;
+  // Treemaps: category columns from the outer level in
+  hierarchy: string[];
+  // Waterfalls: X values shown as subtotals
+  waterfallTotals: string[];
+  // Line and scatter charts: trendline overlay per series
+  trendline: TrendlineSettings;
   zAxis: string;
-  chartType: 'bar' | 'line' | 'pie' | 'area' | 'scatter' | '3d-bar' | '3d-scatter' | '3d-surface';
+  chartType: ChartType;
   chartDimension: '2d' | '3d';
 }
 
-const getColumnTypeIcon = (type: string) => {
-  switch (type) {
-    case 'number': return <Hash className="h-3 w-3 text-blue-600" />;
-    case 'date': return <Calendar className="h-3 w-3 text-green-600" />;
-    default: return <Type className="h-3 w-3 text-gray-600" />;
-  }
-};
+// Select value for "no split"
+const NO_SPLIT = '__none__';
 
-const getColumnTypeBadge = (type: string) => {
-  const colors = {
-    number: 'bg-blue-100 text-blue-800 border-blue-300',
-    date: 'bg-green-100 text-green-800 border-green-300',
-    text: 'bg-gray-100 text-gray-800 border-gray-300'
-  };
-  return colors[type as keyof typeof colors] || colors.text;
-};
+// X values offered as waterfall subtotals
+const MAX_TOTAL_OPTIONS = 100;
+
+// Columns that make poor axes of any kind: unique codes and free-form links
+const isLabelOnlyType = (info: ColumnTypeInfo) =>
+  info.semanticType === 'identifier' || info.semanticType === 'email' || info.semanticType === 'url';
 
-export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
+export const ChartControls = ({ data, locale, typeOverrides = {}, calculatedColumns = [], onConfigChange }: ChartControlsProps) => {
   const [xAxis, setXAxis] = useState<string>("");
-  const [yAxis, setYAxis] = useState<string>("");
+  const [yAxes, setYAxes] = useState<string[]>([]);
+  const [splitBy, setSplitBy] = useState<string>("");
+  const [stackMode, setStackMode] = useState<StackMode>('grouped');
+  const [grouping, setGrouping] = useState<ChartGrouping>(DEFAULT_CHART_GROUPING);
+  const [sizeColumn, setSizeColumn] = useState<string>("");
+  const [targetColumn, setTargetColumn] = useState<string>("");
+  const [hierarchy, setHierarchy] = useState<string[]>([]);
+  const [waterfallTotals, setWaterfallTotals] = useState<string[]>([]);
+  const [trendline, setTrendline] = useState<TrendlineSettings>(DEFAULT_TRENDLINE);
   const [zAxis, setZAxis] = useState<string>("");
-  const [chartType, setChartType] = useState<'bar' | 'line' | 'pie' | 'area' | 'scatter' | '3d-bar' | '3d-scatter' | '3d-surface'>('bar');
+  const [chartType, setChartType] = useState<ChartType>('bar');
   const [chartDimension, setChartDimension] = useState<'2d' | '3d'>('2d');
 
   if (!data || data.length === 0) return null;
@@ -52,22 +110,80 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
   // Get column types for all columns
   const columnsWithTypes = columns.map(col => {
     const values = data.map(row => row[col]);
-    const type = detectColumnType(values);
-    return { name: col, type };
+    return { name: col, typeInfo: inferColumnType(values, { locale, name: col, override: typeOverrides[col] }) };
   });
 
+  // Every column stays selectable; suggested ones are listed first
+  const renderColumnOptions = (isSuggested: (info: ColumnTypeInfo) => boolean) => {
+    const suggested = columnsWithTypes.filter(column => isSuggested(column.typeInfo));
+    const others = columnsWithTypes.filter(column => !isSuggested(column.typeInfo));
+    const renderItem = (column: typeof columnsWithTypes[number]) => (
+      <SelectItem key={column.name} value={column.name}>
+        <div className="flex items-center gap-2 w-full">
+          <ColumnTypeIcon type={column.typeInfo.semanticType} className="h-3 w-3" />
+          <span className="flex-1">{column.name}</span>
+          {calculatedColumns.includes(column.name) && (
+            <span className="text-[10px] font-mono italic text-blue-600" title="Calculated column">fx</span>
+          )}
+          <ColumnTypeBadge info={column.typeInfo} className="text-xs px-1 py-0" />
+        </div>
+      </SelectItem>
+    );
+
+    if (suggested.length === 0 || others.length === 0) return columnsWithTypes.map(renderItem);
+    return (
+      <>
+        <SelectGroup>
+          <SelectLabel className="text-xs text-gray-500">Suggested</SelectLabel>
+          {suggested.map(renderItem)}
+        </SelectGroup>
+        <SelectGroup>
+          <SelectLabel className="text-xs text-gray-500">Other columns</SelectLabel>
+          {others.map(renderItem)}
+        </SelectGroup>
+      </>
+    );
+  };
+
+  // Scatter plots, bubble charts and histograms need a numeric X axis; other charts group by dates and categories
+  const isNumericXChart = ['scatter', 'bubble', 'histogram', '3d-scatter', '3d-surface'].includes(chartType);
+  const suggestX = (info: ColumnTypeInfo) => isNumericXChart ? isMeasureType(info) : !isLabelOnlyType(info) && !isMeasureType(info);
+
   const handleConfigUpdate = (updates: Partial<ChartConfig>) => {
+    // 3D charts pick a single Y column
+    if (updates.yAxis !== undefined) updates.yAxes = updates.yAxis ? [updates.yAxis] : [];
+    // Correlation matrices start from every numeric column
+    if (updates.chartType === 'correlation' && yAxes.length < 2) {
+      updates.yAxes = columnsWithTypes.filter(column => isMeasureType(column.typeInfo)).map(column => column.name);
+    }
     const newConfig = {
       xAxis,
-      yAxis,
+      yAxes,
+      splitBy,
+      stackMode,
+      grouping,
+      sizeColumn,
+      targetColumn,
+      hierarchy,
+      waterfallTotals,
+      trendline,
       zAxis,
       chartType,
       chartDimension,
       ...updates
     };
-    
+    newConfig.yAxis = newConfig.yAxes[0] || '';
+
     if (updates.xAxis !== undefined) setXAxis(updates.xAxis);
-    if (updates.yAxis !== undefined) setYAxis(updates.yAxis);
+    if (updates.yAxes !== undefined) setYAxes(updates.yAxes);
+    if (updates.splitBy !== undefined) setSplitBy(updates.splitBy);
+    if (updates.stackMode !== undefined) setStackMode(updates.stackMode);
+    if (updates.grouping !== undefined) setGrouping(updates.grouping);
+    if (updates.sizeColumn !== undefined) setSizeColumn(updates.sizeColumn);
+    if (updates.targetColumn !== undefined) setTargetColumn(updates.targetColumn);
+    if (updates.hierarchy !== undefined) setHierarchy(updates.hierarchy);
+    if (updates.waterfallTotals !== undefined) setWaterfallTotals(updates.waterfallTotals);
+    if (updates.trendline !== undefined) setTrendline(updates.trendline);
     if (updates.zAxis !== undefined) setZAxis(updates.zAxis);
     if (updates.chartType !== undefined) setChartType(updates.chartType);
     if (updates.chartDimension !== undefined) {
@@ -82,10 +198,71 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
       }
     }
 
-    onConfigChange(newConfig);
+    onConfigChange(newConfig as ChartConfig);
   };
 
   const is3D = chartDimension === '3d';
+  const yAxis = yAxes[0] || '';
+  const toggleYAxis = (column: string) => handleConfigUpdate({
+    yAxes: yAxes.includes(column) ? yAxes.filter(name => name !== column) : [...yAxes, column]
+  });
+  // Box, violin, heatmap and most business charts show one value column; histograms count rows
+  const singleY = is3D || ['box', 'violin', 'heatmap', 'waterfall', 'funnel', 'bubble', 'treemap', 'sankey'].includes(chartType);
+  const showX = chartType !== 'correlation' && chartType !== 'treemap';
+  const showY = chartType !== 'histogram';
+  // Pie charts show one series, so they can't be split; heatmaps split into rows
+  const canSplit = !is3D && ['bar', 'line', 'area', 'scatter', 'histogram', 'heatmap', 'bubble', 'radar'].includes(chartType);
+  const canStack = !is3D && (chartType === 'bar' || chartType === 'area' || chartType === 'histogram') && (yAxes.length > 1 || splitBy !== '');
+  const xLabel = {
+    histogram: 'Column to Bin (Numeric)',
+    box: 'Group By (Category)',
+    violin: 'Group By (Category)',
+    heatmap: 'Columns (Category)',
+    waterfall: 'Steps (Category)',
+    funnel: 'Stages (Category)',
+    bubble: 'X-Axis (Numeric)',
+    radar: 'Spokes (Category)',
+    sankey: 'Source (Category)',
+  }[chartType as string] ?? 'X-Axis (Any Column)';
+  const yLabel = {
+    box: 'Values (Numeric)',
+    violin: 'Values (Numeric)',
+    heatmap: 'Cell Value',
+    correlation: 'Columns to Correlate',
+    waterfall: 'Change (Numeric)',
+    funnel: 'Stage Value',
+    bubble: 'Y-Axis (Numeric)',
+    treemap: 'Tile Size (Numeric)',
+    sankey: 'Flow Value (Numeric)',
+  }[chartType as string] ?? (singleY ? 'Y-Axis (Any Column)' : 'Y-Axis (One Series per Column)');
+  const suggestSplit = (info: ColumnTypeInfo) => !isLabelOnlyType(info) && !isMeasureType(info) && info.baseType !== 'date';
+  // Date buckets, bins and top N depend on the X column's type
+  const xType = columnsWithTypes.find(column => column.name === xAxis)?.typeInfo;
+  const canAggregate = !is3D && ['bar', 'line', 'area', 'pie', 'heatmap', 'funnel', 'radar'].includes(chartType) && xType !== undefined;
+  const showBins = chartType === 'histogram' || (canAggregate && xType?.baseType === 'number');
+  const updateGrouping = (updates: Partial<ChartGrouping>) => handleConfigUpdate({ grouping: { ...grouping, ...updates } });
+  const measures = [
+    ...columnsWithTypes.filter(column => isMeasureType(column.typeInfo)),
+    ...columnsWithTypes.filter(column => !isMeasureType(column.typeInfo))
+  ];
+  const categories = [
+    ...columnsWithTypes.filter(column => suggestSplit(column.typeInfo)),
+    ...columnsWithTypes.filter(column => !suggestSplit(column.typeInfo))
+  ];
+  // Treemap levels keep the order they were picked in
+  const toggleHierarchy = (column: string) => handleConfigUpdate({
+    hierarchy: hierarchy.includes(column) ? hierarchy.filter(name => name !== column) : [...hierarchy, column]
+  });
+  const xValues = chartType === 'waterfall' && xAxis
+    ? [...new Set(data.map(row => splitLabel(row[xAxis])))].slice(0, MAX_TOTAL_OPTIONS)
+    : [];
+  const canTrend = !is3D && (chartType === 'line' || chartType === 'scatter');
+  // Forecasts continue lines over date periods
+  const canForecast = chartType === 'line' && grouping.dateBucket !== 'none';
+  const updateTrendline = (updates: Partial<TrendlineSettings>) => handleConfigUpdate({ trendline: { ...trendline, ...updates } });
+  const toggleTotal = (value: string) => handleConfigUpdate({
+    waterfallTotals: waterfallTotals.includes(value) ? waterfallTotals.filter(total => total !== value) : [...waterfallTotals, value]
+  });
 
   return (
     <Card className="border-0 shadow-xl bg-gradient-to-r from-white to-blue-50">
@@ -123,49 +300,165 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
 
         {/* Axis Selection */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {showX && (
           <div className="space-y-2">
-            <Label htmlFor="x-axis" className="text-sm font-semibold text-gray-700">X-Axis (Any Column)</Label>
-            <Select value={xAxis} onValueChange={(value) => handleConfigUpdate({ xAxis: value })}>
+            <Label htmlFor="x-axis" className="text-sm font-semibold text-gray-700">{xLabel}</Label>
+            <Select
+              value={xAxis}
+              onValueChange={(value) => handleConfigUpdate({
+                xAxis: value,
+                grouping: { ...DEFAULT_CHART_GROUPING, aggregation: grouping.aggregation },
+                waterfallTotals: []
+              })}
+            >
               <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
                 <SelectValue placeholder="Select X-axis column" />
               </SelectTrigger>
               <SelectContent className="max-h-60">
-                {columnsWithTypes.map((column) => (
-                  <SelectItem key={column.name} value={column.name}>
-                    <div className="flex items-center gap-2 w-full">
-                      {getColumnTypeIcon(column.type)}
-                      <span className="flex-1">{column.name}</span>
-                      <Badge className={`text-xs px-1 py-0 ${getColumnTypeBadge(column.type)}`}>
-                        {column.type}
-                      </Badge>
-                    </div>
-                  </SelectItem>
-                ))}
+                {renderColumnOptions(suggestX)}
               </SelectContent>
             </Select>
           </div>
+          )}
 
-          <div className="space-y-2">
-            <Label htmlFor="y-axis" className="text-sm font-semibold text-gray-700">Y-Axis (Any Column)</Label>
-            <Select value={yAxis} onValueChange={(value) => handleConfigUpdate({ yAxis: value })}>
-              <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
-                <SelectValue placeholder="Select Y-axis column" />
-              </SelectTrigger>
-              <SelectContent className="max-h-60">
-                {columnsWithTypes.map((column) => (
-                  <SelectItem key={column.name} value={column.name}>
-                    <div className="flex items-center gap-2 w-full">
-                      {getColumnTypeIcon(column.type)}
-                      <span className="flex-1">{column.name}</span>
-                      <Badge className={`text-xs px-1 py-0 ${getColumnTypeBadge(column.type)}`}>
-                        {column.type}
-                      </Badge>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {showY && (singleY ? (
+            <div className="space-y-2">
+              <Label htmlFor="y-axis" className="text-sm font-semibold text-gray-700">{yLabel}</Label>
+              <Select value={yAxis} onValueChange={(value) => handleConfigUpdate({ yAxis: value })}>
+                <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
+                  <SelectValue placeholder="Select Y-axis column" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {renderColumnOptions(isMeasureType)}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-gray-700">{yLabel}</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="h-11 w-full justify-between border-2 border-gray-200 font-normal">
+                    <span className={`truncate ${yAxes.length === 0 ? 'text-muted-foreground' : ''}`}>
+                      {yAxes.length === 0 ? 'Select Y-axis columns' : yAxes.join(', ')}
+                    </span>
+                    <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-2 max-h-72 overflow-y-auto" align="start">
+                  {measures.map(column => (
+                    <label key={column.name} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                      <Checkbox checked={yAxes.includes(column.name)} onCheckedChange={() => toggleYAxis(column.name)} />
+                      <ColumnTypeIcon type={column.typeInfo.semanticType} className="h-3 w-3" />
+                      <span className="flex-1 truncate">{column.name}</span>
+                      {calculatedColumns.includes(column.name) && (
+                        <span className="text-[10px] font-mono italic text-blue-600" title="Calculated column">fx</span>
+                      )}
+                      <ColumnTypeBadge info={column.typeInfo} className="text-xs px-1 py-0" />
+                    </label>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+          ))}
+
+          {canSplit && (
+            <div className="space-y-2">
+              <Label htmlFor="split-by" className="text-sm font-semibold text-gray-700">
+                {chartType === 'heatmap' ? 'Rows (Category)' : 'Split By (Optional)'}
+              </Label>
+              <Select value={splitBy || NO_SPLIT} onValueChange={(value) => handleConfigUpdate({ splitBy: value === NO_SPLIT ? '' : value })}>
+                <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  <SelectItem value={NO_SPLIT}>{chartType === 'heatmap' ? 'Select row column' : 'No split'}</SelectItem>
+                  {renderColumnOptions(suggestSplit)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {chartType === 'treemap' && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-gray-700">Hierarchy (Category Columns)</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="h-11 w-full justify-between border-2 border-gray-200 font-normal">
+                    <span className={`truncate ${hierarchy.length === 0 ? 'text-muted-foreground' : ''}`}>
+                      {hierarchy.length === 0 ? 'Select levels, outermost first' : hierarchy.join(' › ')}
+                    </span>
+                    <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-2 max-h-72 overflow-y-auto" align="start">
+                  {categories.map(column => (
+                    <label key={column.name} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                      <Checkbox checked={hierarchy.includes(column.name)} onCheckedChange={() => toggleHierarchy(column.name)} />
+                      <ColumnTypeIcon type={column.typeInfo.semanticType} className="h-3 w-3" />
+                      <span className="flex-1 truncate">{column.name}</span>
+                      {hierarchy.includes(column.name) && (
+                        <span className="text-xs text-gray-500">Level {hierarchy.indexOf(column.name) + 1}</span>
+                      )}
+                    </label>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+
+          {chartType === 'bubble' && (
+            <div className="space-y-2">
+              <Label htmlFor="size-column" className="text-sm font-semibold text-gray-700">Bubble Size (Numeric)</Label>
+              <Select value={sizeColumn} onValueChange={(value) => handleConfigUpdate({ sizeColumn: value })}>
+                <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
+                  <SelectValue placeholder="Select size column" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {renderColumnOptions(isMeasureType)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {chartType === 'sankey' && (
+            <div className="space-y-2">
+              <Label htmlFor="target-column" className="text-sm font-semibold text-gray-700">Target (Category)</Label>
+              <Select value={targetColumn} onValueChange={(value) => handleConfigUpdate({ targetColumn: value })}>
+                <SelectTrigger className="h-11 border-2 border-gray-200 focus:border-blue-500">
+                  <SelectValue placeholder="Select target column" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {renderColumnOptions(suggestSplit)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {chartType === 'waterfall' && xValues.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-gray-700">Subtotals (Optional)</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="h-11 w-full justify-between border-2 border-gray-200 font-normal">
+                    <span className={`truncate ${waterfallTotals.length === 0 ? 'text-muted-foreground' : ''}`}>
+                      {waterfallTotals.length === 0 ? 'Final total only' : waterfallTotals.join(', ')}
+                    </span>
+                    <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-2 max-h-72 overflow-y-auto" align="start">
+                  <p className="px-2 pb-2 text-xs text-gray-500">Steps shown as the running total so far</p>
+                  {xValues.map(value => (
+                    <label key={value} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                      <Checkbox checked={waterfallTotals.includes(value)} onCheckedChange={() => toggleTotal(value)} />
+                      <span className="flex-1 truncate">{value}</span>
+                    </label>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
 
           {is3D && (
             <div className="space-y-2">
@@ -175,17 +468,7 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
                   <SelectValue placeholder="Select Z-axis column" />
                 </SelectTrigger>
                 <SelectContent className="max-h-60">
-                  {columnsWithTypes.map((column) => (
-                    <SelectItem key={column.name} value={column.name}>
-                      <div className="flex items-center gap-2 w-full">
-                        {getColumnTypeIcon(column.type)}
-                        <span className="flex-1">{column.name}</span>
-                        <Badge className={`text-xs px-1 py-0 ${getColumnTypeBadge(column.type)}`}>
-                          {column.type}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))}
+                  {renderColumnOptions(isMeasureType)}
                 </SelectContent>
               </Select>
             </div>
@@ -195,7 +478,7 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
             <Label htmlFor="chart-type" className="text-sm font-semibold text-gray-700">Chart Type</Label>
             <Select 
               value={chartType} 
-              onValueChange={(value: 'bar' | 'line' | 'pie' | 'area' | 'scatter' | '3d-bar' | '3d-scatter' | '3d-surface') => 
+              onValueChange={(value: ChartType) => 
                 handleConfigUpdate({ chartType: value })
               }
             >
@@ -216,6 +499,18 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
                     <SelectItem value="area">Area Chart</SelectItem>
                     <SelectItem value="pie">Pie Chart</SelectItem>
                     <SelectItem value="scatter">Scatter Plot</SelectItem>
+                    <SelectGroup>
+                      <SelectLabel className="text-xs text-gray-500">Statistical</SelectLabel>
+                      {STATISTICAL_CHART_TYPES.map(type => (
+                        <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                    <SelectGroup>
+                      <SelectLabel className="text-xs text-gray-500">Business</SelectLabel>
+                      {BUSINESS_CHART_TYPES.map(type => (
+                        <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
                   </>
                 )}
               </SelectContent>
@@ -223,17 +518,182 @@ export const ChartControls = ({ data, onConfigChange }: ChartControlsProps) => {
           </div>
         </div>
 
+        {canStack && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Layers className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-semibold text-gray-700 mr-1">Series layout</span>
+            {STACK_MODES.map(mode => (
+              <Button
+                key={mode.id}
+                size="sm"
+                variant={stackMode === mode.id ? "default" : "outline"}
+                onClick={() => handleConfigUpdate({ stackMode: mode.id })}
+              >
+                {mode.label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {(canAggregate || showBins) && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Sigma className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-semibold text-gray-700">{canAggregate ? 'Group rows by X' : 'Bins'}</span>
+            {canAggregate && (
+            <Select value={grouping.aggregation} onValueChange={(value) => updateGrouping({ aggregation: value as ChartAggregation })}>
+              <SelectTrigger className="h-9 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHART_AGGREGATIONS.map(aggregation => (
+                  <SelectItem key={aggregation.id} value={aggregation.id}>{aggregation.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            )}
+            {canAggregate && xType?.baseType === 'date' && (
+              <Select value={grouping.dateBucket} onValueChange={(value) => updateGrouping({ dateBucket: value as DateBucket })}>
+                <SelectTrigger className="h-9 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_BUCKETS.map(bucket => (
+                    <SelectItem key={bucket.id} value={bucket.id}>{bucket.id === 'none' ? bucket.label : `By ${bucket.label.toLowerCase()}`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {showBins && (
+              <Select
+                value={String(chartType === 'histogram' ? grouping.bins || DEFAULT_HISTOGRAM_BINS : grouping.bins)}
+                onValueChange={(value) => updateGrouping({ bins: Number(value) })}
+              >
+                <SelectTrigger className="h-9 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {chartType !== 'histogram' && <SelectItem value="0">Exact value</SelectItem>}
+                  {BIN_COUNTS.map(count => (
+                    <SelectItem key={count} value={String(count)}>{count} bins</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {canAggregate && xType?.baseType === 'text' && (
+              <Select value={String(grouping.topN)} onValueChange={(value) => updateGrouping({ topN: Number(value) })}>
+                <SelectTrigger className="h-9 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">All values</SelectItem>
+                  {TOP_N_OPTIONS.map(count => (
+                    <SelectItem key={count} value={String(count)}>Top {count} + Other</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {canTrend && (
+          <div className="flex flex-wrap items-center gap-3">
+            <TrendingUp className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-semibold text-gray-700">Trendline</span>
+            <Select value={trendline.type} onValueChange={(value) => updateTrendline({ type: value as TrendlineType })}>
+              <SelectTrigger className="h-9 w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRENDLINE_TYPES.map(type => (
+                  <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {trendline.type === 'polynomial' && (
+              <Select value={String(trendline.degree)} onValueChange={(value) => updateTrendline({ degree: Number(value) })}>
+                <SelectTrigger className="h-9 w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POLYNOMIAL_DEGREES.map(degree => (
+                    <SelectItem key={degree} value={String(degree)}>Degree {degree}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {trendline.type === 'moving-average' && (
+              <Select value={String(trendline.window)} onValueChange={(value) => updateTrendline({ window: Number(value) })}>
+                <SelectTrigger className="h-9 w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MOVING_AVERAGE_WINDOWS.map(window => (
+                    <SelectItem key={window} value={String(window)}>{window} points</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {trendline.type !== 'none' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <Checkbox checked={trendline.confidence} onCheckedChange={(checked) => updateTrendline({ confidence: checked === true })} />
+                95% confidence band
+              </label>
+            )}
+            {trendline.type !== 'none' && canForecast && (
+              <Select value={String(trendline.forecast)} onValueChange={(value) => updateTrendline({ forecast: Number(value) })}>
+                <SelectTrigger className="h-9 w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">No forecast</SelectItem>
+                  {FORECAST_PERIODS.map(count => (
+                    <SelectItem key={count} value={String(count)}>Forecast {count} periods</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
         {/* Selected Configuration Display */}
-        {xAxis && yAxis && (
+        {isChartReady({ chartType, xAxis, yAxes, splitBy, sizeColumn, targetColumn, hierarchy }) && (
           <div className="flex flex-wrap gap-3 p-4 bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg border-2 border-blue-200">
-            <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-blue-300">
-              <span className="w-3 h-3 bg-blue-500 rounded-full"></span>
-              <span className="font-medium">X: {xAxis}</span>
-            </Badge>
-            <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-purple-300">
-              <span className="w-3 h-3 bg-purple-500 rounded-full"></span>
-              <span className="font-medium">Y: {yAxis}</span>
-            </Badge>
+            {showX && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-blue-300">
+                <span className="w-3 h-3 bg-blue-500 rounded-full"></span>
+                <span className="font-medium">X: {xAxis}</span>
+              </Badge>
+            )}
+            {showY && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-purple-300">
+                <span className="w-3 h-3 bg-purple-500 rounded-full"></span>
+                <span className="font-medium">Y: {singleY ? yAxis : yAxes.join(', ')}</span>
+              </Badge>
+            )}
+            {chartType === 'treemap' && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-blue-300">
+                <span className="w-3 h-3 bg-blue-500 rounded-full"></span>
+                <span className="font-medium">Levels: {hierarchy.join(' › ')}</span>
+              </Badge>
+            )}
+            {chartType === 'bubble' && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-green-300">
+                <span className="w-3 h-3 bg-green-500 rounded-full"></span>
+                <span className="font-medium">Size: {sizeColumn}</span>
+              </Badge>
+            )}
+            {chartType === 'sankey' && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-green-300">
+                <span className="w-3 h-3 bg-green-500 rounded-full"></span>
+                <span className="font-medium">Target: {targetColumn}</span>
+              </Badge>
+            )}
+            {canSplit && splitBy && (
+              <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-teal-300">
+                <span className="w-3 h-3 bg-teal-500 rounded-full"></span>
+                <span className="font-medium">Split: {splitBy}</span>
+              </Badge>
+            )}
             {is3D && zAxis && (
               <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 bg-white border-green-300">
                 <span className="w-3 h-3 bg-green-500 rounded-full"></span>
@@ -0,0 +1,340 @@
+import { MutableRefObject, useRef } from "react";
+import { ChartType, Plugin, ScriptableContext, TooltipCallbacks } from 'chart.js';
+import { Bar, Scatter } from 'react-chartjs-2';
+import { LocaleSettings } from "@/utils/localeParsing";
+import { ChartGrouping, DEFAULT_CHART_GROUPING, describeAggregation, StackMode } from "@/utils/chartSeries";
+import {
+  buildCorrelationMatrix,
+  buildDistributions,
+  buildHeatmap,
+  buildHistogram,
+  DEFAULT_HISTOGRAM_BINS,
+  DistributionStats,
+  StatisticalChartType
+} from "@/utils/chartStats";
+import {
+  backgroundColors,
+  borderColors,
+  cellTextColor,
+  colorAt,
+  divergingColor,
+  sequentialColor,
+  withAlpha
+} from "@/utils/chartPalette";
+import type { Row } from "@/utils/excelUtils";
+
+interface StatisticalChartProps {
+  data: Row[];
+  chartType: StatisticalChartType;
+  // Histogram: the binned column; box, violin and heatmap: the category along the axis
+  xAxis: string;
+  // Box, violin and heatmap: the first is the value; correlation: the columns compared
+  yAxes: string[];
+  // Histogram: one series per value; heatmap: the category down the side
+  splitBy?: string;
+  stackMode?: StackMode;
+  grouping?: ChartGrouping;
+  locale?: LocaleSettings;
+}
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const baseOptions = <TType extends ChartType>(title: string, callbacks: Partial<TooltipCallbacks<TType>> = {}) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: { display: false },
+    title: {
+      display: true,
+      text: title,
+      font: {
+        size: 16,
+        weight: 'bold' as const,
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: 'white',
+      bodyColor: 'white',
+      borderColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 1,
+      callbacks,
+    },
+  },
+});
+
+const axisTitle = (text: string) => ({
+  display: text !== '',
+  text,
+  font: {
+    weight: 'bold' as const,
+  },
+});
+
+interface Distributions {
+  stats: DistributionStats[];
+  kind: 'box' | 'violin';
+}
+
+// Chart.js keeps the plugins a chart was created with, so they draw what the
+// latest render left in a ref rather than what they were created with.
+
+// Draws a box or violin per category over the invisible min–max bars the chart is built from
+const distributionPlugin = (latest: MutableRefObject<Distributions | null>): Plugin<'bar'> => ({
+  id: 'distribution',
+  afterDatasetsDraw: (chart) => {
+    if (!latest.current) return;
+    const { stats, kind } = latest.current;
+    const { ctx, scales: { x, y } } = chart;
+    const half = (x.width / Math.max(1, stats.length)) * (kind === 'box' ? 0.25 : 0.4);
+
+    stats.forEach((item, index) => {
+      const center = x.getPixelForValue(index);
+      const stroke = colorAt(borderColors, index);
+      const fill = withAlpha(colorAt(backgroundColors, index), 0.35);
+      const top = (value: number) => y.getPixelForValue(value);
+      ctx.save();
+      ctx.strokeStyle = stroke;
+      ctx.fillStyle = fill;
+      ctx.lineWidth = 2;
+
+      if (kind === 'violin') {
+        ctx.beginPath();
+        item.density.forEach((point, i) => {
+          const px = center - point.density * half;
+          if (i === 0) ctx.moveTo(px, top(point.value));
+          else ctx.lineTo(px, top(point.value));
+        });
+        [...item.density].reverse().forEach(point => ctx.lineTo(center + point.density * half, top(point.value)));
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+
+        // Inner box from Q1 to Q3 with the median as a white dot
+        ctx.fillStyle = stroke;
+        ctx.fillRect(center - 3, top(item.q3), 6, top(item.q1) - top(item.q3));
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        ctx.arc(center, top(item.median), 3.5, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.fillRect(center - half, top(item.q3), half * 2, top(item.q1) - top(item.q3));
+        ctx.strokeRect(center - half, top(item.q3), half * 2, top(item.q1) - top(item.q3));
+
+        ctx.beginPath();
+        // Median
+        ctx.moveTo(center - half, top(item.median));
+        ctx.lineTo(center + half, top(item.median));
+        // Whiskers with caps
+        ctx.moveTo(center, top(item.q3));
+        ctx.lineTo(center, top(item.whiskerHigh));
+        ctx.moveTo(center - half / 2, top(item.whiskerHigh));
+        ctx.lineTo(center + half / 2, top(item.whiskerHigh));
+        ctx.moveTo(center, top(item.q1));
+        ctx.lineTo(center, top(item.whiskerLow));
+        ctx.moveTo(center - half / 2, top(item.whiskerLow));
+        ctx.lineTo(center + half / 2, top(item.whiskerLow));
+        ctx.stroke();
+
+        ctx.fillStyle = stroke;
+        item.outliers.forEach(value => {
+          ctx.beginPath();
+          ctx.arc(center, top(value), 2.5, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+      ctx.restore();
+    });
+  },
+});
+
+interface MatrixCells {
+  xLabels: string[];
+  yLabels: string[];
+  cells: (number | null)[][];
+  colorOf: (value: number) => string;
+  // 0..1 (or -1..1) strength, for the text color
+  intensityOf: (value: number) => number;
+  format: (value: number) => string;
+}
+
+// Fills one rectangle per cell under the invisible points that carry the tooltips
+const matrixPlugin = (latest: MutableRefObject<MatrixCells | null>): Plugin<'scatter'> => ({
+  id: 'matrix',
+  beforeDatasetsDraw: (chart) => {
+    if (!latest.current) return;
+    const { xLabels, yLabels, cells, colorOf, intensityOf, format } = latest.current;
+    const { ctx, scales: { x, y } } = chart;
+    const width = x.width / Math.max(1, xLabels.length);
+    const height = y.height / Math.max(1, yLabels.length);
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = '11px sans-serif';
+    cells.forEach((row, yi) => row.forEach((value, xi) => {
+      const cx = x.getPixelForValue(xi);
+      const cy = y.getPixelForValue(yi);
+      ctx.fillStyle = value === null ? 'rgb(243, 244, 246)' : colorOf(value);
+      ctx.fillRect(cx - width / 2 + 1, cy - height / 2 + 1, width - 2, height - 2);
+      // Values are written in cells large enough to hold them
+      if (value !== null && width >= 36 && height >= 16) {
+        ctx.fillStyle = cellTextColor(intensityOf(value));
+        ctx.fillText(format(value), cx, cy);
+      }
+    }));
+    ctx.restore();
+  },
+});
+
+// The invisible point carrying a cell's tooltip, placed on the category scales
+interface MatrixPoint {
+  x: string;
+  y: string;
+  v: number | null;
+}
+
+const matrixOptions = (title: string, xLabels: string[], yLabels: string[], xText: string, yText: string, format: (value: number) => string) => ({
+  ...baseOptions<'scatter'>(title, {
+    title: () => '',
+    label: context => {
+      const point = context.raw as MatrixPoint;
+      return `${point.y} × ${point.x}: ${point.v === null ? 'no rows' : format(point.v)}`;
+    },
+  }),
+  scales: {
+    x: { type: 'category' as const, labels: xLabels, offset: true, grid: { display: false }, title: axisTitle(xText) },
+    // First row at the top
+    y: { type: 'category' as const, labels: yLabels, offset: true, reverse: true, grid: { display: false }, title: axisTitle(yText) },
+  },
+});
+
+const matrixDataset = (xLabels: string[], yLabels: string[], cells: (number | null)[][]) => ({
+  datasets: [{
+    data: cells.flatMap((row, yi) => row.map((v, xi): MatrixPoint => ({ x: xLabels[xi], y: yLabels[yi], v }))),
+    pointRadius: 0,
+    pointHoverRadius: 0,
+    // Hovering anywhere in a cell shows its tooltip
+    pointHitRadius: (context: ScriptableContext<'line'>) => {
+      const area = context.chart.chartArea;
+      return area ? Math.min(area.width / xLabels.length, area.height / yLabels.length) / 2 : 10;
+    },
+  }],
+});
+
+export const StatisticalChart = ({
+  data,
+  chartType,
+  xAxis,
+  yAxes,
+  splitBy = '',
+  stackMode = 'grouped',
+  grouping = DEFAULT_CHART_GROUPING,
+  locale
+}: StatisticalChartProps) => {
+  const valueColumn = yAxes[0] || '';
+  const distributions = useRef<Distributions | null>(null);
+  const matrix = useRef<MatrixCells | null>(null);
+
+  const renderChart = () => {
+    switch (chartType) {
+      case 'histogram': {
+        const { labels, series } = buildHistogram(data, { column: xAxis, splitBy, bins: grouping.bins || DEFAULT_HISTOGRAM_BINS, locale });
+        const stacked = splitBy !== '' && stackMode !== 'grouped';
+        const options = {
+          ...baseOptions(`Distribution of ${xAxis}${splitBy ? ` by ${splitBy}` : ''}`),
+          scales: {
+            x: { title: axisTitle(xAxis), grid: { display: false }, stacked },
+            y: { title: axisTitle('Rows'), beginAtZero: true, stacked },
+          },
+        };
+        options.plugins.legend.display = splitBy !== '';
+        const chartData = {
+          labels,
+          datasets: series.map((item, index) => ({
+            label: item.label,
+            data: item.values,
+            backgroundColor: colorAt(backgroundColors, index),
+            borderColor: colorAt(borderColors, index),
+            borderWidth: 1,
+            // Adjacent bins touch
+            barPercentage: 1,
+            categoryPercentage: splitBy && !stacked ? 0.9 : 1,
+          })),
+        };
+        return <Bar data={chartData} options={options} />;
+      }
+
+      case 'box':
+      case 'violin': {
+        const stats = buildDistributions(data, { valueColumn, groupBy: xAxis === valueColumn ? '' : xAxis, locale });
+        const chartData = {
+          labels: stats.map(item => item.label),
+          datasets: [{
+            label: valueColumn,
+            data: stats.map(item => [item.min, item.max] as [number, number]),
+            backgroundColor: 'transparent',
+            borderWidth: 0,
+          }],
+        };
+        const options = {
+          ...baseOptions<'bar'>(`${valueColumn}${stats.length > 1 ? ` by ${xAxis}` : ''}`, {
+            label: context => {
+              const item = stats[context.dataIndex];
+              return [
+                `Median: ${formatValue(item.median)}`,
+                `Q1–Q3: ${formatValue(item.q1)} – ${formatValue(item.q3)}`,
+                `Whiskers: ${formatValue(item.whiskerLow)} – ${formatValue(item.whiskerHigh)}`,
+                `Mean: ${formatValue(item.mean)}`,
+                `Rows: ${item.count}${item.outliers.length > 0 ? `, ${item.outliers.length} outliers` : ''}`,
+              ];
+            },
+          }),
+          scales: {
+            x: { title: axisTitle(xAxis), grid: { display: false } },
+            y: { title: axisTitle(valueColumn), grace: '5%' },
+          },
+        };
+        distributions.current = { stats, kind: chartType };
+        return <Bar key={chartType} data={chartData} options={options} plugins={[distributionPlugin(distributions)]} />;
+      }
+
+      case 'heatmap': {
+        const { xLabels, yLabels, cells } = buildHeatmap(data, { xAxis, rowColumn: splitBy, valueColumn, grouping, locale });
+        const values = cells.flat().filter((value): value is number => value !== null);
+        const min = values.length > 0 ? Math.min(...values) : 0;
+        const max = values.length > 0 ? Math.max(...values) : 0;
+        const intensityOf = (value: number) => max === min ? 1 : (value - min) / (max - min);
+        const title = `${describeAggregation(grouping.aggregation, valueColumn)} by ${xAxis} and ${splitBy}`;
+        matrix.current = { xLabels, yLabels, cells, colorOf: value => sequentialColor(intensityOf(value)), intensityOf, format: formatValue };
+        return (
+          <Scatter
+            key={chartType}
+            data={matrixDataset(xLabels, yLabels, cells)}
+            options={matrixOptions(title, xLabels, yLabels, xAxis, splitBy, formatValue)}
+            plugins={[matrixPlugin(matrix)]}
+          />
+        );
+      }
+
+      case 'correlation': {
+        const { columns, values } = buildCorrelationMatrix(data, yAxes, locale);
+        const format = (value: number) => value.toFixed(2);
+        matrix.current = { xLabels: columns, yLabels: columns, cells: values, colorOf: divergingColor, intensityOf: value => value, format };
+        return (
+          <Scatter
+            key={chartType}
+            data={matrixDataset(columns, columns, values)}
+            options={matrixOptions('Correlation matrix (Pearson r)', columns, columns, '', '', format)}
+            plugins={[matrixPlugin(matrix)]}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="w-full h-64 sm:h-80 lg:h-96">
+      {renderChart()}
+    </div>
+  );
+};
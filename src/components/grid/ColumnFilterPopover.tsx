@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Filter } from "lucide-react";
+import { ColumnFilter, ColumnFilterKind, getDistinctValues, isFilterActive } from "@/utils/gridUtils";
+import type { Row } from "@/utils/excelUtils";
+
+interface ColumnFilterPopoverProps {
+  column: string;
+  kind: ColumnFilterKind;
+  filter?: ColumnFilter;
+  // Unfiltered rows, so a checklist always offers every value
+  rows: Row[];
+  onChange: (filter: ColumnFilter | undefined) => void;
+}
+
+// Checklists render at most this many values; the search box narrows the rest
+const MAX_LISTED_VALUES = 200;
+
+const parseBound = (text: string) => text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text);
+
+export const ColumnFilterPopover = ({ column, kind, filter, rows, onChange }: ColumnFilterPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [valueSearch, setValueSearch] = useState("");
+  // Number inputs are uncontrolled (so "-" or "1." can be typed); clearing remounts them
+  const [resetCount, setResetCount] = useState(0);
+  const active = isFilterActive(filter);
+
+  // Only computed once the popover is opened
+  const distinctValues = useMemo(
+    () => open && kind === 'values' ? getDistinctValues(rows, column) : [],
+    [open, kind, rows, column]
+  );
+
+  const renderRange = () => {
+    const range = filter?.kind === 'range' ? filter : { kind: 'range' as const };
+    return (
+      <div key={resetCount} className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Min</Label>
+          <Input
+            type="number"
+            className="h-8"
+            defaultValue={range.min ?? ''}
+            onChange={(e) => onChange({ ...range, min: parseBound(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Max</Label>
+          <Input
+            type="number"
+            className="h-8"
+            defaultValue={range.max ?? ''}
+            onChange={(e) => onChange({ ...range, max: parseBound(e.target.value) })}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderDateRange = () => {
+    const range = filter?.kind === 'dateRange' ? filter : { kind: 'dateRange' as const };
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">From</Label>
+          <Input
+            type="date"
+            className="h-8"
+            value={range.from ?? ''}
+            onChange={(e) => onChange({ ...range, from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">To</Label>
+          <Input
+            type="date"
+            className="h-8"
+            value={range.to ?? ''}
+            onChange={(e) => onChange({ ...range, to: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderChecklist = () => {
+    const allValues = distinctValues.map(item => item.value);
+    // No filter means every value is selected
+    const selected = filter?.kind === 'values' ? filter.values : allValues;
+    const visible = distinctValues
+      .filter(item => item.value.toLowerCase().includes(valueSearch.toLowerCase()))
+      .slice(0, MAX_LISTED_VALUES);
+
+    const toggle = (value: string, checked: boolean) => {
+      const values = checked ? [...selected, value] : selected.filter(v => v !== value);
+      onChange(values.length === allValues.length ? undefined : { kind: 'values', values });
+    };
+
+    return (
+      <div className="space-y-2">
+        {distinctValues.length > 10 && (
+          <Input
+            placeholder="Search values..."
+            className="h-8"
+            value={valueSearch}
+            onChange={(e) => setValueSearch(e.target.value)}
+          />
+        )}
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange(undefined)}>
+            Select all
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange({ kind: 'values', values: [] })}>
+            Select none
+          </Button>
+        </div>
+        <ScrollArea className="h-48">
+          <div className="space-y-1 pr-3">
+            {visible.map(item => (
+              <label key={item.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selected.includes(item.value)}
+                  onCheckedChange={(checked) => toggle(item.value, checked === true)}
+                />
+                <span className="truncate flex-1" title={item.value}>{item.value}</span>
+                <span className="text-xs text-gray-400">{item.count}</span>
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+    );
+  };
+
+  const renderText = () => (
+    <Input
+      placeholder="Contains..."
+      className="h-8"
+      value={filter?.kind === 'text' ? filter.query : ''}
+      onChange={(e) => onChange(e.target.value ? { kind: 'text', query: e.target.value } : undefined)}
+    />
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`p-1 rounded hover:bg-gray-200 ${active ? 'text-blue-600' : 'text-gray-400'}`}
+          title={`Filter ${column}`}
+        >
+          <Filter className="h-3.5 w-3.5" fill={active ? 'currentColor' : 'none'} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium truncate" title={column}>Filter: {column}</span>
+          {active && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => {
+                onChange(undefined);
+                setResetCount(count => count + 1);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+        {kind === 'range' && renderRange()}
+        {kind === 'dateRange' && renderDateRange()}
+        {kind === 'values' && renderChecklist()}
+        {kind === 'text' && renderText()}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, BarChart3, GripVertical } from "lucide-react";
+import { ColumnTypeBadge, ColumnTypeIcon } from "@/components/ColumnTypeBadge";
+import { ColumnFilterPopover } from "@/components/grid/ColumnFilterPopover";
+import { ExcelColumn, Row } from "@/utils/excelUtils";
+import { ColumnFilter, getFilterKind, SortKey } from "@/utils/gridUtils";
+import { orderColumns } from "@/utils/savedViews";
+
+interface DataGridProps {
+  // Rows after filtering and sorting
+  rows: Row[];
+  // Rows before column filters, for the filter checklists
+  sourceRows: Row[];
+  columns: ExcelColumn[];
+  sortKeys: SortKey[];
+  // Column names in display order, changed by dragging headers; unlisted columns go last
+  columnOrder: string[];
+  onColumnOrderChange: (order: string[]) => void;
+  onSortToggle: (column: string, append: boolean) => void;
+  filters: Record<string, ColumnFilter>;
+  onFilterChange: (column: string, filter: ColumnFilter | undefined) => void;
+  formatValue: (column: string, value: unknown) => string;
+  isOutlier: (column: string, value: unknown) => boolean;
+  descriptions?: Record<string, string | undefined>;
+  // Shows a profile button in each header when set
+  onColumnProfile?: (column: string) => void;
+  height?: number;
+}
+
+// Every row has the same height so only the visible window needs rendering
+const ROW_HEIGHT = 40;
+// Rows rendered above and below the viewport to avoid blank flashes while scrolling
+const OVERSCAN = 10;
+const ROW_NUMBER_WIDTH = 64;
+const DEFAULT_COLUMN_WIDTH = 180;
+const MIN_COLUMN_WIDTH = 80;
+
+const isCellEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+export const DataGrid = ({
+  rows,
+  sourceRows,
+  columns,
+  sortKeys,
+  columnOrder,
+  onColumnOrderChange,
+  onSortToggle,
+  filters,
+  onFilterChange,
+  formatValue,
+  isOutlier,
+  descriptions = {},
+  onColumnProfile,
+  height = 600
+}: DataGridProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+
+  // Columns keep the user's order; new columns (e.g. after a rename) go last
+  const orderedNames = orderColumns(columns.map(column => column.name), columnOrder);
+  const orderedColumns = orderedNames.map(name => columns.find(column => column.name === name)!);
+  const widthOf = (name: string) => columnWidths[name] ?? DEFAULT_COLUMN_WIDTH;
+
+  // Jump back to the top when filters or sorting change the row set
+  useEffect(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filters, sortKeys]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(rows.length, Math.ceil((scrollTop + height) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(firstVisible, lastVisible);
+
+  const startResize = (event: React.MouseEvent, name: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(name);
+
+    const handleMove = (e: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + e.clientX - startX);
+      setColumnWidths(current => ({ ...current, [name]: width }));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const handleDrop = (target: string) => {
+    if (!draggedColumn || draggedColumn === target) return;
+    const next = orderedNames.filter(name => name !== draggedColumn);
+    next.splice(next.indexOf(target), 0, draggedColumn);
+    onColumnOrderChange(next);
+    setDraggedColumn(null);
+  };
+
+  const sortIcon = (name: string) => {
+    const index = sortKeys.findIndex(key => key.column === name);
+    if (index === -1) return <ArrowUpDown className="h-3.5 w-3.5 text-gray-300" />;
+    const Icon = sortKeys[index].direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <span className="flex items-center text-blue-600">
+        <Icon className="h-3.5 w-3.5" />
+        {sortKeys.length > 1 && <span className="text-[10px] font-bold">{index + 1}</span>}
+      </span>
+    );
+  };
+
+  // The first data column is frozen next to the row numbers
+  const frozenStyle = (index: number) => index === 0 ? { position: 'sticky' as const, left: ROW_NUMBER_WIDTH } : {};
+  const tableWidth = ROW_NUMBER_WIDTH + orderedNames.reduce((sum, name) => sum + widthOf(name), 0);
+
+  return (
+    <div
+      ref={containerRef}
+      className="overflow-auto w-full"
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <table className="border-collapse table-fixed" style={{ width: tableWidth }}>
+        <colgroup>
+          <col style={{ width: ROW_NUMBER_WIDTH }} />
+          {orderedNames.map(name => <col key={name} style={{ width: widthOf(name) }} />)}
+        </colgroup>
+        <thead className="sticky top-0 z-20 bg-gray-50">
+          <tr>
+            <th className="sticky left-0 z-30 bg-gray-100 border-r-2 border-b-2 border-gray-300 px-2 py-3 text-center font-semibold text-gray-900">
+              #
+            </th>
+            {orderedColumns.map((column, index) => (
+              <th
+                key={column.name}
+                style={frozenStyle(index)}
+                className={`relative bg-gray-50 border-b-2 border-gray-200 px-3 py-2 text-left font-semibold text-gray-900 ${
+                  index === 0 ? 'z-30 border-r-2 border-r-gray-300' : 'border-r border-gray-200'
+                } ${draggedColumn && draggedColumn !== column.name ? 'hover:bg-blue-50' : ''}`}
+                draggable
+                onDragStart={() => setDraggedColumn(column.name)}
+                onDragEnd={() => setDraggedColumn(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(column.name)}
+              >
+                <div className="flex items-center gap-1.5">
+                  <GripVertical className="h-3.5 w-3.5 text-gray-300 shrink-0 cursor-grab" />
+                  <ColumnTypeIcon type={column.typeInfo.semanticType} className="h-4 w-4 shrink-0" />
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 min-w-0 flex-1 text-left"
+                    title={`${descriptions[column.name] ? `${column.name}: ${descriptions[column.name]}` : column.name}\nClick to sort, Shift+click to add a sort key`}
+                    onClick={(e) => onSortToggle(column.name, e.shiftKey)}
+                  >
+                    <span className="truncate">{column.name}</span>
+                    {sortIcon(column.name)}
+                  </button>
+                  {onColumnProfile && (
+                    <button
+                      type="button"
+                      className="p-1 rounded text-gray-400 hover:bg-gray-200 hover:text-blue-600"
+                      title={`Profile ${column.name}`}
+                      onClick={() => onColumnProfile(column.name)}
+                    >
+                      <BarChart3 className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  <ColumnFilterPopover
+                    column={column.name}
+                    kind={getFilterKind(column.typeInfo)}
+                    filter={filters[column.name]}
+                    rows={sourceRows}
+                    onChange={(filter) => onFilterChange(column.name, filter)}
+                  />
+                </div>
+                <div className="mt-1">
+                  <ColumnTypeBadge info={column.typeInfo} className="text-[10px] px-1.5 py-0" />
+                </div>
+                <div
+                  className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400"
+                  onMouseDown={(e) => startResize(e, column.name)}
+                />
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+          {visibleRows.map((row, offset) => {
+            const rowIndex = firstVisible + offset;
+            return (
+              <tr
+                key={row._id ?? rowIndex}
+                style={{ height: ROW_HEIGHT }}
+                className={`border-b border-gray-100 hover:bg-blue-50 transition-colors ${rowIndex % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'}`}
+              >
+                {/* Source row number, so it stays with the row when sorted */}
+                <td className="sticky left-0 z-10 bg-gray-50 border-r-2 border-gray-300 px-2 text-center text-sm text-gray-500 font-mono">
+                  {row._id ?? rowIndex + 1}
+                </td>
+                {orderedColumns.map((column, index) => {
+                  const value = row[column.name];
+                  const isEmpty = isCellEmpty(value);
+                  const isOutlierValue = !isEmpty && isOutlier(column.name, value);
+                  return (
+                    <td
+                      key={column.name}
+                      style={frozenStyle(index)}
+                      className={`px-3 text-sm ${index === 0 ? 'z-10 border-r-2 border-gray-300' : 'border-r border-gray-100'} ${
+                        isEmpty ? 'bg-red-50 text-red-400 italic' :
+                        isOutlierValue ? 'bg-orange-50 text-orange-700' :
+                        index === 0 ? 'bg-white text-gray-900' : 'text-gray-900'
+                      }`}
+                      title={isEmpty ? 'Missing value' : isOutlierValue ? `Potential outlier: ${value}` : String(value)}
+                    >
+                      <div className="truncate">
+                        {isEmpty ? '(empty)' : formatValue(column.name, value)}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          {lastVisible < rows.length && <tr style={{ height: (rows.length - lastVisible) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div className="py-12 text-center text-sm text-gray-500">No rows match the current filters.</div>
+      )}
+    </div>
+  );
+};
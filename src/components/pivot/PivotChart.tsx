@@ -0,0 +1,93 @@
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar, Line } from 'react-chartjs-2';
+import { describeColumnKey, describeValueField, PivotResult } from "@/utils/pivot";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend);
+
+export type PivotChartType = 'bar' | 'stacked-bar' | 'line';
+
+interface PivotChartProps {
+  result: PivotResult;
+  chartType: PivotChartType;
+}
+
+// Series beyond this are left out; a pivot with more columns reads better as a table
+const MAX_SERIES = 12;
+// Categories beyond this are left out for the same reason
+const MAX_CATEGORIES = 100;
+
+const COLORS = [
+  '59, 130, 246',
+  '147, 51, 234',
+  '236, 72, 153',
+  '34, 197, 94',
+  '251, 146, 60',
+  '14, 165, 233',
+  '168, 85, 247',
+  '244, 63, 94',
+];
+
+// Charts the innermost rows (no subtotals or totals): one category per row,
+// one series per column value and value field
+export const PivotChart = ({ result, chartType }: PivotChartProps) => {
+  const { config, columnKeys } = result;
+  const rows = result.rows.filter(row => row.kind === 'group').slice(0, MAX_CATEGORIES);
+  const percent = config.displayMode !== 'value';
+
+  const series = columnKeys.flatMap((key, keyIndex) => config.values.map((field, fieldIndex) => ({
+    label: [describeColumnKey(key), config.values.length > 1 || config.columns.length === 0 ? describeValueField(field) : '']
+      .filter(Boolean)
+      .join(' — '),
+    index: keyIndex * config.values.length + fieldIndex
+  }))).slice(0, MAX_SERIES);
+
+  const chartData = {
+    labels: rows.map(row => row.key.length > 0 ? row.key.join(' / ') : 'All rows'),
+    datasets: series.map((s, i) => ({
+      label: s.label,
+      data: rows.map(row => row.cells[s.index]),
+      backgroundColor: `rgba(${COLORS[i % COLORS.length]}, ${chartType === 'line' ? 0.2 : 0.8})`,
+      borderColor: `rgba(${COLORS[i % COLORS.length]}, 1)`,
+      borderWidth: 2,
+      tension: 0.3,
+    })),
+  };
+
+  const stacked = chartType === 'stacked-bar';
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const },
+      title: {
+        display: true,
+        text: `${config.values.map(describeValueField).join(', ')}${config.rows.length > 0 ? ` by ${config.rows.join(', ')}` : ''}`,
+      },
+    },
+    scales: {
+      x: { stacked },
+      y: {
+        stacked,
+        title: { display: percent, text: '%' },
+      },
+    },
+  };
+
+  return (
+    <div className="w-full h-72 sm:h-96">
+      {chartType === 'line'
+        ? <Line data={chartData} options={options} />
+        : <Bar data={chartData} options={options} />}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { Fragment } from "react";
+import { describeColumnKey, describeValueField, hasTotalColumns, PivotResult } from "@/utils/pivot";
+
+interface PivotTableProps {
+  result: PivotResult;
+  // Rows rendered; the export always has all of them
+  maxRows?: number;
+}
+
+const formatCell = (value: number | null, percent: boolean) => {
+  if (value === null) return '';
+  if (percent) return `${value.toFixed(1)}%`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+export const PivotTable = ({ result, maxRows = 1000 }: PivotTableProps) => {
+  const { config, columnKeys, rows } = result;
+  const percent = config.displayMode !== 'value';
+  const fieldCount = config.values.length;
+  const totals = hasTotalColumns(config);
+  // A second header row names the value fields when there's more than one per column
+  const showFieldHeader = config.columns.length > 0 && fieldCount > 1;
+  const headerRows = showFieldHeader ? 2 : 1;
+  const rowFields = config.rows.length > 0 ? config.rows : [''];
+  const visibleRows = rows.slice(0, maxRows);
+
+  const columnHeader = (key: string[]) => config.columns.length > 0
+    ? describeColumnKey(key)
+    : describeValueField(config.values[0]);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-auto max-h-[560px] border rounded-lg bg-white">
+        <table className="w-full text-sm border-collapse">
+          <thead className="sticky top-0 z-10 bg-gray-50 text-gray-700">
+            <tr>
+              {rowFields.map(field => (
+                <th key={field} rowSpan={headerRows} className="px-3 py-2 text-left font-semibold border-b border-r whitespace-nowrap">
+                  {field}
+                </th>
+              ))}
+              {config.columns.length === 0
+                ? config.values.map(field => (
+                  <th key={field.id} className="px-3 py-2 text-right font-semibold border-b whitespace-nowrap">
+                    {describeValueField(field)}
+                  </th>
+                ))
+                : columnKeys.map(key => (
+                  <th
+                    key={key.join('\u0000')}
+                    colSpan={showFieldHeader ? fieldCount : 1}
+                    className="px-3 py-2 text-right font-semibold border-b border-r whitespace-nowrap"
+                    title={fieldCount === 1 ? describeValueField(config.values[0]) : undefined}
+                  >
+                    {columnHeader(key)}
+                  </th>
+                ))}
+              {totals && (
+                <th colSpan={showFieldHeader ? fieldCount : 1} className="px-3 py-2 text-right font-semibold border-b bg-gray-100 whitespace-nowrap">
+                  Total
+                </th>
+              )}
+            </tr>
+            {showFieldHeader && (
+              <tr>
+                {[...columnKeys, ...(totals ? [null] : [])].map((key, index) => (
+                  <Fragment key={key ? key.join('\u0000') : 'total'}>
+                    {config.values.map(field => (
+                      <th
+                        key={field.id}
+                        className={`px-3 py-1.5 text-right text-xs font-medium text-gray-500 border-b whitespace-nowrap ${index === columnKeys.length ? 'bg-gray-100' : ''}`}
+                      >
+                        {describeValueField(field)}
+                      </th>
+                    ))}
+                  </Fragment>
+                ))}
+              </tr>
+            )}
+          </thead>
+          <tbody>
+            {visibleRows.map((row, index) => {
+              const style = row.kind === 'total'
+                ? 'bg-blue-50 font-semibold border-t-2 border-blue-200'
+                : row.kind === 'subtotal'
+                  ? 'bg-gray-50 font-medium'
+                  : 'hover:bg-gray-50';
+              return (
+                <tr key={`${row.kind}:${row.key.join('\u0000')}:${index}`} className={`border-b border-gray-100 ${style}`}>
+                  {rowFields.map((field, i) => {
+                    let label = row.key[i] ?? '';
+                    if (row.kind === 'total' && i === 0) label = 'Grand total';
+                    if (row.kind === 'subtotal' && i === row.key.length) label = 'Subtotal';
+                    return (
+                      <td key={field || i} className="px-3 py-1.5 border-r whitespace-nowrap text-gray-800">
+                        {label}
+                      </td>
+                    );
+                  })}
+                  {row.cells.map((value, i) => (
+                    <td
+                      key={i}
+                      className={`px-3 py-1.5 text-right tabular-nums whitespace-nowrap ${totals && i >= columnKeys.length * fieldCount ? 'bg-gray-50 font-medium' : ''}`}
+                    >
+                      {formatCell(value, percent)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > visibleRows.length && (
+        <p className="text-xs text-gray-500">
+          Showing the first {visibleRows.length} of {rows.length} rows. Export to Excel to get all of them.
+        </p>
+      )}
+    </div>
+  );
+};
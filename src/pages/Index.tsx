@@ -1,20 +1,53 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileUpload } from "@/components/FileUpload";
 import { DataPreview } from "@/components/DataPreview";
 import { ChartGenerator } from "@/components/ChartGenerator";
+import { PivotTableBuilder } from "@/components/PivotTableBuilder";
 import { UploadHistory } from "@/components/UploadHistory";
 import { AdminPanel } from "@/components/AdminPanel";
 import { AuthModal } from "@/components/AuthModal";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
+import { DatasetSwitcher } from "@/components/DatasetSwitcher";
+import { SqlConsole, SqlConsoleTable } from "@/components/SqlConsole";
+import { ViewSourceSelect } from "@/components/SavedViewsBar";
+import { PipelineOffer, PipelinePanel } from "@/components/PipelinePanel";
 import { BarChart3, Upload, History, Shield, Brain, FileSpreadsheet, TrendingUp, Sparkles } from "lucide-react";
 import { toast } from "sonner";
-import { login as apiLogin, uploadFile as apiUploadFile, getProfile as apiGetProfile } from "@/utils/api";
+import {
+  login as apiLogin,
+  uploadFile as apiUploadFile,
+  updateFile as apiUpdateFile,
+  updateFileSchema as apiUpdateFileSchema,
+  getProfile as apiGetProfile,
+  saveFilePipeline as apiSaveFilePipeline,
+  findMatchingPipelines as apiFindMatchingPipelines,
+  getFileViews as apiGetFileViews,
+  createFileView as apiCreateFileView,
+  updateFileView as apiUpdateFileView,
+  deleteFileView as apiDeleteFileView,
+  ServerFile
+} from "@/utils/api";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Row, SheetDataset } from "@/utils/excelUtils";
+import { applyColumnSchema, ColumnSchemaEntry, getTypeOverrides, revertColumnSchema } from "@/utils/columnSchema";
+import {
+  applyPipelineStep,
+  createPipelineStep,
+  describeSchemaChange,
+  getCalculatedColumns,
+  getSourceColumns,
+  PipelineOperation,
+  PipelineStep,
+  replayPipeline,
+  schemaAfterStep
+} from "@/utils/pipeline";
+import { toTableName } from "@/utils/sql";
+import { applySavedView, SavedView, ViewState } from "@/utils/savedViews";
 
 const Index = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -23,10 +56,64 @@ const Index = () => {
   const [showDemoPrompt, setShowDemoPrompt] = useState(false);
   const [showDemoModal, setShowDemoModal] = useState(false);
   const [demoModalContent, setDemoModalContent] = useState<'ai' | 'history' | null>(null);
-  const [uploadedData, setUploadedData] = useState<any[]>([]);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [datasets, setDatasets] = useState<SheetDataset[]>([]);
+  const [activeDatasetIndex, setActiveDatasetIndex] = useState(0);
+  // Name of the uploaded (or combined) file the datasets came from
+  const [datasetFileName, setDatasetFileName] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("upload");
-  const [uploadedFileId, setUploadedFileId] = useState<string | null>(null);
+  // Saved pipelines that fit a newly uploaded sheet, keyed by file ID
+  const [pipelineOffers, setPipelineOffers] = useState<Record<string, PipelineOffer>>({});
+  // The user's saved views of the active file, and the one charts are built from (null for all data)
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [chartViewId, setChartViewId] = useState<string | null>(null);
+
+  const activeDataset = datasets[activeDatasetIndex];
+  // Everything downstream sees the renamed, retyped columns
+  const uploadedData = useMemo(
+    () => applyColumnSchema(activeDataset?.data || [], activeDataset?.schema, activeDataset?.locale),
+    [activeDataset]
+  );
+  const uploadedFileId = activeDataset?.fileId || null;
+  const typeOverrides = useMemo(() => getTypeOverrides(activeDataset?.schema), [activeDataset]);
+  const calculatedColumns = useMemo(() => getCalculatedColumns(activeDataset?.pipeline), [activeDataset]);
+  const activeOffer = uploadedFileId ? pipelineOffers[uploadedFileId] : null;
+  const datasetLabel = activeDataset && datasets.length > 1
+    ? `${datasetFileName} — ${activeDataset.sheetName}`
+    : datasetFileName ?? undefined;
+  const chartView = savedViews.find(view => view._id === chartViewId) || null;
+  const chartData = useMemo(
+    () => chartView ? applySavedView(uploadedData, chartView, activeDataset?.locale, typeOverrides) : uploadedData,
+    [chartView, uploadedData, activeDataset, typeOverrides]
+  );
+  // Every loaded sheet (including combined files and earlier query results) can be queried by name
+  const sqlTables = useMemo(() => {
+    const taken = new Set<string>();
+    return datasets.map((dataset): SqlConsoleTable => ({
+      name: toTableName(dataset.sheetName, taken),
+      label: datasets.length > 1 ? `${datasetFileName} — ${dataset.sheetName}` : datasetFileName ?? dataset.sheetName,
+      data: applyColumnSchema(dataset.data, dataset.schema, dataset.locale),
+      locale: dataset.locale,
+      typeOverrides: getTypeOverrides(dataset.schema)
+    }));
+  }, [datasets, datasetFileName]);
+
+  // Views are saved on the server, so demo users and datasets without a file ID have none
+  useEffect(() => {
+    setSavedViews([]);
+    setChartViewId(null);
+    if (!uploadedFileId || userRole === 'demo') return;
+    let cancelled = false;
+    apiGetFileViews(uploadedFileId)
+      .then(res => {
+        if (!cancelled) setSavedViews(res.data.views);
+      })
+      .catch(() => {
+        // Saved views are optional; the preview works without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadedFileId, userRole]);
 
   useEffect(() => {
     const token = localStorage.getItem('token');
@@ -73,27 +160,241 @@ const Index = () => {
   const handleLogout = () => {
     setIsAuthenticated(false);
     setUserRole('user');
-    setUploadedData([]);
-    setSelectedFile(null);
+    setDatasets([]);
+    setActiveDatasetIndex(0);
+    setDatasetFileName(null);
+    setPipelineOffers({});
     setActiveTab("upload");
     localStorage.removeItem('token');
     toast.success("Logged out successfully");
   };
 
-  const handleFileUpload = async (data: any[], file: File) => {
+  const handleFileUpload = async (loaded: SheetDataset[], file: File) => {
+    let withIds = loaded;
     try {
-      const uploadRes = await apiUploadFile(file);
-      const fileId = uploadRes?.data?.file?._id;
-      if (!fileId) throw new Error("File ID not returned from server");
-      setUploadedFileId(fileId);
+      const regions = Object.fromEntries(loaded.flatMap(dataset => dataset.region ? [[dataset.sheetName, dataset.region]] : []));
+      const uploadRes = await apiUploadFile(file, loaded.map(dataset => dataset.sheetName), loaded[0]?.locale, regions);
+      const files: ServerFile[] = uploadRes?.data?.files || [uploadRes?.data?.file].filter(Boolean);
+      if (!files.length || !files[0]?._id) throw new Error("File ID not returned from server");
+      // The server creates one file document per sheet, in the order they were sent
+      withIds = loaded.map((dataset, index) => ({ ...dataset, fileId: files[index]?._id || null }));
       toast.success("File uploaded to server!");
       // Optionally, refresh upload history here
     } catch (e: any) {
       toast.error(e.message || "Failed to upload file to server.");
     }
-    setUploadedData(data);
-    setSelectedFile(file);
+    setDatasets(withIds);
+    setActiveDatasetIndex(0);
+    setDatasetFileName(file.name);
     setActiveTab("preview");
+
+    // Offer to replay a pipeline recorded on an earlier upload of the same report
+    withIds.forEach(dataset => {
+      const fileId = dataset.fileId;
+      if (!fileId) return;
+      apiFindMatchingPipelines(fileId, getSourceColumns(dataset.data))
+        .then(res => {
+          const match = res.data.pipelines[0];
+          if (!match) return;
+          const source = match.file.sheetName ? `${match.file.filename} — ${match.file.sheetName}` : match.file.filename;
+          setPipelineOffers(current => ({ ...current, [fileId]: { source, steps: match.steps, updatedAt: match.updatedAt } }));
+        })
+        .catch(() => {
+          // Replay offers are optional; the upload itself succeeded
+        });
+    });
+  };
+
+  // Files reopened from the upload history; a restored pipeline is replayed
+  // so its steps can be undone again
+  const handleOpenDataset = (dataset: SheetDataset, fileName: string) => {
+    const steps = dataset.pipeline || [];
+    const replayed = steps.length > 0 ? replayPipeline(dataset.data, steps, dataset.locale) : null;
+    if (replayed && replayed.skipped.length > 0) {
+      toast.warning(`Skipped ${replayed.skipped.length} pipeline step${replayed.skipped.length === 1 ? '' : 's'}: ${replayed.skipped.map(step => step.label).join('; ')}`);
+    }
+    setDatasets([replayed ? {
+      ...dataset,
+      sourceData: dataset.data,
+      data: replayed.data,
+      schema: replayed.schema,
+      pipeline: steps.filter(step => !replayed.skipped.includes(step)),
+      redoSteps: []
+    } : dataset]);
+    setActiveDatasetIndex(0);
+    setDatasetFileName(fileName);
+    setActiveTab("preview");
+  };
+
+  // Re-parsed sheets (e.g. after a table region override) keep their server file IDs,
+  // schema and pipeline; recorded steps are replayed on the new rows
+  const handleDatasetsUpdate = (updated: SheetDataset[]) => {
+    const withIds = updated.map(dataset => {
+      const existing = datasets.find(candidate => candidate.sheetName === dataset.sheetName);
+      const fileId = existing?.fileId ?? dataset.fileId;
+      if (!existing?.pipeline?.length) {
+        return { ...dataset, fileId, schema: dataset.schema ?? existing?.schema };
+      }
+      const replayed = replayPipeline(dataset.data, existing.pipeline, dataset.locale);
+      return {
+        ...dataset,
+        fileId,
+        sourceData: dataset.data,
+        data: replayed.data,
+        schema: replayed.schema,
+        pipeline: existing.pipeline,
+        redoSteps: existing.redoSteps
+      };
+    });
+    setDatasets(withIds);
+
+    // Changed locale settings and table regions are saved so the server reads the file the same way
+    withIds.forEach(dataset => {
+      const previous = datasets.find(existing => existing.fileId === dataset.fileId);
+      if (!dataset.fileId) return;
+      const changes = {
+        ...(dataset.locale && JSON.stringify(previous?.locale) !== JSON.stringify(dataset.locale) ? { locale: dataset.locale } : {}),
+        ...(dataset.region && JSON.stringify(previous?.region) !== JSON.stringify(dataset.region) ? { region: dataset.region } : {})
+      };
+      if (Object.keys(changes).length === 0) return;
+      apiUpdateFile(dataset.fileId, changes)
+        .catch(e => toast.error(e instanceof Error ? e.message : "Failed to save the table layout and number format."));
+    });
+  };
+
+  const updateActiveDataset = (dataset: SheetDataset) => {
+    setDatasets(current => current.map((existing, index) => index === activeDatasetIndex ? dataset : existing));
+  };
+
+  // The pipeline is stored next to the file so it survives a refresh and can be replayed
+  const savePipeline = (dataset: SheetDataset, steps: PipelineStep[]) => {
+    if (!dataset.fileId) return;
+    apiSaveFilePipeline(dataset.fileId, steps, getSourceColumns(dataset.sourceData ?? dataset.data))
+      .catch(e => toast.error(e instanceof Error ? e.message : "Failed to save the pipeline."));
+  };
+
+  const saveSchema = (schema: ColumnSchemaEntry[]) => {
+    if (!uploadedFileId) return;
+    apiUpdateFileSchema(uploadedFileId, schema)
+      .catch(e => toast.error(e instanceof Error ? e.message : "Failed to save the column schema."));
+  };
+
+  // Records a step on the active dataset and applies it. Callers that already
+  // computed the result pass the rows (under the schema's column names).
+  const recordStep = (operation: PipelineOperation, label: string, rows?: Row[]) => {
+    if (!activeDataset) return;
+    const schema = activeDataset.schema || [];
+    const result = rows
+      ? { data: revertColumnSchema(rows, schema), schema: schemaAfterStep(schema, operation, rows) }
+      : applyPipelineStep(activeDataset.data, schema, operation, activeDataset.locale);
+    const pipeline = [...(activeDataset.pipeline || []), createPipelineStep(operation, label)];
+    const next = {
+      ...activeDataset,
+      sourceData: activeDataset.sourceData ?? activeDataset.data,
+      data: result.data,
+      schema: result.schema,
+      pipeline,
+      redoSteps: []
+    };
+    updateActiveDataset(next);
+    savePipeline(next, pipeline);
+  };
+
+  const handleUndoRedo = (direction: 'undo' | 'redo') => {
+    if (!activeDataset?.sourceData) return;
+    const steps = activeDataset.pipeline || [];
+    const undone = activeDataset.redoSteps || [];
+    const moved = direction === 'undo' ? steps[steps.length - 1] : undone[undone.length - 1];
+    if (!moved) return;
+
+    const pipeline = direction === 'undo' ? steps.slice(0, -1) : [...steps, moved];
+    const redoSteps = direction === 'undo' ? [...undone, moved] : undone.slice(0, -1);
+    const result = replayPipeline(activeDataset.sourceData, pipeline, activeDataset.locale);
+    updateActiveDataset({ ...activeDataset, data: result.data, schema: result.schema, pipeline, redoSteps });
+    savePipeline(activeDataset, pipeline);
+    if (moved.operation.kind === 'schema') saveSchema(result.schema);
+    toast.success(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${moved.label}`);
+  };
+
+  const handleApplyOffer = () => {
+    if (!activeDataset || !activeOffer || !uploadedFileId) return;
+    const sourceData = activeDataset.sourceData ?? activeDataset.data;
+    const result = replayPipeline(sourceData, activeOffer.steps, activeDataset.locale);
+    const pipeline = activeOffer.steps.filter(step => !result.skipped.includes(step));
+    const next = { ...activeDataset, sourceData, data: result.data, schema: result.schema, pipeline, redoSteps: [] };
+    updateActiveDataset(next);
+    savePipeline(next, pipeline);
+    if (pipeline.some(step => step.operation.kind === 'schema')) saveSchema(result.schema);
+    handleDismissOffer();
+    toast.success(`Replayed ${pipeline.length} pipeline step${pipeline.length === 1 ? '' : 's'}`, {
+      description: result.skipped.length > 0
+        ? `Skipped ${result.skipped.length} because their columns are missing: ${result.skipped.map(step => step.label).join('; ')}`
+        : undefined
+    });
+  };
+
+  const handleDismissOffer = () => {
+    if (!uploadedFileId) return;
+    setPipelineOffers(current => {
+      const next = { ...current };
+      delete next[uploadedFileId];
+      return next;
+    });
+  };
+
+  const handleSchemaChange = (schema: ColumnSchemaEntry[]) => {
+    recordStep({ kind: 'schema', schema }, describeSchemaChange(activeDataset?.schema, schema));
+    if (!uploadedFileId) {
+      toast.success("Column schema updated");
+      return;
+    }
+    apiUpdateFileSchema(uploadedFileId, schema)
+      .then(() => toast.success("Column schema saved"))
+      .catch(e => toast.error(e instanceof Error ? e.message : "Failed to save the column schema."));
+  };
+
+  const handleSaveView = async (name: string, state: ViewState, view?: SavedView) => {
+    if (!uploadedFileId) return null;
+    try {
+      const res = view
+        ? await apiUpdateFileView(uploadedFileId, view._id, name, state)
+        : await apiCreateFileView(uploadedFileId, name, state);
+      const saved = res.data.view;
+      setSavedViews(current => [...current.filter(existing => existing._id !== saved._id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`${view ? 'Updated' : 'Saved'} view "${saved.name}"`);
+      return saved;
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save the view.");
+      return null;
+    }
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    if (!uploadedFileId) return;
+    apiDeleteFileView(uploadedFileId, view._id)
+      .then(() => {
+        setSavedViews(current => current.filter(existing => existing._id !== view._id));
+        if (chartViewId === view._id) setChartViewId(null);
+        toast.success(`Deleted view "${view.name}"`);
+      })
+      .catch(e => toast.error(e instanceof Error ? e.message : "Failed to delete the view."));
+  };
+
+  // Query results are kept as another sheet, so they can be previewed, charted and queried again
+  const handleUseQueryResult = (rows: Row[], tab: 'preview' | 'charts') => {
+    const names = new Set(datasets.map(dataset => dataset.sheetName));
+    let sheetName = 'Query 1';
+    for (let n = 2; names.has(sheetName); n++) sheetName = `Query ${n}`;
+    setDatasets([...datasets, { sheetName, data: rows, fileId: null }]);
+    setActiveDatasetIndex(datasets.length);
+    setActiveTab(tab);
+    toast.success(`Added the result as "${sheetName}"`);
+  };
+
+  // Cleaned, filtered or calculated rows come back under their schema names, with the step that produced them
+  const handleDataChange = (rows: Row[], operation: PipelineOperation, label: string) => {
+    recordStep(operation, label, rows);
   };
 
   return (
@@ -111,7 +412,7 @@ const Index = () => {
               {/* Fixed Mobile-First Tab Navigation */}
               <div className="flex justify-center md:hidden mb-6">
                 <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-1 shadow-lg border border-gray-200/50">
-                  <TabsList className="grid w-full grid-cols-4 gap-1">
+                  <TabsList className="grid w-full grid-cols-6 gap-1">
                     <TabsTrigger 
                       value="upload" 
                       className="flex-1 min-w-0 text-xs px-3 py-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-purple-500 data-[state=active]:text-white rounded-xl transition-all duration-200"
@@ -132,6 +433,20 @@ const Index = () => {
                     >
                       📊
                     </TabsTrigger>
+                    <TabsTrigger 
+                      value="pivot" 
+                      disabled={!uploadedData.length}
+                      className="flex-1 min-w-0 text-xs px-3 py-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-teal-500 data-[state=active]:to-blue-500 data-[state=active]:text-white rounded-xl transition-all duration-200"
+                    >
+                      🧮
+                    </TabsTrigger>
+                    <TabsTrigger 
+                      value="sql" 
+                      disabled={!uploadedData.length}
+                      className="flex-1 min-w-0 text-xs px-3 py-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-teal-500 data-[state=active]:text-white rounded-xl transition-all duration-200"
+                    >
+                      🗃️
+                    </TabsTrigger>
                     <TabsTrigger 
                       value="history"
                       className="flex-1 min-w-0 text-xs px-3 py-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-orange-500 data-[state=active]:to-red-500 data-[state=active]:text-white rounded-xl transition-all duration-200"
@@ -162,18 +477,43 @@ const Index = () => {
                         Upload Excel File
                       </CardTitle>
                       <CardDescription className="text-base text-gray-600 max-w-2xl mx-auto">
-                        Upload your Excel file (.xls, .xlsx) or CSV file to start analyzing your data with AI-powered insights
+                        Upload an Excel, ODS, CSV, TSV or JSON file, or paste a range, to start analyzing your data with AI-powered insights
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="px-6 pb-8">
-                      <FileUpload onFileUpload={handleFileUpload} />
+                      <FileUpload onFileUpload={handleFileUpload} onDatasetsUpdate={handleDatasetsUpdate} />
                     </CardContent>
                   </Card>
                 </div>
               </TabsContent>
 
               <TabsContent value="preview" className="space-y-6">
-                <DataPreview data={uploadedData} fileName={selectedFile?.name} />
+                <DatasetSwitcher
+                  datasets={datasets}
+                  activeIndex={activeDatasetIndex}
+                  onChange={setActiveDatasetIndex}
+                />
+                <PipelinePanel
+                  steps={activeDataset?.pipeline || []}
+                  redoSteps={activeDataset?.redoSteps || []}
+                  onUndo={() => handleUndoRedo('undo')}
+                  onRedo={() => handleUndoRedo('redo')}
+                  offer={activeOffer}
+                  onApplyOffer={handleApplyOffer}
+                  onDismissOffer={handleDismissOffer}
+                />
+                <DataPreview
+                  data={uploadedData}
+                  fileName={datasetLabel}
+                  locale={activeDataset?.locale}
+                  schema={activeDataset?.schema}
+                  calculatedColumns={calculatedColumns}
+                  onSchemaChange={handleSchemaChange}
+                  onDataChange={handleDataChange}
+                  views={savedViews}
+                  onSaveView={uploadedFileId && userRole !== 'demo' ? handleSaveView : undefined}
+                  onDeleteView={handleDeleteView}
+                />
               </TabsContent>
 
               <TabsContent value="charts" className="space-y-6">
@@ -196,10 +536,43 @@ const Index = () => {
                     </div>
                   </div>
                 ) : (
-                  <ChartGenerator data={uploadedData} fileId={uploadedFileId} />
+                  <>
+                    <DatasetSwitcher
+                      datasets={datasets}
+                      activeIndex={activeDatasetIndex}
+                      onChange={setActiveDatasetIndex}
+                    />
+                    <ViewSourceSelect views={savedViews} activeViewId={chartViewId} onChange={setChartViewId} />
+                    <ChartGenerator
+                      key={`${activeDatasetIndex}-${chartViewId ?? 'all'}`}
+                      data={chartData}
+                      fileId={uploadedFileId}
+                      locale={activeDataset?.locale}
+                      schema={activeDataset?.schema}
+                      calculatedColumns={calculatedColumns}
+                    />
+                  </>
                 )}
               </TabsContent>
 
+              <TabsContent value="pivot" className="space-y-6">
+                <DatasetSwitcher
+                  datasets={datasets}
+                  activeIndex={activeDatasetIndex}
+                  onChange={setActiveDatasetIndex}
+                />
+                <PivotTableBuilder
+                  data={uploadedData}
+                  fileName={datasetLabel}
+                  locale={activeDataset?.locale}
+                  typeOverrides={typeOverrides}
+                />
+              </TabsContent>
+
+              <TabsContent value="sql" className="space-y-6">
+                <SqlConsole tables={sqlTables} onUseResult={handleUseQueryResult} />
+              </TabsContent>
+
               <TabsContent value="history" className="space-y-6">
                 {userRole === 'demo' ? (
                   <div className="max-w-2xl mx-auto text-center py-16">
@@ -220,7 +593,7 @@ const Index = () => {
                     </div>
                   </div>
                 ) : (
-                  <UploadHistory userRole={userRole} />
+                  <UploadHistory userRole={userRole} onOpenDataset={handleOpenDataset} />
                 )}
               </TabsContent>
 
@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { DataDictionaryEntry } from './columnSchema';
 
 // Initialize Gemini API
 const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
@@ -20,6 +21,8 @@ export interface AnalysisData {
     yAxis: { column: string; label: string };
     zAxis?: { column: string; label: string };
   };
+  // Column types and user-written descriptions from the column schema
+  dataDictionary?: DataDictionaryEntry[];
 }
 
 export interface AIInsight {
@@ -31,6 +34,11 @@ export interface AIInsight {
   businessImpact?: string;
 }
 
+const describeDataDictionary = (dictionary: DataDictionaryEntry[]) => dictionary.length === 0 ? '' : `
+Data Dictionary (use these column meanings and types when interpreting values):
+${dictionary.map(entry => `- ${entry.column} (${entry.type}${entry.format ? `, shown as ${entry.format}` : ''})${entry.description ? `: ${entry.description}` : ''}`).join('\n')}
+`;
+
 const generate2DPrompt = (context: any) => `
 You are an expert data analyst. Analyze this dataset focusing on how "${context.chartConfig.xAxis.label}" influences "${context.chartConfig.yAxis.label}" using statistical reasoning and business insight.
 
@@ -39,7 +47,7 @@ Dataset Summary:
 - X-Axis: ${context.chartConfig.xAxis.label}
 - Y-Axis: ${context.chartConfig.yAxis.label}
 - Chart Type: ${context.chartConfig.type}
-
+${describeDataDictionary(context.dataDictionary)}
 Sample (first 10 rows):
 ${JSON.stringify(context.data.slice(0, 10), null, 2)}
 
@@ -77,6 +85,7 @@ Dataset Summary:
 - Rows: ${context.dataShape.rowCount}
 - Chart Type: ${context.chartConfig.type}
 - Axes: ${context.chartConfig.xAxis.label} vs ${context.chartConfig.yAxis.label} vs ${context.chartConfig.zAxis.label}
+${describeDataDictionary(context.dataDictionary)}
 
 Sample Data:
 ${JSON.stringify(context.data.slice(0, 10), null, 2)}
@@ -124,7 +133,8 @@ export const generateAIInsights = async (data: any[], analysisResults: AnalysisD
       statistics: analysisResults.statistics || {},
       correlations: analysisResults.correlations || {},
       trends: analysisResults.trends || {},
-      chartConfig: analysisResults.chartConfig
+      chartConfig: analysisResults.chartConfig,
+      dataDictionary: analysisResults.dataDictionary || []
     };
 
     // Choose prompt based on chart type
@@ -1,8 +1,64 @@
 // IMPORTANT: VITE_API_URL should NOT end with /api. It should be the backend root URL only (e.g., https://excel-analytics-backend-549g.onrender.com)
 // src/utils/api.ts
 
+import type { LocaleSettings } from "./localeParsing";
+import type { TableRegion } from "./tableDetection";
+import type { ColumnSchemaEntry } from "./columnSchema";
+import type { PipelineStep } from "./pipeline";
+import type { SavedView, ViewState } from "./savedViews";
+import type { Row } from "./excelUtils";
+
 const API_BASE = import.meta.env.VITE_API_URL || "";
 
+// --- Response types ---
+// A column of a file document with its statistics and data dictionary fields
+export interface ServerColumn extends Partial<Omit<ColumnSchemaEntry, 'name' | 'type'>> {
+  name: string;
+  type: 'string' | 'number' | 'date' | 'boolean';
+  statistics?: {
+    min?: number;
+    max?: number;
+    mean?: number;
+    median?: number;
+    mode?: unknown;
+    nullCount?: number;
+    uniqueCount?: number;
+  };
+}
+
+// A file document (backend/src/models/file.model.js)
+export interface ServerFile {
+  _id: string;
+  filename: string;
+  originalName?: string;
+  fileUrl: string;
+  size: number;
+  mimeType: string;
+  sheetName?: string;
+  sheetNames?: string[];
+  locale?: LocaleSettings;
+  region?: TableRegion;
+  derivedFrom?: { operation: 'append' | 'join'; files: string[]; options?: unknown };
+  versionGroup?: string;
+  version?: number;
+  columns?: ServerColumn[];
+  rowCount?: number;
+  columnCount?: number;
+  dataQualityScore?: number;
+  processingStatus: 'pending' | 'processing' | 'completed' | 'error';
+  isPublic?: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// A recorded pipeline (backend/src/models/pipeline.model.js)
+export interface ServerPipeline {
+  _id: string;
+  steps: PipelineStep[];
+  sourceColumns: string[];
+  updatedAt: string;
+}
+
 // Helper to handle JSON responses and errors
 type FetchOptions = RequestInit & { token?: string };
 
@@ -104,9 +160,20 @@ export async function login(email: string, password: string) {
   return res.json(); // { status, token, data: { user } }
 }
 
-export async function uploadFile(file: File) {
+export async function uploadFile(
+  file: File,
+  sheetNames: string[] = [],
+  locale?: LocaleSettings,
+  regions: Record<string, TableRegion> = {}
+): Promise<{ data: { file: ServerFile; files: ServerFile[] } }> {
   const formData = new FormData();
   formData.append('file', file);
+  // One File document is created per sheet so each dataset remembers its sheet
+  if (sheetNames.length > 0) formData.append('sheetNames', JSON.stringify(sheetNames));
+  // The server reads numbers and dates in the file with the same settings
+  if (locale) formData.append('locale', JSON.stringify(locale));
+  // ...and the same table region (header rows, data rows and columns) of each sheet
+  if (Object.keys(regions).length > 0) formData.append('regions', JSON.stringify(regions));
   const token = localStorage.getItem('token');
   const res = await fetch(`${API_BASE}/api/file/upload`, {
     method: 'POST',
@@ -150,8 +217,10 @@ export async function exportAnalysis(analysisId: string, token?: string) {
 }
 
 // --- File Preview ---
-export async function getFilePreview(fileId: string, token?: string) {
-  return apiFetch<{ data: { headers: string[]; rows: any[][] } }>(`/api/file/${fileId}/preview`, { token });
+// Pass dictionary: false for the sheet as uploaded, without the data dictionary's renames and type overrides
+export async function getFilePreview(fileId: string, token?: string, { dictionary = true }: { dictionary?: boolean } = {}) {
+  const query = dictionary ? '' : '?dictionary=false';
+  return apiFetch<{ data: { headers: string[]; rows: unknown[][]; sheetName?: string; schema: ColumnSchemaEntry[] } }>(`/api/file/${fileId}/preview${query}`, { token });
 }
 
 // --- Admin Applications ---
@@ -191,6 +260,250 @@ export async function register(name: string, email: string, password: string, ad
   return res.json(); // { status, token, data: { user } }
 }
 
+export async function updateFile(fileId: string, body: Partial<Pick<ServerFile, 'locale' | 'region' | 'isPublic'>>, token?: string) {
+  return apiFetch<{ data: { file: ServerFile } }>(`/api/file/${fileId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+    token,
+  });
+}
+
+// Saves the column schema (renames, type overrides, formats, descriptions) as the file's data dictionary
+export async function updateFileSchema(fileId: string, columns: ColumnSchemaEntry[], token?: string) {
+  return apiFetch<{ data: { file: ServerFile } }>(`/api/file/${fileId}/schema`, {
+    method: 'PATCH',
+    body: JSON.stringify({ columns }),
+    token,
+  });
+}
+
+// --- Transformation pipelines ---
+export async function getFilePipeline(fileId: string, token?: string) {
+  return apiFetch<{ data: { pipeline: ServerPipeline | null } }>(`/api/file/${fileId}/pipeline`, { token });
+}
+
+// Saves the file's recorded steps; sourceColumns are the sheet's columns before any step ran
+export async function saveFilePipeline(fileId: string, steps: PipelineStep[], sourceColumns: string[], token?: string) {
+  return apiFetch<{ data: { pipeline: ServerPipeline } }>(`/api/file/${fileId}/pipeline`, {
+    method: 'PUT',
+    body: JSON.stringify({ steps, sourceColumns }),
+    token,
+  });
+}
+
+// Pipelines saved on earlier uploads whose columns all appear in this sheet
+export async function findMatchingPipelines(fileId: string, columns: string[], token?: string) {
+  return apiFetch<{ data: { pipelines: (ServerPipeline & { file: Pick<ServerFile, '_id' | 'filename' | 'sheetName'> })[] } }>(`/api/file/${fileId}/pipeline/matches`, {
+    method: 'POST',
+    body: JSON.stringify({ columns }),
+    token,
+  });
+}
+
+// --- Combined files ---
+export type JoinType = 'inner' | 'left' | 'full';
+
+// One join per file after the first; leftKeys[i] is matched with rightKeys[i]
+export interface CombineFilesRequest {
+  files: string[];
+  mode: 'append' | 'join';
+  // Append only: column naming the file each row came from ('' for none)
+  sourceColumn?: string;
+  joins?: { type: JoinType; leftKeys: string[]; rightKeys: string[] }[];
+}
+
+export interface RenamedColumn {
+  from: string;
+  to: string;
+}
+
+// How each file lined up with the combined columns (backend/src/utils/combine.js)
+export interface AppendDiagnostics {
+  mode: 'append';
+  sources: { label: string; rows: number; missingColumns: string[]; renamedColumns: RenamedColumn[] }[];
+  // Columns whose numbers stored as text were converted
+  numericColumns: string[];
+}
+
+// Match counts of each join, left to right
+export interface JoinDiagnostics {
+  mode: 'join';
+  joins: {
+    label: string;
+    type: JoinType;
+    leftKeys: string[];
+    rightKeys: string[];
+    leftRows: number;
+    rightRows: number;
+    matchedLeftRows: number;
+    matchedRightRows: number;
+    unmatchedLeftRows: number;
+    unmatchedRightRows: number;
+    // Percentages, one decimal
+    leftMatchRate: number;
+    rightMatchRate: number;
+    duplicateRightKeys: number;
+    blankLeftKeys: number;
+    blankRightKeys: number;
+    renamedColumns: RenamedColumn[];
+    resultRows: number;
+  }[];
+}
+
+export type CombineDiagnostics = AppendDiagnostics | JoinDiagnostics;
+
+export interface CombinePreview {
+  sources: { id: string; label: string; columns: string[]; rowCount: number }[];
+  columns: string[];
+  // The first rows of the combined dataset
+  rows: Row[];
+  rowCount: number;
+  diagnostics: CombineDiagnostics;
+}
+
+export async function previewCombinedFiles(body: CombineFilesRequest, token?: string) {
+  return apiFetch<{ data: CombinePreview }>(`/api/file/combine/preview`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    token,
+  });
+}
+
+// Saves the combined dataset as a new file that analyses can use like an upload
+export async function createCombinedFile(body: CombineFilesRequest & { filename: string }, token?: string) {
+  return apiFetch<{ data: { file: ServerFile; diagnostics: CombineDiagnostics } }>(`/api/file/combine`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    token,
+  });
+}
+
+// --- Version history ---
+export interface FileVersion {
+  _id: string;
+  filename: string;
+  sheetName?: string;
+  version?: number;
+  versionGroup?: string;
+  rowCount?: number;
+  columnCount?: number;
+  createdAt: string;
+}
+
+export async function getFileVersions(fileId: string, token?: string) {
+  return apiFetch<{ data: { versions: FileVersion[] } }>(`/api/file/${fileId}/versions`, { token });
+}
+
+// Marks the file as the newest version of another file; null takes it out of its history
+export async function setFileVersion(fileId: string, versionOf: string | null, token?: string) {
+  return apiFetch<{ data: { file: ServerFile; versions: FileVersion[] } }>(`/api/file/${fileId}/version`, {
+    method: 'PUT',
+    body: JSON.stringify({ versionOf }),
+    token,
+  });
+}
+
+export interface CellChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface StatisticDelta {
+  column: string;
+  type: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  delta: Record<string, number>;
+}
+
+// Differences between two versions (backend/src/utils/datasetDiff.js)
+export interface DatasetDiff {
+  keys: string[];
+  matchedBy: 'key' | 'row';
+  summary: {
+    baseRows: number;
+    currentRows: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    changedCells: number;
+    blankKeys: number;
+    duplicateKeys: number;
+  };
+  schema: {
+    addedColumns: string[];
+    removedColumns: string[];
+    typeChanges: { column: string; before: string; after: string }[];
+  };
+  changedColumns: Record<string, number>;
+  addedRows: Row[];
+  removedRows: Row[];
+  changedRows: { key: Record<string, unknown>; row: Row; changes: CellChange[] }[];
+  statistics: StatisticDelta[];
+}
+
+interface VersionSummary {
+  id: string;
+  filename: string;
+  sheetName?: string;
+  version: number;
+  createdAt: string;
+}
+
+export interface VersionDiffResult {
+  base: VersionSummary;
+  current: VersionSummary;
+  // Columns in both versions, offered as keys
+  columns: string[];
+  diff: DatasetDiff;
+}
+
+// Compares the file with an older version (the previous one by default), matching rows on `keys`
+export async function diffFileVersions(fileId: string, baseId?: string, keys: string[] = [], token?: string) {
+  const params = new URLSearchParams();
+  if (baseId) params.append('base', baseId);
+  keys.forEach(key => params.append('keys', key));
+  const query = params.toString();
+  return apiFetch<{ data: VersionDiffResult }>(`/api/file/${fileId}/diff${query ? `?${query}` : ''}`, { token });
+}
+
+// --- Saved views ---
+// The user's saved views of the file's data preview, by name
+export async function getFileViews(fileId: string, token?: string) {
+  return apiFetch<{ data: { views: SavedView[] } }>(`/api/file/${fileId}/views`, { token });
+}
+
+export async function createFileView(fileId: string, name: string, state: ViewState, token?: string) {
+  return apiFetch<{ data: { view: SavedView } }>(`/api/file/${fileId}/views`, {
+    method: 'POST',
+    body: JSON.stringify({ ...state, name }),
+    token,
+  });
+}
+
+export async function updateFileView(fileId: string, viewId: string, name: string, state: ViewState, token?: string) {
+  return apiFetch<{ data: { view: SavedView } }>(`/api/file/${fileId}/views/${viewId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...state, name }),
+    token,
+  });
+}
+
+export async function deleteFileView(fileId: string, viewId: string, token?: string) {
+  const authToken = token || localStorage.getItem('token');
+  const res = await fetch(`${API_BASE}/api/file/${fileId}/views/${viewId}`, {
+    method: 'DELETE',
+    headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || res.statusText);
+  }
+  return null;
+}
+
 export async function deleteFile(fileId: string, token?: string) {
   const res = await fetch(`${API_BASE}/api/file/${fileId}`, {
     method: 'DELETE',
@@ -0,0 +1,394 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import { buildCategorySeries, ChartAggregation, getSplitValues, OTHER_SERIES_LABEL, splitLabel } from './chartSeries';
+import type { Row } from './excelUtils';
+
+// Data and layouts behind the business chart types: waterfall bridges,
+// funnels, bubbles, treemaps (squarified, nested by several category columns)
+// and Sankey diagrams. Treemap and Sankey layouts are computed in unit
+// coordinates (0..1 both ways, y down) and scaled to the chart area when drawn.
+
+export type BusinessChartType = 'waterfall' | 'funnel' | 'bubble' | 'radar' | 'treemap' | 'sankey';
+
+export const BUSINESS_CHART_TYPES: { id: BusinessChartType; label: string }[] = [
+  { id: 'waterfall', label: 'Waterfall' },
+  { id: 'funnel', label: 'Funnel' },
+  { id: 'bubble', label: 'Bubble Chart' },
+  { id: 'radar', label: 'Radar Chart' },
+  { id: 'treemap', label: 'Treemap' },
+  { id: 'sankey', label: 'Sankey Diagram' }
+];
+
+export const isBusinessChart = (chartType: string): chartType is BusinessChartType =>
+  BUSINESS_CHART_TYPES.some(type => type.id === chartType);
+
+export const WATERFALL_TOTAL_LABEL = 'Total';
+
+// Bubble radii in pixels, by the square root of the size so areas compare
+const MIN_BUBBLE_RADIUS = 4;
+const MAX_BUBBLE_RADIUS = 30;
+
+// Treemaps are laid out for a chart twice as wide as it is tall
+const TREEMAP_ASPECT = 2;
+// Gap around nested groups, in unit coordinates
+const TREEMAP_PADDING = 0.004;
+
+const SANKEY_NODE_WIDTH = 0.02;
+const SANKEY_NODE_GAP = 0.04;
+
+const toNumber = (value: unknown, locale: LocaleSettings) =>
+  typeof value === 'number' ? (isFinite(value) ? value : null) : parseLocaleNumber(value, locale);
+
+export interface WaterfallStep {
+  label: string;
+  start: number;
+  end: number;
+  kind: 'increase' | 'decrease' | 'total';
+}
+
+// Running total of the value's sum per X value, in data order. X values listed
+// in `totals` are subtotals: they show the running total and their own rows
+// are ignored. A final total follows unless the last step already is one.
+export const buildWaterfall = (
+  data: Row[],
+  { xAxis, valueColumn, totals = [], locale = DEFAULT_LOCALE_SETTINGS }: { xAxis: string; valueColumn: string; totals?: string[]; locale?: LocaleSettings }
+): WaterfallStep[] => {
+  const { labels, series } = buildCategorySeries(data, { xAxis, yAxes: [valueColumn], aggregation: 'sum', locale });
+  let running = 0;
+  const steps = labels.map((label, i): WaterfallStep => {
+    if (totals.includes(label)) return { label, start: 0, end: running, kind: 'total' };
+    const change = series[0]?.values[i] ?? 0;
+    const step: WaterfallStep = { label, start: running, end: running + change, kind: change < 0 ? 'decrease' : 'increase' };
+    running += change;
+    return step;
+  });
+  if (steps.length > 0 && steps[steps.length - 1].kind !== 'total') {
+    steps.push({ label: WATERFALL_TOTAL_LABEL, start: 0, end: running, kind: 'total' });
+  }
+  return steps;
+};
+
+export interface FunnelStage {
+  label: string;
+  value: number;
+  // Share of the first stage and of the stage before, in percent
+  percentOfFirst: number | null;
+  percentOfPrevious: number | null;
+}
+
+// Stages in data order, each the aggregated value of its rows
+export const buildFunnel = (
+  data: Row[],
+  { xAxis, valueColumn, aggregation = 'sum', locale = DEFAULT_LOCALE_SETTINGS }: { xAxis: string; valueColumn: string; aggregation?: ChartAggregation; locale?: LocaleSettings }
+): FunnelStage[] => {
+  const { labels, series } = buildCategorySeries(data, { xAxis, yAxes: [valueColumn], aggregation, locale });
+  const values = labels.map((_, i) => series[0]?.values[i] ?? 0);
+  return labels.map((label, i) => ({
+    label,
+    value: values[i],
+    percentOfFirst: values[0] ? (values[i] / values[0]) * 100 : null,
+    percentOfPrevious: i > 0 && values[i - 1] ? (values[i] / values[i - 1]) * 100 : null
+  }));
+};
+
+export interface BubbleSeries {
+  label: string;
+  points: { x: number; y: number; r: number; size: number }[];
+}
+
+// One point per row with numeric X, Y and size; one series per split value when split
+export const buildBubbles = (
+  data: Row[],
+  { xAxis, yAxis, sizeColumn, splitBy = '', locale = DEFAULT_LOCALE_SETTINGS }: { xAxis: string; yAxis: string; sizeColumn: string; splitBy?: string; locale?: LocaleSettings }
+): BubbleSeries[] => {
+  const rows = data
+    .map(row => ({ row, x: toNumber(row[xAxis], locale), y: toNumber(row[yAxis], locale), size: toNumber(row[sizeColumn], locale) }))
+    .filter((item): item is { row: Row; x: number; y: number; size: number } => item.x !== null && item.y !== null && item.size !== null);
+  const largest = rows.reduce((max, item) => Math.max(max, Math.abs(item.size)), 0);
+  const radius = (size: number) => largest === 0
+    ? MIN_BUBBLE_RADIUS
+    : MIN_BUBBLE_RADIUS + (MAX_BUBBLE_RADIUS - MIN_BUBBLE_RADIUS) * Math.sqrt(Math.abs(size) / largest);
+
+  const split = splitBy ? getSplitValues(data, splitBy) : null;
+  const keys = split ? (split.hasOther ? [...split.values, OTHER_SERIES_LABEL] : split.values) : [''];
+  const keyOf = (row: Row) => {
+    if (!split) return '';
+    const value = splitLabel(row[splitBy]);
+    return split.values.includes(value) ? value : OTHER_SERIES_LABEL;
+  };
+
+  return keys.map(key => ({
+    label: split ? key : `${yAxis} vs ${xAxis}`,
+    points: rows.filter(item => keyOf(item.row) === key).map(({ x, y, size }) => ({ x, y, size, r: radius(size) }))
+  }));
+};
+
+export interface TreemapRect {
+  label: string;
+  // Category values from the top level down
+  path: string[];
+  value: number;
+  depth: number;
+  // Index of the top-level group, for colors
+  group: number;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface TreemapNode {
+  label: string;
+  path: string[];
+  value: number;
+  children: Map<string, TreemapNode>;
+}
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+// Worst aspect ratio of a row of areas laid along a side of the given length
+const worstRatio = (areas: number[], side: number) => {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+};
+
+// Squarified treemap (Bruls, Huizing & van Wijk): fills rows along the short
+// side while that keeps the rectangles closer to squares
+const squarify = <T extends { value: number }>(items: T[], box: Box): (T & Box)[] => {
+  const result: (T & Box)[] = [];
+  let { x0, y0 } = box;
+  const { x1, y1 } = box;
+  let remaining = [...items].sort((a, b) => b.value - a.value);
+  let remainingTotal = remaining.reduce((sum, item) => sum + item.value, 0);
+
+  while (remaining.length > 0 && remainingTotal > 0) {
+    const width = x1 - x0;
+    const height = y1 - y0;
+    const side = Math.min(width, height);
+    const scale = (width * height) / remainingTotal;
+
+    let row: T[] = [];
+    let best = Infinity;
+    for (const item of remaining) {
+      const ratio = worstRatio([...row, item].map(entry => entry.value * scale), side);
+      if (row.length > 0 && ratio > best) break;
+      row = [...row, item];
+      best = ratio;
+    }
+
+    const rowTotal = row.reduce((sum, item) => sum + item.value, 0);
+    const thickness = (rowTotal * scale) / side;
+    let offset = 0;
+    row.forEach(item => {
+      const length = (item.value * scale) / thickness;
+      result.push(width >= height
+        ? { ...item, x0, y0: y0 + offset, x1: x0 + thickness, y1: y0 + offset + length }
+        : { ...item, x0: x0 + offset, y0, x1: x0 + offset + length, y1: y0 + thickness });
+      offset += length;
+    });
+    if (width >= height) x0 += thickness;
+    else y0 += thickness;
+
+    remaining = remaining.slice(row.length);
+    remainingTotal -= rowTotal;
+  }
+  return result;
+};
+
+// Leaves and their enclosing groups, sized by the sum of the value column
+// (or the row count without one); rows without a positive value are left out
+export const buildTreemap = (
+  data: Row[],
+  { hierarchy, valueColumn = '', locale = DEFAULT_LOCALE_SETTINGS }: { hierarchy: string[]; valueColumn?: string; locale?: LocaleSettings }
+): { leaves: TreemapRect[]; groups: TreemapRect[] } => {
+  const root: TreemapNode = { label: '', path: [], value: 0, children: new Map() };
+  data.forEach(row => {
+    const value = valueColumn ? toNumber(row[valueColumn], locale) : 1;
+    if (value === null || value <= 0) return;
+    let node = root;
+    node.value += value;
+    hierarchy.forEach(column => {
+      const label = splitLabel(row[column]);
+      let child = node.children.get(label);
+      if (!child) node.children.set(label, child = { label, path: [...node.path, label], value: 0, children: new Map() });
+      child.value += value;
+      node = child;
+    });
+  });
+
+  const leaves: TreemapRect[] = [];
+  const groups: TreemapRect[] = [];
+  const topLevel = [...root.children.values()].sort((a, b) => b.value - a.value).map(node => node.label);
+  const place = (node: TreemapNode, box: Box, depth: number) => {
+    const children = [...node.children.values()];
+    squarify(children, box).forEach(child => {
+      const rect: TreemapRect = {
+        label: child.label,
+        path: child.path,
+        value: child.value,
+        depth,
+        group: topLevel.indexOf(child.path[0]),
+        x0: child.x0 / TREEMAP_ASPECT,
+        y0: child.y0,
+        x1: child.x1 / TREEMAP_ASPECT,
+        y1: child.y1
+      };
+      if (child.children.size === 0) {
+        leaves.push(rect);
+        return;
+      }
+      groups.push(rect);
+      const pad = Math.min(TREEMAP_PADDING, (child.x1 - child.x0) / 4, (child.y1 - child.y0) / 4);
+      place(child, { x0: child.x0 + pad, y0: child.y0 + pad, x1: child.x1 - pad, y1: child.y1 - pad }, depth + 1);
+    });
+  };
+  place(root, { x0: 0, y0: 0, x1: TREEMAP_ASPECT, y1: 1 }, 0);
+  return { leaves, groups };
+};
+
+export interface SankeyNode {
+  name: string;
+  // Stage from the left, by the longest chain of flows leading to the node
+  column: number;
+  value: number;
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
+
+export interface SankeyLink {
+  source: number;
+  target: number;
+  value: number;
+  // Band edges where the link leaves its source and enters its target
+  sy0: number;
+  sy1: number;
+  ty0: number;
+  ty1: number;
+}
+
+// Flows summed per source and target value. A node name in both columns is one
+// node, so flows chain into stages (Leads → Qualified → Won); flows that would
+// close a loop are left out, the smallest first.
+export const buildSankey = (
+  data: Row[],
+  { sourceColumn, targetColumn, valueColumn, locale = DEFAULT_LOCALE_SETTINGS }: { sourceColumn: string; targetColumn: string; valueColumn: string; locale?: LocaleSettings }
+): { nodes: SankeyNode[]; links: SankeyLink[] } => {
+  const names: string[] = [];
+  const indexOf = new Map<string, number>();
+  const nodeIndex = (name: string) => {
+    if (!indexOf.has(name)) {
+      indexOf.set(name, names.length);
+      names.push(name);
+    }
+    return indexOf.get(name)!;
+  };
+
+  const flows = new Map<string, { source: number; target: number; value: number }>();
+  data.forEach(row => {
+    const value = toNumber(row[valueColumn], locale);
+    if (value === null || value <= 0) return;
+    const source = nodeIndex(splitLabel(row[sourceColumn]));
+    const target = nodeIndex(splitLabel(row[targetColumn]));
+    if (source === target) return;
+    const key = `${source}\u0000${target}`;
+    const flow = flows.get(key);
+    if (flow) flow.value += value;
+    else flows.set(key, { source, target, value });
+  });
+
+  // Keep the largest flows that don't close a loop
+  const outgoing = names.map(() => [] as number[]);
+  const reaches = (from: number, to: number): boolean => {
+    const seen = new Set<number>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node === to) return true;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      stack.push(...outgoing[node]);
+    }
+    return false;
+  };
+  const kept = [...flows.values()]
+    .sort((a, b) => b.value - a.value)
+    .filter(flow => {
+      if (reaches(flow.target, flow.source)) return false;
+      outgoing[flow.source].push(flow.target);
+      return true;
+    });
+
+  // Longest path from a node without incoming flows decides the column
+  const column = names.map(() => 0);
+  for (let changed = true, rounds = 0; changed && rounds < names.length; rounds++) {
+    changed = false;
+    kept.forEach(flow => {
+      if (column[flow.target] < column[flow.source] + 1) {
+        column[flow.target] = column[flow.source] + 1;
+        changed = true;
+      }
+    });
+  }
+
+  const inflow = names.map(() => 0);
+  const outflow = names.map(() => 0);
+  kept.forEach(flow => {
+    outflow[flow.source] += flow.value;
+    inflow[flow.target] += flow.value;
+  });
+  const used = names.map((_, i) => inflow[i] > 0 || outflow[i] > 0);
+  const columnCount = Math.max(0, ...column.filter((_, i) => used[i])) + 1;
+  const nodes: SankeyNode[] = names.map((name, i) => {
+    const x0 = columnCount > 1 ? (column[i] / (columnCount - 1)) * (1 - SANKEY_NODE_WIDTH) : 0;
+    return { name, column: column[i], value: Math.max(inflow[i], outflow[i]), x0, x1: x0 + SANKEY_NODE_WIDTH, y0: 0, y1: 0 };
+  });
+
+  // One scale for every column, so the fullest column fills the height
+  const columns = Array.from({ length: columnCount }, (_, c) => nodes.filter((node, i) => used[i] && node.column === c));
+  const scale = Math.min(...columns.filter(nodesIn => nodesIn.length > 0).map(nodesIn =>
+    (1 - SANKEY_NODE_GAP * (nodesIn.length - 1)) / nodesIn.reduce((sum, node) => sum + node.value, 0)
+  ));
+  columns.forEach(nodesIn => {
+    const height = nodesIn.reduce((sum, node) => sum + node.value * scale, 0) + SANKEY_NODE_GAP * (nodesIn.length - 1);
+    let y = (1 - height) / 2;
+    nodesIn.forEach(node => {
+      node.y0 = y;
+      node.y1 = y + node.value * scale;
+      y = node.y1 + SANKEY_NODE_GAP;
+    });
+  });
+
+  const links: SankeyLink[] = kept.map(flow => ({ ...flow, sy0: 0, sy1: 0, ty0: 0, ty1: 0 }));
+  // Bands leave and enter in the order of the nodes at their other end, so they don't cross needlessly
+  nodes.forEach((node, i) => {
+    let out = node.y0;
+    links.filter(link => link.source === i)
+      .sort((a, b) => nodes[a.target].y0 - nodes[b.target].y0)
+      .forEach(link => {
+        link.sy0 = out;
+        link.sy1 = out += link.value * scale;
+      });
+    let into = node.y0;
+    links.filter(link => link.target === i)
+      .sort((a, b) => nodes[a.source].y0 - nodes[b.source].y0)
+      .forEach(link => {
+        link.ty0 = into;
+        link.ty1 = into += link.value * scale;
+      });
+  });
+
+  // Nodes without flows are dropped; links refer to the remaining ones
+  const remap = new Map<number, number>();
+  const shown = nodes.filter((_, i) => {
+    if (!used[i]) return false;
+    remap.set(i, remap.size);
+    return true;
+  });
+  return {
+    nodes: shown,
+    links: links.map(link => ({ ...link, source: remap.get(link.source)!, target: remap.get(link.target)! }))
+  };
+};
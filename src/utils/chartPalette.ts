@@ -0,0 +1,48 @@
+// Colors shared by the 2D chart types
+
+export const backgroundColors = [
+  'rgba(59, 130, 246, 0.8)',
+  'rgba(147, 51, 234, 0.8)',
+  'rgba(236, 72, 153, 0.8)',
+  'rgba(34, 197, 94, 0.8)',
+  'rgba(251, 146, 60, 0.8)',
+  'rgba(14, 165, 233, 0.8)',
+  'rgba(168, 85, 247, 0.8)',
+  'rgba(244, 63, 94, 0.8)',
+];
+
+export const borderColors = [
+  'rgba(59, 130, 246, 1)',
+  'rgba(147, 51, 234, 1)',
+  'rgba(236, 72, 153, 1)',
+  'rgba(34, 197, 94, 1)',
+  'rgba(251, 146, 60, 1)',
+  'rgba(14, 165, 233, 1)',
+  'rgba(168, 85, 247, 1)',
+  'rgba(244, 63, 94, 1)',
+];
+
+// Colors repeat after the palette runs out
+export const colorAt = (colors: string[], index: number) => colors[index % colors.length];
+export const withAlpha = (color: string, alpha: number) => color.replace(/[\d.]+\)$/, `${alpha})`);
+
+type Rgb = [number, number, number];
+
+const WHITE: Rgb = [248, 250, 252];
+const BLUE: Rgb = [30, 64, 175];
+const RED: Rgb = [185, 28, 28];
+
+const mix = (from: Rgb, to: Rgb, t: number) => {
+  const clamped = Math.min(1, Math.max(0, t));
+  const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * clamped));
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+// Heatmap cells: light for low values, dark blue for high ones; t in 0..1
+export const sequentialColor = (t: number) => mix(WHITE, BLUE, t);
+
+// Correlations: red for -1, white for 0, blue for 1
+export const divergingColor = (value: number) => value < 0 ? mix(WHITE, RED, -value) : mix(WHITE, BLUE, value);
+
+// Text on a cell of the given intensity (0..1)
+export const cellTextColor = (intensity: number) => Math.abs(intensity) > 0.55 ? 'white' : 'rgb(31, 41, 55)';
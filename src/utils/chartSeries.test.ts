@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCategorySeries,
+  buildScatterSeries,
+  describeAggregation,
+  getSplitValues,
+  isChartReady,
+  MAX_SPLIT_SERIES,
+  nextPeriodLabels,
+  OTHER_SERIES_LABEL,
+  periodPosition,
+  toPercentStacked
+} from './chartSeries';
+import { LOCALE_PRESETS } from './localeParsing';
+import type { Row } from './excelUtils';
+
+const german = LOCALE_PRESETS.find(p => p.id === 'de-DE')!.settings;
+
+const sales: Row[] = [
+  { Date: '2024-01-15', Region: 'West', Revenue: 10, Units: 1 },
+  { Date: '2024-01-20', Region: 'East', Revenue: 20, Units: 2 },
+  { Date: '2024-02-03', Region: 'West', Revenue: 30, Units: 3 },
+  { Date: '2024-04-10', Region: 'West', Revenue: 40, Units: '' },
+];
+
+describe('buildCategorySeries', () => {
+  it('makes one series per Y column', () => {
+    const { labels, positions, series } = buildCategorySeries(sales, { xAxis: 'Region', yAxes: ['Revenue', 'Units'] });
+    expect(labels).toEqual(['West', 'East']);
+    expect(positions).toBeNull();
+    expect(series.map(item => [item.label, item.values])).toEqual([['Revenue', [80, 20]], ['Units', [4, 2]]]);
+  });
+
+  it('splits series by the values of a column', () => {
+    const { series } = buildCategorySeries(sales, { xAxis: 'Date', yAxes: ['Revenue', 'Units'], splitBy: 'Region', dateBucket: 'month' });
+    expect(series.map(item => item.label)).toEqual(['Revenue — West', 'Revenue — East', 'Units — West', 'Units — East']);
+    expect(series[1]).toMatchObject({ column: 'Revenue', splitValue: 'East', values: [20, null, null] });
+  });
+
+  it('groups dates into periods placed on a time axis', () => {
+    const { labels, positions, series } = buildCategorySeries(sales, {
+      xAxis: 'Date', yAxes: ['Revenue'], dateBucket: 'quarter', aggregation: 'average'
+    });
+    expect(labels).toEqual(['2024-Q1', '2024-Q2']);
+    expect(positions).toEqual([2024 * 4, 2024 * 4 + 1]);
+    expect(series[0].values).toEqual([20, 40]);
+  });
+
+  it('bins numbers into equal ranges, keeping empty bins', () => {
+    const data: Row[] = [1, 2, 9, 10, 'n/a'].map(Age => ({ Age, People: 1 }));
+    const { labels, series } = buildCategorySeries(data, { xAxis: 'Age', yAxes: ['People'], bins: 3, aggregation: 'count' });
+    expect(labels).toEqual(['1–4', '4–7', '7–10', 'n/a']);
+    expect(series[0].values).toEqual([2, null, 2, 1]);
+  });
+
+  it('keeps the top N X values and groups the rest', () => {
+    const { labels, series } = buildCategorySeries(sales, { xAxis: 'Date', yAxes: ['Revenue'], topN: 2 });
+    expect(labels).toEqual(['2024-04-10', '2024-02-03', OTHER_SERIES_LABEL]);
+    expect(series[0].values).toEqual([40, 30, 30]);
+  });
+
+  it('reads numbers in the file\'s locale', () => {
+    const data: Row[] = [{ X: 'a', Y: '1.234,5' }, { X: 'a', Y: '0,5' }];
+    expect(buildCategorySeries(data, { xAxis: 'X', yAxes: ['Y'], locale: german }).series[0].values).toEqual([1235]);
+  });
+});
+
+describe('getSplitValues', () => {
+  it('folds all but the most frequent values into "Other"', () => {
+    const data: Row[] = Array.from({ length: MAX_SPLIT_SERIES + 2 }, (_, i) => ({ Team: i === 0 ? 'B' : `T${i}` }));
+    data.push({ Team: 'B' });
+    const { values, hasOther } = getSplitValues(data, 'Team');
+    expect(hasOther).toBe(true);
+    expect(values).toHaveLength(MAX_SPLIT_SERIES - 1);
+    expect(values[0]).toBe('B');
+  });
+});
+
+describe('buildScatterSeries', () => {
+  it('leaves out rows without numbers', () => {
+    const series = buildScatterSeries(sales, { xAxis: 'Revenue', yAxes: ['Units'] });
+    expect(series).toEqual([{ label: 'Units vs Revenue', column: 'Units', splitValue: undefined, points: [{ x: 10, y: 1 }, { x: 20, y: 2 }, { x: 30, y: 3 }] }]);
+  });
+});
+
+describe('periods', () => {
+  it('continues date bucket labels', () => {
+    expect(nextPeriodLabels('2024-11', 'month', 3)).toEqual(['2024-12', '2025-01', '2025-02']);
+    expect(nextPeriodLabels('2024-Q4', 'quarter', 1)).toEqual(['2025-Q1']);
+    expect(nextPeriodLabels('2024-02-26', 'week', 1)).toEqual(['2024-03-04']);
+    expect(nextPeriodLabels('West', 'month', 2)).toEqual(['+1', '+2']);
+  });
+
+  it('places labels a whole period apart', () => {
+    expect(periodPosition('2025-01', 'month')! - periodPosition('2024-12', 'month')!).toBe(1);
+    expect(periodPosition('2024-03-11', 'week')! - periodPosition('2024-03-04', 'week')!).toBe(1);
+    expect(periodPosition('West', 'year')).toBeNull();
+  });
+});
+
+describe('helpers', () => {
+  it('stacks series to 100%', () => {
+    const stacked = toPercentStacked([
+      { label: 'A', column: 'A', values: [1, null, 0] },
+      { label: 'B', column: 'B', values: [3, 2, 0] },
+    ]);
+    expect(stacked.map(item => item.values)).toEqual([[25, null, null], [75, 100, null]]);
+  });
+
+  it('knows the columns each chart type needs', () => {
+    const config = { chartType: 'bar', xAxis: 'X', yAxes: ['Y'], splitBy: '' };
+    expect(isChartReady(config)).toBe(true);
+    expect(isChartReady({ ...config, chartType: 'heatmap' })).toBe(false);
+    expect(isChartReady({ ...config, chartType: 'correlation' })).toBe(false);
+    expect(describeAggregation('average', 'Revenue')).toBe('Average of Revenue');
+  });
+});
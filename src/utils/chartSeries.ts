@@ -0,0 +1,382 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleDate, parseLocaleNumber } from './localeParsing';
+import { EMPTY_VALUE_LABEL } from './gridUtils';
+import { addToBucket, aggregate, Bucket, createBucket, PIVOT_AGGREGATIONS, PivotAggregation } from './pivot';
+import type { Row } from './excelUtils';
+
+// Series for 2D charts: one per Y column, or with a "split by" column one per
+// Y column and value of that column (e.g. Revenue per Region as separate lines).
+// Rows are grouped by X value (a date bucket or numeric bin when chosen) and
+// split value, and each group's Y values are aggregated into one point.
+
+export type StackMode = 'grouped' | 'stacked' | 'percent';
+
+export const STACK_MODES: { id: StackMode; label: string }[] = [
+  { id: 'grouped', label: 'Grouped' },
+  { id: 'stacked', label: 'Stacked' },
+  { id: 'percent', label: '100% stacked' }
+];
+
+export type ChartAggregation = Exclude<PivotAggregation, 'percentile'>;
+
+export const CHART_AGGREGATIONS = PIVOT_AGGREGATIONS.filter(
+  (aggregation): aggregation is typeof aggregation & { id: ChartAggregation } => aggregation.id !== 'percentile'
+);
+
+export type DateBucket = 'none' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const DATE_BUCKETS: { id: DateBucket; label: string }[] = [
+  { id: 'none', label: 'Exact value' },
+  { id: 'day', label: 'Day' },
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+  { id: 'quarter', label: 'Quarter' },
+  { id: 'year', label: 'Year' }
+];
+
+export const BIN_COUNTS = [5, 10, 20, 50];
+export const TOP_N_OPTIONS = [5, 10, 20, 50];
+
+// Split values beyond this many are summed into one "Other" series
+export const MAX_SPLIT_SERIES = 12;
+export const OTHER_SERIES_LABEL = 'Other';
+
+export interface ChartSeries {
+  label: string;
+  // Y column the series shows
+  column: string;
+  // Value of the split column, when split
+  splitValue?: string;
+  values: (number | null)[];
+}
+
+export interface CategorySeries {
+  labels: string[];
+  // Where each label sits on a numeric X axis (period number of date buckets,
+  // bin midpoint, or the number or day itself), for trendlines; null for
+  // the empty and "Other" labels, and null throughout on categorical axes
+  positions: (number | null)[] | null;
+  series: ChartSeries[];
+}
+
+export interface ScatterSeries {
+  label: string;
+  column: string;
+  splitValue?: string;
+  points: { x: number; y: number }[];
+}
+
+interface SeriesOptions {
+  xAxis: string;
+  yAxes: string[];
+  // Category column fanned out into one series per value; '' for none
+  splitBy?: string;
+  locale?: LocaleSettings;
+}
+
+// How rows are grouped into points along the X axis
+export interface ChartGrouping {
+  aggregation: ChartAggregation;
+  // Date X axes: period the dates are grouped by
+  dateBucket: DateBucket;
+  // Numeric X axes: number of equal-width bins; 0 keeps every value
+  bins: number;
+  // Keeps the N X values with the largest totals and groups the rest as "Other"; 0 keeps all
+  topN: number;
+}
+
+export const DEFAULT_CHART_GROUPING: ChartGrouping = { aggregation: 'sum', dateBucket: 'none', bins: 0, topN: 0 };
+
+type GroupingOptions = SeriesOptions & Partial<ChartGrouping>;
+
+// Whether a chart config has the columns its chart type needs
+export const isChartReady = ({ chartType, xAxis, yAxes, splitBy, sizeColumn = '', targetColumn = '', hierarchy = [] }: {
+  chartType: string;
+  xAxis: string;
+  yAxes: string[];
+  splitBy: string;
+  sizeColumn?: string;
+  targetColumn?: string;
+  hierarchy?: string[];
+}) => {
+  if (chartType === 'correlation') return yAxes.length >= 2;
+  if (chartType === 'histogram') return xAxis !== '';
+  if (chartType === 'heatmap') return xAxis !== '' && yAxes.length > 0 && splitBy !== '';
+  if (chartType === 'bubble') return xAxis !== '' && yAxes.length > 0 && sizeColumn !== '';
+  if (chartType === 'treemap') return hierarchy.length > 0 && yAxes.length > 0;
+  if (chartType === 'sankey') return xAxis !== '' && targetColumn !== '' && yAxes.length > 0;
+  return xAxis !== '' && yAxes.length > 0;
+};
+
+export const splitLabel = (value: unknown) =>
+  value === null || value === undefined || value === '' ? EMPTY_VALUE_LABEL : String(value);
+
+const seriesLabel = (column: string, splitValue: string | undefined, yAxes: string[]) => {
+  if (splitValue === undefined) return column;
+  return yAxes.length > 1 ? `${column} — ${splitValue}` : splitValue;
+};
+
+// The split values charted, most frequent first; the rest fold into "Other"
+export const getSplitValues = (data: Row[], splitBy: string) => {
+  const counts = new Map<string, number>();
+  data.forEach(row => {
+    const value = splitLabel(row[splitBy]);
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  if (ranked.length <= MAX_SPLIT_SERIES) return { values: ranked, hasOther: false };
+  return { values: ranked.slice(0, MAX_SPLIT_SERIES - 1), hasOther: true };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD of a date cell, read like the grid's date filters
+const toDateKey = (value: unknown, locale: LocaleSettings): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const parsed = parseLocaleDate(text, locale.dateOrder);
+  if (parsed) return parsed;
+  const time = Date.parse(text);
+  return isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+};
+
+// Labels sort in time order: 2024-03-05, 2024-03-04 (Monday of the week), 2024-03, 2024-Q1, 2024
+const bucketDate = (key: string, bucket: DateBucket) => {
+  const [year, month] = key.split('-').map(Number);
+  switch (bucket) {
+    case 'week': {
+      const date = new Date(`${key}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return date.toISOString().slice(0, 10);
+    }
+    case 'month':
+      return `${year}-${pad(month)}`;
+    case 'quarter':
+      return `${year}-Q${Math.ceil(month / 3)}`;
+    case 'year':
+      return String(year);
+    default:
+      return key;
+  }
+};
+
+// Labels of the `count` periods after a date bucket label, e.g. 2024-11 → 2024-12, 2025-01;
+// "+1", "+2", … when the label isn't one
+export const nextPeriodLabels = (label: string, bucket: DateBucket, count: number) => {
+  const steps = Array.from({ length: count }, (_, i) => i + 1);
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(label);
+  const month = /^(\d{4})-(\d{2})$/.exec(label);
+  if (bucket === 'year' && /^\d{4}$/.test(label)) return steps.map(step => String(Number(label) + step));
+  if (bucket === 'quarter' && quarter) {
+    const index = Number(quarter[1]) * 4 + Number(quarter[2]) - 1;
+    return steps.map(step => `${Math.floor((index + step) / 4)}-Q${((index + step) % 4) + 1}`);
+  }
+  if (bucket === 'month' && month) {
+    const index = Number(month[1]) * 12 + Number(month[2]) - 1;
+    return steps.map(step => `${Math.floor((index + step) / 12)}-${pad(((index + step) % 12) + 1)}`);
+  }
+  if ((bucket === 'day' || bucket === 'week') && /^\d{4}-\d{2}-\d{2}$/.test(label)) {
+    return steps.map(step => {
+      const date = new Date(`${label}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() + step * (bucket === 'week' ? 7 : 1));
+      return date.toISOString().slice(0, 10);
+    });
+  }
+  return steps.map(step => `+${step}`);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where a date bucket label sits on a time axis, counted in the bucket's
+// periods (days, weeks, months, quarters or years) so gaps between periods
+// keep their length; null when the label isn't one
+export const periodPosition = (label: string, bucket: DateBucket): number | null => {
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(label);
+  const month = /^(\d{4})-(\d{2})$/.exec(label);
+  if (bucket === 'year' && /^\d{4}$/.test(label)) return Number(label);
+  if (bucket === 'quarter' && quarter) return Number(quarter[1]) * 4 + Number(quarter[2]) - 1;
+  if (bucket === 'month' && month) return Number(month[1]) * 12 + Number(month[2]) - 1;
+  if ((bucket === 'day' || bucket === 'week') && /^\d{4}-\d{2}-\d{2}$/.test(label)) {
+    const days = Date.parse(`${label}T00:00:00Z`) / DAY_MS;
+    return bucket === 'week' ? days / 7 : days;
+  }
+  return null;
+};
+
+// Up to 4 significant digits, e.g. "1,250–2,500"
+const formatBinEdge = (value: number) => Number(value.toPrecision(4)).toLocaleString();
+
+interface XGrouping {
+  labelOf: (row: Row) => string;
+  // Labels shown even without rows, e.g. empty bins
+  fixedLabels?: string[];
+  // Labels in axis order; first-seen order when undefined
+  compare?: (a: string, b: string) => number;
+  // Numeric X of a label, or null when it has none
+  positionOf: (label: string) => number | null;
+}
+
+const getXGrouping = (data: Row[], xAxis: string, dateBucket: DateBucket, bins: number, locale: LocaleSettings): XGrouping => {
+  const emptyLast = (compare: (a: string, b: string) => number) => (a: string, b: string) => {
+    if (a === EMPTY_VALUE_LABEL || b === EMPTY_VALUE_LABEL) return a === b ? 0 : a === EMPTY_VALUE_LABEL ? 1 : -1;
+    return compare(a, b);
+  };
+
+  if (dateBucket !== 'none') {
+    return {
+      labelOf: row => {
+        const key = toDateKey(row[xAxis] ?? '', locale);
+        return key ? bucketDate(key, dateBucket) : splitLabel(row[xAxis]);
+      },
+      compare: emptyLast((a, b) => a.localeCompare(b)),
+      positionOf: label => periodPosition(label, dateBucket)
+    };
+  }
+
+  if (bins > 0) {
+    const toNumber = (value: unknown) => typeof value === 'number' ? value : parseLocaleNumber(value, locale);
+    const numbers = data.map(row => toNumber(row[xAxis])).filter((n): n is number => n !== null);
+    if (numbers.length > 0) {
+      const min = numbers.reduce((a, b) => b < a ? b : a, numbers[0]);
+      const max = numbers.reduce((a, b) => b > a ? b : a, numbers[0]);
+      const width = (max - min) / bins;
+      const binLabels = width === 0
+        ? [formatBinEdge(min)]
+        : Array.from({ length: bins }, (_, i) => `${formatBinEdge(min + i * width)}–${formatBinEdge(min + (i + 1) * width)}`);
+      const order = new Map(binLabels.map((label, i) => [label, i]));
+      return {
+        fixedLabels: binLabels,
+        labelOf: row => {
+          const number = toNumber(row[xAxis]);
+          if (number === null) return splitLabel(row[xAxis]);
+          // The maximum belongs to the last bin
+          return binLabels[width === 0 ? 0 : Math.min(bins - 1, Math.floor((number - min) / width))];
+        },
+        // Values that aren't numbers follow the bins
+        compare: emptyLast((a, b) => (order.get(a) ?? bins) - (order.get(b) ?? bins) || a.localeCompare(b)),
+        positionOf: label => {
+          const index = order.get(label);
+          return index === undefined ? null : min + (index + 0.5) * width;
+        }
+      };
+    }
+  }
+
+  return {
+    labelOf: row => splitLabel(row[xAxis]),
+    // Numbers are their own position, dates their day
+    positionOf: label => {
+      const number = parseLocaleNumber(label, locale);
+      if (number !== null) return number;
+      const key = toDateKey(label, locale);
+      return key ? Date.parse(`${key}T00:00:00Z`) / DAY_MS : null;
+    }
+  };
+};
+
+// Series over the X values, for bar, line, area and pie charts
+export const buildCategorySeries = (
+  data: Row[],
+  { xAxis, yAxes, splitBy = '', locale = DEFAULT_LOCALE_SETTINGS, aggregation = 'sum', dateBucket = 'none', bins = 0, topN = 0 }: GroupingOptions
+): CategorySeries => {
+  const field = { aggregation };
+  const grouping = getXGrouping(data, xAxis, dateBucket, bins, locale);
+  const split = splitBy ? getSplitValues(data, splitBy) : null;
+  const keys = split ? (split.hasOther ? [...split.values, OTHER_SERIES_LABEL] : split.values) : [''];
+  const splitKeyOf = (row: Row) => {
+    if (!split) return '';
+    const value = splitLabel(row[splitBy]);
+    return split.values.includes(value) ? value : OTHER_SERIES_LABEL;
+  };
+
+  const rowLabels = data.map(grouping.labelOf);
+  let labels = [...new Set([...(grouping.fixedLabels ?? []), ...rowLabels])];
+  if (grouping.compare) labels.sort(grouping.compare);
+
+  // Top N ranks X values by the first Y column's aggregate over all their rows
+  if (topN > 0 && labels.length > topN && yAxes.length > 0) {
+    const totals = new Map<string, Bucket>();
+    data.forEach((row, i) => {
+      if (!totals.has(rowLabels[i])) totals.set(rowLabels[i], createBucket());
+      addToBucket(totals.get(rowLabels[i])!, row[yAxes[0]], locale);
+    });
+    const ranked = labels
+      .map(label => ({ label, total: aggregate(totals.get(label), field) ?? -Infinity }))
+      .sort((a, b) => b.total - a.total)
+      .map(({ label }) => label);
+    const kept = new Set(ranked.slice(0, topN));
+    rowLabels.forEach((label, i) => { if (!kept.has(label)) rowLabels[i] = OTHER_SERIES_LABEL; });
+    labels = [...ranked.slice(0, topN).filter(label => label !== OTHER_SERIES_LABEL), OTHER_SERIES_LABEL];
+  }
+
+  // X label -> split value -> one bucket per Y column
+  const buckets = new Map<string, Map<string, Bucket[]>>();
+  data.forEach((row, i) => {
+    let bySplit = buckets.get(rowLabels[i]);
+    if (!bySplit) buckets.set(rowLabels[i], bySplit = new Map());
+    const key = splitKeyOf(row);
+    let cell = bySplit.get(key);
+    if (!cell) bySplit.set(key, cell = yAxes.map(createBucket));
+    cell.forEach((bucket, j) => addToBucket(bucket, row[yAxes[j]], locale));
+  });
+
+  // An axis is numeric when every label but the empty and "Other" ones has a position
+  const positions = labels.map(label =>
+    label === EMPTY_VALUE_LABEL || label === OTHER_SERIES_LABEL ? null : grouping.positionOf(label));
+  const isNumeric = positions.some(position => position !== null) && positions.every((position, i) =>
+    position !== null || labels[i] === EMPTY_VALUE_LABEL || labels[i] === OTHER_SERIES_LABEL);
+
+  return {
+    labels,
+    positions: isNumeric ? positions : null,
+    series: yAxes.flatMap((column, j) => keys.map(key => ({
+      label: split ? seriesLabel(column, key, yAxes) : column,
+      column,
+      ...(split ? { splitValue: key } : {}),
+      values: labels.map(label => aggregate(buckets.get(label)?.get(key)?.[j], field))
+    })))
+  };
+};
+
+// e.g. "Sum of Revenue", "Count of Orders"
+export const describeAggregation = (aggregation: ChartAggregation, column: string) =>
+  `${CHART_AGGREGATIONS.find(a => a.id === aggregation)?.label ?? aggregation} of ${column}`;
+
+// Points for scatter plots; rows whose X or Y isn't a number are left out
+export const buildScatterSeries = (
+  data: Row[],
+  { xAxis, yAxes, splitBy = '', locale = DEFAULT_LOCALE_SETTINGS }: SeriesOptions
+): ScatterSeries[] => {
+  const toNumber = (value: unknown) => typeof value === 'number' ? value : parseLocaleNumber(value, locale);
+  const split = splitBy ? getSplitValues(data, splitBy) : null;
+  const keys: (string | undefined)[] = split
+    ? (split.hasOther ? [...split.values, OTHER_SERIES_LABEL] : split.values)
+    : [undefined];
+  const keyOf = (row: Row) => {
+    if (!split) return undefined;
+    const value = splitLabel(row[splitBy]);
+    return split.values.includes(value) ? value : OTHER_SERIES_LABEL;
+  };
+
+  return yAxes.flatMap(column => keys.map(key => ({
+    label: key === undefined ? `${column} vs ${xAxis}` : seriesLabel(column, key, yAxes),
+    column,
+    splitValue: key,
+    points: data
+      .filter(row => keyOf(row) === key)
+      .map(row => ({ x: toNumber(row[xAxis]), y: toNumber(row[column]) }))
+      .filter((point): point is { x: number; y: number } => point.x !== null && point.y !== null)
+  })));
+};
+
+// Each X value's share of the total across series, in percent
+export const toPercentStacked = (series: ChartSeries[]): ChartSeries[] => {
+  const length = Math.max(0, ...series.map(item => item.values.length));
+  const totals = Array.from({ length }, (_, i) =>
+    series.reduce((sum, item) => sum + Math.abs(item.values[i] ?? 0), 0)
+  );
+  return series.map(item => ({
+    ...item,
+    values: item.values.map((value, i) => value === null || totals[i] === 0 ? null : (value / totals[i]) * 100)
+  }));
+};
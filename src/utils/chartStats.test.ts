@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCorrelationMatrix,
+  buildDistributions,
+  buildHeatmap,
+  buildHistogram,
+  correlate,
+  DEFAULT_TRENDLINE,
+  describeDistribution,
+  describeTrend,
+  fitTrend,
+  TrendlineSettings
+} from './chartStats';
+import { DEFAULT_CHART_GROUPING } from './chartSeries';
+import type { Row } from './excelUtils';
+
+describe('describeDistribution', () => {
+  it('computes quartiles, Tukey whiskers and outliers', () => {
+    const stats = describeDistribution([9, 1, 2, 3, 4, 5, 6, 7, 8, 100], 'Score')!;
+    expect(stats).toMatchObject({
+      count: 10,
+      min: 1,
+      q1: 3.25,
+      median: 5.5,
+      q3: 7.75,
+      max: 100,
+      mean: 14.5,
+      whiskerLow: 1,
+      whiskerHigh: 9,
+      outliers: [100],
+    });
+    expect(Math.max(...stats.density.map(point => point.density))).toBe(1);
+    expect(describeDistribution([], 'Score')).toBeNull();
+  });
+
+  it('handles a single repeated value', () => {
+    expect(describeDistribution([4, 4, 4], 'Score')!.density).toEqual([{ value: 4, density: 1 }]);
+  });
+});
+
+describe('buildDistributions', () => {
+  const scores: Row[] = [
+    { Team: 'A', Score: 1 },
+    { Team: 'A', Score: 3 },
+    { Team: 'B', Score: '2' },
+    { Team: '', Score: 5 },
+    { Team: 'B', Score: 'n/a' },
+  ];
+
+  it('makes one distribution per group, most frequent first', () => {
+    const groups = buildDistributions(scores, { valueColumn: 'Score', groupBy: 'Team' });
+    expect(groups.map(stats => [stats.label, stats.count])).toEqual([['A', 2], ['B', 1], ['(empty)', 1]]);
+    expect(buildDistributions(scores, { valueColumn: 'Score' })[0].count).toBe(4);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('counts rows per bin, skipping values that are not numbers', () => {
+    const data: Row[] = [1, 2, 3, 4, 'x'].map(Value => ({ Value }));
+    const { labels, series } = buildHistogram(data, { column: 'Value', bins: 3 });
+    expect(labels).toEqual(['1–2', '2–3', '3–4']);
+    expect(series).toEqual([expect.objectContaining({ label: 'Rows', values: [1, 1, 2] })]);
+  });
+});
+
+describe('buildHeatmap', () => {
+  it('aggregates values by X and row column', () => {
+    const data: Row[] = [
+      { Day: 'Mon', Shift: 'Early', Calls: 4 },
+      { Day: 'Mon', Shift: 'Early', Calls: 6 },
+      { Day: 'Tue', Shift: 'Late', Calls: 3 },
+    ];
+    expect(buildHeatmap(data, { xAxis: 'Day', rowColumn: 'Shift', valueColumn: 'Calls', grouping: DEFAULT_CHART_GROUPING })).toEqual({
+      xLabels: ['Mon', 'Tue'],
+      yLabels: ['Early', 'Late'],
+      cells: [[10, null], [null, 3]],
+    });
+  });
+});
+
+describe('correlation', () => {
+  it('uses the rows where both values are numbers', () => {
+    expect(correlate([1, 2, 3, null], [2, 4, 6, 1])).toBeCloseTo(1, 10);
+    expect(correlate([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1, 10);
+    expect(correlate([1, 2], [1, 2])).toBeNull();
+    expect(correlate([1, 1, 1], [1, 2, 3])).toBeNull();
+  });
+
+  it('fills a symmetric matrix', () => {
+    const data: Row[] = [{ A: 1, B: 2 }, { A: 2, B: 1 }, { A: 3, B: '0' }];
+    const { values } = buildCorrelationMatrix(data, ['A', 'B']);
+    expect(values[0][1]).toBeCloseTo(-1, 10);
+    expect(values[1][0]).toBe(values[0][1]);
+  });
+});
+
+describe('fitTrend', () => {
+  const line = [1, 2, 3, 4, 5].map(x => ({ x, y: 2 * x + 1 }));
+  const settings = (overrides: Partial<TrendlineSettings>): TrendlineSettings => ({ ...DEFAULT_TRENDLINE, ...overrides });
+
+  it('fits a line with its equation and R²', () => {
+    const fit = fitTrend(line, settings({ type: 'linear' }))!;
+    expect(describeTrend('Revenue', fit)).toBe('Revenue: y = 2x + 1 (R² = 1.000)');
+    expect(fit.lastX).toBe(5);
+    expect(fit.at(10)!.y).toBeCloseTo(21, 9);
+  });
+
+  it('fits polynomials on large X values such as timestamps', () => {
+    const points = [0, 1, 2, 3, 4, 5].map(day => {
+      const x = 1.7e12 + day * 86400000;
+      return { x, y: day * day - day };
+    });
+    const fit = fitTrend(points, settings({ type: 'polynomial', degree: 2 }))!;
+    expect(fit.rSquared).toBeCloseTo(1, 9);
+    expect(fit.at(points[3].x)!.y).toBeCloseTo(6, 6);
+  });
+
+  it('fits exponentials through ln y and refuses values at or below zero', () => {
+    const growth = [0, 1, 2, 3].map(x => ({ x, y: 3 * Math.exp(0.5 * x) }));
+    expect(fitTrend(growth, settings({ type: 'exponential' }))!.equation).toBe('y = 3e^(0.5x)');
+    expect(fitTrend([...growth, { x: 4, y: 0 }], settings({ type: 'exponential' }))).toBeNull();
+  });
+
+  it('averages the last values and carries the last average forward', () => {
+    const points = [{ x: 1, y: 2 }, { x: 2, y: 4 }, { x: 2, y: 6 }, { x: 3, y: 8 }, { x: 4, y: 10 }];
+    const fit = fitTrend(points, settings({ type: 'moving-average', window: 2 }))!;
+    expect(fit.equation).toBe('2-point moving average');
+    expect(fit.at(1)).toBeNull();
+    expect(fit.at(3)!.y).toBe(6.5);
+    expect(fit.at(6)!.y).toBe(9);
+  });
+
+  it('widens the band past the last X', () => {
+    const noisy = [1, 2, 3, 4, 5, 6].map(x => ({ x, y: x + (x % 2 ? 0.5 : -0.5) }));
+    const fit = fitTrend(noisy, settings({ type: 'linear' }))!;
+    const width = (x: number) => fit.at(x)!.upper - fit.at(x)!.lower;
+    expect(width(6.5)).toBeGreaterThan(width(6));
+    expect(fitTrend(noisy.slice(0, 2), settings({ type: 'linear' }))).toBeNull();
+  });
+
+  // Regression: spreading every point into Math.max overflowed the call stack
+  it('fits large series', () => {
+    const points = Array.from({ length: 200_000 }, (_, i) => ({ x: i, y: 3 * i }));
+    const fit = fitTrend(points, settings({ type: 'linear' }))!;
+    expect(fit.lastX).toBe(199_999);
+    expect(fit.equation).toBe('y = 3x');
+  });
+});
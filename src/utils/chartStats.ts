@@ -0,0 +1,503 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import { quantile } from './outliers';
+import { buildCategorySeries, CategorySeries, ChartGrouping, getSplitValues, OTHER_SERIES_LABEL } from './chartSeries';
+import { EMPTY_VALUE_LABEL } from './gridUtils';
+import type { Row } from './excelUtils';
+
+// Data behind the statistical chart types: distributions for box and violin
+// plots (Tukey whiskers at 1.5 IQR, Gaussian kernel density), category ×
+// category heatmaps and Pearson correlation matrices. Also the least-squares
+// regression shared by line and scatter trendlines (linear, polynomial,
+// exponential, with R² and 95% bands: a confidence band for the fitted line
+// and a wider prediction band for forecasts past the last X value) and
+// moving averages.
+
+export type StatisticalChartType = 'histogram' | 'box' | 'violin' | 'heatmap' | 'correlation';
+
+export const STATISTICAL_CHART_TYPES: { id: StatisticalChartType; label: string }[] = [
+  { id: 'histogram', label: 'Histogram' },
+  { id: 'box', label: 'Box Plot' },
+  { id: 'violin', label: 'Violin Plot' },
+  { id: 'heatmap', label: 'Heatmap' },
+  { id: 'correlation', label: 'Correlation Matrix' }
+];
+
+export const isStatisticalChart = (chartType: string): chartType is StatisticalChartType =>
+  STATISTICAL_CHART_TYPES.some(type => type.id === chartType);
+
+export const DEFAULT_HISTOGRAM_BINS = 10;
+
+// Points the density curve of a violin is evaluated at
+const DENSITY_POINTS = 40;
+const WHISKER_IQR = 1.5;
+
+export interface DistributionStats {
+  label: string;
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  // Furthest values within 1.5 IQR of the box
+  whiskerLow: number;
+  whiskerHigh: number;
+  outliers: number[];
+  // Kernel density estimate from min to max; peaks are scaled to 1
+  density: { value: number; density: number }[];
+}
+
+export interface HeatmapData {
+  xLabels: string[];
+  yLabels: string[];
+  // cells[y][x]; null when no rows fall in the cell
+  cells: (number | null)[][];
+}
+
+export interface CorrelationMatrix {
+  columns: string[];
+  // values[i][j] is the correlation of columns i and j; null with fewer than 3 shared rows
+  values: (number | null)[][];
+}
+
+const toNumber = (value: unknown, locale: LocaleSettings) =>
+  typeof value === 'number' ? (isFinite(value) ? value : null) : parseLocaleNumber(value, locale);
+
+// Silverman's rule of thumb, falling back to a tenth of the range for spread-out ties
+const bandwidth = (sorted: Float64Array, mean: number) => {
+  const n = sorted.length;
+  const sd = Math.sqrt(sorted.reduce((sum, x) => sum + (x - mean) ** 2, 0) / Math.max(1, n - 1));
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd;
+  const h = 0.9 * spread * Math.pow(n, -0.2);
+  return h > 0 ? h : (sorted[n - 1] - sorted[0]) / 10;
+};
+
+const estimateDensity = (sorted: Float64Array, mean: number) => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const h = bandwidth(sorted, mean);
+  if (!(h > 0)) return [{ value: min, density: 1 }];
+
+  const points = Array.from({ length: DENSITY_POINTS }, (_, i) => {
+    const value = min + ((max - min) * i) / (DENSITY_POINTS - 1);
+    const density = sorted.reduce((sum, x) => sum + Math.exp(-0.5 * ((value - x) / h) ** 2), 0);
+    return { value, density };
+  });
+  const peak = Math.max(...points.map(point => point.density));
+  return points.map(point => ({ value: point.value, density: peak > 0 ? point.density / peak : 0 }));
+};
+
+export const describeDistribution = (numbers: number[], label: string): DistributionStats | null => {
+  if (numbers.length === 0) return null;
+  const sorted = Float64Array.from(numbers).sort();
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const lower = q1 - WHISKER_IQR * (q3 - q1);
+  const upper = q3 + WHISKER_IQR * (q3 - q1);
+  const inside = sorted.filter(x => x >= lower && x <= upper);
+  const mean = sorted.reduce((sum, x) => sum + x, 0) / sorted.length;
+
+  return {
+    label,
+    count: sorted.length,
+    min: sorted[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: sorted[sorted.length - 1],
+    mean,
+    whiskerLow: inside.length > 0 ? inside[0] : q1,
+    whiskerHigh: inside.length > 0 ? inside[inside.length - 1] : q3,
+    outliers: Array.from(sorted.filter(x => x < lower || x > upper)),
+    density: estimateDensity(sorted, mean)
+  };
+};
+
+// Row counts per bin of a numeric column, one series per split value when split
+export const buildHistogram = (
+  data: Row[],
+  { column, splitBy = '', bins = DEFAULT_HISTOGRAM_BINS, locale = DEFAULT_LOCALE_SETTINGS }: { column: string; splitBy?: string; bins?: number; locale?: LocaleSettings }
+): CategorySeries => {
+  const numeric = data.filter(row => toNumber(row[column], locale) !== null);
+  const histogram = buildCategorySeries(numeric, { xAxis: column, yAxes: [column], splitBy, aggregation: 'count', bins, locale });
+  return { ...histogram, series: histogram.series.map(item => ({ ...item, label: splitBy ? item.label : 'Rows' })) };
+};
+
+// One distribution of `valueColumn` per value of `groupBy` (most frequent
+// first, the rest as "Other"), or a single one without a group column
+export const buildDistributions = (
+  data: Row[],
+  { valueColumn, groupBy = '', locale = DEFAULT_LOCALE_SETTINGS }: { valueColumn: string; groupBy?: string; locale?: LocaleSettings }
+): DistributionStats[] => {
+  if (!groupBy) {
+    const numbers = data.map(row => toNumber(row[valueColumn], locale)).filter((n): n is number => n !== null);
+    const stats = describeDistribution(numbers, valueColumn);
+    return stats ? [stats] : [];
+  }
+
+  const { values, hasOther } = getSplitValues(data, groupBy);
+  const groups = new Map<string, number[]>([...values, ...(hasOther ? [OTHER_SERIES_LABEL] : [])].map(key => [key, []]));
+  data.forEach(row => {
+    const number = toNumber(row[valueColumn], locale);
+    if (number === null) return;
+    const raw = row[groupBy];
+    const key = raw === null || raw === undefined || raw === '' ? EMPTY_VALUE_LABEL : String(raw);
+    groups.get(groups.has(key) ? key : OTHER_SERIES_LABEL)?.push(number);
+  });
+
+  return [...groups.entries()]
+    .map(([label, numbers]) => describeDistribution(numbers, label))
+    .filter((stats): stats is DistributionStats => stats !== null);
+};
+
+// Aggregated `valueColumn` per X value (columns) and `rowColumn` value (rows);
+// X values are bucketed, binned and cut to the top N like other charts
+export const buildHeatmap = (
+  data: Row[],
+  { xAxis, rowColumn, valueColumn, grouping, locale = DEFAULT_LOCALE_SETTINGS }: {
+    xAxis: string;
+    rowColumn: string;
+    valueColumn: string;
+    grouping: ChartGrouping;
+    locale?: LocaleSettings;
+  }
+): HeatmapData => {
+  const { labels, series } = buildCategorySeries(data, { xAxis, yAxes: [valueColumn], splitBy: rowColumn, locale, ...grouping });
+  return {
+    xLabels: labels,
+    yLabels: series.map(item => item.splitValue ?? item.label),
+    cells: series.map(item => item.values)
+  };
+};
+
+// Pearson correlation over the rows where both columns are numbers
+export const correlate = (xs: (number | null)[], ys: (number | null)[]) => {
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    if (x === null || y === null) return;
+    n++;
+    sumX += x;
+    sumY += y;
+  });
+  if (n < 3) return null;
+
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    if (x === null || y === null) return;
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+export const buildCorrelationMatrix = (data: Row[], columns: string[], locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS): CorrelationMatrix => {
+  const numbers = columns.map(column => data.map(row => toNumber(row[column], locale)));
+  return {
+    columns,
+    values: columns.map((_, i) => columns.map((__, j) => correlate(numbers[i], numbers[j])))
+  };
+};
+
+export type TrendlineType = 'none' | 'linear' | 'polynomial' | 'exponential' | 'moving-average';
+
+export const TRENDLINE_TYPES: { id: TrendlineType; label: string }[] = [
+  { id: 'none', label: 'No trendline' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'polynomial', label: 'Polynomial' },
+  { id: 'exponential', label: 'Exponential' },
+  { id: 'moving-average', label: 'Moving average' }
+];
+
+export const POLYNOMIAL_DEGREES = [2, 3, 4];
+export const MOVING_AVERAGE_WINDOWS = [3, 5, 7, 12];
+export const FORECAST_PERIODS = [3, 6, 12];
+
+export interface TrendlineSettings {
+  type: TrendlineType;
+  // Polynomial trendlines
+  degree: number;
+  // Moving averages: points averaged
+  window: number;
+  // Shade the 95% confidence band around the fitted line
+  confidence: boolean;
+  // Periods continued past the last X value of time-series lines; 0 for none
+  forecast: number;
+}
+
+export const DEFAULT_TRENDLINE: TrendlineSettings = { type: 'none', degree: 2, window: 3, confidence: false, forecast: 0 };
+
+export interface TrendPoint {
+  x: number;
+  y: number;
+  // 95% band
+  lower: number;
+  upper: number;
+}
+
+export interface TrendFit {
+  // e.g. "y = 2.5x + 3" or "3-point moving average"
+  equation: string;
+  rSquared: number | null;
+  // Last X value the fit saw; points past it are forecasts
+  lastX: number;
+  // Fitted value with its confidence band, or forecast with its prediction band; null where undefined
+  at: (x: number) => TrendPoint | null;
+}
+
+// Two-sided 95% critical value of Student's t (Cornish–Fisher expansion around
+// the normal quantile; within 0.1% of tables from 3 degrees of freedom)
+const tCritical = (df: number) => {
+  const z = 1.959964;
+  if (!isFinite(df)) return z;
+  const z3 = z ** 3;
+  const z5 = z ** 5;
+  const z7 = z ** 7;
+  return z
+    + (z3 + z) / (4 * df)
+    + (5 * z5 + 16 * z3 + 3 * z) / (96 * df ** 2)
+    + (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / (384 * df ** 3);
+};
+
+// Inverse of a small symmetric matrix by Gauss–Jordan elimination; null when singular
+const invertMatrix = (matrix: number[][]) => {
+  const n = matrix.length;
+  const rows = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(...matrix.map(row => Math.max(...row.map(Math.abs))));
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) <= scale * 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const divisor = rows[col][col];
+    rows[col] = rows[col].map(value => value / divisor);
+    rows.forEach((row, r) => {
+      if (r === col) return;
+      const factor = row[col];
+      rows[r] = row.map((value, c) => value - factor * rows[col][c]);
+    });
+  }
+  return rows.map(row => row.slice(n));
+};
+
+export interface LeastSquaresFit {
+  // In the predictors' own units
+  intercept: number;
+  coefficients: number[];
+  rSquared: number | null;
+  adjustedRSquared: number | null;
+  // Residual standard error and its degrees of freedom
+  sigma: number;
+  df: number;
+  predict: (predictors: number[]) => number;
+  // x₀ᵀ(XᵀX)⁻¹x₀: the variance of the fitted value at x₀ over σ²
+  leverage: (predictors: number[]) => number;
+}
+
+// Ordinary least squares of y on one or more predictors plus an intercept; the
+// same fit as performRegression in backend/src/utils/analysisUtils.js, so
+// trendlines and regression analyses agree. Predictors are centred and scaled
+// before solving, which keeps the normal equations well conditioned for large
+// values such as timestamps. Null without more rows than terms, or when the
+// predictors are collinear.
+export const leastSquares = (rows: number[][], ys: number[]): LeastSquaresFit | null => {
+  const n = rows.length;
+  const terms = (rows[0]?.length ?? 0) + 1;
+  if (n <= terms) return null;
+
+  const means = rows[0].map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+  const scales = means.map((mean, j) => Math.sqrt(rows.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / n) || 1);
+  const standardize = (predictors: number[]) => [1, ...predictors.map((value, j) => (value - means[j]) / scales[j])];
+
+  const gram = Array.from({ length: terms }, () => new Array(terms).fill(0));
+  const moments = new Array(terms).fill(0);
+  rows.forEach((row, r) => {
+    const z = standardize(row);
+    z.forEach((a, i) => {
+      moments[i] += a * ys[r];
+      z.forEach((b, j) => { gram[i][j] += a * b; });
+    });
+  });
+  const inverse = invertMatrix(gram);
+  if (!inverse) return null;
+  const beta = inverse.map(row => row.reduce((sum, value, j) => sum + value * moments[j], 0));
+  const predict = (predictors: number[]) => standardize(predictors).reduce((sum, value, i) => sum + value * beta[i], 0);
+
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const totalSS = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const residualSS = rows.reduce((sum, row, r) => sum + (ys[r] - predict(row)) ** 2, 0);
+  const df = n - terms;
+  const rSquared = totalSS > 0 ? 1 - residualSS / totalSS : null;
+  const coefficients = beta.slice(1).map((b, j) => b / scales[j]);
+
+  return {
+    intercept: beta[0] - coefficients.reduce((sum, c, j) => sum + c * means[j], 0),
+    coefficients,
+    rSquared,
+    adjustedRSquared: rSquared === null ? null : 1 - ((1 - rSquared) * (n - 1)) / df,
+    sigma: Math.sqrt(residualSS / df),
+    df,
+    predict,
+    leverage: (predictors: number[]) => {
+      const z = standardize(predictors);
+      return z.reduce((sum, a, i) => sum + a * z.reduce((inner, b, j) => inner + inverse[i][j] * b, 0), 0);
+    }
+  };
+};
+
+const SUPERSCRIPTS = ['', '', '²', '³', '⁴'];
+
+const formatCoefficient = (value: number) => String(Number(value.toPrecision(4)));
+
+// "y = 1.5x² − 2x + 3" from coefficients of x⁰, x¹, …
+const formatPolynomial = (coefficients: number[]) => {
+  const terms = coefficients
+    .map((value, power) => ({ value, power }))
+    .reverse()
+    .filter(term => Number(term.value.toPrecision(4)) !== 0);
+  if (terms.length === 0) return 'y = 0';
+  return terms.reduce((text, { value, power }, i) => {
+    const magnitude = formatCoefficient(Math.abs(value));
+    const variable = power === 0 ? '' : `x${SUPERSCRIPTS[power] ?? `^${power}`}`;
+    const body = variable && magnitude === '1' ? variable : `${magnitude}${variable}`;
+    if (i === 0) return `${text}${value < 0 ? '−' : ''}${body}`;
+    return `${text} ${value < 0 ? '−' : '+'} ${body}`;
+  }, 'y = ');
+};
+
+const binomial = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - i + 1)) / i;
+  return result;
+};
+
+interface PolynomialFit {
+  // Coefficients of x⁰, x¹, … in the original units
+  coefficients: number[];
+  rSquared: number | null;
+  lastX: number;
+  at: (x: number) => TrendPoint;
+}
+
+// Least squares on powers of the standardized X: x and x² of values such as
+// timestamps are nearly collinear, powers of (x − mean)/spread are not
+const fitPolynomial = (points: { x: number; y: number }[], degree: number): PolynomialFit | null => {
+  const n = points.length;
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / n;
+  const spread = Math.sqrt(points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0) / n) || 1;
+  const powers = (x: number) => Array.from({ length: degree }, (_, k) => ((x - meanX) / spread) ** (k + 1));
+
+  const fit = leastSquares(points.map(point => powers(point.x)), points.map(point => point.y));
+  if (!fit) return null;
+  const beta = [fit.intercept, ...fit.coefficients];
+  const t = tCritical(fit.df);
+  const lastX = points.reduce((max, point) => Math.max(max, point.x), -Infinity);
+
+  // Back from standardized X: b·((x − m)/s)^k expands by the binomial theorem.
+  // Terms too small to move any fitted value are rounding noise and read as 0.
+  const largestX = points.reduce((max, point) => Math.max(max, Math.abs(point.x)), 0);
+  const largestY = points.reduce((max, point) => Math.max(max, Math.abs(point.y)), 0) || 1;
+  const coefficients = beta.map((_, j) => {
+    const value = beta.reduce((sum, b, k) => k < j ? sum : sum + b * spread ** -k * binomial(k, j) * (-meanX) ** (k - j), 0);
+    return Math.abs(value) * largestX ** j < largestY * 1e-9 ? 0 : value;
+  });
+
+  return {
+    coefficients,
+    rSquared: fit.rSquared,
+    lastX,
+    at: (x: number) => {
+      const row = powers(x);
+      const y = fit.predict(row);
+      // New observations past the data also carry the residual spread
+      const margin = t * fit.sigma * Math.sqrt(Math.max(0, fit.leverage(row)) + (x > lastX ? 1 : 0));
+      return { x, y, lower: y - margin, upper: y + margin };
+    }
+  };
+};
+
+// Trailing average of the last `window` X values in order; points sharing an X
+// (common in scatter plots) are averaged into one value first. Forecasts carry
+// the last average forward.
+const fitMovingAverage = (points: { x: number; y: number }[], window: number): TrendFit | null => {
+  const totals = new Map<number, { sum: number; count: number }>();
+  points.forEach(point => {
+    const total = totals.get(point.x) ?? { sum: 0, count: 0 };
+    totals.set(point.x, { sum: total.sum + point.y, count: total.count + 1 });
+  });
+  const sorted = [...totals].map(([x, { sum, count }]) => ({ x, y: sum / count })).sort((a, b) => a.x - b.x);
+  if (sorted.length < window + 1) return null;
+  const averages = new Map<number, number>();
+  for (let i = window - 1; i < sorted.length; i++) {
+    const slice = sorted.slice(i - window + 1, i + 1);
+    averages.set(sorted[i].x, slice.reduce((sum, point) => sum + point.y, 0) / window);
+  }
+  const residuals = points.filter(point => averages.has(point.x)).map(point => point.y - averages.get(point.x)!);
+  const sigma = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(1, residuals.length - 1));
+  const t = tCritical(Math.max(1, residuals.length - 1));
+  const lastX = sorted[sorted.length - 1].x;
+  const last = averages.get(lastX)!;
+
+  return {
+    equation: `${window}-point moving average`,
+    rSquared: null,
+    lastX,
+    at: (x: number) => {
+      const forecast = x > lastX;
+      const y = forecast ? last : averages.get(x);
+      if (y === undefined) return null;
+      const margin = t * sigma * (forecast ? Math.sqrt(1 + 1 / window) : 1 / Math.sqrt(window));
+      return { x, y, lower: y - margin, upper: y + margin };
+    }
+  };
+};
+
+// The trendline of the points for the given settings; null when there are too few points
+// (or, for exponential fits, any Y at or below zero)
+export const fitTrend = (points: { x: number; y: number }[], settings: TrendlineSettings): TrendFit | null => {
+  const finite = points.filter(point => isFinite(point.x) && isFinite(point.y));
+  switch (settings.type) {
+    case 'linear':
+    case 'polynomial': {
+      const fit = fitPolynomial(finite, settings.type === 'linear' ? 1 : settings.degree);
+      return fit && { equation: formatPolynomial(fit.coefficients), rSquared: fit.rSquared, lastX: fit.lastX, at: fit.at };
+    }
+    case 'exponential': {
+      // y = a·e^(bx) is a line through ln y; R² is that line's, as spreadsheets report it
+      if (finite.some(point => point.y <= 0)) return null;
+      const fit = fitPolynomial(finite.map(point => ({ x: point.x, y: Math.log(point.y) })), 1);
+      if (!fit) return null;
+      const [intercept, slope] = fit.coefficients;
+      return {
+        equation: `y = ${formatCoefficient(Math.exp(intercept))}e^(${formatCoefficient(slope)}x)`,
+        rSquared: fit.rSquared,
+        lastX: fit.lastX,
+        at: (x: number) => {
+          const point = fit.at(x);
+          return { x, y: Math.exp(point.y), lower: Math.exp(point.lower), upper: Math.exp(point.upper) };
+        }
+      };
+    }
+    case 'moving-average':
+      return fitMovingAverage(finite, settings.window);
+    default:
+      return null;
+  }
+};
+
+// Legend text, e.g. "Revenue: y = 2.5x + 3 (R² = 0.912)"
+export const describeTrend = (label: string, fit: TrendFit) =>
+  `${label}: ${fit.equation}${fit.rSquared === null ? '' : ` (R² = ${fit.rSquared.toFixed(3)})`}`;
@@ -0,0 +1,223 @@
+import { ColumnTypeInfo } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import { quantile } from './outliers';
+import type { Row } from './excelUtils';
+
+// Column profiles for the DataPreview profile drawer. Rows are read in chunks
+// that yield to the browser between them, and every statistic is kept in a
+// single-pass accumulator, so large sheets profile without freezing the page.
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface NumericProfile {
+  // Date columns are profiled as timestamps (ms since epoch)
+  isDate: boolean;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  quantiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  skewness: number;
+  // Excess kurtosis: 0 for a normal distribution
+  kurtosis: number;
+  histogram: HistogramBin[];
+}
+
+export interface ColumnProfile {
+  column: string;
+  typeInfo: ColumnTypeInfo;
+  rowCount: number;
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  distinctRatio: number;
+  // Distinct counting stops at MAX_TRACKED_DISTINCT values
+  distinctCapped: boolean;
+  topValues: { value: string; count: number }[];
+  patterns: { pattern: string; count: number }[];
+  length: { min: number; max: number; mean: number } | null;
+  numeric: NumericProfile | null;
+}
+
+interface ProfileOptions {
+  locale?: LocaleSettings;
+  chunkSize?: number;
+  onProgress?: (processed: number, total: number) => void;
+  // Checked between chunks; profiling stops early when it returns true
+  isCancelled?: () => boolean;
+}
+
+const MAX_TRACKED_DISTINCT = 100000;
+const MAX_PATTERN_LENGTH = 24;
+const TOP_VALUE_LIMIT = 10;
+const PATTERN_LIMIT = 5;
+const MAX_HISTOGRAM_BINS = 30;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// "INV-00123" -> "AAA-99999"; long values are cut off
+export const toPattern = (value: string) => {
+  const pattern = value.replace(/[A-Za-z]/g, 'A').replace(/\d/g, '9');
+  return pattern.length > MAX_PATTERN_LENGTH ? `${pattern.slice(0, MAX_PATTERN_LENGTH)}…` : pattern;
+};
+
+const topEntries = (counts: Map<string, number>, limit: number) =>
+  [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+
+const buildHistogram = (sorted: Float64Array, isInteger: boolean): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ start: min, end: max, count: sorted.length }];
+
+  // Sturges' rule, with one bin per value for small integer ranges
+  let binCount = Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.log2(sorted.length) + 1));
+  if (isInteger && max - min + 1 <= MAX_HISTOGRAM_BINS) binCount = max - min + 1;
+  const width = isInteger && binCount === max - min + 1 ? 1 : (max - min) / binCount;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: isInteger && width === 1 ? min + i : min + (i + 1) * width,
+    count: 0
+  }));
+  sorted.forEach(value => {
+    const index = Math.min(binCount - 1, Math.floor((value - min) / width));
+    bins[index].count++;
+  });
+  return bins;
+};
+
+// Single-pass accumulator: mean and central moments use the online update
+// from Terriberry (extending Welford's variance algorithm)
+const createAccumulator = (typeInfo: ColumnTypeInfo, locale: LocaleSettings) => {
+  const isNumeric = typeInfo.baseType === 'number';
+  const isDate = typeInfo.baseType === 'date';
+  const counts = new Map<string, number>();
+  const patterns = new Map<string, number>();
+  const numbers: number[] = [];
+  let rowCount = 0;
+  let nullCount = 0;
+  let distinctCapped = false;
+  let lengthMin = Infinity;
+  let lengthMax = 0;
+  let lengthSum = 0;
+  let n = 0;
+  let mean = 0;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+
+  const addNumber = (x: number) => {
+    numbers.push(x);
+    const n1 = n;
+    n++;
+    const delta = x - mean;
+    const deltaN = delta / n;
+    const deltaN2 = deltaN * deltaN;
+    const term1 = delta * deltaN * n1;
+    mean += deltaN;
+    m4 += term1 * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * m2 - 4 * deltaN * m3;
+    m3 += term1 * deltaN * (n - 2) - 3 * deltaN * m2;
+    m2 += term1;
+  };
+
+  const add = (value: unknown) => {
+    rowCount++;
+    if (isEmpty(value)) {
+      nullCount++;
+      return;
+    }
+
+    const text = String(value);
+    if (counts.has(text)) counts.set(text, counts.get(text)! + 1);
+    else if (counts.size < MAX_TRACKED_DISTINCT) counts.set(text, 1);
+    else distinctCapped = true;
+
+    const pattern = toPattern(text);
+    patterns.set(pattern, (patterns.get(pattern) || 0) + 1);
+    lengthMin = Math.min(lengthMin, text.length);
+    lengthMax = Math.max(lengthMax, text.length);
+    lengthSum += text.length;
+
+    if (isNumeric) {
+      const number = parseLocaleNumber(value, locale);
+      if (number !== null) addNumber(number);
+    } else if (isDate) {
+      const time = Date.parse(text);
+      if (!isNaN(time)) addNumber(time);
+    }
+  };
+
+  const finish = (column: string): ColumnProfile => {
+    const nonNull = rowCount - nullCount;
+    let numeric: NumericProfile | null = null;
+
+    if (n > 0) {
+      const sorted = Float64Array.from(numbers).sort();
+      const variance = m2 / n;
+      numeric = {
+        isDate,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean,
+        stdDev: Math.sqrt(variance),
+        quantiles: {
+          p5: quantile(sorted, 0.05),
+          p25: quantile(sorted, 0.25),
+          p50: quantile(sorted, 0.5),
+          p75: quantile(sorted, 0.75),
+          p95: quantile(sorted, 0.95)
+        },
+        skewness: variance > 0 ? (m3 / n) / Math.pow(variance, 1.5) : 0,
+        kurtosis: variance > 0 ? (m4 / n) / (variance * variance) - 3 : 0,
+        histogram: buildHistogram(sorted, !isDate && sorted.every(Number.isInteger))
+      };
+    }
+
+    return {
+      column,
+      typeInfo,
+      rowCount,
+      nullCount,
+      nullRatio: rowCount > 0 ? nullCount / rowCount : 0,
+      distinctCount: counts.size,
+      distinctRatio: nonNull > 0 ? counts.size / nonNull : 0,
+      distinctCapped,
+      topValues: topEntries(counts, TOP_VALUE_LIMIT).map(([value, count]) => ({ value, count })),
+      patterns: topEntries(patterns, PATTERN_LIMIT).map(([pattern, count]) => ({ pattern, count })),
+      length: nonNull > 0 ? { min: lengthMin, max: lengthMax, mean: lengthSum / nonNull } : null,
+      numeric
+    };
+  };
+
+  return { add, finish };
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Profiles one column. Resolves to null when cancelled.
+export const profileColumn = async (
+  rows: Row[],
+  column: string,
+  typeInfo: ColumnTypeInfo,
+  { locale = DEFAULT_LOCALE_SETTINGS, chunkSize = 5000, onProgress, isCancelled }: ProfileOptions = {}
+): Promise<ColumnProfile | null> => {
+  const accumulator = createAccumulator(typeInfo, locale);
+
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    const end = Math.min(rows.length, start + chunkSize);
+    for (let i = start; i < end; i++) accumulator.add(rows[i][column]);
+    onProgress?.(end, rows.length);
+    if (end < rows.length) {
+      await nextTick();
+      if (isCancelled?.()) return null;
+    }
+  }
+
+  return accumulator.finish(column);
+};
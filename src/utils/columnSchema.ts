@@ -0,0 +1,217 @@
+import { BaseColumnType, ColumnTypeInfo, describeColumnType, inferColumnType, SEMANTIC_TYPES, SemanticType, toBoolean } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber, parseLocaleNumberParts } from './localeParsing';
+import { OutlierSettings } from './outliers';
+import type { Row } from './excelUtils';
+
+// User corrections to the inferred schema, stored per file on the backend as
+// the data dictionary (File.columns). Entries are keyed by the column name as
+// parsed from the file, so a rename never loses its settings.
+export interface ColumnSchemaEntry {
+  name: string;
+  displayName?: string;
+  // Overrides the inferred semantic type
+  semanticType?: SemanticType;
+  format?: DisplayFormat;
+  description?: string;
+  // Outlier method for numeric columns; IQR fences when unset
+  outliers?: OutlierSettings;
+}
+
+export type DisplayFormat =
+  | 'auto'
+  | 'integer'
+  | 'decimal-2'
+  | 'thousands'
+  | 'percent'
+  | 'currency'
+  | 'date-iso'
+  | 'date-dmy'
+  | 'date-mdy'
+  | 'date-long'
+  | 'uppercase'
+  | 'lowercase'
+  | 'zero-pad-5';
+
+export const DISPLAY_FORMATS: { id: DisplayFormat; label: string; baseTypes: BaseColumnType[] }[] = [
+  { id: 'auto', label: 'As stored', baseTypes: ['number', 'date', 'text'] },
+  { id: 'integer', label: 'Whole number (1235)', baseTypes: ['number'] },
+  { id: 'decimal-2', label: 'Two decimals (1234.57)', baseTypes: ['number'] },
+  { id: 'thousands', label: 'Grouped (1,234.57)', baseTypes: ['number'] },
+  { id: 'percent', label: 'Percent (12.5%)', baseTypes: ['number'] },
+  { id: 'currency', label: 'Currency ($1,234.57)', baseTypes: ['number'] },
+  { id: 'date-iso', label: '2024-12-31', baseTypes: ['date'] },
+  { id: 'date-dmy', label: '31/12/2024', baseTypes: ['date'] },
+  { id: 'date-mdy', label: '12/31/2024', baseTypes: ['date'] },
+  { id: 'date-long', label: 'Dec 31, 2024', baseTypes: ['date'] },
+  { id: 'uppercase', label: 'UPPERCASE', baseTypes: ['text'] },
+  { id: 'lowercase', label: 'lowercase', baseTypes: ['text'] },
+  { id: 'zero-pad-5', label: 'Zero-padded to 5 digits (ZIP)', baseTypes: ['text'] }
+];
+
+export const getColumnName = (entry: ColumnSchemaEntry) => entry.displayName?.trim() || entry.name;
+
+// Type overrides keyed by the (renamed) column name, as used in the data
+export const getTypeOverrides = (schema: ColumnSchemaEntry[] = []): Record<string, SemanticType> => {
+  const overrides: Record<string, SemanticType> = {};
+  schema.forEach(entry => {
+    if (entry.semanticType) overrides[getColumnName(entry)] = entry.semanticType;
+  });
+  return overrides;
+};
+
+// Outlier settings keyed by the (renamed) column name
+export const getOutlierSettings = (schema: ColumnSchemaEntry[] = []): Record<string, OutlierSettings> => {
+  const settings: Record<string, OutlierSettings> = {};
+  schema.forEach(entry => {
+    if (entry.outliers) settings[getColumnName(entry)] = entry.outliers;
+  });
+  return settings;
+};
+
+// Changes the entry of a column given by its current (possibly renamed) name,
+// adding an entry when the column has none yet
+export const updateSchemaEntry = (schema: ColumnSchemaEntry[], column: string, changes: Partial<ColumnSchemaEntry>) => {
+  const existing = schema.find(entry => getColumnName(entry) === column);
+  if (!existing) return [...schema, { name: column, ...changes }];
+  return schema.map(entry => entry === existing ? { ...entry, ...changes } : entry);
+};
+
+// Converts a stored value to the representation an overridden type expects
+const coerceToType = (value: unknown, semanticType: SemanticType, locale: LocaleSettings) => {
+  if (value === null || value === undefined || value === '') return value;
+
+  const { storageType } = SEMANTIC_TYPES[semanticType];
+  if (storageType === 'string') return String(value);
+  if (storageType === 'boolean') return toBoolean(value) ?? value;
+  if (storageType === 'number' && typeof value === 'string') {
+    // Formatted currency and percentages keep their text; plain numbers become numbers
+    const parsed = parseLocaleNumberParts(value, locale);
+    return parsed && !parsed.currency && !parsed.percent ? parsed.value : value;
+  }
+  return value;
+};
+
+// Renames columns and applies type overrides. Rows keep their `_id`.
+export const applyColumnSchema = (data: Row[], schema: ColumnSchemaEntry[] = [], locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS) => {
+  if (schema.length === 0) return data;
+  const entries = new Map(schema.map(entry => [entry.name, entry]));
+
+  return data.map(row => {
+    const mapped: Row = {};
+    Object.keys(row).forEach(key => {
+      const entry = entries.get(key);
+      if (!entry || key === '_id') {
+        mapped[key] = row[key];
+        return;
+      }
+      mapped[getColumnName(entry)] = entry.semanticType ? coerceToType(row[key], entry.semanticType, locale) : row[key];
+    });
+    return mapped;
+  });
+};
+
+// Undoes the renames of applyColumnSchema, so edited rows can be stored under
+// the column names of the file
+export const revertColumnSchema = (data: Row[], schema: ColumnSchemaEntry[] = []) => {
+  const sourceNames = new Map(schema.map(entry => [getColumnName(entry), entry.name]));
+  if (![...sourceNames].some(([name, source]) => name !== source)) return data;
+
+  return data.map(row => {
+    const mapped: Row = {};
+    Object.keys(row).forEach(key => {
+      mapped[key === '_id' ? key : sourceNames.get(key) ?? key] = row[key];
+    });
+    return mapped;
+  });
+};
+
+// Validates renames: names must be non-empty and unique across the sheet
+export const validateColumnSchema = (schema: ColumnSchemaEntry[], columnNames: string[]): string | null => {
+  const finalNames = columnNames.map(name => {
+    const entry = schema.find(e => e.name === name);
+    return entry ? getColumnName(entry) : name;
+  });
+  if (finalNames.some(name => name === '_id')) return 'The name "_id" is reserved';
+  const duplicate = finalNames.find((name, index) => finalNames.indexOf(name) !== index);
+  return duplicate ? `Two columns would both be called "${duplicate}"` : null;
+};
+
+const MONTH_ABBREVIATIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Formats a cell for display; the stored value is never changed
+export const formatCellValue = (
+  value: unknown,
+  format: DisplayFormat | undefined,
+  typeInfo?: ColumnTypeInfo,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (!format || format === 'auto') return String(value);
+
+  const number = parseLocaleNumber(value, locale);
+  const grouped = (n: number, digits: number) =>
+    n.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+  switch (format) {
+    case 'integer':
+      return number === null ? String(value) : String(Math.round(number));
+    case 'decimal-2':
+      return number === null ? String(value) : number.toFixed(2);
+    case 'thousands':
+      return number === null ? String(value) : grouped(number, Number.isInteger(number) ? 0 : 2);
+    case 'percent':
+      return number === null ? String(value) : `${typeInfo?.semanticType === 'percentage' ? number : +(number * 100).toFixed(6)}%`;
+    case 'currency':
+      return number === null ? String(value) : `${typeInfo?.unit || '$'}${grouped(number, 2)}`;
+    case 'date-iso':
+    case 'date-dmy':
+    case 'date-mdy':
+    case 'date-long': {
+      const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})(.*)$/);
+      if (!match) return String(value);
+      const [, year, month, day, rest] = match;
+      const time = rest.replace(/^T/, ' ');
+      if (format === 'date-dmy') return `${day}/${month}/${year}${time}`;
+      if (format === 'date-mdy') return `${month}/${day}/${year}${time}`;
+      if (format === 'date-long') return `${MONTH_ABBREVIATIONS[parseInt(month, 10) - 1]} ${parseInt(day, 10)}, ${year}${time}`;
+      return `${year}-${month}-${day}${time}`;
+    }
+    case 'uppercase':
+      return String(value).toUpperCase();
+    case 'lowercase':
+      return String(value).toLowerCase();
+    case 'zero-pad-5':
+      return /^\d+$/.test(String(value)) ? String(value).padStart(5, '0') : String(value);
+    default:
+      return String(value);
+  }
+};
+
+export interface DataDictionaryEntry {
+  column: string;
+  type: string;
+  format?: string;
+  description?: string;
+}
+
+// Column meanings and types for AI prompts, using the corrected schema
+export const toDataDictionary = (
+  data: Row[],
+  schema: ColumnSchemaEntry[] = [],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): DataDictionaryEntry[] => {
+  const overrides = getTypeOverrides(schema);
+  return Object.keys(data[0] || {})
+    .filter(column => column !== '_id')
+    .map(column => {
+      const entry = schema.find(e => getColumnName(e) === column);
+      const typeInfo = inferColumnType(data.map(row => row[column]), { locale, name: column, override: overrides[column] });
+      const format = DISPLAY_FORMATS.find(f => f.id === entry?.format && f.id !== 'auto');
+      return {
+        column,
+        type: describeColumnType(typeInfo),
+        ...(format ? { format: format.label } : {}),
+        ...(entry?.description ? { description: entry.description } : {})
+      };
+    });
+};
@@ -0,0 +1,168 @@
+import { DEFAULT_LOCALE_SETTINGS, isLocaleDate, LocaleSettings, parseLocaleNumberParts } from './localeParsing';
+
+// Semantic column types, shared with the backend (backend/src/utils/columnTypes.js).
+// Each one maps to a coarse `baseType` used for chart axes on the client and
+// to the `storageType` stored in the backend columnSchema `type` field.
+export type SemanticType =
+  | 'boolean'
+  | 'integer'
+  | 'decimal'
+  | 'currency'
+  | 'percentage'
+  | 'category'
+  | 'identifier'
+  | 'email'
+  | 'url'
+  | 'date'
+  | 'datetime'
+  | 'text';
+
+export type BaseColumnType = 'text' | 'number' | 'date';
+export type StorageType = 'string' | 'number' | 'date' | 'boolean';
+
+export interface ColumnTypeInfo {
+  semanticType: SemanticType;
+  baseType: BaseColumnType;
+  storageType: StorageType;
+  // Number of distinct non-empty values
+  cardinality: number;
+  // Currency symbol for currency columns
+  unit?: string;
+  // UTC offset shared by datetime values ("UTC", "+02:00"), when they carry one
+  timeZone?: string;
+}
+
+export const SEMANTIC_TYPES: Record<SemanticType, { label: string; baseType: BaseColumnType; storageType: StorageType; measure: boolean }> = {
+  boolean: { label: 'Boolean', baseType: 'text', storageType: 'boolean', measure: false },
+  integer: { label: 'Integer', baseType: 'number', storageType: 'number', measure: true },
+  decimal: { label: 'Decimal', baseType: 'number', storageType: 'number', measure: true },
+  currency: { label: 'Currency', baseType: 'number', storageType: 'number', measure: true },
+  percentage: { label: 'Percent', baseType: 'number', storageType: 'number', measure: true },
+  category: { label: 'Category', baseType: 'text', storageType: 'string', measure: false },
+  identifier: { label: 'ID', baseType: 'text', storageType: 'string', measure: false },
+  email: { label: 'Email', baseType: 'text', storageType: 'string', measure: false },
+  url: { label: 'URL', baseType: 'text', storageType: 'string', measure: false },
+  date: { label: 'Date', baseType: 'date', storageType: 'date', measure: false },
+  datetime: { label: 'Date & time', baseType: 'date', storageType: 'date', measure: false },
+  text: { label: 'Text', baseType: 'text', storageType: 'string', measure: false }
+};
+
+// A category has at most this many distinct values, and repeats on average
+const CATEGORY_MAX_CARDINALITY = 50;
+// Share of values that must match for pattern-based types (email, URL)
+const PATTERN_THRESHOLD = 0.9;
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Codes like "INV-00123" or "A1B2C3": no spaces, at least one digit
+const CODE_PATTERN = /^(?=.*\d)[A-Za-z0-9][A-Za-z0-9_-]{2,}$/;
+// Column names like "id", "Customer ID", "order_id", "userId", "SKU"
+const ID_NAME_PATTERN = /(^|[\s_-])(id|uuid|guid|key|code|sku)$|^id[\s_-]|[a-z]Id$/i;
+const TIME_ZONE_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+
+export const isBooleanLike = (value: unknown) =>
+  typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_TOKENS.has(value.trim().toLowerCase()));
+
+export const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  const token = value.trim().toLowerCase();
+  if (!BOOLEAN_TOKENS.has(token)) return null;
+  return token === 'true' || token === 'yes' || token === 'y';
+};
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  });
+  return best;
+};
+
+const withType = (semanticType: SemanticType, cardinality: number, extra: Partial<ColumnTypeInfo> = {}): ColumnTypeInfo => ({
+  semanticType,
+  baseType: SEMANTIC_TYPES[semanticType].baseType,
+  storageType: SEMANTIC_TYPES[semanticType].storageType,
+  cardinality,
+  ...extra
+});
+
+interface InferOptions {
+  locale?: LocaleSettings;
+  // The column name helps tell identifiers from plain numbers
+  name?: string;
+  // A type set by the user in the schema editor; skips inference
+  override?: SemanticType;
+}
+
+export const inferColumnType = (values: unknown[], { locale = DEFAULT_LOCALE_SETTINGS, name = '', override }: InferOptions = {}): ColumnTypeInfo => {
+  const nonEmptyValues = values.filter(v => v !== null && v !== undefined && v !== '');
+  const count = nonEmptyValues.length;
+  const cardinality = new Set(nonEmptyValues.map(v => String(v))).size;
+
+  if (override) {
+    if (override !== 'currency') return withType(override, cardinality);
+    const symbols = nonEmptyValues.map(v => parseLocaleNumberParts(v, locale)?.currency).filter((symbol): symbol is string => !!symbol);
+    return withType('currency', cardinality, symbols.length > 0 ? { unit: mostCommon(symbols) } : {});
+  }
+
+  if (count === 0) return withType('text', 0);
+
+  if (nonEmptyValues.every(isBooleanLike)) return withType('boolean', cardinality);
+
+  const allUnique = cardinality === count && count > 1;
+  const looksLikeIdName = ID_NAME_PATTERN.test(name.trim());
+
+  const numbers = nonEmptyValues.map(v => parseLocaleNumberParts(v, locale));
+  if (numbers.every(n => n !== null)) {
+    const parsed = numbers as NonNullable<(typeof numbers)[number]>[];
+    const allIntegers = parsed.every(n => Number.isInteger(n.value));
+    if (looksLikeIdName && allIntegers && allUnique) return withType('identifier', cardinality);
+
+    const symbols = parsed.map(n => n.currency).filter((symbol): symbol is string => symbol !== null);
+    if (symbols.length > count / 2) return withType('currency', cardinality, { unit: mostCommon(symbols) });
+    if (parsed.filter(n => n.percent).length > count / 2) return withType('percentage', cardinality);
+    return withType(allIntegers ? 'integer' : 'decimal', cardinality);
+  }
+
+  // If more than 60% of values look like dates, consider it a date column
+  const dates = nonEmptyValues.filter(v => isLocaleDate(v)).map(v => String(v).trim());
+  if (dates.length > count * 0.6) {
+    const withTime = dates.filter(v => /\d:\d{2}/.test(v));
+    if (withTime.length <= dates.length / 2) return withType('date', cardinality);
+    const zones = withTime
+      .map(v => v.match(TIME_ZONE_PATTERN)?.[1])
+      .filter((zone): zone is string => !!zone)
+      .map(zone => zone === 'Z' ? 'UTC' : zone.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2'));
+    return withType('datetime', cardinality, zones.length > 0 ? { timeZone: mostCommon(zones) } : {});
+  }
+
+  const strings = nonEmptyValues.map(v => String(v).trim());
+  const share = (pattern: RegExp) => strings.filter(v => pattern.test(v)).length / count;
+  if (share(EMAIL_PATTERN) >= PATTERN_THRESHOLD) return withType('email', cardinality);
+  if (share(URL_PATTERN) >= PATTERN_THRESHOLD) return withType('url', cardinality);
+
+  if (allUnique && (looksLikeIdName || strings.every(v => UUID_PATTERN.test(v) || CODE_PATTERN.test(v)))) {
+    return withType('identifier', cardinality);
+  }
+
+  if (cardinality <= CATEGORY_MAX_CARDINALITY && cardinality <= count / 2) return withType('category', cardinality);
+
+  return withType('text', cardinality);
+};
+
+// Whether a column makes sense as a chart measure (Y axis, sizes, sums)
+export const isMeasureType = (info: ColumnTypeInfo) => SEMANTIC_TYPES[info.semanticType].measure;
+
+// Badge text, e.g. "Currency (€)", "Category (12)", "Date & time (UTC)"
+export const describeColumnType = (info: ColumnTypeInfo) => {
+  const { label } = SEMANTIC_TYPES[info.semanticType];
+  if (info.semanticType === 'currency' && info.unit) return `${label} (${info.unit})`;
+  if (info.semanticType === 'category') return `${label} (${info.cardinality})`;
+  if (info.semanticType === 'datetime' && info.timeZone) return `${label} (${info.timeZone})`;
+  return label;
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendDatasets,
+  CombineError,
+  joinAll,
+  joinDatasets,
+  keyOf,
+  normalizeCombineOptions
+} from '../../backend/src/utils/combine.js';
+import { LOCALE_PRESETS } from './localeParsing';
+
+const german = LOCALE_PRESETS.find(p => p.id === 'de-DE')!.settings;
+
+describe('appendDatasets', () => {
+  const january = { label: 'January', data: [{ Region: 'West', Sales: 100 }, { Region: 'East', Sales: 200 }] };
+  const february = { label: 'February', data: [{ ' region ': 'North', SALES: '1.234,50', Notes: 'late' }], locale: german };
+
+  it('matches columns ignoring case and spacing and tags each row with its source', () => {
+    const { data, diagnostics } = appendDatasets([january, february]);
+    expect(data).toEqual([
+      { Source: 'January', Region: 'West', Sales: 100, Notes: '' },
+      { Source: 'January', Region: 'East', Sales: 200, Notes: '' },
+      { Source: 'February', Region: 'North', Sales: 1234.5, Notes: 'late' },
+    ]);
+    expect(diagnostics.sources[0].missingColumns).toEqual(['Notes']);
+    expect(diagnostics.sources[1].renamedColumns).toEqual([
+      { from: ' region ', to: 'Region' },
+      { from: 'SALES', to: 'Sales' },
+    ]);
+    expect(diagnostics.numericColumns).toEqual(['Sales']);
+  });
+
+  it('leaves numeric text alone when no source holds numbers', () => {
+    const { data } = appendDatasets([
+      { label: 'A', data: [{ Code: '1,5' }] },
+      { label: 'B', data: [{ Code: '2,5' }], locale: german },
+    ], { sourceColumn: '' });
+    expect(data).toEqual([{ Code: '1,5' }, { Code: '2,5' }]);
+  });
+
+  it('refuses a source column name that is already taken', () => {
+    expect(() => appendDatasets([january, february], { sourceColumn: ' region' })).toThrow(CombineError);
+  });
+});
+
+describe('keyOf', () => {
+  it('compares keys as trimmed text and skips blank ones', () => {
+    expect(keyOf({ Id: 1001 }, ['Id'])).toBe(keyOf({ Id: ' 1001 ' }, ['Id']));
+    expect(keyOf({ Id: 1, Year: '' }, ['Id', 'Year'])).toBeNull();
+  });
+});
+
+describe('joinDatasets', () => {
+  const orders = {
+    label: 'Orders',
+    data: [
+      { Customer: 1, Amount: 50 },
+      { Customer: 2, Amount: 70 },
+      { Customer: '', Amount: 10 },
+    ],
+  };
+  const customers = {
+    label: 'Customers',
+    data: [
+      { Id: '1', Name: 'Ana', Amount: 5 },
+      { Id: '1', Name: 'Ann', Amount: 6 },
+      { Id: '3', Name: 'Cy', Amount: 7 },
+    ],
+  };
+  const on = { leftKeys: ['Customer'], rightKeys: ['Id'] };
+
+  it('repeats left rows for every matching right row in an inner join', () => {
+    const { data, diagnostics } = joinDatasets(orders, customers, { ...on, type: 'inner' });
+    expect(data).toEqual([
+      { Customer: 1, Amount: 50, Name: 'Ana', 'Amount (Customers)': 5 },
+      { Customer: 1, Amount: 50, Name: 'Ann', 'Amount (Customers)': 6 },
+    ]);
+    expect(diagnostics).toMatchObject({
+      matchedLeftRows: 1,
+      matchedRightRows: 2,
+      unmatchedRightRows: 1,
+      leftMatchRate: 33.3,
+      duplicateRightKeys: 1,
+      blankLeftKeys: 1,
+      renamedColumns: [{ from: 'Amount', to: 'Amount (Customers)' }],
+      resultRows: 2,
+    });
+  });
+
+  it('keeps unmatched left rows in a left join', () => {
+    const { data } = joinDatasets(orders, customers, { ...on, type: 'left' });
+    expect(data.map(row => [row.Customer, row.Name])).toEqual([[1, 'Ana'], [1, 'Ann'], [2, ''], ['', '']]);
+  });
+
+  it('adds unmatched right rows with their keys in a full join', () => {
+    const { data } = joinDatasets(orders, customers, { ...on, type: 'full' });
+    expect(data[data.length - 1]).toEqual({ Customer: '3', Amount: '', Name: 'Cy', 'Amount (Customers)': 7 });
+  });
+
+  it('rejects unknown join types and missing key columns', () => {
+    expect(() => joinDatasets(orders, customers, { ...on, type: 'outer' })).toThrow(CombineError);
+    expect(() => joinDatasets(orders, customers, { type: 'inner', leftKeys: ['Customer'], rightKeys: ['Code'] }))
+      .toThrow('Key column "Code" in Customers not found');
+  });
+});
+
+describe('joinAll', () => {
+  it('joins each source onto the result so far', () => {
+    const { data, diagnostics } = joinAll([
+      { label: 'A', data: [{ Id: 1, A: 'a' }] },
+      { label: 'B', data: [{ Id: 1, B: 'b' }] },
+      { label: 'C', data: [{ Ref: 1, C: 'c' }] },
+    ], [
+      { type: 'inner', leftKeys: ['Id'], rightKeys: ['Id'] },
+      { type: 'inner', leftKeys: ['Id'], rightKeys: ['Ref'] },
+    ]);
+    expect(data).toEqual([{ Id: 1, A: 'a', B: 'b', C: 'c' }]);
+    expect(diagnostics.joins).toHaveLength(2);
+  });
+});
+
+describe('normalizeCombineOptions', () => {
+  it('needs two distinct files and a known mode', () => {
+    expect(normalizeCombineOptions({ files: ['a'], mode: 'append' }).error).toBeDefined();
+    expect(normalizeCombineOptions({ files: ['a', 'a'], mode: 'append' }).error).toBeDefined();
+    expect(normalizeCombineOptions({ files: ['a', 'b'], mode: 'merge' }).error).toBeDefined();
+    expect(normalizeCombineOptions({ files: ['a', 'b'], mode: 'append', sourceColumn: ' File ' }))
+      .toEqual({ options: { files: ['a', 'b'], mode: 'append', sourceColumn: 'File' } });
+  });
+
+  it('needs one join with matching key pairs per extra file', () => {
+    const body = { files: ['a', 'b'], mode: 'join' };
+    expect(normalizeCombineOptions({ ...body, joins: [] }).error).toBeDefined();
+    expect(normalizeCombineOptions({ ...body, joins: [{ type: 'left', leftKeys: ['Id'], rightKeys: [] }] }).error).toBeDefined();
+    expect(normalizeCombineOptions({ ...body, joins: [{ type: 'left', leftKeys: ['Id'], rightKeys: ['Id'], extra: 1 }] }).options.joins)
+      .toEqual([{ type: 'left', leftKeys: ['Id'], rightKeys: ['Id'] }]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCleaningFix,
+  calculateQualityScore,
+  countCoercible,
+  countDuplicateRows,
+  describeCleaningFix,
+  describeQualityScore,
+  previewCleaningFix,
+  toCase
+} from './dataCleaning';
+import { DEFAULT_OUTLIER_SETTINGS } from './outliers';
+import type { Row } from './excelUtils';
+
+const people: Row[] = [
+  { _id: 1, Name: '  ann  smith', City: 'paris', Age: 30, Score: '1,200' },
+  { _id: 2, Name: 'Bob', City: 'LONDON', Age: '', Score: '1,350' },
+  { _id: 3, Name: 'Cy', City: 'new york', Age: 40, Score: 'n/a' },
+  { _id: 4, Name: 'Bob', City: 'LONDON', Age: '', Score: '1,350' },
+  { _id: 5, Name: 'Dee', City: '', Age: 80, Score: 1300 },
+];
+
+const changedValues = (data: Row[], fix: Parameters<typeof previewCleaningFix>[1]) =>
+  previewCleaningFix(data, fix).changes.map(({ row, after }) => [row, after]);
+
+describe('fill missing values', () => {
+  it('fills with the mean, median or most common value', () => {
+    expect(changedValues(people, { kind: 'fill-missing', column: 'Age', strategy: 'mean' })).toEqual([[1, 50], [3, 50]]);
+    expect(changedValues(people, { kind: 'fill-missing', column: 'Age', strategy: 'median' })).toEqual([[1, 40], [3, 40]]);
+    expect(changedValues(people, { kind: 'fill-missing', column: 'City', strategy: 'mode' })).toEqual([[4, 'LONDON']]);
+  });
+
+  it('carries the previous value forward', () => {
+    expect(changedValues(people, { kind: 'fill-missing', column: 'Age', strategy: 'forward-fill' })).toEqual([[1, 30], [3, 40]]);
+  });
+
+  it('fills numeric columns with a number and others with text', () => {
+    expect(changedValues(people, { kind: 'fill-missing', column: 'Age', strategy: 'constant', value: '0' })).toEqual([[1, 0], [3, 0]]);
+    expect(changedValues(people, { kind: 'fill-missing', column: 'City', strategy: 'constant', value: '0' })).toEqual([[4, '0']]);
+    expect(changedValues(people, { kind: 'fill-missing', column: 'City', strategy: 'constant', value: '' })).toEqual([]);
+  });
+});
+
+describe('text fixes', () => {
+  it('trims and collapses whitespace', () => {
+    expect(changedValues(people, { kind: 'trim-whitespace', column: 'Name' })).toEqual([[0, 'ann smith']]);
+  });
+
+  it('changes case, leaving matching values alone', () => {
+    expect(changedValues(people, { kind: 'normalize-case', column: 'City', mode: 'title' }))
+      .toEqual([[0, 'Paris'], [1, 'London'], [2, 'New York'], [3, 'London']]);
+    expect(toCase('jean-luc o(brien)', 'title')).toBe('Jean-Luc O(Brien)');
+  });
+});
+
+describe('duplicates', () => {
+  it('finds rows repeating every value but the row number', () => {
+    expect(previewCleaningFix(people, { kind: 'remove-duplicates' }).removedRows).toEqual([3]);
+    expect(countDuplicateRows(people)).toBe(1);
+  });
+});
+
+describe('type coercion', () => {
+  it('converts readable numbers and clears the rest', () => {
+    const fix = { kind: 'coerce-type', column: 'Score', target: 'number' } as const;
+    const preview = previewCleaningFix(people, fix);
+    expect(preview.changes.map(({ row, after }) => [row, after])).toEqual([[0, 1200], [1, 1350], [2, ''], [3, 1350]]);
+    expect(describeCleaningFix(fix, preview)).toBe('Converted 3 values of "Score" to numbers and cleared 1 unreadable ones');
+    expect(countCoercible(people.map(row => row.Score), 'number')).toEqual({ converted: 3, cleared: 1 });
+  });
+
+  it('converts dates to YYYY-MM-DD', () => {
+    const data: Row[] = [{ When: '03/04/2024' }, { When: '2024-05-06' }, { When: 'soon' }];
+    expect(changedValues(data, { kind: 'coerce-type', column: 'When', target: 'date' })).toEqual([[0, '2024-03-04'], [2, '']]);
+  });
+});
+
+describe('cap outliers', () => {
+  it('caps only values outside the bounds', () => {
+    const data: Row[] = [10, 11, 12, 13, 12, 11, 100].map(value => ({ Value: value }));
+    const changes = previewCleaningFix(data, { kind: 'cap-outliers', column: 'Value', settings: DEFAULT_OUTLIER_SETTINGS }).changes;
+    expect(changes.map(change => change.row)).toEqual([6]);
+    expect(changes[0].after).toBeLessThan(100);
+  });
+});
+
+describe('applyCleaningFix', () => {
+  it('returns new rows without changing the input', () => {
+    const { rows } = applyCleaningFix(people, { kind: 'fill-missing', column: 'Age', strategy: 'median' });
+    expect(rows.map(row => row.Age)).toEqual([30, 40, 40, 40, 80]);
+    expect(people[1].Age).toBe('');
+    expect(rows[0]).toBe(people[0]);
+  });
+
+  it('drops removed rows', () => {
+    const { rows } = applyCleaningFix(people, { kind: 'remove-duplicates' });
+    expect(rows.map(row => row._id)).toEqual([1, 2, 3, 5]);
+  });
+});
+
+describe('quality score', () => {
+  it('charges columns more than 5% empty and duplicate rows', () => {
+    // Age 40% and City 20% empty, 20% duplicates: 20 points each
+    expect(calculateQualityScore(people)).toBe(40);
+    expect(describeQualityScore(40)).toBe('Poor');
+    expect(calculateQualityScore([])).toBe(100);
+  });
+});
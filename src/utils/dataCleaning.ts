@@ -0,0 +1,297 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleDate, parseLocaleNumber, parseLocaleNumberParts } from './localeParsing';
+import { computeOutlierBounds, DEFAULT_OUTLIER_SETTINGS, OutlierSettings, quantile } from './outliers';
+import type { Row } from './excelUtils';
+
+// Fixes for the cleaning workbench in DataPreview. A fix is plain data, so the
+// same object is previewed, applied and described; getDataCleaningSuggestions
+// (excelUtils) proposes them with sensible defaults the user can change.
+
+export type FillStrategy = 'mean' | 'median' | 'mode' | 'constant' | 'forward-fill';
+export type CaseMode = 'lower' | 'upper' | 'title';
+export type CoerceTarget = 'number' | 'date';
+
+export type CleaningFix =
+  | { kind: 'fill-missing'; column: string; strategy: FillStrategy; value?: string }
+  | { kind: 'trim-whitespace'; column: string }
+  | { kind: 'normalize-case'; column: string; mode: CaseMode }
+  | { kind: 'remove-duplicates' }
+  | { kind: 'cap-outliers'; column: string; settings: OutlierSettings }
+  | { kind: 'coerce-type'; column: string; target: CoerceTarget };
+
+export interface CleaningSuggestion {
+  id: string;
+  fix: CleaningFix;
+  title: string;
+  // What was found, e.g. "12 missing values (4.0% of rows)"
+  message: string;
+  severity: 'high' | 'medium' | 'low';
+  affectedCount: number;
+}
+
+export interface CellChange {
+  // Index into the data the fix was previewed on
+  row: number;
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface FixPreview {
+  changes: CellChange[];
+  // Indices of rows the fix deletes
+  removedRows: number[];
+}
+
+export const FILL_STRATEGIES: { id: FillStrategy; label: string; numericOnly: boolean }[] = [
+  { id: 'median', label: 'Median', numericOnly: true },
+  { id: 'mean', label: 'Mean', numericOnly: true },
+  { id: 'mode', label: 'Most common value', numericOnly: false },
+  { id: 'forward-fill', label: 'Forward fill (previous row)', numericOnly: false },
+  { id: 'constant', label: 'Constant', numericOnly: false }
+];
+
+export const CASE_MODES: { id: CaseMode; label: string }[] = [
+  { id: 'title', label: 'Title Case' },
+  { id: 'lower', label: 'lower case' },
+  { id: 'upper', label: 'UPPER CASE' }
+];
+
+export const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const MULTIPLE_SPACES = /\s{2,}/;
+
+export const hasExtraWhitespace = (value: unknown): value is string =>
+  typeof value === 'string' && value !== '' && (value !== value.trim() || MULTIPLE_SPACES.test(value));
+
+const trimWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+export const toCase = (value: string, mode: CaseMode) => {
+  if (mode === 'lower') return value.toLowerCase();
+  if (mode === 'upper') return value.toUpperCase();
+  return value.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_, separator, letter) => separator + letter.toUpperCase());
+};
+
+// Integer columns stay integers; everything else keeps two decimals
+const roundLike = (numbers: number[], value: number) =>
+  numbers.every(Number.isInteger) ? Math.round(value) : Math.round(value * 100) / 100;
+
+const columnNumbers = (data: Row[], column: string, locale: LocaleSettings) =>
+  data.map(row => parseLocaleNumber(row[column], locale)).filter((n): n is number => n !== null);
+
+const mostCommonValue = (values: unknown[]) => {
+  const counts = new Map<string, { value: unknown; count: number }>();
+  values.forEach(value => {
+    const key = String(value);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  });
+  const entries = [...counts.values()].sort((a, b) => b.count - a.count);
+  return entries.length > 0 ? entries[0].value : null;
+};
+
+// The value every missing cell gets; null when there is nothing to fill with.
+// Forward fill is handled per row.
+const fillValue = (data: Row[], fix: Extract<CleaningFix, { kind: 'fill-missing' }>, locale: LocaleSettings) => {
+  const present = data.map(row => row[fix.column]).filter(value => !isMissing(value));
+  const numbers = columnNumbers(data, fix.column, locale);
+
+  if (fix.strategy === 'mean' || fix.strategy === 'median') {
+    if (numbers.length === 0) return null;
+    const value = fix.strategy === 'mean'
+      ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+      : quantile(Float64Array.from(numbers).sort(), 0.5);
+    return roundLike(numbers, value);
+  }
+  if (fix.strategy === 'mode') return mostCommonValue(present);
+  if (fix.strategy === 'constant') {
+    const text = fix.value ?? '';
+    if (text === '') return null;
+    // Numeric columns get a number rather than text
+    const number = parseLocaleNumber(text, locale);
+    return number !== null && numbers.length === present.length && present.length > 0 ? number : text;
+  }
+  return null;
+};
+
+const duplicateRows = (data: Row[]) => {
+  const seen = new Set<string>();
+  const duplicates: number[] = [];
+  data.forEach((row, index) => {
+    // Rows are compared on their values, not their source row number
+    const { _id, ...values } = row;
+    const key = JSON.stringify(values);
+    if (seen.has(key)) duplicates.push(index);
+    else seen.add(key);
+  });
+  return duplicates;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const coerceValue = (value: unknown, target: CoerceTarget, locale: LocaleSettings) => {
+  if (target === 'number') {
+    if (typeof value === 'number') return value;
+    const parsed = parseLocaleNumberParts(value, locale);
+    if (!parsed) return '';
+    // Currency and percentages keep their formatting, like on import
+    return parsed.currency || parsed.percent ? value : parsed.value;
+  }
+  if (typeof value !== 'string') return '';
+  if (ISO_DATE.test(value.trim())) return value;
+  return parseLocaleDate(value, locale.dateOrder) ?? '';
+};
+
+// Values a coercion would change: unparseable ones (cleared) and parseable text
+export const countCoercible = (values: unknown[], target: CoerceTarget, locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS) => {
+  let converted = 0;
+  let cleared = 0;
+  values.forEach(value => {
+    if (isMissing(value)) return;
+    const after = coerceValue(value, target, locale);
+    if (after === '') cleared++;
+    else if (after !== value) converted++;
+  });
+  return { converted, cleared };
+};
+
+// Every cell a fix would change, without changing the data
+export const previewCleaningFix = (
+  data: Row[],
+  fix: CleaningFix,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): FixPreview => {
+  const changes: CellChange[] = [];
+  const change = (row: number, column: string, after: unknown) => {
+    const before = data[row][column];
+    if (after !== before) changes.push({ row, column, before, after });
+  };
+
+  switch (fix.kind) {
+    case 'remove-duplicates':
+      return { changes, removedRows: duplicateRows(data) };
+
+    case 'fill-missing': {
+      if (fix.strategy === 'forward-fill') {
+        let previous: unknown = null;
+        data.forEach((row, index) => {
+          const value = row[fix.column];
+          if (!isMissing(value)) previous = value;
+          else if (previous !== null) change(index, fix.column, previous);
+        });
+        break;
+      }
+      const value = fillValue(data, fix, locale);
+      if (value === null) break;
+      data.forEach((row, index) => {
+        if (isMissing(row[fix.column])) change(index, fix.column, value);
+      });
+      break;
+    }
+
+    case 'trim-whitespace':
+      data.forEach((row, index) => {
+        const value = row[fix.column];
+        if (hasExtraWhitespace(value)) change(index, fix.column, trimWhitespace(value));
+      });
+      break;
+
+    case 'normalize-case':
+      data.forEach((row, index) => {
+        const value = row[fix.column];
+        if (typeof value === 'string' && value !== '') change(index, fix.column, toCase(value, fix.mode));
+      });
+      break;
+
+    case 'cap-outliers': {
+      const numbers = columnNumbers(data, fix.column, locale);
+      const bounds = computeOutlierBounds(numbers, fix.settings || DEFAULT_OUTLIER_SETTINGS);
+      if (!bounds) break;
+      const lower = roundLike(numbers, bounds.lower);
+      const upper = roundLike(numbers, bounds.upper);
+      data.forEach((row, index) => {
+        const number = parseLocaleNumber(row[fix.column], locale);
+        if (number === null) return;
+        if (number < bounds.lower) change(index, fix.column, lower);
+        else if (number > bounds.upper) change(index, fix.column, upper);
+      });
+      break;
+    }
+
+    case 'coerce-type':
+      data.forEach((row, index) => {
+        const value = row[fix.column];
+        if (!isMissing(value)) change(index, fix.column, coerceValue(value, fix.target, locale));
+      });
+      break;
+  }
+
+  return { changes, removedRows: [] };
+};
+
+// Applies a fix, returning new rows (the input is left untouched) and what changed
+export const applyCleaningFix = (
+  data: Row[],
+  fix: CleaningFix,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+) => {
+  const preview = previewCleaningFix(data, fix, locale);
+  const updated = new Map<number, Row>();
+  preview.changes.forEach(({ row, column, after }) => {
+    const copy = updated.get(row) || { ...data[row] };
+    copy[column] = after;
+    updated.set(row, copy);
+  });
+  const removed = new Set(preview.removedRows);
+  const rows = data
+    .map((row, index) => updated.get(index) || row)
+    .filter((_, index) => !removed.has(index));
+  return { rows, preview };
+};
+
+// Short description for toasts and history, e.g. 'Filled 12 missing values in "Age" with the median'
+export const describeCleaningFix = (fix: CleaningFix, preview: FixPreview) => {
+  const count = preview.changes.length;
+  switch (fix.kind) {
+    case 'remove-duplicates':
+      return `Removed ${preview.removedRows.length} duplicate rows`;
+    case 'fill-missing': {
+      const method = fix.strategy === 'constant' ? `"${fix.value}"`
+        : fix.strategy === 'forward-fill' ? 'forward fill'
+        : FILL_STRATEGIES.find(s => s.id === fix.strategy)!.label.toLowerCase();
+      return `Filled ${count} missing values in "${fix.column}" (${method})`;
+    }
+    case 'trim-whitespace':
+      return `Trimmed whitespace in ${count} values of "${fix.column}"`;
+    case 'normalize-case':
+      return `Changed ${count} values of "${fix.column}" to ${CASE_MODES.find(m => m.id === fix.mode)!.label}`;
+    case 'cap-outliers':
+      return `Capped ${count} outliers in "${fix.column}"`;
+    case 'coerce-type': {
+      const cleared = preview.changes.filter(c => c.after === '').length;
+      return `Converted ${count - cleared} values of "${fix.column}" to ${fix.target === 'number' ? 'numbers' : 'dates'}` +
+        (cleared > 0 ? ` and cleared ${cleared} unreadable ones` : '');
+    }
+  }
+};
+
+// 0–100. Missing values cost as in the server's quality score (columns more than
+// 5% empty lose up to 20 points each); duplicate rows cost up to 20 more.
+export const calculateQualityScore = (data: Row[]) => {
+  if (!data || data.length === 0) return 100;
+  const columns = Object.keys(data[0]).filter(column => column !== '_id');
+  let score = 100;
+
+  columns.forEach(column => {
+    const nullPercentage = (data.filter(row => isMissing(row[column])).length / data.length) * 100;
+    if (nullPercentage > 5) score -= Math.min(20, nullPercentage);
+  });
+  score -= Math.min(20, (duplicateRows(data).length / data.length) * 100);
+
+  return Math.max(0, Math.round(score));
+};
+
+export const describeQualityScore = (score: number) =>
+  score >= 90 ? 'Excellent' : score >= 75 ? 'Good' : score >= 50 ? 'Fair' : 'Poor';
+
+export const countDuplicateRows = (data: Row[]) => duplicateRows(data).length;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { diffDatasets, DiffError, suggestDiffKeys } from '../../backend/src/utils/datasetDiff.js';
+import { LOCALE_PRESETS } from './localeParsing';
+
+const german = LOCALE_PRESETS.find(p => p.id === 'de-DE')!.settings;
+
+const column = (name: string, type = 'string', statistics: Record<string, number> = {}) => ({ name, type, statistics });
+
+const lastWeek = {
+  data: [
+    { SKU: 'A1', Name: 'Bolt', Price: 1000 },
+    { SKU: 'B2', Name: 'Nut', Price: 5 },
+    { SKU: 'C3', Name: 'Gear', Price: 12 },
+  ],
+  columns: [column('SKU'), column('Name'), column('Price', 'number', { mean: 339, nullCount: 0 })],
+};
+
+const thisWeek = {
+  data: [
+    { SKU: 'A1', Name: 'Bolt', Price: '1.000', Stock: 4 },
+    { SKU: 'B2', Name: 'Nut ', Price: '6', Stock: 0 },
+    { SKU: 'D4', Name: 'Cog', Price: '', Stock: 9 },
+  ],
+  columns: [column('SKU'), column('Name'), column('Price', 'string', { nullCount: 1 }), column('Stock', 'number')],
+  locale: german,
+};
+
+describe('suggestDiffKeys', () => {
+  it('prefers unique columns named like identifiers', () => {
+    expect(suggestDiffKeys(lastWeek, thisWeek, ['Name', 'SKU'])).toEqual(['SKU']);
+    expect(suggestDiffKeys({ data: [{ SKU: 'A' }, { SKU: 'A' }] }, thisWeek, ['SKU'])).toEqual([]);
+  });
+});
+
+describe('diffDatasets', () => {
+  const diff = diffDatasets(lastWeek, thisWeek);
+
+  it('matches rows on the suggested key', () => {
+    expect(diff.keys).toEqual(['SKU']);
+    expect(diff.matchedBy).toBe('key');
+    expect(diff.summary).toMatchObject({ added: 1, removed: 1, changed: 1, unchanged: 1, changedCells: 1 });
+    expect(diff.addedRows.map(row => row.SKU)).toEqual(['D4']);
+    expect(diff.removedRows.map(row => row.SKU)).toEqual(['C3']);
+  });
+
+  it('compares cells as numbers in each version\'s locale and as trimmed text', () => {
+    expect(diff.changedRows).toEqual([{
+      key: { SKU: 'B2' },
+      row: thisWeek.data[1],
+      changes: [{ column: 'Price', before: 5, after: '6' }],
+    }]);
+    expect(diff.changedColumns).toEqual({ Price: 1 });
+  });
+
+  it('reports schema and statistic changes', () => {
+    expect(diff.schema).toEqual({
+      addedColumns: ['Stock'],
+      removedColumns: [],
+      typeChanges: [{ column: 'Price', before: 'number', after: 'string' }],
+    });
+    const price = diff.statistics.find(entry => entry.column === 'Price');
+    expect(price.delta).toEqual({ nullCount: 1 });
+  });
+
+  it('matches whole rows when there is no key', () => {
+    const rows = diffDatasets(
+      { data: [{ A: 1 }, { A: 1 }, { A: 2 }], columns: [column('A')] },
+      { data: [{ A: '1' }, { A: 3 }], columns: [column('A')] }
+    );
+    expect(rows.matchedBy).toBe('row');
+    expect(rows.summary).toMatchObject({ added: 1, removed: 2, changed: 0, unchanged: 1, duplicateKeys: 1 });
+  });
+
+  it('rejects key columns missing from either version', () => {
+    expect(() => diffDatasets(lastWeek, thisWeek, { keys: ['Stock'] })).toThrow(DiffError);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { gridToRows, resolveTableLayout } from './excelUtils';
+
+// The worker hands whole sheets to resolveTableLayout, so a sheet with tens
+// of thousands of rows must not spread rows or cells into function arguments
+const largeGrid = (rows: number) => [
+  ['Report', null, null, null],
+  ['Date', 'Region', 'Units', 'Revenue'],
+  ...Array.from({ length: rows }, (_, i) => [`2024-01-${String((i % 28) + 1).padStart(2, '0')}`, `R${i % 7}`, i % 40, i * 10]),
+];
+
+describe('large sheets', () => {
+  it('resolves the layout of a 100k-row sheet', () => {
+    const layout = resolveTableLayout(largeGrid(100000));
+    expect(layout.region).toEqual({ headerRow: 1, headerRowCount: 1, firstDataRow: 2, lastDataRow: 100001, firstColumn: 0, lastColumn: 3 });
+    expect(layout.headers).toEqual(['Date', 'Region', 'Units', 'Revenue']);
+  });
+
+  it('converts every row of a 100k-row sheet', () => {
+    const { data } = gridToRows(largeGrid(100000));
+    expect(data).toHaveLength(100000);
+    expect(data[99999]).toEqual({ _id: 100000, Date: '2024-01-12', Region: 'R4', Units: 39, Revenue: 999990 });
+  });
+});
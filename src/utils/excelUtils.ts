@@ -1,72 +1,230 @@
 
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
+import { buildHeaderNames, detectTableRegion, normalizeRegion, MergedRange, TableRegion } from './tableDetection';
+import { ColumnTypeInfo, inferColumnType, SemanticType, toBoolean } from './columnTypes';
+import type { ColumnSchemaEntry } from './columnSchema';
+import type { PipelineStep } from './pipeline';
+import { DEFAULT_OUTLIER_SETTINGS, describeOutlierSettings, detectOutliers, OutlierSettings } from './outliers';
+import { CleaningSuggestion, countCoercible, countDuplicateRows, hasExtraWhitespace, isMissing, toCase } from './dataCleaning';
+import { DateOrder, DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleDateTime, parseLocaleNumber, parseLocaleNumberParts, resolveDateOrder } from './localeParsing';
+
+// A parsed row: cell values by column name, plus the row number `_id` given
+// to every row read from a sheet
+export type Row = Record<string, unknown> & { _id?: number };
 
 export interface ExcelColumn {
   name: string;
+  // Coarse type used for chart axes; see typeInfo for the semantic type
   type: 'text' | 'number' | 'date';
+  typeInfo: ColumnTypeInfo;
   values: any[];
 }
 
-export const detectColumnType = (values: any[]): 'text' | 'number' | 'date' => {
-  const nonEmptyValues = values.filter(v => v !== null && v !== undefined && v !== '');
-  
-  if (nonEmptyValues.length === 0) return 'text';
-  
-  // Check if all values are numbers
-  const numberCount = nonEmptyValues.filter(v => {
-    if (typeof v === 'number') return true;
-    if (typeof v === 'string') {
-      // Remove common number formatting (commas, currency symbols, etc.)
-      const cleaned = v.replace(/[$,\s%]/g, '');
-      return !isNaN(Number(cleaned)) && cleaned !== '';
-    }
-    return false;
-  }).length;
-  
-  if (numberCount === nonEmptyValues.length) return 'number';
-  
-  // Check if values look like dates
-  const dateCount = nonEmptyValues.filter(v => {
-    if (typeof v === 'string') {
-      // Enhanced date pattern matching
-      const datePatterns = [
-        /^\d{4}-\d{2}-\d{2}$/,           // YYYY-MM-DD
-        /^\d{1,2}\/\d{1,2}\/\d{4}$/,     // MM/DD/YYYY or M/D/YYYY
-        /^\d{1,2}-\d{1,2}-\d{4}$/,       // MM-DD-YYYY or M-D-YYYY
-        /^\d{2}\/\d{2}\/\d{4}$/,         // DD/MM/YYYY
-        /^\d{4}\/\d{2}\/\d{2}$/,         // YYYY/MM/DD
-        /^[A-Za-z]{3}\s\d{1,2},?\s\d{4}$/, // Jan 1, 2023 or Jan 1 2023
-        /^\d{1,2}\s[A-Za-z]{3}\s\d{4}$/,   // 1 Jan 2023
-      ];
-      
-      const matchesPattern = datePatterns.some(pattern => pattern.test(v));
-      if (matchesPattern) {
-        const date = new Date(v);
-        return !isNaN(date.getTime()) && date.getFullYear() > 1900 && date.getFullYear() < 2100;
+export interface SheetDataset {
+  sheetName: string;
+  data: Row[];
+  fileId?: string | null;
+  region?: TableRegion;
+  locale?: LocaleSettings;
+  // Columns whose dd/mm vs mm/dd order could not be told from the data
+  ambiguousDateColumns?: string[];
+  // User corrections from the schema editor (the file's data dictionary)
+  schema?: ColumnSchemaEntry[];
+  // Rows as loaded, before the recorded pipeline ran; `data` is the result
+  sourceData?: Row[];
+  pipeline?: PipelineStep[];
+  // Undone steps, most recent last
+  redoSteps?: PipelineStep[];
+}
+
+export interface TableLayout {
+  region: TableRegion;
+  headers: string[];
+  // Day/month order per column (null when the column has no such dates)
+  dateOrders: (DateOrder | null)[];
+  ambiguousDateColumns: string[];
+}
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+// Lists every sheet in a workbook with its used-range size, for the sheet picker
+export const getSheetSummaries = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, rowCount: 0, columnCount: 0 };
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      rowCount: range.e.r - range.s.r + 1,
+      columnCount: range.e.c - range.s.c + 1
+    };
+  });
+};
+
+// Reads a worksheet as a grid anchored at A1, so grid indices match sheet
+// coordinates (and merge ranges). Text comes back as displayed; numeric cells
+// keep their value and date cells become YYYY-MM-DD, so the locale settings
+// only ever apply to text.
+export const worksheetToGrid = (worksheet: XLSX.WorkSheet): unknown[][] => {
+  const ref = worksheet['!ref'];
+  if (!ref) return [];
+  const range = XLSX.utils.decode_range(ref);
+  const grid: unknown[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: '', // Default value for empty cells
+    raw: false, // This helps with date parsing
+    blankrows: true,
+    range: { s: { r: 0, c: 0 }, e: range.e }
+  });
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || !grid[r]) continue;
+      if (cell.t === 'n' && typeof cell.v === 'number') {
+        // Time-only cells (serial below 1) keep their displayed text
+        const isDate = cell.z && XLSX.SSF.is_date(cell.z);
+        if (isDate && cell.v < 1) continue;
+        const date = isDate ? XLSX.SSF.parse_date_code(cell.v) : null;
+        const pad = (n: number) => String(n).padStart(2, '0');
+        if (!date) {
+          grid[r][c] = cell.v;
+        } else {
+          // Serials with a fraction carry a time of day
+          const time = cell.v % 1 !== 0 ? `T${pad(date.H)}:${pad(date.M)}:${pad(Math.floor(date.S))}` : '';
+          grid[r][c] = `${date.y}-${pad(date.m)}-${pad(date.d)}${time}`;
+        }
+      } else if (cell.t === 'd' && cell.v instanceof Date) {
+        grid[r][c] = cell.v.toISOString().replace(/T00:00:00\.000Z$/, '').replace(/\.\d{3}Z$/, 'Z');
       }
     }
-    return false;
-  }).length;
-  
-  // If more than 60% of values look like dates, consider it a date column
-  if (dateCount > nonEmptyValues.length * 0.6) return 'date';
-  
-  return 'text';
+  }
+  return grid;
+};
+
+const coerceCellValue = (value: unknown, locale: LocaleSettings, dateOrder: DateOrder | null) => {
+  // Handle null/undefined values
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    return value;
+  }
+
+  // Plain numbers become numbers; currency and percentages keep their formatting
+  const number = parseLocaleNumberParts(value, locale);
+  if (number && !number.currency && !number.percent) {
+    return number.value;
+  }
+
+  // Dates are stored as YYYY-MM-DD (plus the time, if any), read with the
+  // order resolved for the column
+  const date = parseLocaleDateTime(value, dateOrder || locale.dateOrder);
+  if (date) {
+    return date;
+  }
+
+  return value;
+};
+
+// Resolves the table region (detected unless overridden), its column names and
+// the day/month order of each date column
+export const resolveTableLayout = (
+  grid: unknown[][],
+  regionOverride?: TableRegion,
+  merges: MergedRange[] = [],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): TableLayout => {
+  if (grid.length === 0 || grid.every(row => row.every(cell => cell === ''))) {
+    throw new Error("The sheet appears to be empty");
+  }
+
+  const region = normalizeRegion(grid, regionOverride || detectTableRegion(grid, merges));
+  const headers = buildHeaderNames(grid, region, merges);
+
+  if (region.lastDataRow < region.firstDataRow) {
+    throw new Error("The sheet must contain at least a header row and one data row");
+  }
+
+  const dateOrders: (DateOrder | null)[] = [];
+  const ambiguousDateColumns: string[] = [];
+  headers.forEach((header, colIndex) => {
+    const values: unknown[] = [];
+    for (let r = region.firstDataRow; r <= region.lastDataRow; r++) {
+      values.push(grid[r]?.[region.firstColumn + colIndex]);
+    }
+    const resolution = resolveDateOrder(values, locale.dateOrder);
+    dateOrders.push(resolution?.order || null);
+    if (resolution?.ambiguous) ambiguousDateColumns.push(header);
+  });
+
+  return { region, headers, dateOrders, ambiguousDateColumns };
+};
+
+// Maps one grid row inside the region to a row object, or null for blank rows
+export const cellsToRow = (cells: unknown[], layout: TableLayout, id: number, locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS) => {
+  const { region, headers, dateOrders } = layout;
+  const row = cells.slice(region.firstColumn, region.lastColumn + 1);
+  if (!row.some(cell => cell !== null && cell !== undefined && cell !== '')) return null;
+
+  const rowData: Row = { _id: id };
+  headers.forEach((header, colIndex) => {
+    rowData[header] = coerceCellValue(row[colIndex], locale, dateOrders[colIndex]);
+  });
+  return rowData;
+};
+
+// Converts a grid into row objects using the detected (or overridden) table region
+export const gridToRows = (
+  grid: unknown[][],
+  regionOverride?: TableRegion,
+  merges: MergedRange[] = [],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+) => {
+  const layout = resolveTableLayout(grid, regionOverride, merges, locale);
+  const { region } = layout;
+  const data: Row[] = [];
+
+  for (let r = region.firstDataRow; r <= region.lastDataRow; r++) {
+    const row = cellsToRow(grid[r] || [], layout, data.length + 1, locale);
+    if (row) data.push(row);
+  }
+
+  return { data, ...layout };
+};
+
+export const parseWorksheet = (worksheet: XLSX.WorkSheet, regionOverride?: TableRegion, locale?: LocaleSettings) => {
+  const grid = worksheetToGrid(worksheet);
+  return gridToRows(grid, regionOverride, worksheet['!merges'] || [], locale);
+};
+
+export const detectColumnType = (values: unknown[], locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS, name?: string): 'text' | 'number' | 'date' => {
+  return inferColumnType(values, { locale, name }).baseType;
 };
 
-export const analyzeExcelData = (data: any[]): ExcelColumn[] => {
+export const analyzeExcelData = (
+  data: Row[],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  overrides: Record<string, SemanticType> = {}
+): ExcelColumn[] => {
   if (!data || data.length === 0) return [];
   
   const columns = Object.keys(data[0]);
   
   return columns.map(columnName => {
     const values = data.map(row => row[columnName]);
-    const type = detectColumnType(values);
+    const typeInfo = inferColumnType(values, { locale, name: columnName, override: overrides[columnName] });
     
     return {
       name: columnName,
-      type,
+      type: typeInfo.baseType,
+      typeInfo,
       values
     };
   });
@@ -89,23 +247,24 @@ export const exportDataToExcel = (data: any[], filename: string = 'exported_data
   }
 };
 
-export const getDataStatistics = (data: any[], columnName: string) => {
+export const getDataStatistics = (
+  data: Row[],
+  columnName: string,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  override?: SemanticType
+) => {
   const values = data.map(row => row[columnName]).filter(v => v !== null && v !== undefined && v !== '');
   
   if (values.length === 0) return null;
   
-  const type = detectColumnType(values);
+  const typeInfo = inferColumnType(values, { locale, name: columnName, override });
+  const { semanticType, cardinality } = typeInfo;
   
-  if (type === 'number') {
-    const numbers = values.map(v => {
-      if (typeof v === 'number') return v;
-      if (typeof v === 'string') {
-        // Handle formatted numbers (currency, percentages, etc.)
-        const cleaned = v.replace(/[$,\s%]/g, '');
-        return Number(cleaned);
-      }
-      return Number(v);
-    }).filter(n => !isNaN(n));
+  if (typeInfo.baseType === 'number') {
+    // Handles formatted numbers (currency, percentages, locale separators)
+    const numbers = values
+      .map(v => parseLocaleNumber(v, locale))
+      .filter((n): n is number => n !== null);
     
     if (numbers.length === 0) return null;
     
@@ -124,24 +283,46 @@ export const getDataStatistics = (data: any[], columnName: string) => {
       : sorted[mid];
     
     return {
-      type,
+      type: 'number' as const,
+      semanticType,
+      cardinality,
+      unit: typeInfo.unit,
       count: numbers.length,
-      min: Math.min(...numbers),
-      max: Math.max(...numbers),
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
       average: mean,
       median: median,
       sum: sum,
       stdDev: stdDev,
-      range: Math.max(...numbers) - Math.min(...numbers)
+      range: sorted[sorted.length - 1] - sorted[0]
     };
   }
   
-  return {
-    type,
+  const summary = {
+    type: typeInfo.baseType,
+    semanticType,
+    cardinality,
     count: values.length,
-    unique: new Set(values).size,
+    unique: cardinality,
     mostCommon: getMostCommonValue(values)
   };
+  
+  if (semanticType === 'boolean') {
+    const trueCount = values.filter(v => toBoolean(v) === true).length;
+    return { ...summary, trueCount, falseCount: values.length - trueCount };
+  }
+  
+  if (typeInfo.baseType === 'date') {
+    // Stored dates are ISO strings, so they sort chronologically as text
+    const sortedDates = values.map(v => String(v)).sort();
+    return { ...summary, earliest: sortedDates[0], latest: sortedDates[sortedDates.length - 1], timeZone: typeInfo.timeZone };
+  }
+  
+  if (semanticType === 'category') {
+    return { ...summary, topValues: getTopValues(values, 5) };
+  }
+  
+  return summary;
 };
 
 const getMostCommonValue = (values: any[]) => {
@@ -164,49 +345,144 @@ const getMostCommonValue = (values: any[]) => {
   return { value: mostCommon, count: maxCount };
 };
 
-// New utility functions for data cleaning suggestions
-export const getDataCleaningSuggestions = (data: any[]) => {
+const getTopValues = (values: unknown[], limit: number) => {
+  const frequency = new Map<string, number>();
+  values.forEach(value => {
+    const key = String(value);
+    frequency.set(key, (frequency.get(key) || 0) + 1);
+  });
+  return [...frequency.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }));
+};
+
+// Actionable fixes for the cleaning workbench, most severe first. Each
+// suggestion carries a default fix the user can adjust before applying it.
+export const getDataCleaningSuggestions = (
+  data: Row[],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  outlierSettings: Record<string, OutlierSettings> = {},
+  overrides: Record<string, SemanticType> = {}
+): CleaningSuggestion[] => {
   if (!data || data.length === 0) return [];
   
-  const suggestions: string[] = [];
-  const columns = Object.keys(data[0]);
-  const analyzedColumns = analyzeExcelData(data);
-  
-  // Check for missing values
-  const totalCells = data.length * columns.length;
-  const emptyCells = data.reduce((count, row) => {
-    return count + columns.filter(col => 
-      row[col] === null || row[col] === undefined || row[col] === ''
-    ).length;
-  }, 0);
-  
-  if (emptyCells > 0) {
-    const percentage = (emptyCells / totalCells) * 100;
-    suggestions.push(`${emptyCells} missing values found (${percentage.toFixed(1)}% of data)`);
-    
-    if (percentage > 30) {
-      suggestions.push('High percentage of missing data - consider data quality review');
-    }
+  const suggestions: CleaningSuggestion[] = [];
+  const analyzedColumns = analyzeExcelData(data, locale, overrides).filter(column => column.name !== '_id');
+  const percentOfRows = (count: number) => `${((count / data.length) * 100).toFixed(1)}% of rows`;
+
+  const duplicates = countDuplicateRows(data);
+  if (duplicates > 0) {
+    suggestions.push({
+      id: 'remove-duplicates',
+      fix: { kind: 'remove-duplicates' },
+      title: 'Remove duplicate rows',
+      message: `${duplicates} rows repeat an earlier row exactly (${percentOfRows(duplicates)})`,
+      severity: duplicates > data.length * 0.05 ? 'high' : 'medium',
+      affectedCount: duplicates
+    });
   }
   
-  // Check for potential outliers in numeric columns
   analyzedColumns.forEach(column => {
+    const { name, typeInfo } = column;
+    const present = column.values.filter(value => !isMissing(value));
+
+    // Missing values: numbers get the median, dates the previous row, text the most common value
+    const missing = column.values.length - present.length;
+    if (missing > 0 && present.length > 0) {
+      const ratio = missing / column.values.length;
+      suggestions.push({
+        id: `fill-missing:${name}`,
+        fix: {
+          kind: 'fill-missing',
+          column: name,
+          strategy: typeInfo.baseType === 'number' ? 'median' : typeInfo.baseType === 'date' ? 'forward-fill' : 'mode'
+        },
+        title: `Fill missing values in "${name}"`,
+        message: `${missing} missing values (${percentOfRows(missing)})`,
+        severity: ratio > 0.3 ? 'high' : ratio > 0.05 ? 'medium' : 'low',
+        affectedCount: missing
+      });
+    }
+
+    const padded = present.filter(hasExtraWhitespace).length;
+    if (padded > 0) {
+      suggestions.push({
+        id: `trim-whitespace:${name}`,
+        fix: { kind: 'trim-whitespace', column: name },
+        title: `Trim whitespace in "${name}"`,
+        message: `${padded} values have leading, trailing or repeated spaces`,
+        severity: 'low',
+        affectedCount: padded
+      });
+    }
+
+    // Text columns where the same value appears with different capitalisation
+    if (typeInfo.baseType === 'text' && typeInfo.semanticType !== 'identifier' && typeInfo.semanticType !== 'boolean') {
+      const variants = new Map<string, Set<string>>();
+      present.forEach(value => {
+        const text = String(value).trim();
+        const key = text.toLowerCase();
+        if (!variants.has(key)) variants.set(key, new Set());
+        variants.get(key)!.add(text);
+      });
+      const inconsistent = [...variants.values()].filter(set => set.size > 1);
+      if (inconsistent.length > 0) {
+        // Follow the style of the most common value
+        const sample = String(getMostCommonValue(present).value).trim();
+        const mode = sample === sample.toUpperCase() ? 'upper' : sample === sample.toLowerCase() ? 'lower' : 'title';
+        const affected = present.filter(value => typeof value === 'string' && toCase(value, mode) !== value).length;
+        suggestions.push({
+          id: `normalize-case:${name}`,
+          fix: { kind: 'normalize-case', column: name, mode },
+          title: `Normalize case in "${name}"`,
+          message: `${inconsistent.length} values are spelled with different capitalisation (e.g. ${[...inconsistent[0]].slice(0, 2).map(v => `"${v}"`).join(' / ')})`,
+          severity: 'medium',
+          affectedCount: affected
+        });
+      }
+    }
+
+    // Mostly-numeric text columns and date columns with unreadable values
+    const target = typeInfo.baseType === 'date'
+      ? 'date'
+      : typeInfo.baseType === 'text' && present.filter(value => parseLocaleNumber(value, locale) !== null).length >= present.length * 0.8
+        ? 'number'
+        : null;
+    if (target && present.length > 0) {
+      const { converted, cleared } = countCoercible(present, target, locale);
+      if (cleared > 0) {
+        suggestions.push({
+          id: `coerce-type:${name}`,
+          fix: { kind: 'coerce-type', column: name, target },
+          title: `Convert "${name}" to ${target === 'number' ? 'numbers' : 'dates'}`,
+          message: `${cleared} values can't be read as ${target === 'number' ? 'numbers' : 'dates'} and will be cleared` +
+            (converted > 0 ? `; ${converted} more are converted` : ''),
+          severity: cleared > present.length * 0.05 ? 'high' : 'medium',
+          affectedCount: converted + cleared
+        });
+      }
+    }
+
+    // Potential outliers, with each column's chosen method
     if (column.type === 'number') {
-      const stats = getDataStatistics(data, column.name);
-      if (stats && stats.type === 'number') {
-        const outliers = column.values.filter(value => {
-          const numValue = Number(value);
-          return Math.abs(numValue - stats.average) > 2 * stats.stdDev;
-        }).length;
-        
-        if (outliers > 0) {
-          suggestions.push(`${outliers} potential outliers detected in "${column.name}" column`);
-        }
+      const settings = outlierSettings[name] || DEFAULT_OUTLIER_SETTINGS;
+      const outliers = detectOutliers(column.values, settings, locale);
+      if (outliers && outliers.count > 0) {
+        suggestions.push({
+          id: `cap-outliers:${name}`,
+          fix: { kind: 'cap-outliers', column: name, settings },
+          title: `Cap outliers in "${name}"`,
+          message: `${outliers.count} potential outliers (${describeOutlierSettings(settings)}) are clamped to the fences`,
+          severity: 'medium',
+          affectedCount: outliers.count
+        });
       }
     }
   });
-  
-  return suggestions;
+
+  const severityOrder = { high: 0, medium: 1, low: 2 };
+  return suggestions.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
 };
 
 // Enhanced detection for better data type recognition
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { addCalculatedColumn, compileFormula, FormulaError, getFormulaColumnTypes, parseFormula } from './formula';
+import { DEFAULT_LOCALE_SETTINGS } from './localeParsing';
+
+const orders = [
+  { _id: 1, Region: 'North', Revenue: 120, Cost: 90, 'Order Date': '2024-02-10' },
+  { _id: 2, Region: 'South', Revenue: 80, Cost: 100, 'Order Date': '2024-07-01' },
+  { _id: 3, Region: 'north ', Revenue: null, Cost: 40, 'Order Date': '' },
+];
+
+const evaluate = (formula: string, data = orders) =>
+  data.map(compileFormula(formula, getFormulaColumnTypes(data)).evaluate);
+
+describe('formula parsing', () => {
+  it('respects operator precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')[0]).toBe(7);
+    expect(evaluate('(1 + 2) * 3')[0]).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2')[0]).toBe(512);
+  });
+
+  it('reads bracketed and bare column references', () => {
+    expect(evaluate('[Revenue] - Cost')).toEqual([30, -20, '']);
+    expect(evaluate('YEAR([Order Date])')).toEqual([2024, 2024, '']);
+  });
+
+  it('reports syntax errors as FormulaError', () => {
+    expect(() => parseFormula('1 +')).toThrow(FormulaError);
+    expect(() => parseFormula('ROUND(1, 2')).toThrow(FormulaError);
+  });
+});
+
+describe('formula type checking', () => {
+  it('rejects unknown columns and functions', () => {
+    const columns = getFormulaColumnTypes(orders);
+    expect(() => compileFormula('[Profit] * 2', columns)).toThrow(FormulaError);
+    expect(() => compileFormula('NOPE([Revenue])', columns)).toThrow(FormulaError);
+  });
+
+  it('rejects arithmetic on text columns', () => {
+    expect(() => compileFormula('[Region] * 2', getFormulaColumnTypes(orders))).toThrow(FormulaError);
+  });
+
+  it('infers the result type', () => {
+    const columns = getFormulaColumnTypes(orders);
+    expect(compileFormula('[Revenue] / [Cost]', columns).resultType).toBe('number');
+    expect(compileFormula('UPPER([Region])', columns).resultType).toBe('text');
+    expect(compileFormula('[Revenue] > [Cost]', columns).resultType).toBe('boolean');
+  });
+
+  it('lists the columns a formula reads', () => {
+    expect(compileFormula('[revenue] - [Cost] + [Revenue]', getFormulaColumnTypes(orders)).columns).toEqual(['Revenue', 'Cost']);
+  });
+});
+
+describe('formula evaluation', () => {
+  it('propagates blanks through arithmetic and stores them as empty cells', () => {
+    expect(evaluate('[Revenue] * 2')[2]).toBe('');
+    expect(evaluate('ISBLANK([Revenue] * 2)')[2]).toBe(true);
+  });
+
+  it('compares text without regard to case', () => {
+    expect(evaluate('TRIM([Region]) = "NORTH"')).toEqual([true, false, true]);
+  });
+
+  it('picks IF branches, treating a blank condition as false', () => {
+    expect(evaluate('IF(MONTH([Order Date]) <= 3, "Q1", "Later")')).toEqual(['Q1', 'Later', 'Later']);
+    expect(evaluate('IF([Revenue] > 100, "High")')).toEqual(['High', '', '']);
+  });
+
+  it('reads numbers in the locale of the data', () => {
+    const locale = { ...DEFAULT_LOCALE_SETTINGS, decimalSeparator: ',' as const, thousandsSeparator: '.' as const };
+    const data = [{ _id: 1, Amount: '1.234,5' }];
+    const compiled = compileFormula('[Amount] * 2', getFormulaColumnTypes(data, locale), locale);
+    expect(compiled.evaluate(data[0])).toBe(2469);
+  });
+
+  it('adds a calculated column to every row', () => {
+    const rows = addCalculatedColumn(orders, 'Margin', '[Revenue] - [Cost]');
+    expect(rows.map(row => row.Margin)).toEqual([30, -20, '']);
+    expect(rows[0]).toMatchObject({ _id: 1, Region: 'North' });
+  });
+
+  it('recomputes an existing column without reading itself', () => {
+    const once = addCalculatedColumn(orders, 'Double', '[Cost] * 2');
+    const twice = addCalculatedColumn(once, 'Double', '[Cost] * 3');
+    expect(twice.map(row => row.Double)).toEqual([270, 300, 120]);
+  });
+});
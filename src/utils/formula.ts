@@ -0,0 +1,697 @@
+import { ColumnTypeInfo, inferColumnType, SemanticType, toBoolean } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import type { Row } from './excelUtils';
+
+// Spreadsheet-style formulas for calculated columns, e.g.
+//   ([Revenue] - [Cost]) / [Revenue]
+//   IF(MONTH([Order Date]) <= 3, "Q1", "Later")
+// Columns are referenced as [Name] (or bare, when the name is a single word).
+// Formulas are type checked against the columns' inferred types before they
+// run. Mirrored by backend/src/utils/formula.js for server-side charts.
+
+export type FormulaType = 'number' | 'text' | 'date' | 'boolean' | 'any';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'column'; name: string; position: number }
+  | { type: 'negate'; operand: FormulaNode; position: number }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+export type FormulaValue = number | string | boolean | Date | null;
+type Value = FormulaValue;
+
+export class FormulaError extends Error {
+  // Offset in the formula text the error points at
+  position: number;
+
+  constructor(message: string, position = 0) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer and parser
+
+interface Token {
+  kind: 'number' | 'string' | 'column' | 'name' | 'operator' | '(' | ')' | ',' | 'end';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (char === '"') {
+      // "" inside a string is an escaped quote
+      let text = '';
+      i++;
+      while (i < formula.length && !(formula[i] === '"' && formula[i + 1] !== '"')) {
+        if (formula[i] === '"') i++;
+        text += formula[i++];
+      }
+      if (i >= formula.length) throw new FormulaError('Unclosed text — add a closing "', start);
+      i++;
+      tokens.push({ kind: 'string', text, position: start });
+    } else if (char === '[') {
+      const end = formula.indexOf(']', i);
+      if (end === -1) throw new FormulaError('Unclosed column reference — add a closing ]', start);
+      tokens.push({ kind: 'column', text: formula.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, start);
+      tokens.push({ kind: 'number', text: match[0], position: start });
+      i += match[0].length;
+    } else if (/[\p{L}_]/u.test(char)) {
+      const match = formula.slice(i).match(/^[\p{L}_][\p{L}\p{N}_.]*/u)!;
+      tokens.push({ kind: 'name', text: match[0], position: start });
+      i += match[0].length;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, position: start });
+      i++;
+    } else {
+      const operator = OPERATORS.find(op => formula.startsWith(op, i));
+      if (!operator) throw new FormulaError(`Unexpected "${char}"`, start);
+      tokens.push({ kind: 'operator', text: operator, position: start });
+      i += operator.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: formula.length });
+  return tokens;
+};
+
+// Binding power of binary operators; ^ is right-associative
+const PRECEDENCE: Record<string, number> = {
+  '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4,
+  '^': 5
+};
+
+export const parseFormula = (formula: string): FormulaNode => {
+  // A leading = is allowed, as in a spreadsheet; it's blanked so positions match the input
+  const text = formula.replace(/^(\s*)=/, '$1 ');
+  if (!text.trim()) throw new FormulaError('Enter a formula');
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const expect = (kind: Token['kind'], message: string) => {
+    if (peek().kind !== kind) throw new FormulaError(message, peek().position);
+    return next();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text };
+      case 'column':
+        return { type: 'column', name: token.text, position: token.position };
+      case '(': {
+        const inner = parseExpression(0);
+        expect(')', 'Missing closing )');
+        return inner;
+      }
+      case 'operator':
+        if (token.text === '-' || token.text === '+') {
+          // Unary minus binds tighter than ^, as in Excel: -2^2 = 4
+          const operand = parseExpression(6);
+          return token.text === '-' ? { type: 'negate', operand, position: token.position } : operand;
+        }
+        break;
+      case 'name': {
+        const upper = token.text.toUpperCase();
+        if (peek().kind === '(') {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek().kind !== ')') {
+            do {
+              args.push(parseExpression(0));
+            } while (peek().kind === ',' && next());
+          }
+          expect(')', `Missing closing ) for ${upper}`);
+          return { type: 'call', name: upper, args, position: token.position };
+        }
+        if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' };
+        return { type: 'column', name: token.text, position: token.position };
+      }
+    }
+    throw new FormulaError(token.kind === 'end' ? 'The formula ends too early' : `Unexpected "${token.text}"`, token.position);
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrimary();
+    while (peek().kind === 'operator' && PRECEDENCE[peek().text] > minPrecedence) {
+      const operator = next();
+      const precedence = PRECEDENCE[operator.text];
+      const right = parseExpression(operator.text === '^' ? precedence - 1 : precedence);
+      left = { type: 'binary', operator: operator.text, left, right, position: operator.position };
+    }
+    return left;
+  };
+
+  const node = parseExpression(0);
+  if (peek().kind !== 'end') throw new FormulaError(`Unexpected "${peek().text}"`, peek().position);
+  return node;
+};
+
+// ---------------------------------------------------------------------------
+// Values
+
+const isBlank = (value: Value) => value === null || value === '';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+};
+
+const toText = (value: Value) => {
+  if (value === null) return '';
+  if (value instanceof Date) return toIsoDate(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const toNumber = (value: Value) => typeof value === 'number' && isFinite(value) ? value : null;
+
+const monthsBetween = (start: Date, end: Date) => {
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  // Only whole months count, like Excel's DATEDIF
+  if (months > 0 && end.getUTCDate() < start.getUTCDate()) months--;
+  if (months < 0 && end.getUTCDate() > start.getUTCDate()) months++;
+  return months;
+};
+
+// ---------------------------------------------------------------------------
+// Functions
+
+interface FunctionSpec {
+  signature: string;
+  description: string;
+  category: 'Logic' | 'Math' | 'Text' | 'Date';
+  params: FormulaType[];
+  // Trailing params that may be left out
+  optional?: number;
+  // The last param repeats
+  variadic?: boolean;
+  returns: FormulaType | ((args: FormulaType[]) => FormulaType);
+  evaluate: (args: Value[]) => Value;
+}
+
+const numeric = (fn: (...numbers: number[]) => number) => (args: Value[]) => {
+  const numbers = args.map(toNumber);
+  if (numbers.some(n => n === null)) return null;
+  return fn(...(numbers as number[]));
+};
+
+const datePart = (fn: (date: Date) => number) => (args: Value[]) => {
+  const date = args[0] instanceof Date ? args[0] : null;
+  return date ? fn(date) : null;
+};
+
+const sameType = (types: FormulaType[]) => {
+  const known = types.filter(type => type !== 'any');
+  return known.length > 0 && known.every(type => type === known[0]) ? known[0] : 'any';
+};
+
+export const FORMULA_FUNCTIONS: Record<string, FunctionSpec> = {
+  IF: {
+    signature: 'IF(condition, then, [else])',
+    description: 'Picks a value depending on a condition',
+    category: 'Logic',
+    params: ['boolean', 'any', 'any'],
+    optional: 1,
+    returns: args => sameType(args.slice(1)),
+    evaluate: ([condition, then, otherwise = null]) => condition === true ? then : otherwise
+  },
+  AND: {
+    signature: 'AND(a, b, …)',
+    description: 'TRUE when every condition is true',
+    category: 'Logic',
+    params: ['boolean'],
+    variadic: true,
+    returns: 'boolean',
+    evaluate: args => args.every(arg => arg === true)
+  },
+  OR: {
+    signature: 'OR(a, b, …)',
+    description: 'TRUE when any condition is true',
+    category: 'Logic',
+    params: ['boolean'],
+    variadic: true,
+    returns: 'boolean',
+    evaluate: args => args.some(arg => arg === true)
+  },
+  NOT: {
+    signature: 'NOT(condition)',
+    description: 'Reverses a condition',
+    category: 'Logic',
+    params: ['boolean'],
+    returns: 'boolean',
+    evaluate: ([value]) => value === null ? null : value !== true
+  },
+  ISBLANK: {
+    signature: 'ISBLANK(value)',
+    description: 'TRUE when the value is empty',
+    category: 'Logic',
+    params: ['any'],
+    returns: 'boolean',
+    evaluate: ([value]) => isBlank(value)
+  },
+  ROUND: {
+    signature: 'ROUND(number, [digits])',
+    description: 'Rounds to a number of decimal places',
+    category: 'Math',
+    params: ['number', 'number'],
+    optional: 1,
+    returns: 'number',
+    evaluate: ([value, digits = 0]) => numeric((n, d) => {
+      const factor = Math.pow(10, Math.round(d));
+      return Math.round(n * factor) / factor;
+    })([value, digits])
+  },
+  ABS: {
+    signature: 'ABS(number)',
+    description: 'Absolute value',
+    category: 'Math',
+    params: ['number'],
+    returns: 'number',
+    evaluate: numeric(Math.abs)
+  },
+  MIN: {
+    signature: 'MIN(a, b, …)',
+    description: 'Smallest of the numbers',
+    category: 'Math',
+    params: ['number'],
+    variadic: true,
+    returns: 'number',
+    evaluate: numeric(Math.min)
+  },
+  MAX: {
+    signature: 'MAX(a, b, …)',
+    description: 'Largest of the numbers',
+    category: 'Math',
+    params: ['number'],
+    variadic: true,
+    returns: 'number',
+    evaluate: numeric(Math.max)
+  },
+  CONCAT: {
+    signature: 'CONCAT(a, b, …)',
+    description: 'Joins values into one text',
+    category: 'Text',
+    params: ['text'],
+    variadic: true,
+    returns: 'text',
+    evaluate: args => args.map(toText).join('')
+  },
+  LEFT: {
+    signature: 'LEFT(text, [count])',
+    description: 'First characters of a text',
+    category: 'Text',
+    params: ['text', 'number'],
+    optional: 1,
+    returns: 'text',
+    evaluate: ([value, count = 1]) => isBlank(value) ? null : toText(value).slice(0, Math.max(0, toNumber(count) ?? 0))
+  },
+  RIGHT: {
+    signature: 'RIGHT(text, [count])',
+    description: 'Last characters of a text',
+    category: 'Text',
+    params: ['text', 'number'],
+    optional: 1,
+    returns: 'text',
+    evaluate: ([value, count = 1]) => {
+      const n = Math.max(0, toNumber(count) ?? 0);
+      return isBlank(value) ? null : n === 0 ? '' : toText(value).slice(-n);
+    }
+  },
+  MID: {
+    signature: 'MID(text, start, count)',
+    description: 'Characters from the middle of a text (start is 1-based)',
+    category: 'Text',
+    params: ['text', 'number', 'number'],
+    returns: 'text',
+    evaluate: ([value, start, count]) => {
+      const from = toNumber(start);
+      const n = toNumber(count);
+      if (isBlank(value) || from === null || n === null) return null;
+      return toText(value).substr(Math.max(0, from - 1), Math.max(0, n));
+    }
+  },
+  UPPER: {
+    signature: 'UPPER(text)',
+    description: 'Text in capitals',
+    category: 'Text',
+    params: ['text'],
+    returns: 'text',
+    evaluate: ([value]) => isBlank(value) ? null : toText(value).toUpperCase()
+  },
+  LOWER: {
+    signature: 'LOWER(text)',
+    description: 'Text in lower case',
+    category: 'Text',
+    params: ['text'],
+    returns: 'text',
+    evaluate: ([value]) => isBlank(value) ? null : toText(value).toLowerCase()
+  },
+  TRIM: {
+    signature: 'TRIM(text)',
+    description: 'Removes extra spaces',
+    category: 'Text',
+    params: ['text'],
+    returns: 'text',
+    evaluate: ([value]) => isBlank(value) ? null : toText(value).replace(/\s+/g, ' ').trim()
+  },
+  LEN: {
+    signature: 'LEN(text)',
+    description: 'Number of characters',
+    category: 'Text',
+    params: ['text'],
+    returns: 'number',
+    evaluate: ([value]) => toText(value).length
+  },
+  YEAR: {
+    signature: 'YEAR(date)',
+    description: 'Year of a date',
+    category: 'Date',
+    params: ['date'],
+    returns: 'number',
+    evaluate: datePart(date => date.getUTCFullYear())
+  },
+  MONTH: {
+    signature: 'MONTH(date)',
+    description: 'Month of a date (1–12)',
+    category: 'Date',
+    params: ['date'],
+    returns: 'number',
+    evaluate: datePart(date => date.getUTCMonth() + 1)
+  },
+  DAY: {
+    signature: 'DAY(date)',
+    description: 'Day of the month',
+    category: 'Date',
+    params: ['date'],
+    returns: 'number',
+    evaluate: datePart(date => date.getUTCDate())
+  },
+  QUARTER: {
+    signature: 'QUARTER(date)',
+    description: 'Calendar quarter (1–4)',
+    category: 'Date',
+    params: ['date'],
+    returns: 'number',
+    evaluate: datePart(date => Math.floor(date.getUTCMonth() / 3) + 1)
+  },
+  DATEDIFF: {
+    signature: 'DATEDIFF(start, end, [unit])',
+    description: 'Whole days ("d"), months ("m") or years ("y") from start to end',
+    category: 'Date',
+    params: ['date', 'date', 'text'],
+    optional: 1,
+    returns: 'number',
+    evaluate: ([start, end, unit = 'd']) => {
+      if (!(start instanceof Date) || !(end instanceof Date)) return null;
+      const key = toText(unit).toLowerCase()[0];
+      if (key === 'm') return monthsBetween(start, end);
+      if (key === 'y') return Math.trunc(monthsBetween(start, end) / 12);
+      return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+    }
+  },
+  TODAY: {
+    signature: 'TODAY()',
+    description: "Today's date",
+    category: 'Date',
+    params: [],
+    returns: 'date',
+    evaluate: () => new Date(`${toIsoDate(new Date())}T00:00:00Z`)
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Type checking
+
+const TYPE_LABELS: Record<FormulaType, string> = {
+  number: 'a number',
+  text: 'text',
+  date: 'a date',
+  boolean: 'TRUE/FALSE',
+  any: 'a value'
+};
+
+// Text parameters take any value, like in a spreadsheet; the others need their own type
+const accepts = (expected: FormulaType, actual: FormulaType) =>
+  expected === 'any' || actual === 'any' || expected === 'text' || expected === actual;
+
+export const toFormulaType = (info: ColumnTypeInfo): FormulaType => {
+  if (info.storageType === 'boolean') return 'boolean';
+  if (info.baseType === 'number') return 'number';
+  if (info.baseType === 'date') return 'date';
+  return 'text';
+};
+
+const findColumn = (columns: Record<string, FormulaType>, name: string) =>
+  Object.keys(columns).find(column => column === name) ?? Object.keys(columns).find(column => column.toLowerCase() === name.toLowerCase());
+
+// Returns the formula's result type, or throws a FormulaError explaining the mismatch
+export const checkFormula = (node: FormulaNode, columns: Record<string, FormulaType>): FormulaType => {
+  switch (node.type) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'text';
+    case 'boolean':
+      return 'boolean';
+    case 'column': {
+      const column = findColumn(columns, node.name);
+      if (column === undefined) throw new FormulaError(`Unknown column "${node.name}"`, node.position);
+      return columns[column];
+    }
+    case 'negate': {
+      const type = checkFormula(node.operand, columns);
+      if (!accepts('number', type) || type === 'text') throw new FormulaError(`Can't negate ${TYPE_LABELS[type]}`, node.position);
+      return 'number';
+    }
+    case 'binary': {
+      const left = checkFormula(node.left, columns);
+      const right = checkFormula(node.right, columns);
+      const { operator, position } = node;
+      if (operator === '&') return 'text';
+      if (PRECEDENCE[operator] === 1) {
+        if (left !== right && left !== 'any' && right !== 'any') {
+          throw new FormulaError(`Can't compare ${TYPE_LABELS[left]} with ${TYPE_LABELS[right]}`, position);
+        }
+        return 'boolean';
+      }
+      // Dates shift by a number of days; two dates subtract to days
+      if (left === 'date' && (operator === '+' || operator === '-') && right === 'number') return 'date';
+      if (left === 'number' && operator === '+' && right === 'date') return 'date';
+      if (left === 'date' && operator === '-' && right === 'date') return 'number';
+      [left, right].forEach(type => {
+        if (type !== 'number' && type !== 'any') {
+          throw new FormulaError(`"${operator}" needs numbers, but got ${TYPE_LABELS[type]}`, position);
+        }
+      });
+      return 'number';
+    }
+    case 'call': {
+      const spec = FORMULA_FUNCTIONS[node.name];
+      if (!spec) throw new FormulaError(`Unknown function ${node.name}`, node.position);
+      const required = spec.params.length - (spec.optional || 0);
+      if (node.args.length < required || (!spec.variadic && node.args.length > spec.params.length)) {
+        throw new FormulaError(`Wrong number of arguments: ${spec.signature}`, node.position);
+      }
+      const types = node.args.map((arg, i) => {
+        const type = checkFormula(arg, columns);
+        const expected = spec.params[Math.min(i, spec.params.length - 1)];
+        if (!accepts(expected, type)) {
+          throw new FormulaError(`${node.name} expects ${TYPE_LABELS[expected]} as argument ${i + 1}, but got ${TYPE_LABELS[type]}`, node.position);
+        }
+        return type;
+      });
+      return typeof spec.returns === 'function' ? spec.returns(types) : spec.returns;
+    }
+  }
+};
+
+// Column names a formula refers to
+export const getFormulaColumns = (node: FormulaNode): string[] => {
+  switch (node.type) {
+    case 'column':
+      return [node.name];
+    case 'negate':
+      return getFormulaColumns(node.operand);
+    case 'binary':
+      return [...getFormulaColumns(node.left), ...getFormulaColumns(node.right)];
+    case 'call':
+      return node.args.flatMap(getFormulaColumns);
+    default:
+      return [];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+// A cell as a formula value of the column's type; blanks are null
+export const readCell = (value: unknown, type: FormulaType, locale: LocaleSettings): Value => {
+  if (value === null || value === undefined || value === '') return null;
+  if (type === 'number') return parseLocaleNumber(value, locale);
+  if (type === 'date') return toDate(value);
+  if (type === 'boolean') return toBoolean(value);
+  return typeof value === 'string' ? value : String(value);
+};
+
+const compare = (operator: string, left: Value, right: Value) => {
+  if (isBlank(left) || isBlank(right)) {
+    if (operator === '=') return isBlank(left) && isBlank(right);
+    if (operator === '<>') return isBlank(left) !== isBlank(right);
+    return null;
+  }
+  const a = left instanceof Date ? left.getTime() : typeof left === 'string' ? left.toLowerCase() : left;
+  const b = right instanceof Date ? right.getTime() : typeof right === 'string' ? right.toLowerCase() : right;
+  switch (operator) {
+    case '=': return a === b;
+    case '<>': return a !== b;
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    default: return a >= b;
+  }
+};
+
+const evaluateNode = (node: FormulaNode, row: Row, columns: Record<string, FormulaType>, locale: LocaleSettings): Value => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'column': {
+      const column = findColumn(columns, node.name)!;
+      return readCell(row[column], columns[column], locale);
+    }
+    case 'negate': {
+      const value = toNumber(evaluateNode(node.operand, row, columns, locale));
+      return value === null ? null : -value;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, row, columns, locale);
+      const right = evaluateNode(node.right, row, columns, locale);
+      if (node.operator === '&') return toText(left) + toText(right);
+      if (PRECEDENCE[node.operator] === 1) return compare(node.operator, left, right);
+
+      if (left instanceof Date || right instanceof Date) {
+        if (left instanceof Date && right instanceof Date) return Math.round((left.getTime() - right.getTime()) / DAY_MS);
+        const date = left instanceof Date ? left : right as Date;
+        const days = toNumber(left instanceof Date ? right : left);
+        if (days === null) return null;
+        return new Date(date.getTime() + (node.operator === '-' ? -days : days) * DAY_MS);
+      }
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      switch (node.operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        // Division by zero leaves the cell empty
+        case '/': return b === 0 ? null : a / b;
+        default: return Math.pow(a, b);
+      }
+    }
+    case 'call':
+      return FORMULA_FUNCTIONS[node.name].evaluate(node.args.map(arg => evaluateNode(arg, row, columns, locale)));
+  }
+};
+
+// How a result is stored in a row: dates as YYYY-MM-DD, blanks as ''
+export const toCellValue = (value: Value) => {
+  if (value === null) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : toIsoDate(value);
+  if (typeof value === 'number') return isFinite(value) ? Math.round(value * 1e10) / 1e10 : '';
+  return value;
+};
+
+// A column computed from a formula, as recorded in the pipeline and saved with charts
+export interface CalculatedColumn {
+  name: string;
+  formula: string;
+}
+
+export interface CompiledFormula {
+  resultType: FormulaType;
+  columns: string[];
+  evaluate: (row: Row) => unknown;
+}
+
+// Parses and type checks a formula against the columns' types. Throws a
+// FormulaError when the formula is invalid.
+export const compileFormula = (
+  formula: string,
+  columnTypes: Record<string, FormulaType>,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): CompiledFormula => {
+  const node = parseFormula(formula);
+  const resultType = checkFormula(node, columnTypes);
+  return {
+    resultType,
+    columns: [...new Set(getFormulaColumns(node).map(name => findColumn(columnTypes, name)!))],
+    evaluate: row => toCellValue(evaluateNode(node, row, columnTypes, locale))
+  };
+};
+
+// Formula types of the data's columns, from their inferred (or overridden) types
+export const getFormulaColumnTypes = (
+  data: Row[],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  overrides: Record<string, SemanticType> = {}
+): Record<string, FormulaType> => {
+  const columns = Object.keys(data[0] || {}).filter(column => column !== '_id');
+  return Object.fromEntries(columns.map(column => [
+    column,
+    toFormulaType(inferColumnType(data.map(row => row[column]), { locale, name: column, override: overrides[column] }))
+  ]));
+};
+
+// Adds (or recomputes) a calculated column on every row. A column can't refer
+// to itself, so an existing column of the same name is left out of the formula's scope.
+export const addCalculatedColumn = (
+  data: Row[],
+  name: string,
+  formula: string,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  overrides: Record<string, SemanticType> = {}
+) => {
+  const { [name]: _replaced, ...columnTypes } = getFormulaColumnTypes(data, locale, overrides);
+  const compiled = compileFormula(formula, columnTypes, locale);
+  return data.map(row => ({ ...row, [name]: compiled.evaluate(row) }));
+};
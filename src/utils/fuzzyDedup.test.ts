@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyDedupe,
+  DedupeOperation,
+  DEFAULT_THRESHOLD,
+  describeDedupe,
+  findDuplicateClusters,
+  normalizeKey,
+  stringSimilarity
+} from './fuzzyDedup';
+import type { Row } from './excelUtils';
+
+const companies: Row[] = [
+  { _id: 1, Name: 'ACME Inc.', Email: 'jon@example.com', Phone: '' },
+  { _id: 2, Name: 'Globex', Email: 'info@globex.com', Phone: '555-0100' },
+  { _id: 3, Name: 'Acme, Inc', Email: 'john@example.com', Phone: '555-0199' },
+  { _id: 4, Name: 'Initech', Email: '', Phone: '' },
+  { _id: 5, Name: 'Inc Acme', Email: '', Phone: '' },
+];
+
+const dedupe: DedupeOperation = {
+  keys: ['Name'],
+  threshold: DEFAULT_THRESHOLD,
+  survivorRule: 'first',
+  fillBlanks: false,
+  resolutions: [],
+};
+
+describe('similarity', () => {
+  it('ignores case, accents, punctuation and word order', () => {
+    expect(normalizeKey('  Café-Müller, GmbH ')).toBe('cafe muller gmbh');
+    expect(normalizeKey(null)).toBe('');
+    expect(stringSimilarity('acme inc', 'inc acme')).toBe(1);
+    expect(stringSimilarity('jon@example com', 'john@example com')).toBe(0.9375);
+    expect(stringSimilarity('', 'acme')).toBe(0);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('clusters rows whose keys are close', () => {
+    expect(findDuplicateClusters(companies, dedupe)).toEqual([{ rows: [0, 2, 4], ids: [1, 3, 5], score: 1 }]);
+  });
+
+  it('averages the similarity over the keys either row fills', () => {
+    // Row 5 has no email, so it only matches on half of the keys
+    const clusters = findDuplicateClusters(companies, { keys: ['Name', 'Email'], threshold: 0.95 });
+    expect(clusters).toEqual([{ rows: [0, 2], ids: [1, 3], score: 0.969 }]);
+    expect(findDuplicateClusters(companies, { keys: [], threshold: 0.5 })).toEqual([]);
+  });
+
+  it("doesn't chain small differences into one cluster", () => {
+    // Each name is one edit from the next, but three from the last
+    const names = ['smithfield', 'smithfielx', 'smithfiexx', 'smithfixxx'].map(Name => ({ Name }));
+    expect(findDuplicateClusters(names, { keys: ['Name'], threshold: 0.85 }).map(cluster => cluster.ids))
+      .toEqual([[1, 2], [3, 4]]);
+  });
+});
+
+describe('applyDedupe', () => {
+  it('keeps the survivor in place and removes the rest of its cluster', () => {
+    const { rows, mergedClusters, removedRows } = applyDedupe(companies, dedupe);
+    expect(rows.map(row => row._id)).toEqual([1, 2, 4]);
+    expect(describeDedupe(dedupe, mergedClusters, removedRows)).toBe('Merged 1 near-duplicate group on "Name" (2 rows removed)');
+  });
+
+  it('picks the most complete row and fills blanks from the others', () => {
+    const { rows } = applyDedupe(companies, { ...dedupe, survivorRule: 'most-complete' });
+    expect(rows.map(row => row._id)).toEqual([2, 3, 4]);
+    const filled = applyDedupe(companies, { ...dedupe, fillBlanks: true }).rows[0];
+    expect(filled).toEqual({ _id: 1, Name: 'ACME Inc.', Email: 'jon@example.com', Phone: '555-0199' });
+  });
+
+  it('applies the choices made for a cluster', () => {
+    const chosen = applyDedupe(companies, {
+      ...dedupe,
+      resolutions: [{ members: [1, 3, 5], survivor: 5, fields: { Email: 3 } }],
+    });
+    expect(chosen.rows.map(row => [row._id, row.Email])).toEqual([[2, 'info@globex.com'], [4, ''], [5, 'john@example.com']]);
+
+    const skipped = applyDedupe(companies, { ...dedupe, resolutions: [{ members: [5, 3, 1], skip: true }] });
+    expect(skipped.rows).toHaveLength(companies.length);
+    expect(skipped.mergedClusters).toBe(0);
+  });
+});
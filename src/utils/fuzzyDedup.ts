@@ -0,0 +1,246 @@
+import { isMissing } from './dataCleaning';
+import type { Row } from './excelUtils';
+
+// Near-duplicate detection for the dedupe tool. Key values are normalized
+// (case, accents, punctuation, word order) and compared by edit distance, so
+// "ACME Inc." and "Acme, Inc" are the same and "jon@example.com" is close to
+// "john@example.com". Rows that match are clustered, and each cluster is
+// merged into one surviving row.
+//
+// Comparing every pair of rows is too slow for large sheets, so candidates
+// come from a sorted neighbourhood: rows are sorted by each key (forwards and
+// reversed, to catch typos near the start) and compared with the rows next to
+// them.
+
+export type SurvivorRule = 'first' | 'most-complete';
+
+export interface DedupeSettings {
+  keys: string[];
+  // 0–1; rows match when the average similarity of their keys reaches it
+  threshold: number;
+}
+
+// A choice the user made for one cluster. Rows are identified by `_id`, so a
+// choice only applies when the same rows cluster again (undo/redo); on other
+// data the cluster falls back to the operation's defaults.
+export interface ClusterResolution {
+  // Sorted row IDs of the cluster
+  members: number[];
+  // Not duplicates: all rows are kept
+  skip?: boolean;
+  survivor?: number;
+  // Column -> row ID whose value the merged row takes
+  fields?: Record<string, number>;
+}
+
+export interface DedupeOperation extends DedupeSettings {
+  survivorRule: SurvivorRule;
+  // Blank cells of the survivor are filled from the other rows of its cluster
+  fillBlanks: boolean;
+  resolutions: ClusterResolution[];
+}
+
+export interface DuplicateCluster {
+  // Indices into the data, in data order
+  rows: number[];
+  ids: number[];
+  // Lowest similarity of the matches that joined the cluster
+  score: number;
+}
+
+export const DEFAULT_THRESHOLD = 0.85;
+export const SURVIVOR_RULES: { id: SurvivorRule; label: string }[] = [
+  { id: 'first', label: 'First row' },
+  { id: 'most-complete', label: 'Most complete row' }
+];
+
+// Rows each row is compared with on either side in every sort order
+const WINDOW = 5;
+
+export const normalizeKey = (value: unknown) => isMissing(value)
+  ? ''
+  : String(value)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@]+/gu, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  // Two rows of the distance matrix, reused across rows
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    const char = a.charCodeAt(i - 1);
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (char === b.charCodeAt(j - 1) ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+};
+
+const ratio = (a: string, b: string) => 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+const sortTokens = (value: string) => value.split(' ').sort().join(' ');
+
+// Similarity of two normalized values, 0–1; word order doesn't matter. The
+// token-sorted forms can be passed in when they're already known.
+export const stringSimilarity = (a: string, b: string, sortedA = sortTokens(a), sortedB = sortTokens(b)) => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const plain = ratio(a, b);
+  if (plain === 1 || (sortedA === a && sortedB === b)) return plain;
+  return Math.max(plain, ratio(sortedA, sortedB));
+};
+
+const reverse = (value: string) => [...value].reverse().join('');
+
+const rowId = (data: Row[], index: number): number => data[index]?._id ?? index + 1;
+
+export const findDuplicateClusters = (data: Row[], { keys, threshold }: DedupeSettings): DuplicateCluster[] => {
+  if (keys.length === 0) return [];
+  const normalized = data.map(row => keys.map(key => normalizeKey(row[key])));
+  const sorted = normalized.map(values => values.map(sortTokens));
+
+  // Average over the keys both rows have; rows without any key never match
+  const similarity = (a: number, b: number) => {
+    let total = 0;
+    let count = 0;
+    keys.forEach((_, k) => {
+      const x = normalized[a][k];
+      const y = normalized[b][k];
+      if (!x && !y) return;
+      total += stringSimilarity(x, y, sorted[a][k], sorted[b][k]);
+      count++;
+    });
+    return count === 0 ? 0 : total / count;
+  };
+
+  const parent = data.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const matchScores = new Map<number, number>();
+  const compared = new Set<number>();
+
+  const passes: ((values: string[]) => string)[] = keys.flatMap((_, k) => [
+    (values: string[]) => values[k],
+    (values: string[]) => reverse(values[k])
+  ]);
+  if (keys.length > 1) passes.push(values => values.join(' '));
+
+  passes.forEach(toSortKey => {
+    const sortKeys = normalized.map(toSortKey);
+    const order = data.map((_, i) => i).filter(i => sortKeys[i] !== '');
+    order.sort((a, b) => sortKeys[a] < sortKeys[b] ? -1 : sortKeys[a] > sortKeys[b] ? 1 : 0);
+    order.forEach((a, position) => {
+      for (let offset = 1; offset <= WINDOW && position + offset < order.length; offset++) {
+        const b = order[position + offset];
+        const pair = a < b ? a * data.length + b : b * data.length + a;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        const score = similarity(a, b);
+        if (score < threshold) continue;
+        const rootA = find(a);
+        const rootB = find(b);
+        // Clusters only join when their root rows match too, so a chain of
+        // small differences ("Customer 12", "Customer 13"…) doesn't snowball
+        if (rootA !== rootB && similarity(rootA, rootB) < threshold) continue;
+        const lowest = Math.min(score, matchScores.get(rootA) ?? 1, matchScores.get(rootB) ?? 1);
+        if (rootA !== rootB) parent[rootB] = rootA;
+        matchScores.set(rootA, lowest);
+      }
+    });
+  });
+
+  const clusters = new Map<number, number[]>();
+  data.forEach((_, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(i);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, rows]) => rows.length > 1)
+    .map(([root, rows]) => ({
+      rows,
+      ids: rows.map(i => rowId(data, i)),
+      score: Math.round((matchScores.get(root) ?? 1) * 1000) / 1000
+    }))
+    .sort((a, b) => a.rows[0] - b.rows[0]);
+};
+
+export const clusterKey = (ids: number[]) => [...ids].sort((a, b) => a - b).join(',');
+
+const filledCount = (row: Row) => Object.entries(row).filter(([key, value]) => key !== '_id' && !isMissing(value)).length;
+
+// The row a cluster merges into, before field choices
+export const defaultSurvivor = (data: Row[], cluster: DuplicateCluster, rule: SurvivorRule) => {
+  if (rule === 'first') return cluster.rows[0];
+  return cluster.rows.reduce((best, i) => filledCount(data[i]) > filledCount(data[best]) ? i : best, cluster.rows[0]);
+};
+
+// The merged row of a cluster; null when it's resolved as not duplicates
+export const mergeCluster = (
+  data: Row[],
+  cluster: DuplicateCluster,
+  operation: Pick<DedupeOperation, 'survivorRule' | 'fillBlanks'>,
+  resolution?: ClusterResolution
+) => {
+  if (resolution?.skip) return null;
+  const byId = new Map(cluster.rows.map(i => [rowId(data, i), i]));
+  const survivorIndex = resolution?.survivor !== undefined && byId.has(resolution.survivor)
+    ? byId.get(resolution.survivor)!
+    : defaultSurvivor(data, cluster, operation.survivorRule);
+  const merged = { ...data[survivorIndex] };
+
+  Object.keys(merged).forEach(column => {
+    if (column === '_id') return;
+    const chosen = resolution?.fields?.[column];
+    if (chosen !== undefined && byId.has(chosen)) {
+      merged[column] = data[byId.get(chosen)!][column];
+    } else if (operation.fillBlanks && isMissing(merged[column])) {
+      const donor = cluster.rows.find(i => !isMissing(data[i][column]));
+      if (donor !== undefined) merged[column] = data[donor][column];
+    }
+  });
+  return { index: survivorIndex, row: merged };
+};
+
+// Detects clusters and merges each into its survivor, which keeps its place;
+// the other rows of the cluster are removed
+export const applyDedupe = (data: Row[], operation: DedupeOperation) => {
+  const clusters = findDuplicateClusters(data, operation);
+  const resolutions = new Map(operation.resolutions.map(resolution => [clusterKey(resolution.members), resolution]));
+  const replaced = new Map<number, Row>();
+  const removed = new Set<number>();
+  let mergedClusters = 0;
+
+  clusters.forEach(cluster => {
+    const merged = mergeCluster(data, cluster, operation, resolutions.get(clusterKey(cluster.ids)));
+    if (!merged) return;
+    mergedClusters++;
+    replaced.set(merged.index, merged.row);
+    cluster.rows.forEach(i => {
+      if (i !== merged.index) removed.add(i);
+    });
+  });
+
+  const rows = data.flatMap((row, i) => removed.has(i) ? [] : [replaced.get(i) ?? row]);
+  return { rows, mergedClusters, removedRows: removed.size };
+};
+
+// Label for the pipeline, e.g. 'Merged 12 near-duplicate groups on "Name", "Email" (15 rows removed)'
+export const describeDedupe = (operation: DedupeOperation, mergedClusters: number, removedRows: number) =>
+  `Merged ${mergedClusters} near-duplicate group${mergedClusters === 1 ? '' : 's'} on ${operation.keys.map(key => `"${key}"`).join(', ')} (${removedRows} rows removed)`;
@@ -0,0 +1,154 @@
+import { ColumnTypeInfo } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import type { Row } from './excelUtils';
+
+// Sorting and filtering for the DataPreview grid. Rows are the parsed row
+// objects; column types come from analyzeExcelData so formatted numbers and
+// locale dates compare by value.
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
+
+export type ColumnFilter =
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'dateRange'; from?: string; to?: string }
+  | { kind: 'values'; values: string[] }
+  | { kind: 'text'; query: string };
+
+export type ColumnFilterKind = ColumnFilter['kind'];
+
+// Columns with at most this many distinct values get a value checklist
+const CHECKLIST_MAX_CARDINALITY = 50;
+
+// Label used in value checklists for empty cells
+export const EMPTY_VALUE_LABEL = '(empty)';
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+export const getFilterKind = (typeInfo: ColumnTypeInfo): ColumnFilterKind => {
+  if (typeInfo.baseType === 'number') return 'range';
+  if (typeInfo.baseType === 'date') return 'dateRange';
+  if (typeInfo.semanticType === 'boolean' || typeInfo.semanticType === 'category' || typeInfo.cardinality <= CHECKLIST_MAX_CARDINALITY) {
+    return 'values';
+  }
+  return 'text';
+};
+
+// Whether a filter actually restricts anything (e.g. a range with no bounds doesn't)
+export const isFilterActive = (filter?: ColumnFilter) => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case 'range':
+      return filter.min !== undefined || filter.max !== undefined;
+    case 'dateRange':
+      return !!filter.from || !!filter.to;
+    case 'values':
+      return true;
+    case 'text':
+      return filter.query.trim() !== '';
+  }
+};
+
+// YYYY-MM-DD for ISO strings and other parseable dates, null otherwise
+const toDateKey = (value: unknown): string | null => {
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const time = Date.parse(text);
+  return isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+};
+
+const matchesFilter = (value: unknown, filter: ColumnFilter, locale: LocaleSettings) => {
+  switch (filter.kind) {
+    case 'range': {
+      const number = parseLocaleNumber(value, locale);
+      if (number === null) return false;
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case 'dateRange': {
+      const key = isEmpty(value) ? null : toDateKey(value);
+      if (key === null) return false;
+      return (!filter.from || key >= filter.from) && (!filter.to || key <= filter.to);
+    }
+    case 'values':
+      return filter.values.includes(isEmpty(value) ? EMPTY_VALUE_LABEL : String(value));
+    case 'text':
+      return String(value ?? '').toLowerCase().includes(filter.query.trim().toLowerCase());
+  }
+};
+
+export const filterRows = (
+  rows: Row[],
+  filters: Record<string, ColumnFilter>,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+) => {
+  const active = Object.entries(filters).filter(([, filter]) => isFilterActive(filter));
+  if (active.length === 0) return rows;
+  return rows.filter(row => active.every(([column, filter]) => matchesFilter(row[column], filter, locale)));
+};
+
+const compareValues = (a: unknown, b: unknown, typeInfo: ColumnTypeInfo | undefined, locale: LocaleSettings) => {
+  if (typeInfo?.baseType === 'number') {
+    const x = parseLocaleNumber(a, locale);
+    const y = parseLocaleNumber(b, locale);
+    if (x !== null && y !== null) return x - y;
+  } else if (typeInfo?.baseType === 'date') {
+    const x = toDateKey(a);
+    const y = toDateKey(b);
+    if (x !== null && y !== null && x !== y) return x < y ? -1 : 1;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Multi-key sort: earlier keys take priority. Empty cells always sort last.
+export const sortRows = (
+  rows: Row[],
+  sortKeys: SortKey[],
+  typeInfos: Record<string, ColumnTypeInfo>,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+) => {
+  if (sortKeys.length === 0) return rows;
+  return [...rows].sort((a, b) => {
+    for (const { column, direction } of sortKeys) {
+      const x = a[column];
+      const y = b[column];
+      if (isEmpty(x) || isEmpty(y)) {
+        if (isEmpty(x) && isEmpty(y)) continue;
+        return isEmpty(x) ? 1 : -1;
+      }
+      const result = compareValues(x, y, typeInfos[column], locale);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+};
+
+// Cycles a column through ascending, descending and unsorted. With `append`
+// (shift-click) the column is added as a further key instead of replacing the sort.
+export const toggleSortKey = (sortKeys: SortKey[], column: string, append: boolean): SortKey[] => {
+  const existing = sortKeys.find(key => key.column === column);
+  const next: SortKey | null = !existing
+    ? { column, direction: 'asc' }
+    : existing.direction === 'asc' ? { column, direction: 'desc' } : null;
+
+  if (!append) return next ? [next] : [];
+  if (!existing) return [...sortKeys, next!];
+  return next
+    ? sortKeys.map(key => key.column === column ? next : key)
+    : sortKeys.filter(key => key.column !== column);
+};
+
+// Distinct values with counts for value checklists, most frequent first
+export const getDistinctValues = (rows: Row[], column: string) => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const value = isEmpty(row[column]) ? EMPTY_VALUE_LABEL : String(row[column]);
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([value, count]) => ({ value, count }));
+};
@@ -0,0 +1,116 @@
+import * as XLSX from 'xlsx';
+
+// Every source goes through a workbook so header detection, type inference
+// and the server upload path are shared with Excel files.
+export type ImportFormat = 'workbook' | 'delimited' | 'json';
+
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.txt', '.json'];
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  xlsx: 'workbook',
+  xls: 'workbook',
+  ods: 'workbook',
+  csv: 'delimited',
+  tsv: 'delimited',
+  tab: 'delimited',
+  txt: 'delimited',
+  json: 'json'
+};
+
+const MIME_FORMATS: Record<string, ImportFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'workbook', // .xlsx
+  'application/vnd.ms-excel': 'workbook', // .xls
+  'application/vnd.oasis.opendocument.spreadsheet': 'workbook', // .ods
+  'text/csv': 'delimited', // .csv
+  'text/tab-separated-values': 'delimited', // .tsv
+  'application/json': 'json', // .json
+};
+
+export const detectImportFormat = (file: { name: string; type: string }): ImportFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] || MIME_FORMATS[file.type] || null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// API exports often wrap the records, e.g. { "data": [...] } or { "results": { "items": [...] } }
+const findRecords = (value: unknown, depth = 0): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!isPlainObject(value) || depth > 2) return null;
+
+  for (const child of Object.values(value)) {
+    if (Array.isArray(child) && child.some(isPlainObject)) return child;
+  }
+  for (const child of Object.values(value)) {
+    const nested = findRecords(child, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+// Nested objects become "parent.child" columns; arrays of primitives are joined
+const flattenRecord = (record: Record<string, unknown>, prefix = '', target: Record<string, unknown> = {}) => {
+  Object.entries(record).forEach(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenRecord(value, name, target);
+    } else if (Array.isArray(value)) {
+      target[name] = value.every(item => !isPlainObject(item) && !Array.isArray(item))
+        ? value.join(', ')
+        : JSON.stringify(value);
+    } else {
+      target[name] = value ?? '';
+    }
+  });
+  return target;
+};
+
+export const jsonToWorkbook = (text: string): XLSX.WorkBook => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The JSON file could not be parsed");
+  }
+
+  const records = findRecords(parsed) ?? (isPlainObject(parsed) ? [parsed] : null);
+  if (!records || records.length === 0) {
+    throw new Error("No records found in the JSON file");
+  }
+
+  let worksheet: XLSX.WorkSheet;
+  if (records.every(Array.isArray)) {
+    // Array of arrays: the first row is the header, like a sheet
+    worksheet = XLSX.utils.aoa_to_sheet(records as unknown[][]);
+  } else if (records.every(isPlainObject)) {
+    worksheet = XLSX.utils.json_to_sheet(records.map(record => flattenRecord(record)));
+  } else {
+    worksheet = XLSX.utils.json_to_sheet(records.map(value => ({ value: isPlainObject(value) ? JSON.stringify(value) : value })));
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Data');
+  return workbook;
+};
+
+// Delimited text: CSV, TSV and ranges copied from Google Sheets or Excel.
+// Cells stay as text so the file's locale settings decide how numbers and
+// dates are read; the separator (comma, semicolon, tab, pipe) is sniffed.
+export const delimitedTextToWorkbook = (text: string): XLSX.WorkBook => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const options: XLSX.ParsingOptions = { type: 'string', raw: true };
+  if (firstLine.includes('\t')) options.FS = '\t';
+  return XLSX.read(text.replace(/^\uFEFF/, ''), options);
+};
+
+export const readWorkbookFromBuffer = (buffer: ArrayBuffer, format: ImportFormat): XLSX.WorkBook => {
+  switch (format) {
+    case 'json':
+      return jsonToWorkbook(new TextDecoder().decode(buffer));
+    case 'delimited':
+      return delimitedTextToWorkbook(new TextDecoder().decode(buffer));
+    default:
+      return XLSX.read(buffer, { type: 'array' });
+  }
+};
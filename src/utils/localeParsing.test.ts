@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  findLocalePreset,
+  LOCALE_PRESETS,
+  LocaleSettings,
+  parseLocaleDate,
+  parseLocaleDateTime,
+  parseLocaleNumber,
+  parseLocaleNumberParts,
+  resolveDateOrder
+} from './localeParsing';
+import * as server from '../../backend/src/utils/localeParsing.js';
+
+const preset = (id: string): LocaleSettings => LOCALE_PRESETS.find(p => p.id === id)!.settings;
+const german = preset('de-DE');
+const french = preset('fr-FR');
+const swiss = preset('de-CH');
+
+describe('parseLocaleNumber', () => {
+  it('reads grouped and decimal numbers in each preset', () => {
+    expect(parseLocaleNumber('1,234.56')).toBe(1234.56);
+    expect(parseLocaleNumber('1.234,56', german)).toBe(1234.56);
+    expect(parseLocaleNumber('1 234,56', french)).toBe(1234.56);
+    expect(parseLocaleNumber("1'234.56", swiss)).toBe(1234.56);
+  });
+
+  it('reads signs, accounting negatives, currencies and percentages', () => {
+    expect(parseLocaleNumber('(1,234)')).toBe(-1234);
+    expect(parseLocaleNumber('$-5')).toBe(-5);
+    expect(parseLocaleNumber('-12,5 %', german)).toBe(-12.5);
+    expect(parseLocaleNumberParts('1.234,56 €', german)).toEqual({ value: 1234.56, currency: '€', percent: false });
+    expect(parseLocaleNumberParts('12%')).toEqual({ value: 12, currency: null, percent: true });
+  });
+
+  it('rejects misplaced separators and text', () => {
+    expect(parseLocaleNumber('1,23,456')).toBeNull();
+    expect(parseLocaleNumber('1.234,56')).toBeNull();
+    expect(parseLocaleNumber('12 apples')).toBeNull();
+    expect(parseLocaleNumber('')).toBeNull();
+    expect(parseLocaleNumber(Infinity)).toBeNull();
+  });
+
+  it('reads scientific notation only with a decimal point', () => {
+    expect(parseLocaleNumber('1.5e3')).toBe(1500);
+    expect(parseLocaleNumber('1,5e3', german)).toBeNull();
+  });
+});
+
+describe('parseLocaleDate', () => {
+  it('reads day/month order from the setting', () => {
+    expect(parseLocaleDate('03/04/2024', 'MDY')).toBe('2024-03-04');
+    expect(parseLocaleDate('03/04/2024', 'DMY')).toBe('2024-04-03');
+    expect(parseLocaleDate('03.04.24', 'DMY')).toBe('2024-04-03');
+  });
+
+  it('reads year-first and month-name dates either way', () => {
+    expect(parseLocaleDate('2024-02-29', 'DMY')).toBe('2024-02-29');
+    expect(parseLocaleDate('Jan 5, 2023', 'DMY')).toBe('2023-01-05');
+    expect(parseLocaleDate('31-Dec-2024', 'MDY')).toBe('2024-12-31');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseLocaleDate('2023-02-29', 'MDY')).toBeNull();
+    expect(parseLocaleDate('13/13/2024', 'DMY')).toBeNull();
+    expect(parseLocaleDate('not a date', 'MDY')).toBeNull();
+  });
+
+  it('keeps the time of day and offset', () => {
+    expect(parseLocaleDateTime('2024-03-04 5:07 PM', 'MDY')).toBe('2024-03-04T17:07:00');
+    expect(parseLocaleDateTime('04/03/2024T08:30:15+0200', 'DMY')).toBe('2024-03-04T08:30:15+02:00');
+    expect(parseLocaleDateTime('2024-03-04', 'MDY')).toBe('2024-03-04');
+  });
+});
+
+describe('resolveDateOrder', () => {
+  it('picks the order that reads every value', () => {
+    expect(resolveDateOrder(['01/02/2024', '25/02/2024'], 'MDY')).toEqual({ order: 'DMY', ambiguous: false });
+    expect(resolveDateOrder(['02/01/2024', '02/25/2024'], 'DMY')).toEqual({ order: 'MDY', ambiguous: false });
+  });
+
+  it('falls back to the preference when both orders fit', () => {
+    expect(resolveDateOrder(['01/02/2024', '03/04/2024'], 'DMY')).toEqual({ order: 'DMY', ambiguous: true });
+  });
+
+  it('ignores columns without numeric dates', () => {
+    expect(resolveDateOrder(['2024-01-02', 'n/a', 12], 'MDY')).toBeNull();
+  });
+});
+
+describe('findLocalePreset', () => {
+  it('matches presets and nothing else', () => {
+    expect(findLocalePreset({ ...german })?.id).toBe('de-DE');
+    expect(findLocalePreset({ ...german, thousandsSeparator: '' })).toBeUndefined();
+  });
+});
+
+// The server reads stored files with its own copy of the parser; both must
+// read text cells to the same numbers and dates
+describe('client and server locale parsing', () => {
+  const numbers = ['1,234.56', '(1,234)', '$-5', '12%', '1.5e3', '1,23,456', '12 apples', '', '1.234,56 €', '-12,5 %', "1'234.56"];
+
+  LOCALE_PRESETS.forEach(({ id, settings }) => {
+    it(`reads numbers the same way in ${id}`, () => {
+      numbers.forEach(text => {
+        expect(server.parseLocaleNumber(text, settings)).toBe(parseLocaleNumber(text, settings));
+      });
+    });
+  });
+
+  it('reads dates the same way', () => {
+    const dates = ['03/04/2024', '25/02/2024', '03.04.24', '2024-02-29', '2023-02-29', 'Jan 5, 2023', '31-Dec-2024', 'soon'];
+    (['DMY', 'MDY'] as const).forEach(order => {
+      dates.forEach(text => {
+        const parsed = server.parseLocaleDate(text, order);
+        expect(parsed ? parsed.toISOString().slice(0, 10) : null).toBe(parseLocaleDate(text, order));
+      });
+    });
+  });
+
+  it('resolves the same date order', () => {
+    const columns = [['01/02/2024', '25/02/2024'], ['02/01/2024', '02/25/2024'], ['01/02/2024', '03/04/2024']];
+    columns.forEach(values => {
+      expect(server.resolveDateOrder(values, { ...DEFAULT_LOCALE_SETTINGS, dateOrder: 'DMY' }))
+        .toBe(resolveDateOrder(values, 'DMY')?.order);
+    });
+  });
+});
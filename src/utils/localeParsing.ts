@@ -0,0 +1,252 @@
+// Number and date rules for text cells (CSV/TSV, pasted ranges, JSON strings).
+// Typed Excel cells keep their own values; these settings only apply to text.
+
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface LocaleSettings {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | "'" | '';
+  currencySymbols: string[];
+  // Used for dates like 03/04/2024 when every row fits both orders
+  dateOrder: DateOrder;
+}
+
+export interface LocalePreset {
+  id: string;
+  label: string;
+  settings: LocaleSettings;
+}
+
+const COMMON_CURRENCY_SYMBOLS = ['$', '€', '£', '¥', '₹', 'CHF', 'USD', 'EUR', 'GBP'];
+
+export const LOCALE_PRESETS: LocalePreset[] = [
+  { id: 'en-US', label: 'English (US) — 1,234.56 · MM/DD/YYYY', settings: { decimalSeparator: '.', thousandsSeparator: ',', currencySymbols: COMMON_CURRENCY_SYMBOLS, dateOrder: 'MDY' } },
+  { id: 'en-GB', label: 'English (UK) — 1,234.56 · DD/MM/YYYY', settings: { decimalSeparator: '.', thousandsSeparator: ',', currencySymbols: COMMON_CURRENCY_SYMBOLS, dateOrder: 'DMY' } },
+  { id: 'de-DE', label: 'German — 1.234,56 · DD.MM.YYYY', settings: { decimalSeparator: ',', thousandsSeparator: '.', currencySymbols: COMMON_CURRENCY_SYMBOLS, dateOrder: 'DMY' } },
+  { id: 'fr-FR', label: 'French — 1 234,56 · DD/MM/YYYY', settings: { decimalSeparator: ',', thousandsSeparator: ' ', currencySymbols: COMMON_CURRENCY_SYMBOLS, dateOrder: 'DMY' } },
+  { id: 'de-CH', label: "Swiss — 1'234.56 · DD.MM.YYYY", settings: { decimalSeparator: '.', thousandsSeparator: "'", currencySymbols: COMMON_CURRENCY_SYMBOLS, dateOrder: 'DMY' } }
+];
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = LOCALE_PRESETS[0].settings;
+
+// Picks the preset matching the browser language, falling back to US formats
+export const getDefaultLocaleSettings = (): LocaleSettings => {
+  const language = typeof navigator !== 'undefined' ? navigator.language : '';
+  const preset = LOCALE_PRESETS.find(p => p.id === language)
+    || LOCALE_PRESETS.find(p => p.id.split('-')[0] === language.split('-')[0]);
+  return preset?.settings || DEFAULT_LOCALE_SETTINGS;
+};
+
+export const findLocalePreset = (settings: LocaleSettings) => LOCALE_PRESETS.find(preset =>
+  preset.settings.decimalSeparator === settings.decimalSeparator &&
+  preset.settings.thousandsSeparator === settings.thousandsSeparator &&
+  preset.settings.dateOrder === settings.dateOrder &&
+  preset.settings.currencySymbols.join() === settings.currencySymbols.join()
+);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface ParsedNumber {
+  value: number;
+  // The currency symbol the value was written with, if any
+  currency: string | null;
+  percent: boolean;
+}
+
+// Parses "1.234,56 €", "(1,234)", "-12,5 %" etc. according to the settings.
+// Percentages keep their face value (12% -> 12).
+export const parseLocaleNumberParts = (value: unknown, settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): ParsedNumber | null => {
+  if (typeof value === 'number') {
+    return isFinite(value) ? { value, currency: null, percent: false } : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  // All kinds of spaces (including the narrow no-break space used by fr-FR) count as one
+  let text = value.replace(/[\s\u00a0\u202f]+/g, ' ').trim();
+  if (text === '') return null;
+
+  let negative = false;
+  let currency: string | null = null;
+  let percent = false;
+
+  const accounting = text.match(/^\((.*)\)$/);
+  if (accounting) {
+    negative = true;
+    text = accounting[1].trim();
+  }
+  if (text.endsWith('%')) {
+    percent = true;
+    text = text.slice(0, -1).trim();
+  }
+
+  const sign = text.match(/^[+-]/);
+  if (sign) {
+    negative = negative || sign[0] === '-';
+    text = text.slice(1).trim();
+  }
+
+  const symbols = [...settings.currencySymbols].sort((a, b) => b.length - a.length);
+  for (const symbol of symbols) {
+    if (text.startsWith(symbol)) {
+      text = text.slice(symbol.length).trim();
+      currency = symbol;
+      break;
+    }
+    if (text.endsWith(symbol)) {
+      text = text.slice(0, -symbol.length).trim();
+      currency = symbol;
+      break;
+    }
+  }
+
+  // "$-5" puts the sign after the symbol
+  if (currency && !sign && /^[+-]/.test(text)) {
+    negative = negative || text[0] === '-';
+    text = text.slice(1).trim();
+  }
+
+  const decimal = escapeRegExp(settings.decimalSeparator);
+  const plain = new RegExp(`^(\\d+(${decimal}\\d*)?|${decimal}\\d+)$`);
+  const grouped = settings.thousandsSeparator
+    ? new RegExp(`^\\d{1,3}(${escapeRegExp(settings.thousandsSeparator)}\\d{3})+(${decimal}\\d*)?$`)
+    : null;
+  const scientific = settings.decimalSeparator === '.' ? /^\d+(\.\d+)?e[+-]?\d+$/i : null;
+
+  let normalized: string;
+  if (plain.test(text) || scientific?.test(text)) {
+    normalized = text.replace(settings.decimalSeparator, '.');
+  } else if (grouped?.test(text)) {
+    normalized = text.split(settings.thousandsSeparator).join('').replace(settings.decimalSeparator, '.');
+  } else {
+    return null;
+  }
+
+  const number = Number(normalized);
+  if (!isFinite(number)) return null;
+  return { value: negative ? -number : number, currency, percent };
+};
+
+export const parseLocaleNumber = (value: unknown, settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): number | null => {
+  return parseLocaleNumberParts(value, settings)?.value ?? null;
+};
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Captures hours, minutes, seconds, AM/PM and the UTC offset after the date groups
+const TIME_SUFFIX = String.raw`(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:\s?([AaPp][Mm]))?\s?(Z|[+-]\d{2}:?\d{2})?)?`;
+const YEAR_FIRST_DATE = new RegExp(`^(\\d{4})([-/.])(\\d{1,2})\\2(\\d{1,2})${TIME_SUFFIX}$`);
+const NUMERIC_DATE = new RegExp(`^(\\d{1,2})([-/.])(\\d{1,2})\\2(\\d{4}|\\d{2})${TIME_SUFFIX}$`);
+const MONTH_NAME_FIRST_DATE = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/; // Jan 1, 2023
+const DAY_FIRST_NAMED_DATE = /^(\d{1,2})[\s-]+([A-Za-z]{3,9})\.?[\s-]+(\d{4})$/; // 1 Jan 2023, 31-Dec-2024
+
+const monthFromName = (name: string) => {
+  const lower = name.toLowerCase();
+  return MONTH_NAMES.findIndex(month => month.startsWith(lower) && lower.length >= 3) + 1;
+};
+
+const expandYear = (year: string) => {
+  const value = parseInt(year, 10);
+  if (year.length === 4) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year <= 1900 || year >= 2100 || month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Formats the time groups of a date match as "HH:MM:SS" plus the offset ("Z", "+02:00")
+const timeFromMatch = (match: RegExpMatchArray): string | null => {
+  if (match[5] === undefined) return null;
+  let hours = parseInt(match[5], 10);
+  const minutes = parseInt(match[6], 10);
+  const seconds = match[7] ? parseInt(match[7], 10) : 0;
+  const meridiem = match[8]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const offset = match[9] ? (match[9] === 'Z' ? 'Z' : match[9].replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')) : '';
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${offset}`;
+};
+
+const parseNumericDate = (text: string, order: DateOrder) => {
+  const yearFirst = text.match(YEAR_FIRST_DATE);
+  if (yearFirst) {
+    const date = toIsoDate(parseInt(yearFirst[1], 10), parseInt(yearFirst[3], 10), parseInt(yearFirst[4], 10));
+    return date ? { date, time: timeFromMatch(yearFirst) } : null;
+  }
+
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const first = parseInt(numeric[1], 10);
+    const second = parseInt(numeric[3], 10);
+    const year = expandYear(numeric[4]);
+    const date = order === 'DMY' ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+    return date ? { date, time: timeFromMatch(numeric) } : null;
+  }
+
+  return undefined;
+};
+
+// Like parseLocaleDate, but keeps the time of day: YYYY-MM-DDTHH:MM:SS with the
+// offset when the value has one, plain YYYY-MM-DD otherwise
+export const parseLocaleDateTime = (value: unknown, order: DateOrder): string | null => {
+  if (typeof value !== 'string') return null;
+  const numeric = parseNumericDate(value.trim(), order);
+  if (numeric !== undefined) {
+    return numeric && (numeric.time ? `${numeric.date}T${numeric.time}` : numeric.date);
+  }
+  return parseLocaleDate(value, order);
+};
+
+// Parses a date string to YYYY-MM-DD. `order` decides how 03/04/2024 is read;
+// year-first and month-name dates are unambiguous.
+export const parseLocaleDate = (value: unknown, order: DateOrder): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  const numeric = parseNumericDate(text, order);
+  if (numeric !== undefined) return numeric?.date || null;
+
+  const monthFirst = text.match(MONTH_NAME_FIRST_DATE);
+  if (monthFirst) return toIsoDate(parseInt(monthFirst[3], 10), monthFromName(monthFirst[1]), parseInt(monthFirst[2], 10));
+
+  const dayFirst = text.match(DAY_FIRST_NAMED_DATE);
+  if (dayFirst) return toIsoDate(parseInt(dayFirst[3], 10), monthFromName(dayFirst[2]), parseInt(dayFirst[1], 10));
+
+  return null;
+};
+
+export const isLocaleDate = (value: unknown) =>
+  parseLocaleDate(value, 'MDY') !== null || parseLocaleDate(value, 'DMY') !== null;
+
+export interface DateOrderResolution {
+  order: DateOrder;
+  // True when every value reads as a valid date either way, so the preference decided
+  ambiguous: boolean;
+}
+
+// Picks the day/month order that reads the most values of a column as valid
+// dates — normally all of them. Returns null when the column has no dd/mm/yyyy-style values.
+export const resolveDateOrder = (values: unknown[], preferred: DateOrder): DateOrderResolution | null => {
+  let candidates = 0;
+  let validDMY = 0;
+  let validMDY = 0;
+
+  values.forEach(value => {
+    if (typeof value !== 'string' || !NUMERIC_DATE.test(value.trim())) return;
+    candidates++;
+    if (parseLocaleDate(value, 'DMY')) validDMY++;
+    if (parseLocaleDate(value, 'MDY')) validMDY++;
+  });
+
+  if (candidates === 0) return null;
+  if (validDMY === validMDY) {
+    return { order: preferred, ambiguous: validDMY === candidates };
+  }
+  return { order: validDMY > validMDY ? 'DMY' : 'MDY', ambiguous: false };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeOutlierBounds,
+  DEFAULT_OUTLIER_SETTINGS,
+  describeOutlierSettings,
+  detectOutliers,
+  OutlierMethod,
+  OutlierSettings,
+  quantile
+} from './outliers';
+import { DEFAULT_LOCALE_SETTINGS } from './localeParsing';
+import * as server from '../../backend/src/utils/outliers.js';
+
+const columns: Record<string, unknown[]> = {
+  skewed: [12, 15, 14, 13, 16, 15, 14, 120, 13, 15, -40, 14],
+  // More than half the values equal, so MAD is 0
+  constant: [5, 5, 5, 5, 5, 5, 9, 5, 1],
+  text: ['1,200', '$1,350', '1,275', '', 'n/a', '1,310', '9,800', null, '1,290'],
+  small: [1, 2],
+};
+
+const settings: OutlierSettings[] = (['iqr', 'mad', 'percentile'] as OutlierMethod[]).flatMap(method => [
+  { method, threshold: method === 'iqr' ? 1.5 : method === 'mad' ? 3.5 : 1 },
+  { method, threshold: method === 'iqr' ? 3 : method === 'mad' ? 2 : 10 },
+]);
+
+describe('outlier bounds', () => {
+  it('interpolates quantiles between closest ranks', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75);
+  });
+
+  it('places Tukey fences k IQRs outside the quartiles', () => {
+    const bounds = computeOutlierBounds([1, 2, 3, 4, 5], DEFAULT_OUTLIER_SETTINGS);
+    expect(bounds).toMatchObject({ lower: -1, upper: 7 });
+  });
+
+  it('falls back to the mean absolute deviation when MAD is 0', () => {
+    const bounds = computeOutlierBounds(columns.constant as number[], { method: 'mad', threshold: 3.5 })!;
+    expect(bounds.upper).toBeGreaterThan(5);
+    expect(detectOutliers(columns.constant, { method: 'mad', threshold: 3.5 })?.indices).toEqual([6, 8]);
+  });
+
+  it('needs at least three numbers', () => {
+    expect(detectOutliers(columns.small)).toBeNull();
+  });
+
+  it('skips blank and non-numeric values', () => {
+    const result = detectOutliers(columns.text, DEFAULT_OUTLIER_SETTINGS, DEFAULT_LOCALE_SETTINGS)!;
+    expect(result.indices).toEqual([6]);
+  });
+});
+
+describe('client and server outlier detection', () => {
+  it('describes settings the same way', () => {
+    settings.forEach(item => expect(server.describeOutlierSettings(item)).toBe(describeOutlierSettings(item)));
+  });
+
+  Object.entries(columns).forEach(([name, values]) => {
+    it(`flags the same values in the ${name} column`, () => {
+      settings.forEach(item => {
+        const client = detectOutliers(values, item, DEFAULT_LOCALE_SETTINGS);
+        const backend = server.detectOutliers(values, item, DEFAULT_LOCALE_SETTINGS);
+        if (!client) {
+          expect(backend).toBeNull();
+          return;
+        }
+        expect(backend.bounds).toEqual(client.bounds);
+        const flagged = client.indices.map(index => Number(String(values[index]).replace(/[$,]/g, '')));
+        expect(backend.values).toEqual(flagged);
+      });
+    });
+  });
+});
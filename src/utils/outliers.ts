@@ -0,0 +1,117 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+
+// Outlier detection shared by the preview grid, column profiles and cleaning
+// suggestions. Mirrors backend/src/utils/outliers.js, which the server-side
+// statistics and insights use. The method is chosen per column and saved in
+// the column schema.
+
+export type OutlierMethod = 'iqr' | 'mad' | 'percentile';
+
+export interface OutlierSettings {
+  method: OutlierMethod;
+  // IQR multiplier k, robust z-score cut-off, or percentile cap (in %)
+  threshold: number;
+}
+
+export interface OutlierBounds extends OutlierSettings {
+  lower: number;
+  upper: number;
+}
+
+export const OUTLIER_METHODS: Record<OutlierMethod, { label: string; thresholdLabel: string; defaultThreshold: number; describe: (threshold: number) => string }> = {
+  iqr: {
+    label: 'IQR (Tukey fences)',
+    thresholdLabel: 'Fence multiplier (k)',
+    defaultThreshold: 1.5,
+    describe: threshold => `outside Q1 − ${threshold}×IQR and Q3 + ${threshold}×IQR`
+  },
+  mad: {
+    label: 'Robust z-score (MAD)',
+    thresholdLabel: 'Max robust z-score',
+    defaultThreshold: 3.5,
+    describe: threshold => `robust z-score above ${threshold}`
+  },
+  percentile: {
+    label: 'Percentile caps',
+    thresholdLabel: 'Cap each tail at (%)',
+    defaultThreshold: 1,
+    describe: threshold => `below p${threshold} or above p${100 - threshold}`
+  }
+};
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettings = { method: 'iqr', threshold: OUTLIER_METHODS.iqr.defaultThreshold };
+
+// Short label for badges and messages, e.g. "IQR, k=1.5"
+export const describeOutlierSettings = ({ method, threshold }: OutlierSettings) => {
+  if (method === 'iqr') return `IQR, k=${threshold}`;
+  if (method === 'mad') return `MAD, z>${threshold}`;
+  return `p${threshold}/p${100 - threshold}`;
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const quantile = (sorted: ArrayLike<number>, q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Scales MAD to the standard deviation of a normal distribution
+const MAD_SCALE = 0.6745;
+// Scales the mean absolute deviation the same way, used when MAD is 0
+const MEAN_AD_SCALE = 0.7979;
+
+export const computeOutlierBounds = (numbers: number[], settings: OutlierSettings = DEFAULT_OUTLIER_SETTINGS): OutlierBounds | null => {
+  if (numbers.length < 3) return null;
+  const sorted = Float64Array.from(numbers).sort();
+  const { method, threshold } = settings;
+
+  if (method === 'iqr') {
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    return { method, threshold, lower: q1 - threshold * iqr, upper: q3 + threshold * iqr };
+  }
+
+  if (method === 'mad') {
+    const median = quantile(sorted, 0.5);
+    const deviations = Float64Array.from(sorted, x => Math.abs(x - median)).sort();
+    const mad = quantile(deviations, 0.5);
+    let spread = mad / MAD_SCALE;
+    if (spread === 0) {
+      // More than half the values are identical; fall back to the mean absolute deviation
+      spread = deviations.reduce((sum, d) => sum + d, 0) / deviations.length / MEAN_AD_SCALE;
+    }
+    if (spread === 0) return { method, threshold, lower: median, upper: median };
+    return { method, threshold, lower: median - threshold * spread, upper: median + threshold * spread };
+  }
+
+  const tail = Math.min(Math.max(threshold, 0), 50) / 100;
+  return { method, threshold, lower: quantile(sorted, tail), upper: quantile(sorted, 1 - tail) };
+};
+
+export const isOutsideBounds = (value: number, bounds: OutlierBounds) => value < bounds.lower || value > bounds.upper;
+
+export interface OutlierResult {
+  bounds: OutlierBounds;
+  count: number;
+  // Positions in the input of flagged values
+  indices: number[];
+}
+
+// Flags values of a column; non-numeric and empty values are never outliers
+export const detectOutliers = (
+  values: unknown[],
+  settings: OutlierSettings = DEFAULT_OUTLIER_SETTINGS,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): OutlierResult | null => {
+  const parsed = values.map(value => parseLocaleNumber(value, locale));
+  const bounds = computeOutlierBounds(parsed.filter((n): n is number => n !== null), settings);
+  if (!bounds) return null;
+
+  const indices: number[] = [];
+  parsed.forEach((n, index) => {
+    if (n !== null && isOutsideBounds(n, bounds)) indices.push(index);
+  });
+  return { bounds, count: indices.length, indices };
+};
@@ -0,0 +1,165 @@
+import { applyColumnSchema, ColumnSchemaEntry, getColumnName, getTypeOverrides, revertColumnSchema } from './columnSchema';
+import { applyCleaningFix, CleaningFix } from './dataCleaning';
+import { addCalculatedColumn, CalculatedColumn, FormulaError } from './formula';
+import { applyDedupe, DedupeOperation } from './fuzzyDedup';
+import { ColumnFilter, filterRows } from './gridUtils';
+import { applyReshape, getReshapeColumns, ReshapeError, ReshapeOperation } from './reshape';
+import { SEMANTIC_TYPES } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings } from './localeParsing';
+import type { Row } from './excelUtils';
+
+// The recorded transformation pipeline of a dataset: every change to the data
+// or its schema is a serializable step, so the current data is always the
+// loaded sheet with the steps replayed in order. That gives undo/redo, and lets
+// a pipeline saved on the server (backend/src/models/pipeline.model.js) be
+// replayed on a later upload of the same report.
+
+export type PipelineOperation =
+  | { kind: 'clean'; fix: CleaningFix }
+  // Keeps the rows matching the filters
+  | { kind: 'filter'; filters: Record<string, ColumnFilter> }
+  // Replaces the column schema (renames, type overrides, formats, outlier methods)
+  | { kind: 'schema'; schema: ColumnSchemaEntry[] }
+  // Adds or recomputes a calculated column from a formula (see formula.ts)
+  | { kind: 'derive'; column: string; formula: string }
+  // Unpivots, pivots, transposes or splits the table (see reshape.ts)
+  | { kind: 'reshape'; reshape: ReshapeOperation }
+  // Merges near-duplicate rows (see fuzzyDedup.ts)
+  | { kind: 'dedupe'; dedupe: DedupeOperation };
+
+export interface PipelineStep {
+  id: string;
+  label: string;
+  operation: PipelineOperation;
+  createdAt: string;
+}
+
+export interface PipelineResult {
+  // Rows under the file's column names
+  data: Row[];
+  schema: ColumnSchemaEntry[];
+}
+
+export const createPipelineStep = (operation: PipelineOperation, label: string): PipelineStep => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  operation,
+  createdAt: new Date().toISOString()
+});
+
+// Columns a step reads, by the names they have when it runs. Formulas check
+// their own columns when they compile.
+const requiredColumns = (operation: PipelineOperation): string[] => {
+  if (operation.kind === 'clean') return 'column' in operation.fix ? [operation.fix.column] : [];
+  if (operation.kind === 'filter') return Object.keys(operation.filters);
+  if (operation.kind === 'reshape') return getReshapeColumns(operation.reshape);
+  if (operation.kind === 'dedupe') return operation.dedupe.keys;
+  return [];
+};
+
+// Schema of the data a step returns. Reshapes replace columns, and entries
+// for the columns they removed are dropped.
+export const schemaAfterStep = (schema: ColumnSchemaEntry[], operation: PipelineOperation, data: Row[]) => {
+  if (operation.kind !== 'reshape') return schema;
+  const columns = Object.keys(data[0] || {});
+  return schema.filter(entry => columns.includes(entry.name));
+};
+
+// Runs one step. Cleaning and filters see the columns under their schema names,
+// like the preview does, and the result is stored under the file's names again.
+export const applyPipelineStep = (
+  data: Row[],
+  schema: ColumnSchemaEntry[],
+  operation: PipelineOperation,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): PipelineResult => {
+  if (operation.kind === 'schema') {
+    // Entries for columns this sheet doesn't have are dropped
+    const sourceColumns = Object.keys(data[0] || {});
+    return { data, schema: operation.schema.filter(entry => sourceColumns.includes(entry.name)) };
+  }
+
+  const view = applyColumnSchema(data, schema, locale);
+  let rows: Row[];
+  if (operation.kind === 'clean') {
+    rows = applyCleaningFix(view, operation.fix, locale).rows;
+  } else if (operation.kind === 'derive') {
+    rows = addCalculatedColumn(view, operation.column, operation.formula, locale, getTypeOverrides(schema));
+  } else if (operation.kind === 'reshape') {
+    rows = applyReshape(view, operation.reshape, locale);
+  } else if (operation.kind === 'dedupe') {
+    rows = applyDedupe(view, operation.dedupe).rows;
+  } else {
+    rows = filterRows(view, operation.filters, locale);
+  }
+  const result = revertColumnSchema(rows, schema);
+  return { data: result, schema: schemaAfterStep(schema, operation, result) };
+};
+
+// Replays steps on freshly loaded rows. Steps that need a column the data
+// doesn't have (e.g. a new month's file without it), whose formula no longer
+// type checks against it, or whose reshape no longer fits, are skipped and reported.
+export const replayPipeline = (
+  sourceData: Row[],
+  steps: PipelineStep[],
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+) => {
+  let result: PipelineResult = { data: sourceData, schema: [] };
+  const skipped: PipelineStep[] = [];
+
+  steps.forEach(step => {
+    const sourceColumns = Object.keys(result.data[0] || {});
+    const columns = sourceColumns.map(name => {
+      const entry = result.schema.find(e => e.name === name);
+      return entry ? getColumnName(entry) : name;
+    });
+    try {
+      if (requiredColumns(step.operation).some(column => !columns.includes(column))) {
+        skipped.push(step);
+        return;
+      }
+      result = applyPipelineStep(result.data, result.schema, step.operation, locale);
+    } catch (error) {
+      if (!(error instanceof FormulaError) && !(error instanceof ReshapeError)) throw error;
+      skipped.push(step);
+    }
+  });
+
+  return { ...result, skipped };
+};
+
+// Label for a schema step, from what changed
+export const describeSchemaChange = (previous: ColumnSchemaEntry[] = [], next: ColumnSchemaEntry[]) => {
+  const changes: string[] = [];
+  next.forEach(entry => {
+    const before: ColumnSchemaEntry = previous.find(e => e.name === entry.name) || { name: entry.name };
+    if (getColumnName(before) !== getColumnName(entry)) {
+      changes.push(`Renamed "${getColumnName(before)}" to "${getColumnName(entry)}"`);
+    }
+    if (before.semanticType !== entry.semanticType) {
+      changes.push(entry.semanticType
+        ? `Set "${getColumnName(entry)}" to ${SEMANTIC_TYPES[entry.semanticType].label}`
+        : `Reset the type of "${getColumnName(entry)}"`);
+    }
+    if (JSON.stringify(before.outliers) !== JSON.stringify(entry.outliers)) {
+      changes.push(`Changed outlier detection for "${getColumnName(entry)}"`);
+    }
+  });
+
+  if (changes.length === 1) return changes[0];
+  if (changes.length > 1) return `${changes[0]} and ${changes.length - 1} more schema changes`;
+  return 'Updated column schema';
+};
+
+// Label for a filter step, e.g. 'Kept 120 of 500 rows (filtered on "Region", "Amount")'
+export const describeFilterStep = (filters: Record<string, ColumnFilter>, kept: number, total: number) =>
+  `Kept ${kept} of ${total} rows (filtered on ${Object.keys(filters).map(column => `"${column}"`).join(', ')})`;
+
+// Calculated columns added by the steps, in order. A column defined twice is
+// listed twice, so replaying the list gives the same values as the pipeline.
+export const getCalculatedColumns = (steps: PipelineStep[] = []): CalculatedColumn[] => steps.flatMap(step =>
+  step.operation.kind === 'derive' ? [{ name: step.operation.column, formula: step.operation.formula }] : []
+);
+
+// The sheet's column names before any step ran, for matching saved pipelines
+export const getSourceColumns = (data: Row[]) => Object.keys(data[0] || {}).filter(column => column !== '_id');
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { computePivot, PivotConfig, PivotDisplayMode, pivotToRows } from './pivot';
+import type { Row } from './excelUtils';
+
+const sales: Row[] = [
+  { Region: 'West', Rep: 'Ana', Year: 2023, Units: 10 },
+  { Region: 'West', Rep: 'Ana', Year: 2024, Units: 20 },
+  { Region: 'West', Rep: 'Ben', Year: 2024, Units: 30 },
+  { Region: 'East', Rep: 'Cy', Year: 2023, Units: 40 },
+  { Region: 'East', Rep: 'Cy', Year: 2024, Units: '' },
+  { Region: '', Rep: 'Dee', Year: 2024, Units: 5 },
+];
+
+const byRegionAndRep: PivotConfig = {
+  rows: ['Region', 'Rep'],
+  columns: ['Year'],
+  values: [{ id: 'units', column: 'Units', aggregation: 'sum' }],
+  displayMode: 'value',
+  showSubtotals: true,
+  showGrandTotals: true,
+};
+
+const rounded = (cells: (number | null)[]) => cells.map(value => value === null ? null : Math.round(value * 10) / 10);
+
+describe('computePivot', () => {
+  it('groups rows, spreads columns and adds subtotals and totals', () => {
+    const result = computePivot(sales, byRegionAndRep);
+    expect(result.columnKeys).toEqual([['2023'], ['2024']]);
+    expect(result.rows.map(row => [row.kind, row.key.join('/'), row.cells])).toEqual([
+      ['subtotal', 'East', [40, null, 40]],
+      ['group', 'East/Cy', [40, null, 40]],
+      ['subtotal', 'West', [10, 50, 60]],
+      ['group', 'West/Ana', [10, 20, 30]],
+      ['group', 'West/Ben', [null, 30, 30]],
+      ['subtotal', '(blank)', [null, 5, 5]],
+      ['group', '(blank)/Dee', [null, 5, 5]],
+      ['total', '', [50, 55, 105]],
+    ]);
+  });
+
+  it('leaves out subtotals and totals when turned off', () => {
+    const result = computePivot(sales, { ...byRegionAndRep, showSubtotals: false, showGrandTotals: false });
+    expect(result.rows.map(row => row.key.join('/'))).toEqual(['East/Cy', 'West/Ana', 'West/Ben', '(blank)/Dee']);
+    expect(result.rows[1].cells).toEqual([10, 20]);
+  });
+
+  it('computes subtotals from raw values, not from other cells', () => {
+    const result = computePivot(sales, {
+      ...byRegionAndRep,
+      rows: ['Region'],
+      columns: [],
+      values: [
+        { id: 'median', column: 'Units', aggregation: 'median' },
+        { id: 'count', column: 'Units', aggregation: 'count' },
+        { id: 'p90', column: 'Units', aggregation: 'percentile', percentile: 90 },
+      ],
+    });
+    expect(result.columnKeys).toEqual([[]]);
+    expect(result.rows.map(row => [row.key.join('/'), rounded(row.cells)])).toEqual([
+      ['East', [40, 1, 40]],
+      ['West', [20, 3, 28]],
+      ['(blank)', [5, 1, 5]],
+      // The median of all five values, not of the three region medians
+      ['', [20, 5, 36]],
+    ]);
+  });
+
+  const percents = (displayMode: PivotDisplayMode) => {
+    const result = computePivot(sales, { ...byRegionAndRep, displayMode });
+    return Object.fromEntries(result.rows.map(row => [row.key.join('/') || 'Total', rounded(row.cells)]));
+  };
+
+  it('shows shares of the row total', () => {
+    const rows = percents('percent-row');
+    expect(rows.West).toEqual([16.7, 83.3, 100]);
+    expect(rows.Total).toEqual([47.6, 52.4, 100]);
+  });
+
+  it('shows shares of the column total', () => {
+    const rows = percents('percent-column');
+    expect(rows.West).toEqual([20, 90.9, 57.1]);
+    expect(rows['East/Cy']).toEqual([80, null, 38.1]);
+    expect(rows.Total).toEqual([100, 100, 100]);
+  });
+
+  it('shows shares of the grand total', () => {
+    const rows = percents('percent-total');
+    expect(rows['West/Ana']).toEqual([9.5, 19, 28.6]);
+    expect(rows.Total).toEqual([47.6, 52.4, 100]);
+  });
+});
+
+describe('pivotToRows', () => {
+  it('labels subtotal and grand total rows', () => {
+    const rows = pivotToRows(computePivot(sales, byRegionAndRep));
+    expect(Object.keys(rows[0])).toEqual(['Region', 'Rep', '2023 — Sum of Units', '2024 — Sum of Units', 'Total — Sum of Units']);
+    expect(rows[2]).toMatchObject({ Region: 'West', Rep: 'Subtotal', 'Total — Sum of Units': 60 });
+    expect(rows[rows.length - 1]).toMatchObject({ Region: 'Grand total', Rep: '', '2023 — Sum of Units': 50 });
+  });
+});
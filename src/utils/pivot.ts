@@ -0,0 +1,273 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import { quantile } from './outliers';
+import type { Row } from './excelUtils';
+
+// Pivot tables: rows are grouped by one or more row fields and spread across
+// the values of the column fields, and every value field is aggregated per
+// cell. Aggregations like median aren't additive, so subtotals and totals are
+// computed from the raw values of their group rather than from other cells.
+
+export type PivotAggregation = 'sum' | 'average' | 'count' | 'distinct' | 'median' | 'min' | 'max' | 'percentile';
+
+export type PivotDisplayMode = 'value' | 'percent-row' | 'percent-column' | 'percent-total';
+
+export interface PivotValueField {
+  id: string;
+  column: string;
+  aggregation: PivotAggregation;
+  // 1–99, for the percentile aggregation
+  percentile?: number;
+}
+
+export interface PivotConfig {
+  rows: string[];
+  columns: string[];
+  values: PivotValueField[];
+  displayMode: PivotDisplayMode;
+  showSubtotals: boolean;
+  showGrandTotals: boolean;
+}
+
+export interface PivotRow {
+  // Values of the row fields down to this row's level
+  key: string[];
+  kind: 'group' | 'subtotal' | 'total';
+  // One entry per column key and value field (column key major), then one per
+  // value field for the row total when there are total columns
+  cells: (number | null)[];
+}
+
+export interface PivotResult {
+  config: PivotConfig;
+  // Leaf column keys, one value per column field; [[]] without column fields
+  columnKeys: string[][];
+  rows: PivotRow[];
+}
+
+export const PIVOT_AGGREGATIONS: { id: PivotAggregation; label: string; numeric: boolean }[] = [
+  { id: 'sum', label: 'Sum', numeric: true },
+  { id: 'average', label: 'Average', numeric: true },
+  { id: 'count', label: 'Count', numeric: false },
+  { id: 'distinct', label: 'Distinct count', numeric: false },
+  { id: 'median', label: 'Median', numeric: true },
+  { id: 'min', label: 'Min', numeric: true },
+  { id: 'max', label: 'Max', numeric: true },
+  { id: 'percentile', label: 'Percentile', numeric: true }
+];
+
+export const PIVOT_DISPLAY_MODES: { id: PivotDisplayMode; label: string }[] = [
+  { id: 'value', label: 'Values' },
+  { id: 'percent-row', label: '% of row total' },
+  { id: 'percent-column', label: '% of column total' },
+  { id: 'percent-total', label: '% of grand total' }
+];
+
+export const DEFAULT_PERCENTILE = 90;
+
+export const BLANK_LABEL = '(blank)';
+
+export const describeValueField = (field: PivotValueField) => {
+  const aggregation = field.aggregation === 'percentile'
+    ? `P${field.percentile ?? DEFAULT_PERCENTILE}`
+    : PIVOT_AGGREGATIONS.find(a => a.id === field.aggregation)?.label;
+  return `${aggregation} of ${field.column}`;
+};
+
+// Whether rows end with total columns; without column fields they'd repeat the only column
+export const hasTotalColumns = (config: PivotConfig) => config.showGrandTotals && config.columns.length > 0;
+
+// Label of a column key in headers and exports, e.g. "West / 2024"
+export const describeColumnKey = (key: string[]) => key.join(' / ');
+
+const keyOf = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === '' ? BLANK_LABEL : String(value);
+
+// Numbers sort numerically, everything else alphabetically; blanks go last
+const compareKeys = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (a === BLANK_LABEL) return 1;
+  if (b === BLANK_LABEL) return -1;
+  const na = Number(a);
+  const nb = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && !isNaN(na) && !isNaN(nb)) return na - nb;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const comparePaths = (a: string[], b: string[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const result = compareKeys(a[i], b[i]);
+    if (result !== 0) return result;
+  }
+  return a.length - b.length;
+};
+
+// Collected values of one value field in one cell; charts aggregate with these too
+export interface Bucket {
+  numbers: number[];
+  count: number;
+  distinct: Set<string>;
+}
+
+export const createBucket = (): Bucket => ({ numbers: [], count: 0, distinct: new Set<string>() });
+
+// Blank cells aren't counted; text that isn't a number only counts
+export const addToBucket = (bucket: Bucket, value: unknown, locale: LocaleSettings) => {
+  if (value === null || value === undefined || value === '') return;
+  bucket.count++;
+  bucket.distinct.add(String(value));
+  const number = parseLocaleNumber(value, locale);
+  if (number !== null) bucket.numbers.push(number);
+};
+
+export const aggregate = (bucket: Bucket | undefined, field: Pick<PivotValueField, 'aggregation' | 'percentile'>): number | null => {
+  if (!bucket) return null;
+  if (field.aggregation === 'count') return bucket.count;
+  if (field.aggregation === 'distinct') return bucket.distinct.size;
+
+  const { numbers } = bucket;
+  if (numbers.length === 0) return null;
+  switch (field.aggregation) {
+    case 'sum':
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case 'average':
+      return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    case 'min':
+      return numbers.reduce((min, n) => n < min ? n : min, numbers[0]);
+    case 'max':
+      return numbers.reduce((max, n) => n > max ? n : max, numbers[0]);
+    default: {
+      const sorted = Float64Array.from(numbers).sort();
+      const q = field.aggregation === 'median' ? 0.5 : (field.percentile ?? DEFAULT_PERCENTILE) / 100;
+      return quantile(sorted, q);
+    }
+  }
+};
+
+// Separates path parts in map keys; can't appear in cell text read from a sheet
+const SEPARATOR = '\u0000';
+// Key of the "all columns" bucket behind row totals
+const ALL = '\u0001';
+
+export const computePivot = (
+  data: Row[],
+  config: PivotConfig,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): PivotResult => {
+  const { rows: rowFields, columns: columnFields, values } = config;
+  // rowKey -> columnKey -> one bucket per value field
+  const buckets = new Map<string, Map<string, Bucket[]>>();
+  const rowPaths = new Map<string, string[]>();
+  const columnPaths = new Map<string, string[]>();
+
+  const bucketsFor = (rowKey: string, columnKey: string) => {
+    let byColumn = buckets.get(rowKey);
+    if (!byColumn) buckets.set(rowKey, byColumn = new Map());
+    let cell = byColumn.get(columnKey);
+    if (!cell) byColumn.set(columnKey, cell = values.map(createBucket));
+    return cell;
+  };
+
+  data.forEach(row => {
+    const rowPath = rowFields.map(field => keyOf(row[field]));
+    const columnPath = columnFields.map(field => keyOf(row[field]));
+    const columnKey = columnPath.join(SEPARATOR);
+    columnPaths.set(columnKey, columnPath);
+
+    // Every prefix of the row path is a subtotal level; the empty prefix is the grand total
+    for (let level = 0; level <= rowPath.length; level++) {
+      const prefix = rowPath.slice(0, level);
+      const rowKey = prefix.join(SEPARATOR);
+      if (level > 0) rowPaths.set(rowKey, prefix);
+
+      [columnKey, ALL].forEach(key => {
+        bucketsFor(rowKey, key).forEach((bucket, i) => addToBucket(bucket, row[values[i].column], locale));
+      });
+    }
+  });
+
+  const columnKeys = [...columnPaths.values()].sort(comparePaths);
+  const cellsFor = (rowKey: string) => {
+    const byColumn = buckets.get(rowKey);
+    const cells = columnKeys.flatMap(path =>
+      values.map((field, i) => aggregate(byColumn?.get(path.join(SEPARATOR))?.[i], field))
+    );
+    if (hasTotalColumns(config)) {
+      cells.push(...values.map((field, i) => aggregate(byColumn?.get(ALL)?.[i], field)));
+    }
+    return cells;
+  };
+
+  const rows: PivotRow[] = [...rowPaths.values()]
+    .filter(path => path.length === rowFields.length || config.showSubtotals)
+    .sort(comparePaths)
+    .map(path => ({
+      key: path,
+      kind: path.length === rowFields.length ? 'group' : 'subtotal',
+      cells: cellsFor(path.join(SEPARATOR))
+    }));
+  if (rowFields.length === 0 || config.showGrandTotals) {
+    rows.push({ key: [], kind: rowFields.length === 0 ? 'group' : 'total', cells: cellsFor('') });
+  }
+
+  return { config, columnKeys, rows: applyDisplayMode(rows, columnKeys, config, cellsFor('')) };
+};
+
+// Turns values into shares of their row, column or grand total. Totals are
+// taken from the underlying groups, so they stay right for any aggregation.
+const applyDisplayMode = (
+  rows: PivotRow[],
+  columnKeys: string[][],
+  config: PivotConfig,
+  grandTotals: (number | null)[]
+): PivotRow[] => {
+  if (config.displayMode === 'value') return rows;
+  const fieldCount = config.values.length;
+  const totalOffset = columnKeys.length * fieldCount;
+  // The grand total of the whole table per value field
+  const overall = (field: number) => hasTotalColumns(config)
+    ? grandTotals[totalOffset + field]
+    : sumOf(grandTotals.filter((_, i) => i % fieldCount === field));
+
+  const share = (value: number | null, total: number | null) =>
+    value === null || !total ? null : (value / total) * 100;
+
+  return rows.map(row => ({
+    ...row,
+    cells: row.cells.map((value, index) => {
+      const field = index % fieldCount;
+      if (config.displayMode === 'percent-total') return share(value, overall(field));
+      if (config.displayMode === 'percent-column') return share(value, grandTotals[index]);
+      const rowTotal = hasTotalColumns(config)
+        ? row.cells[totalOffset + field]
+        : sumOf(row.cells.filter((_, i) => i % fieldCount === field));
+      return share(value, rowTotal);
+    })
+  }));
+};
+
+const sumOf = (values: (number | null)[]) => values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+
+// The pivot as flat rows for export: one column per row field, then one per
+// column key and value field
+export const pivotToRows = (result: PivotResult) => {
+  const { config, columnKeys, rows } = result;
+  const headers = [
+    ...columnKeys.flatMap(key => config.values.map(field =>
+      [describeColumnKey(key), describeValueField(field)].filter(Boolean).join(' — ')
+    )),
+    ...(hasTotalColumns(config)
+      ? config.values.map(field => `Total — ${describeValueField(field)}`)
+      : [])
+  ];
+
+  return rows.map(row => {
+    const record: Row = {};
+    config.rows.forEach((field, i) => {
+      record[field] = row.kind === 'total' && i === 0 ? 'Grand total' : row.key[i] ?? (i === row.key.length ? 'Subtotal' : '');
+    });
+    headers.forEach((header, i) => {
+      record[header] = row.cells[i] ?? '';
+    });
+    return record;
+  });
+};
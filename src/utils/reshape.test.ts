@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { applyReshape, describeReshape, MAX_TRANSPOSE_ROWS, ReshapeError, ReshapeOperation } from './reshape';
+import { LOCALE_PRESETS } from './localeParsing';
+import type { Row } from './excelUtils';
+
+const german = LOCALE_PRESETS.find(p => p.id === 'de-DE')!.settings;
+
+const wide: Row[] = [
+  { _id: 1, Region: 'West', Jan: 10, Feb: 20 },
+  { _id: 2, Region: 'East', Jan: '', Feb: 40 },
+];
+
+const withoutIds = (rows: Row[]) => rows.map(({ _id, ...row }) => row);
+
+describe('unpivot', () => {
+  const unpivot: Extract<ReshapeOperation, { type: 'unpivot' }> = {
+    type: 'unpivot', columns: ['Jan', 'Feb'], keyColumn: ' Month ', valueColumn: 'Amount', dropBlanks: false
+  };
+
+  it('makes one row per unpivoted column and numbers rows again', () => {
+    const rows = applyReshape(wide, unpivot);
+    expect(rows.map(row => row._id)).toEqual([1, 2, 3, 4]);
+    expect(withoutIds(rows)).toEqual([
+      { Region: 'West', Month: 'Jan', Amount: 10 },
+      { Region: 'West', Month: 'Feb', Amount: 20 },
+      { Region: 'East', Month: 'Jan', Amount: '' },
+      { Region: 'East', Month: 'Feb', Amount: 40 },
+    ]);
+    expect(describeReshape(unpivot)).toBe('Unpivoted 2 columns into "Month" / "Amount"');
+  });
+
+  it('drops blank values when asked', () => {
+    expect(applyReshape(wide, { ...unpivot, dropBlanks: true })).toHaveLength(3);
+  });
+
+  it('refuses names taken by the other columns, in any case', () => {
+    expect(() => applyReshape(wide, { ...unpivot, keyColumn: 'region' })).toThrow(ReshapeError);
+    expect(() => applyReshape(wide, { ...unpivot, valueColumn: 'month' })).toThrow('The key and value columns need different names');
+    expect(() => applyReshape(wide, { ...unpivot, columns: ['Mar'] })).toThrow('Column "Mar" not found');
+  });
+});
+
+describe('pivot', () => {
+  const long: Row[] = [
+    { Region: 'West', Month: 'Jan', Amount: '1.000,5' },
+    { Region: 'West', Month: 'Jan', Amount: 2 },
+    { Region: 'West', Month: 'jan', Amount: 3 },
+    { Region: 'East', Month: '', Amount: 4 },
+  ];
+
+  it('makes one column per key value, grouping rows by the other columns', () => {
+    const rows = applyReshape(long, { type: 'pivot', keyColumn: 'Month', valueColumn: 'Amount', aggregation: 'sum' }, german);
+    expect(withoutIds(rows)).toEqual([
+      { Region: 'West', Jan: 1002.5, 'jan (2)': 3, '(blank)': '' },
+      { Region: 'East', Jan: '', 'jan (2)': '', '(blank)': 4 },
+    ]);
+  });
+
+  it('counts values or keeps the first one', () => {
+    const count = applyReshape(long, { type: 'pivot', keyColumn: 'Month', valueColumn: 'Amount', aggregation: 'count' });
+    expect(count[0].Jan).toBe(2);
+    const first = applyReshape(long, { type: 'pivot', keyColumn: 'Month', valueColumn: 'Amount', aggregation: 'first' });
+    expect(first[0].Jan).toBe('1.000,5');
+  });
+});
+
+describe('transpose', () => {
+  it('turns rows into columns named by the header column', () => {
+    const rows = applyReshape(wide, { type: 'transpose', headerColumn: 'Region', nameColumn: 'Month' });
+    expect(withoutIds(rows)).toEqual([
+      { Month: 'Jan', West: 10, East: '' },
+      { Month: 'Feb', West: 20, East: 40 },
+    ]);
+  });
+
+  it('is limited to small tables', () => {
+    const big = Array.from({ length: MAX_TRANSPOSE_ROWS + 1 }, (_, i) => ({ Name: `R${i}` }));
+    expect(() => applyReshape(big, { type: 'transpose', headerColumn: 'Name', nameColumn: 'Field' })).toThrow(ReshapeError);
+  });
+});
+
+describe('split', () => {
+  const tags: Row[] = [
+    { _id: 1, Id: 1, Tags: 'a; b; c' },
+    { _id: 2, Id: 2, Tags: '' },
+  ];
+
+  it('splits into columns in place of the original', () => {
+    const rows = applyReshape(tags, { type: 'split', column: 'Tags', delimiter: ';', into: 'columns' });
+    expect(rows[0]).toEqual({ _id: 1, Id: 1, 'Tags 1': 'a', 'Tags 2': 'b', 'Tags 3': 'c' });
+    expect(rows[1]).toEqual({ _id: 2, Id: 2, 'Tags 1': '', 'Tags 2': '', 'Tags 3': '' });
+  });
+
+  it('splits into rows, keeping rows without parts', () => {
+    const rows = applyReshape(tags, { type: 'split', column: 'Tags', delimiter: ';', into: 'rows' });
+    expect(rows.map(row => [row._id, row.Tags])).toEqual([[1, 'a'], [2, 'b'], [3, 'c'], [4, '']]);
+  });
+});
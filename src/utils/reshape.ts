@@ -0,0 +1,247 @@
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings, parseLocaleNumber } from './localeParsing';
+import { isMissing } from './dataCleaning';
+import type { Row } from './excelUtils';
+
+// Reshape operations for the data workbench. Like cleaning fixes they're
+// plain data, so a reshape is previewed, applied, described and recorded in
+// the pipeline from the same object. Every reshape numbers the rows it
+// returns from 1 again.
+
+export type WideAggregation = 'first' | 'sum' | 'average' | 'count';
+export type SplitTarget = 'columns' | 'rows';
+
+export type ReshapeOperation =
+  // Turns the picked columns into key/value pairs, one row per column; the
+  // other columns are repeated on every row
+  | { type: 'unpivot'; columns: string[]; keyColumn: string; valueColumn: string; dropBlanks: boolean }
+  // The reverse: one column per value of keyColumn, filled from valueColumn;
+  // rows are grouped by the remaining columns
+  | { type: 'pivot'; keyColumn: string; valueColumn: string; aggregation: WideAggregation }
+  // Rows become columns, named by the values of headerColumn; the old column
+  // names go into nameColumn
+  | { type: 'transpose'; headerColumn: string; nameColumn: string }
+  | { type: 'split'; column: string; delimiter: string; into: SplitTarget };
+
+export type ReshapeType = ReshapeOperation['type'];
+
+// Thrown when a reshape can't run on the data (a missing column, a clash of
+// names); replaying a pipeline skips such steps
+export class ReshapeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReshapeError';
+  }
+}
+
+export const WIDE_AGGREGATIONS: { id: WideAggregation; label: string }[] = [
+  { id: 'first', label: 'First value' },
+  { id: 'sum', label: 'Sum' },
+  { id: 'average', label: 'Average' },
+  { id: 'count', label: 'Count' }
+];
+
+// Transposing makes one column per row, so it's limited to small tables
+export const MAX_TRANSPOSE_ROWS = 500;
+// Splitting into columns keeps the rest of longer values in the last column
+export const MAX_SPLIT_COLUMNS = 50;
+
+const BLANK_HEADER = '(blank)';
+
+// Columns a reshape reads, by their names when it runs
+export const getReshapeColumns = (operation: ReshapeOperation): string[] => {
+  switch (operation.type) {
+    case 'unpivot':
+      return operation.columns;
+    case 'pivot':
+      return [operation.keyColumn, operation.valueColumn];
+    case 'transpose':
+      return [operation.headerColumn];
+    default:
+      return [operation.column];
+  }
+};
+
+const columnsOf = (data: Row[]) => Object.keys(data[0] || {}).filter(column => column !== '_id');
+
+const numbered = (rows: Row[]) => rows.map((row, index) => ({ _id: index + 1, ...row }));
+
+// Makes names unique against `taken` (which it updates): "Jan", "Jan (2)"…
+const uniqueName = (name: string, taken: Set<string>) => {
+  let unique = name;
+  for (let n = 2; taken.has(unique.toLowerCase()); n++) unique = `${name} (${n})`;
+  taken.add(unique.toLowerCase());
+  return unique;
+};
+
+const requireName = (name: string, role: string) => {
+  if (!name.trim()) throw new ReshapeError(`Name the ${role} column`);
+  if (name.trim() === '_id') throw new ReshapeError('The name "_id" is reserved');
+};
+
+const unpivot = (data: Row[], operation: Extract<ReshapeOperation, { type: 'unpivot' }>) => {
+  const { columns, keyColumn, valueColumn, dropBlanks } = operation;
+  if (columns.length === 0) throw new ReshapeError('Pick the columns to unpivot');
+  requireName(keyColumn, 'key');
+  requireName(valueColumn, 'value');
+  if (keyColumn.trim().toLowerCase() === valueColumn.trim().toLowerCase()) {
+    throw new ReshapeError('The key and value columns need different names');
+  }
+
+  // Column names are compared ignoring case, as uniqueName does
+  const idColumns = columnsOf(data).filter(column => !columns.includes(column));
+  const idNames = new Set(idColumns.map(column => column.toLowerCase()));
+  const clash = [keyColumn.trim(), valueColumn.trim()].find(name => idNames.has(name.toLowerCase()));
+  if (clash) throw new ReshapeError(`"${clash}" is already a column that isn't unpivoted`);
+
+  const rows: Row[] = [];
+  data.forEach(row => {
+    columns.forEach(column => {
+      if (dropBlanks && isMissing(row[column])) return;
+      const record: Row = {};
+      idColumns.forEach(id => { record[id] = row[id]; });
+      record[keyColumn.trim()] = column;
+      record[valueColumn.trim()] = row[column] ?? '';
+      rows.push(record);
+    });
+  });
+  return numbered(rows);
+};
+
+const pivotWide = (
+  data: Row[],
+  operation: Extract<ReshapeOperation, { type: 'pivot' }>,
+  locale: LocaleSettings
+) => {
+  const { keyColumn, valueColumn, aggregation } = operation;
+  if (keyColumn === valueColumn) throw new ReshapeError('The key and value columns must differ');
+  const idColumns = columnsOf(data).filter(column => column !== keyColumn && column !== valueColumn);
+  const taken = new Set(['_id', ...idColumns.map(column => column.toLowerCase())]);
+
+  // Key value -> output column, in order of first appearance
+  const keyColumns = new Map<string, string>();
+  const groups = new Map<string, { ids: Row; values: Map<string, unknown[]> }>();
+  data.forEach(row => {
+    const key = isMissing(row[keyColumn]) ? BLANK_HEADER : String(row[keyColumn]).trim();
+    if (!keyColumns.has(key)) keyColumns.set(key, uniqueName(key, taken));
+    const groupKey = JSON.stringify(idColumns.map(column => row[column] ?? ''));
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { ids: Object.fromEntries(idColumns.map(column => [column, row[column] ?? ''])), values: new Map() };
+      groups.set(groupKey, group);
+    }
+    if (!group.values.has(key)) group.values.set(key, []);
+    group.values.get(key)!.push(row[valueColumn]);
+  });
+
+  const combine = (values: unknown[] | undefined) => {
+    if (!values) return '';
+    const present = values.filter(value => !isMissing(value));
+    if (aggregation === 'count') return present.length;
+    if (aggregation === 'first') return present[0] ?? '';
+    const numbers = present.map(value => parseLocaleNumber(value, locale)).filter((n): n is number => n !== null);
+    if (numbers.length === 0) return '';
+    const sum = numbers.reduce((total, n) => total + n, 0);
+    return aggregation === 'sum' ? sum : sum / numbers.length;
+  };
+
+  return numbered([...groups.values()].map(group => {
+    const record: Row = { ...group.ids };
+    keyColumns.forEach((column, key) => { record[column] = combine(group.values.get(key)); });
+    return record;
+  }));
+};
+
+const transpose = (data: Row[], operation: Extract<ReshapeOperation, { type: 'transpose' }>) => {
+  const { headerColumn, nameColumn } = operation;
+  requireName(nameColumn, 'name');
+  if (data.length > MAX_TRANSPOSE_ROWS) {
+    throw new ReshapeError(`Only tables of up to ${MAX_TRANSPOSE_ROWS} rows can be transposed; this one has ${data.length}`);
+  }
+
+  const taken = new Set(['_id']);
+  const name = uniqueName(nameColumn.trim(), taken);
+  const headers = data.map((row, index) =>
+    uniqueName(isMissing(row[headerColumn]) ? `Column ${index + 1}` : String(row[headerColumn]).trim(), taken)
+  );
+
+  return numbered(columnsOf(data).filter(column => column !== headerColumn).map(column => {
+    const record: Row = { [name]: column };
+    data.forEach((row, index) => { record[headers[index]] = row[column] ?? ''; });
+    return record;
+  }));
+};
+
+const splitParts = (value: unknown, delimiter: string) =>
+  isMissing(value) ? [] : String(value).split(delimiter).map(part => part.trim());
+
+const split = (data: Row[], operation: Extract<ReshapeOperation, { type: 'split' }>) => {
+  const { column, delimiter, into } = operation;
+  if (!delimiter) throw new ReshapeError('Enter a delimiter');
+
+  if (into === 'rows') {
+    const rows: Row[] = [];
+    data.forEach(row => {
+      const { _id, ...values } = row;
+      const parts = splitParts(row[column], delimiter).filter(part => part !== '');
+      if (parts.length === 0) rows.push(values);
+      parts.forEach(part => rows.push({ ...values, [column]: part }));
+    });
+    return numbered(rows);
+  }
+
+  const longest = data.reduce((max, row) => Math.max(max, splitParts(row[column], delimiter).length), 1);
+  const count = Math.min(MAX_SPLIT_COLUMNS, longest);
+  const others = columnsOf(data).filter(other => other !== column);
+  const taken = new Set(['_id', ...others.map(other => other.toLowerCase())]);
+  const names = Array.from({ length: count }, (_, i) => uniqueName(`${column} ${i + 1}`, taken));
+
+  return data.map(row => {
+    const parts = splitParts(row[column], delimiter);
+    // Anything past the last column stays together in it
+    const cells = parts.length > count ? [...parts.slice(0, count - 1), parts.slice(count - 1).join(delimiter)] : parts;
+    const record: Row = {};
+    Object.keys(row).forEach(key => {
+      if (key !== column) {
+        record[key] = row[key];
+        return;
+      }
+      names.forEach((name, i) => { record[name] = cells[i] ?? ''; });
+    });
+    return record;
+  });
+};
+
+export const applyReshape = (
+  data: Row[],
+  operation: ReshapeOperation,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): Row[] => {
+  const columns = columnsOf(data);
+  const missing = getReshapeColumns(operation).find(column => !columns.includes(column));
+  if (missing !== undefined) throw new ReshapeError(`Column "${missing}" not found`);
+
+  switch (operation.type) {
+    case 'unpivot':
+      return unpivot(data, operation);
+    case 'pivot':
+      return pivotWide(data, operation, locale);
+    case 'transpose':
+      return transpose(data, operation);
+    default:
+      return split(data, operation);
+  }
+};
+
+// Label for the pipeline, e.g. 'Unpivoted 12 columns into "Month" / "Amount"'
+export const describeReshape = (operation: ReshapeOperation) => {
+  switch (operation.type) {
+    case 'unpivot':
+      return `Unpivoted ${operation.columns.length} columns into "${operation.keyColumn.trim()}" / "${operation.valueColumn.trim()}"`;
+    case 'pivot':
+      return `Pivoted "${operation.keyColumn}" into columns of "${operation.valueColumn}"`;
+    case 'transpose':
+      return `Transposed the table on "${operation.headerColumn}"`;
+    default:
+      return `Split "${operation.column}" by ${operation.delimiter === '\n' ? 'line breaks' : `"${operation.delimiter}"`} into ${operation.into}`;
+  }
+};
@@ -0,0 +1,105 @@
+import { ColumnTypeInfo, inferColumnType, SemanticType } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings } from './localeParsing';
+import { ColumnFilter, filterRows, isFilterActive, SortKey, sortRows } from './gridUtils';
+import type { Row } from './excelUtils';
+
+// Saved views: named states of the DataPreview grid (search, column filters,
+// sort order, hidden columns and column order), stored per user and file on
+// the server. A view can also be the data source of charts and AI insights,
+// which then see the rows and columns the grid shows.
+
+export interface ViewState {
+  search: string;
+  // Column the search is limited to; '' searches every column
+  searchColumn: string;
+  filters: Record<string, ColumnFilter>;
+  sortKeys: SortKey[];
+  hiddenColumns: string[];
+  // Columns in display order; columns not listed follow in data order
+  columnOrder: string[];
+}
+
+export interface SavedView extends ViewState {
+  _id: string;
+  name: string;
+  updatedAt?: string;
+}
+
+export const EMPTY_VIEW_STATE: ViewState = {
+  search: '',
+  searchColumn: '',
+  filters: {},
+  sortKeys: [],
+  hiddenColumns: [],
+  columnOrder: []
+};
+
+// Rows with the search term in the column (or any column), ignoring case
+export const searchRows = (rows: Row[], term: string, column: string, columns: string[]) => {
+  if (!term) return rows;
+  const lower = term.toLowerCase();
+  if (column) {
+    return rows.filter(row => String(row[column] || '').toLowerCase().includes(lower));
+  }
+  return rows.filter(row => columns.some(col => String(row[col] || '').toLowerCase().includes(lower)));
+};
+
+// Columns in the saved order; columns the order doesn't know yet go last
+export const orderColumns = (columns: string[], order: string[]) => [
+  ...order.filter(name => columns.includes(name)),
+  ...columns.filter(name => !order.includes(name))
+];
+
+// The columns a view shows, in order
+export const getViewColumns = (columns: string[], view: ViewState) =>
+  orderColumns(columns, view.columnOrder).filter(name => !view.hiddenColumns.includes(name));
+
+// Filters and sort keys on columns that no longer exist (another sheet, a
+// rename) are ignored, as in the grid
+export const getActiveFilters = (filters: Record<string, ColumnFilter>, columns: string[]) =>
+  Object.fromEntries(Object.entries(filters).filter(([column, filter]) => columns.includes(column) && isFilterActive(filter)));
+
+// The rows of a view, with only its visible columns in its order. Row
+// numbers (_id) are kept so rows can be traced back to the sheet.
+export const applySavedView = (
+  data: Row[],
+  view: ViewState,
+  locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  typeOverrides: Record<string, SemanticType> = {}
+) => {
+  const columns = Object.keys(data[0] || {}).filter(column => column !== '_id');
+  const searchColumn = columns.includes(view.searchColumn) ? view.searchColumn : '';
+  const sortKeys = view.sortKeys.filter(key => columns.includes(key.column));
+  const typeInfos: Record<string, ColumnTypeInfo> = Object.fromEntries(sortKeys.map(({ column }) => [
+    column,
+    inferColumnType(data.map(row => row[column]), { locale, name: column, override: typeOverrides[column] })
+  ]));
+
+  const rows = sortRows(
+    filterRows(searchRows(data, view.search, searchColumn, columns), getActiveFilters(view.filters, columns), locale),
+    sortKeys,
+    typeInfos,
+    locale
+  );
+  const visible = getViewColumns(columns, view);
+  return rows.map(row => {
+    const projected: Row = '_id' in row ? { _id: row._id } : {};
+    visible.forEach(column => { projected[column] = row[column]; });
+    return projected;
+  });
+};
+
+// e.g. "search "north", 2 filters, sorted by Revenue ↓, 3 hidden columns"
+export const describeView = (view: ViewState) => {
+  const parts: string[] = [];
+  if (view.search) parts.push(`search "${view.search}"${view.searchColumn ? ` in ${view.searchColumn}` : ''}`);
+  const filterCount = Object.values(view.filters).filter(isFilterActive).length;
+  if (filterCount > 0) parts.push(`${filterCount} filter${filterCount === 1 ? '' : 's'}`);
+  if (view.sortKeys.length > 0) {
+    parts.push(`sorted by ${view.sortKeys.map(key => `${key.column} ${key.direction === 'asc' ? '↑' : '↓'}`).join(', ')}`);
+  }
+  if (view.hiddenColumns.length > 0) {
+    parts.push(`${view.hiddenColumns.length} hidden column${view.hiddenColumns.length === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'all rows and columns';
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { parseSql, runSql, SqlError, SqlTable, toTableName } from './sql';
+
+const sales: SqlTable = {
+  name: 'sales',
+  data: [
+    { _id: 1, region: 'North', rep: 'Ana', year: 2024, revenue: 1200 },
+    { _id: 2, region: 'South', rep: 'Ben', year: 2024, revenue: 300 },
+    { _id: 3, region: 'north', rep: 'Ana', year: 2023, revenue: 800 },
+    { _id: 4, region: 'East', rep: 'Cy', year: 2024, revenue: '' },
+    { _id: 5, region: 'South', rep: 'Dee', year: 2024, revenue: 950 },
+  ],
+};
+
+const reps: SqlTable = {
+  name: 'reps',
+  data: [
+    { _id: 1, name: 'Ana', team: 'A' },
+    { _id: 2, name: 'Ben', team: 'B' },
+    { _id: 3, name: 'Eve', team: 'B' },
+  ],
+};
+
+const run = (query: string) => runSql(query, [sales, reps]);
+const column = (query: string, name: string) => run(query).rows.map(row => row[name]);
+
+describe('toTableName', () => {
+  it('turns dataset labels into unique identifiers', () => {
+    const taken = new Set<string>();
+    expect(toTableName('Sales 2024.xlsx', taken)).toBe('sales_2024_xlsx');
+    expect(toTableName('Sales 2024.xlsx', taken)).toBe('sales_2024_xlsx_2');
+    expect(toTableName('2024', taken)).toBe('t_2024');
+  });
+});
+
+describe('parseSql', () => {
+  it('rejects statements other than SELECT', () => {
+    expect(() => parseSql('DELETE FROM sales')).toThrow(SqlError);
+  });
+
+  it('reports where the query went wrong', () => {
+    try {
+      parseSql('SELECT region FROM sales WHERE');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SqlError);
+      expect((error as SqlError).position).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('runSql', () => {
+  it('selects and filters rows, numbering the result from 1', () => {
+    const result = run('SELECT rep, revenue FROM sales WHERE revenue > 900');
+    expect(result.columns).toEqual(['rep', 'revenue']);
+    expect(result.rows).toEqual([
+      { _id: 1, rep: 'Ana', revenue: 1200 },
+      { _id: 2, rep: 'Dee', revenue: 950 },
+    ]);
+  });
+
+  it('matches tables and text without regard to case', () => {
+    expect(column("SELECT rep FROM SALES WHERE region = 'NORTH'", 'rep')).toEqual(['Ana', 'Ana']);
+  });
+
+  it('reads text literals as numbers when compared with numbers', () => {
+    expect(column("SELECT rep FROM sales WHERE year = '2023'", 'rep')).toEqual(['Ana']);
+  });
+
+  it('treats blank cells as NULL', () => {
+    expect(column('SELECT rep FROM sales WHERE revenue IS NULL', 'rep')).toEqual(['Cy']);
+    expect(column('SELECT COUNT(revenue) AS n FROM sales', 'n')).toEqual([4]);
+  });
+
+  it('groups, aggregates and filters groups', () => {
+    const result = run(`
+      SELECT rep, SUM(revenue) AS total, COUNT(*) AS orders
+      FROM sales GROUP BY rep HAVING total > 500 ORDER BY total DESC
+    `);
+    expect(result.rows.map(({ rep, total, orders }) => [rep, total, orders])).toEqual([
+      ['Ana', 2000, 2],
+      ['Dee', 950, 1],
+    ]);
+  });
+
+  it('averages only the values present', () => {
+    expect(column("SELECT AVG(revenue) AS mean FROM sales WHERE region = 'South'", 'mean')).toEqual([625]);
+  });
+
+  it('orders, limits and offsets', () => {
+    expect(column('SELECT rep FROM sales ORDER BY revenue DESC LIMIT 2 OFFSET 1', 'rep')).toEqual(['Dee', 'Ana']);
+  });
+
+  it('removes duplicate rows with DISTINCT', () => {
+    expect(column('SELECT DISTINCT rep FROM sales ORDER BY rep', 'rep')).toEqual(['Ana', 'Ben', 'Cy', 'Dee']);
+  });
+
+  it('joins tables', () => {
+    const inner = run('SELECT s.rep, r.team FROM sales s JOIN reps r ON s.rep = r.name');
+    expect(inner.rows.map(row => [row.rep, row.team])).toEqual([['Ana', 'A'], ['Ben', 'B'], ['Ana', 'A']]);
+
+    const left = column('SELECT r.team FROM sales s LEFT JOIN reps r ON s.rep = r.name', 'team');
+    expect(left).toEqual(['A', 'B', 'A', '', '']);
+
+    const full = run('SELECT s.rep, r.name FROM sales s FULL JOIN reps r ON s.rep = r.name');
+    expect(full.rows).toHaveLength(6);
+  });
+
+  it('calls formula functions and COALESCE', () => {
+    expect(column("SELECT UPPER(rep) AS who FROM sales WHERE rep = 'cy'", 'who')).toEqual(['CY']);
+    expect(column("SELECT COALESCE(revenue, 0) AS amount FROM sales WHERE rep = 'Cy'", 'amount')).toEqual([0]);
+  });
+
+  it('reads numbers in each table\'s locale', () => {
+    const euro: SqlTable = {
+      name: 'euro',
+      data: [{ _id: 1, amount: '1.234,5' }, { _id: 2, amount: '10,5' }],
+      locale: { decimalSeparator: ',', thousandsSeparator: '.', currencySymbols: ['€'], dateOrder: 'DMY' },
+    };
+    expect(runSql('SELECT SUM(amount) AS total FROM euro', [euro]).rows[0].total).toBe(1245);
+  });
+
+  it('reports unknown tables and columns', () => {
+    expect(() => run('SELECT rep FROM nowhere')).toThrow(SqlError);
+    expect(() => run('SELECT missing FROM sales')).toThrow(SqlError);
+  });
+});
@@ -0,0 +1,1097 @@
+import { SemanticType } from './columnTypes';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings } from './localeParsing';
+import { FORMULA_FUNCTIONS, FormulaType, FormulaValue, getFormulaColumnTypes, readCell, toCellValue } from './formula';
+import type { Row } from './excelUtils';
+
+// A small SQL dialect for querying loaded datasets in the browser, e.g.
+//   SELECT region, SUM(revenue) AS total FROM sales
+//   WHERE year = 2024 GROUP BY region HAVING total > 1000 ORDER BY total DESC
+// Only SELECT is supported, with DISTINCT, joins (INNER, LEFT, RIGHT, FULL,
+// CROSS), WHERE, GROUP BY, HAVING, ORDER BY and LIMIT/OFFSET. Scalar
+// functions are the formula functions (see formula.ts) plus COALESCE and
+// NULLIF; COUNT, SUM, AVG, MIN and MAX aggregate. Like formulas, text
+// compares without regard to case. Blank cells are NULL.
+
+type Value = FormulaValue;
+
+export class SqlError extends Error {
+  // Offset in the query text the error points at
+  position: number;
+
+  constructor(message: string, position = 0) {
+    super(message);
+    this.name = 'SqlError';
+    this.position = position;
+  }
+}
+
+// A dataset queried as a table; names are matched without regard to case
+export interface SqlTable {
+  name: string;
+  data: Row[];
+  locale?: LocaleSettings;
+  typeOverrides?: Record<string, SemanticType>;
+}
+
+export interface SqlResult {
+  columns: string[];
+  // Numbered from 1 like loaded rows, so results can be previewed and charted
+  rows: Row[];
+}
+
+// Joins that would build more rows than this fail instead of freezing the page
+export const MAX_JOIN_ROWS = 1_000_000;
+
+export const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+// A name usable in queries for a dataset label: "Sales 2024.xlsx" -> sales_2024_xlsx
+export const toTableName = (label: string, taken: Set<string> = new Set()) => {
+  let base = label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '') || 'table';
+  if (/^\p{N}/u.test(base)) base = `t_${base}`;
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  taken.add(name);
+  return name;
+};
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+interface Token {
+  kind: 'number' | 'string' | 'word' | 'quoted' | 'operator' | '(' | ')' | ',' | '.' | ';' | 'end';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+// Identifiers can be quoted with "double quotes", `backticks` or [brackets]
+const CLOSING_QUOTES: Record<string, string> = { '"': '"', '`': '`', '[': ']' };
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (query.startsWith('--', i)) {
+      const end = query.indexOf('\n', i);
+      i = end === -1 ? query.length : end;
+      continue;
+    }
+
+    const start = i;
+    if (char === "'") {
+      // '' inside a string is an escaped quote
+      let text = '';
+      i++;
+      while (i < query.length && !(query[i] === "'" && query[i + 1] !== "'")) {
+        if (query[i] === "'") i++;
+        text += query[i++];
+      }
+      if (i >= query.length) throw new SqlError("Unclosed text — add a closing '", start);
+      i++;
+      tokens.push({ kind: 'string', text, position: start });
+    } else if (CLOSING_QUOTES[char]) {
+      const end = query.indexOf(CLOSING_QUOTES[char], i + 1);
+      if (end === -1) throw new SqlError(`Unclosed name — add a closing ${CLOSING_QUOTES[char]}`, start);
+      tokens.push({ kind: 'quoted', text: query.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if (/[0-9]/.test(char)) {
+      const match = query.slice(i).match(/^\d+(\.\d+)?([eE][+-]?\d+)?/)!;
+      tokens.push({ kind: 'number', text: match[0], position: start });
+      i += match[0].length;
+    } else if (/[\p{L}_]/u.test(char)) {
+      const match = query.slice(i).match(/^[\p{L}_][\p{L}\p{N}_]*/u)!;
+      tokens.push({ kind: 'word', text: match[0], position: start });
+      i += match[0].length;
+    } else if (char === '(' || char === ')' || char === ',' || char === '.' || char === ';') {
+      tokens.push({ kind: char, text: char, position: start });
+      i++;
+    } else {
+      const operator = OPERATORS.find(op => query.startsWith(op, i));
+      if (!operator) throw new SqlError(`Unexpected "${char}"`, start);
+      tokens.push({ kind: 'operator', text: operator, position: start });
+      i += operator.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: query.length });
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+
+type Expr =
+  | { type: 'literal'; value: Value; position: number }
+  | { type: 'column'; table?: string; name: string; position: number }
+  | { type: 'unary'; operator: '-' | 'NOT'; operand: Expr; position: number }
+  | { type: 'binary'; operator: string; left: Expr; right: Expr; position: number }
+  | { type: 'like'; operand: Expr; pattern: Expr; negated: boolean; position: number }
+  | { type: 'in'; operand: Expr; list: Expr[]; negated: boolean; position: number }
+  | { type: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean; position: number }
+  | { type: 'isNull'; operand: Expr; negated: boolean; position: number }
+  | { type: 'call'; name: string; args: Expr[]; position: number }
+  // arg is null for COUNT(*)
+  | { type: 'aggregate'; name: string; arg: Expr | null; distinct: boolean; position: number }
+  | { type: 'case'; operand: Expr | null; branches: { when: Expr; then: Expr }[]; otherwise: Expr | null; position: number };
+
+type JoinType = 'inner' | 'left' | 'right' | 'full' | 'cross';
+
+interface TableRef {
+  name: string;
+  alias: string;
+  position: number;
+}
+
+interface SelectItem {
+  // null for * (all tables) or table.*
+  expr: Expr | null;
+  table?: string;
+  alias?: string;
+  // The item as written, used to name computed columns
+  text: string;
+  position: number;
+}
+
+interface Query {
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableRef;
+  joins: { type: JoinType; table: TableRef; on: Expr | null }[];
+  where: Expr | null;
+  groupBy: Expr[];
+  having: Expr | null;
+  orderBy: { expr: Expr; descending: boolean }[];
+  limit: number | null;
+  offset: number;
+}
+
+// Words that end an expression, so they can't be used as bare aliases
+const RESERVED = new Set([
+  'SELECT', 'DISTINCT', 'ALL', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'ASC', 'DESC',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL',
+  'LIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'TRUE', 'FALSE'
+]);
+
+const COMPARISONS = ['=', '<>', '!=', '<', '>', '<=', '>='];
+
+export const parseSql = (query: string): Query => {
+  if (!query.trim()) throw new SqlError('Enter a query');
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[index++];
+  const isKeyword = (word: string, offset = 0) => peek(offset).kind === 'word' && peek(offset).text.toUpperCase() === word;
+  const acceptKeyword = (word: string) => {
+    if (!isKeyword(word)) return false;
+    index++;
+    return true;
+  };
+  const unexpected = (token: Token) =>
+    new SqlError(token.kind === 'end' ? 'The query ends too early' : `Unexpected "${token.text}"`, token.position);
+  const expectKeyword = (word: string) => {
+    if (!acceptKeyword(word)) throw new SqlError(`Expected ${word}`, peek().position);
+  };
+  const expect = (kind: Token['kind'], message: string) => {
+    if (peek().kind !== kind) throw new SqlError(message, peek().position);
+    return next();
+  };
+  const isName = (token: Token) => token.kind === 'quoted' || (token.kind === 'word' && !RESERVED.has(token.text.toUpperCase()));
+  const expectName = (what: string) => {
+    const token = peek();
+    if (!isName(token)) throw new SqlError(`Expected ${what}`, token.position);
+    return next().text;
+  };
+
+  const parseList = <T>(parseItem: () => T) => {
+    const items = [parseItem()];
+    while (peek().kind === ',') {
+      next();
+      items.push(parseItem());
+    }
+    return items;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    const position = token.position;
+    if (token.kind === 'number') {
+      next();
+      return { type: 'literal', value: Number(token.text), position };
+    }
+    if (token.kind === 'string') {
+      next();
+      return { type: 'literal', value: token.text, position };
+    }
+    if (token.kind === '(') {
+      next();
+      const inner = parseExpression();
+      expect(')', 'Missing closing )');
+      return inner;
+    }
+    if (token.kind === 'word') {
+      const upper = token.text.toUpperCase();
+      if (upper === 'NULL' || upper === 'TRUE' || upper === 'FALSE') {
+        next();
+        return { type: 'literal', value: upper === 'NULL' ? null : upper === 'TRUE', position };
+      }
+      if (upper === 'CASE') {
+        next();
+        const operand = isKeyword('WHEN') ? null : parseExpression();
+        const branches: { when: Expr; then: Expr }[] = [];
+        while (acceptKeyword('WHEN')) {
+          const when = parseExpression();
+          expectKeyword('THEN');
+          branches.push({ when, then: parseExpression() });
+        }
+        if (branches.length === 0) throw new SqlError('CASE needs at least one WHEN … THEN', peek().position);
+        const otherwise = acceptKeyword('ELSE') ? parseExpression() : null;
+        expectKeyword('END');
+        return { type: 'case', operand, branches, otherwise, position };
+      }
+      if (peek(1).kind === '(') {
+        next();
+        next();
+        if (AGGREGATE_FUNCTIONS.includes(upper)) {
+          if (upper === 'COUNT' && peek().kind === 'operator' && peek().text === '*') {
+            next();
+            expect(')', 'Missing closing ) for COUNT');
+            return { type: 'aggregate', name: upper, arg: null, distinct: false, position };
+          }
+          const distinct = acceptKeyword('DISTINCT');
+          const args = parseList(parseExpression);
+          expect(')', `Missing closing ) for ${upper}`);
+          // MIN and MAX of several values are the scalar formula functions
+          if (args.length === 1) return { type: 'aggregate', name: upper, arg: args[0], distinct, position };
+          if (distinct || !FORMULA_FUNCTIONS[upper]) throw new SqlError(`${upper} takes one value`, position);
+          return { type: 'call', name: upper, args, position };
+        }
+        const args = peek().kind === ')' ? [] : parseList(parseExpression);
+        expect(')', `Missing closing ) for ${upper}`);
+        return { type: 'call', name: upper, args, position };
+      }
+    }
+    if (isName(token)) {
+      const first = next().text;
+      if (peek().kind === '.') {
+        next();
+        return { type: 'column', table: first, name: expectName('a column name'), position };
+      }
+      return { type: 'column', name: first, position };
+    }
+    throw unexpected(token);
+  };
+
+  const parseUnary = (): Expr => {
+    const token = peek();
+    if (token.kind === 'operator' && (token.text === '-' || token.text === '+')) {
+      next();
+      const operand = parseUnary();
+      return token.text === '-' ? { type: 'unary', operator: '-', operand, position: token.position } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parseBinaryLevel = (operators: string[], parseOperand: () => Expr) => (): Expr => {
+    let left = parseOperand();
+    while (peek().kind === 'operator' && operators.includes(peek().text)) {
+      const operator = next();
+      left = { type: 'binary', operator: operator.text, left, right: parseOperand(), position: operator.position };
+    }
+    return left;
+  };
+  const parseMultiplicative = parseBinaryLevel(['*', '/', '%'], parseUnary);
+  const parseAdditive = parseBinaryLevel(['+', '-', '||'], parseMultiplicative);
+
+  const parseComparison = (): Expr => {
+    const operand = parseAdditive();
+    const token = peek();
+    const position = token.position;
+    if (token.kind === 'operator' && COMPARISONS.includes(token.text)) {
+      next();
+      return { type: 'binary', operator: token.text === '!=' ? '<>' : token.text, left: operand, right: parseAdditive(), position };
+    }
+    if (acceptKeyword('IS')) {
+      const negated = acceptKeyword('NOT');
+      expectKeyword('NULL');
+      return { type: 'isNull', operand, negated, position };
+    }
+    const negated = isKeyword('NOT') && ['LIKE', 'IN', 'BETWEEN'].some(word => isKeyword(word, 1));
+    if (negated) next();
+    if (acceptKeyword('LIKE')) return { type: 'like', operand, pattern: parseAdditive(), negated, position };
+    if (acceptKeyword('IN')) {
+      expect('(', 'Expected ( after IN');
+      const list = parseList(parseExpression);
+      expect(')', 'Missing closing ) for IN');
+      return { type: 'in', operand, list, negated, position };
+    }
+    if (acceptKeyword('BETWEEN')) {
+      const low = parseAdditive();
+      expectKeyword('AND');
+      return { type: 'between', operand, low, high: parseAdditive(), negated, position };
+    }
+    return operand;
+  };
+
+  const parseNot = (): Expr => {
+    const token = peek();
+    if (isKeyword('NOT')) {
+      next();
+      return { type: 'unary', operator: 'NOT', operand: parseNot(), position: token.position };
+    }
+    return parseComparison();
+  };
+
+  const parseLogical = (word: string, parseOperand: () => Expr) => (): Expr => {
+    let left = parseOperand();
+    while (isKeyword(word)) {
+      const position = next().position;
+      left = { type: 'binary', operator: word, left, right: parseOperand(), position };
+    }
+    return left;
+  };
+  const parseAnd = parseLogical('AND', parseNot);
+  const parseExpression: () => Expr = parseLogical('OR', parseAnd);
+
+  const parseAlias = () => {
+    if (acceptKeyword('AS')) return expectName('a name after AS');
+    return isName(peek()) ? next().text : undefined;
+  };
+
+  const parseSelectItem = (): SelectItem => {
+    const start = peek().position;
+    if (peek().kind === 'operator' && peek().text === '*') {
+      next();
+      return { expr: null, text: '*', position: start };
+    }
+    if (isName(peek()) && peek(1).kind === '.' && peek(2).kind === 'operator' && peek(2).text === '*') {
+      const table = next().text;
+      next();
+      next();
+      return { expr: null, table, text: `${table}.*`, position: start };
+    }
+    const expr = parseExpression();
+    const text = query.slice(start, peek().position).trim();
+    return { expr, alias: parseAlias(), text, position: start };
+  };
+
+  const parseTable = (): TableRef => {
+    const position = peek().position;
+    const name = expectName('a table name');
+    return { name, alias: parseAlias() ?? name, position };
+  };
+
+  const parseCount = (what: string) => {
+    const token = expect('number', `${what} needs a whole number`);
+    const value = Number(token.text);
+    if (!Number.isInteger(value)) throw new SqlError(`${what} needs a whole number`, token.position);
+    return value;
+  };
+
+  expectKeyword('SELECT');
+  const distinct = acceptKeyword('DISTINCT');
+  if (!distinct) acceptKeyword('ALL');
+  const items = parseList(parseSelectItem);
+  expectKeyword('FROM');
+  const from = parseTable();
+
+  const joins: Query['joins'] = [];
+  for (;;) {
+    let type: JoinType | null = null;
+    if (peek().kind === ',') {
+      next();
+      joins.push({ type: 'cross', table: parseTable(), on: null });
+      continue;
+    }
+    if (acceptKeyword('JOIN')) type = 'inner';
+    else if (acceptKeyword('INNER')) type = 'inner';
+    else if (acceptKeyword('LEFT')) type = 'left';
+    else if (acceptKeyword('RIGHT')) type = 'right';
+    else if (acceptKeyword('FULL')) type = 'full';
+    else if (acceptKeyword('CROSS')) type = 'cross';
+    if (!type) break;
+    if (tokens[index - 1].text.toUpperCase() !== 'JOIN') {
+      acceptKeyword('OUTER');
+      expectKeyword('JOIN');
+    }
+    const table = parseTable();
+    let on: Expr | null = null;
+    if (type !== 'cross') {
+      expectKeyword('ON');
+      on = parseExpression();
+    }
+    joins.push({ type, table, on });
+  }
+
+  const where = acceptKeyword('WHERE') ? parseExpression() : null;
+  let groupBy: Expr[] = [];
+  if (acceptKeyword('GROUP')) {
+    expectKeyword('BY');
+    groupBy = parseList(parseExpression);
+  }
+  const having = acceptKeyword('HAVING') ? parseExpression() : null;
+  let orderBy: Query['orderBy'] = [];
+  if (acceptKeyword('ORDER')) {
+    expectKeyword('BY');
+    orderBy = parseList(() => {
+      const expr = parseExpression();
+      const descending = acceptKeyword('DESC');
+      if (!descending) acceptKeyword('ASC');
+      return { expr, descending };
+    });
+  }
+  let limit: number | null = null;
+  let offset = 0;
+  if (acceptKeyword('LIMIT')) {
+    limit = parseCount('LIMIT');
+    // LIMIT offset, count as in MySQL and SQLite
+    if (peek().kind === ',') {
+      next();
+      offset = limit;
+      limit = parseCount('LIMIT');
+    }
+  }
+  if (acceptKeyword('OFFSET')) offset = parseCount('OFFSET');
+  if (peek().kind === ';') next();
+  if (peek().kind !== 'end') throw unexpected(peek());
+
+  return { distinct, items, from, joins, where, groupBy, having, orderBy, limit, offset };
+};
+
+// ---------------------------------------------------------------------------
+// Values
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toText = (value: Value) => {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+const toDate = (value: Value): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+};
+
+const coerce = (value: Value, type: FormulaType): Value => {
+  if (value === null) return null;
+  if (type === 'number') return toNumber(value);
+  if (type === 'date') return toDate(value);
+  if (type === 'text') return toText(value);
+  return value;
+};
+
+// Orders two values, or null when either is NULL. Text written in the query
+// is read as a number or date when the other side is one, so
+// `order_date >= '2024-01-01'` and `year = '2024'` work.
+const compareValues = (left: Value, right: Value): number | null => {
+  if (left === null || right === null) return null;
+  let a: Value = left;
+  let b: Value = right;
+  if (left instanceof Date || right instanceof Date) {
+    a = toDate(left)?.getTime() ?? toText(left);
+    b = toDate(right)?.getTime() ?? toText(right);
+  } else if (typeof left === 'number' || typeof right === 'number') {
+    a = toNumber(left) ?? toText(left).toLowerCase();
+    b = toNumber(right) ?? toText(right).toLowerCase();
+  }
+  if (typeof a !== typeof b) {
+    a = toText(left).toLowerCase();
+    b = toText(right).toLowerCase();
+  } else if (typeof a === 'string') {
+    a = a.toLowerCase();
+    b = toText(right).toLowerCase();
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Key grouping and DISTINCT treat as the same value; also used to hash joins,
+// so it agrees with compareValues on equality
+const valueKey = (value: Value) => {
+  if (value === null) return 'null';
+  if (value instanceof Date) return `d${value.getTime()}`;
+  const number = toNumber(value);
+  if (number !== null) return `n${number}`;
+  return `s${toText(value).toLowerCase()}`;
+};
+
+const likePattern = (pattern: string) => new RegExp(
+  `^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`,
+  'is'
+);
+
+// ---------------------------------------------------------------------------
+// Compiling and running
+
+interface Source {
+  alias: string;
+  table: SqlTable;
+  columns: string[];
+  types: Record<string, FormulaType>;
+  locale: LocaleSettings;
+}
+
+// One row of every table in the FROM clause (null for the missing side of an outer join)
+type JoinedRow = (Row | null)[];
+
+interface Scope {
+  row: JoinedRow | null;
+  // Rows of the group, for aggregates
+  group?: JoinedRow[];
+}
+
+interface Compiled {
+  evaluate: (scope: Scope) => Value;
+  // Tables the expression reads
+  sources: Set<number>;
+  // Column the expression is, if it's a plain column reference
+  column?: string;
+}
+
+const SQL_FUNCTIONS: Record<string, (args: Value[]) => Value> = {
+  COALESCE: args => args.find(arg => arg !== null) ?? null,
+  NULLIF: ([value, other]) => compareValues(value, other) === 0 ? null : value
+};
+
+const findName = (names: string[], name: string) =>
+  names.find(candidate => candidate === name) ?? names.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+
+const logical = (operator: string, left: Value, right: Value): Value => {
+  const a = left === null ? null : left === true;
+  const b = right === null ? null : right === true;
+  if (operator === 'AND') {
+    if (a === false || b === false) return false;
+    return a === null || b === null ? null : true;
+  }
+  if (a === true || b === true) return true;
+  return a === null || b === null ? null : false;
+};
+
+const arithmetic = (operator: string, left: Value, right: Value): Value => {
+  if (operator === '||') return toText(left) + toText(right);
+  if (left instanceof Date || right instanceof Date) {
+    if (left instanceof Date && right instanceof Date) {
+      return operator === '-' ? Math.round((left.getTime() - right.getTime()) / DAY_MS) : null;
+    }
+    const date = left instanceof Date ? left : right as Date;
+    const days = toNumber(left instanceof Date ? right : left);
+    if (days === null || (operator !== '+' && operator !== '-') || (operator === '-' && !(left instanceof Date))) return null;
+    return new Date(date.getTime() + (operator === '-' ? -days : days) * DAY_MS);
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+};
+
+const aggregate = (name: string, values: Value[]): Value => {
+  const present = values.filter(value => value !== null);
+  if (name === 'COUNT') return present.length;
+  if (name === 'MIN' || name === 'MAX') {
+    return present.reduce<Value>((best, value) => {
+      if (best === null) return value;
+      const order = compareValues(value, best) ?? 0;
+      return (name === 'MIN' ? order < 0 : order > 0) ? value : best;
+    }, null);
+  }
+  const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+  const sum = numbers.reduce((total, n) => total + n, 0);
+  return name === 'SUM' ? sum : sum / numbers.length;
+};
+
+const containsAggregate = (expr: Expr): boolean => {
+  switch (expr.type) {
+    case 'aggregate':
+      return true;
+    case 'unary':
+      return containsAggregate(expr.operand);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'like':
+      return containsAggregate(expr.operand) || containsAggregate(expr.pattern);
+    case 'in':
+      return containsAggregate(expr.operand) || expr.list.some(containsAggregate);
+    case 'between':
+      return [expr.operand, expr.low, expr.high].some(containsAggregate);
+    case 'isNull':
+      return containsAggregate(expr.operand);
+    case 'call':
+      return expr.args.some(containsAggregate);
+    case 'case':
+      return [expr.operand, expr.otherwise, ...expr.branches.flatMap(branch => [branch.when, branch.then])]
+        .some(part => part !== null && containsAggregate(part));
+    default:
+      return false;
+  }
+};
+
+const union = (...sets: Set<number>[]) => new Set(sets.flatMap(set => [...set]));
+
+// `grouped` is where aggregates may appear: column references outside an
+// aggregate then read the group's first row. `aliases` are output columns
+// that HAVING and ORDER BY may refer to by name.
+const compileExpression = (
+  expr: Expr,
+  sources: Source[],
+  grouped: boolean,
+  aliases: Map<string, Compiled> = new Map()
+): Compiled => {
+  const compile = (node: Expr) => compileExpression(node, sources, grouped, aliases);
+
+  switch (expr.type) {
+    case 'literal':
+      return { evaluate: () => expr.value, sources: new Set() };
+    case 'column': {
+      let matches: number[];
+      if (expr.table !== undefined) {
+        const sourceIndex = sources.findIndex(source => source.alias.toLowerCase() === expr.table!.toLowerCase());
+        if (sourceIndex === -1) throw new SqlError(`Unknown table "${expr.table}"`, expr.position);
+        matches = findName(sources[sourceIndex].columns, expr.name) === undefined ? [] : [sourceIndex];
+        if (matches.length === 0) throw new SqlError(`Table "${expr.table}" has no column "${expr.name}"`, expr.position);
+      } else {
+        matches = sources.map((_, i) => i).filter(i => findName(sources[i].columns, expr.name) !== undefined);
+        if (matches.length === 0) {
+          const alias = aliases.get(expr.name.toLowerCase());
+          if (alias) return alias;
+          throw new SqlError(`Unknown column "${expr.name}"`, expr.position);
+        }
+        if (matches.length > 1) {
+          throw new SqlError(`Column "${expr.name}" is in several tables; write it as table.${expr.name}`, expr.position);
+        }
+      }
+      const sourceIndex = matches[0];
+      const source = sources[sourceIndex];
+      const column = findName(source.columns, expr.name)!;
+      const type = source.types[column];
+      return {
+        evaluate: scope => {
+          const row = scope.row?.[sourceIndex];
+          return row ? readCell(row[column], type, source.locale) : null;
+        },
+        sources: new Set([sourceIndex]),
+        column
+      };
+    }
+    case 'unary': {
+      const operand = compile(expr.operand);
+      return {
+        evaluate: expr.operator === 'NOT'
+          ? scope => {
+            const value = operand.evaluate(scope);
+            return value === null ? null : value !== true;
+          }
+          : scope => {
+            const value = toNumber(operand.evaluate(scope));
+            return value === null ? null : -value;
+          },
+        sources: operand.sources
+      };
+    }
+    case 'binary': {
+      const left = compile(expr.left);
+      const right = compile(expr.right);
+      const { operator } = expr;
+      let evaluate: Compiled['evaluate'];
+      if (operator === 'AND' || operator === 'OR') {
+        evaluate = scope => logical(operator, left.evaluate(scope), right.evaluate(scope));
+      } else if (COMPARISONS.includes(operator)) {
+        evaluate = scope => {
+          const order = compareValues(left.evaluate(scope), right.evaluate(scope));
+          if (order === null) return null;
+          switch (operator) {
+            case '=': return order === 0;
+            case '<>': return order !== 0;
+            case '<': return order < 0;
+            case '>': return order > 0;
+            case '<=': return order <= 0;
+            default: return order >= 0;
+          }
+        };
+      } else {
+        evaluate = scope => arithmetic(operator, left.evaluate(scope), right.evaluate(scope));
+      }
+      return { evaluate, sources: union(left.sources, right.sources) };
+    }
+    case 'like': {
+      const operand = compile(expr.operand);
+      const pattern = compile(expr.pattern);
+      const cache = new Map<string, RegExp>();
+      return {
+        evaluate: scope => {
+          const value = operand.evaluate(scope);
+          const text = pattern.evaluate(scope);
+          if (value === null || text === null) return null;
+          const key = toText(text);
+          if (!cache.has(key)) cache.set(key, likePattern(key));
+          return cache.get(key)!.test(toText(value)) !== expr.negated;
+        },
+        sources: union(operand.sources, pattern.sources)
+      };
+    }
+    case 'in': {
+      const operand = compile(expr.operand);
+      const list = expr.list.map(compile);
+      return {
+        evaluate: scope => {
+          const value = operand.evaluate(scope);
+          if (value === null) return null;
+          const found = list.some(item => compareValues(value, item.evaluate(scope)) === 0);
+          return found !== expr.negated;
+        },
+        sources: union(operand.sources, ...list.map(item => item.sources))
+      };
+    }
+    case 'between': {
+      const [operand, low, high] = [expr.operand, expr.low, expr.high].map(compile);
+      return {
+        evaluate: scope => {
+          const value = operand.evaluate(scope);
+          const above = compareValues(value, low.evaluate(scope));
+          const below = compareValues(value, high.evaluate(scope));
+          if (above === null || below === null) return null;
+          return (above >= 0 && below <= 0) !== expr.negated;
+        },
+        sources: union(operand.sources, low.sources, high.sources)
+      };
+    }
+    case 'isNull': {
+      const operand = compile(expr.operand);
+      return {
+        evaluate: scope => (operand.evaluate(scope) === null) !== expr.negated,
+        sources: operand.sources
+      };
+    }
+    case 'call': {
+      const args = expr.args.map(compile);
+      const sqlFunction = SQL_FUNCTIONS[expr.name];
+      const spec = FORMULA_FUNCTIONS[expr.name];
+      if (!sqlFunction && !spec) throw new SqlError(`Unknown function ${expr.name}`, expr.position);
+      if (spec) {
+        const required = spec.params.length - (spec.optional || 0);
+        if (args.length < required || (!spec.variadic && args.length > spec.params.length)) {
+          throw new SqlError(`Wrong number of arguments: ${spec.signature}`, expr.position);
+        }
+      } else if (args.length === 0) {
+        throw new SqlError(`${expr.name} needs at least one value`, expr.position);
+      }
+      // Formula functions expect values of their parameter types
+      const paramType = (i: number) => spec ? spec.params[Math.min(i, spec.params.length - 1)] : 'any';
+      const run = sqlFunction ?? spec.evaluate;
+      return {
+        evaluate: scope => run(args.map((arg, i) => coerce(arg.evaluate(scope), paramType(i)))),
+        sources: union(...args.map(arg => arg.sources))
+      };
+    }
+    case 'aggregate': {
+      if (!grouped) throw new SqlError(`${expr.name} can only be used in SELECT, HAVING and ORDER BY`, expr.position);
+      if (expr.arg && containsAggregate(expr.arg)) throw new SqlError(`Aggregates can't be nested`, expr.position);
+      const arg = expr.arg ? compileExpression(expr.arg, sources, false) : null;
+      return {
+        evaluate: scope => {
+          const rows = scope.group || [];
+          if (!arg) return rows.length;
+          let values = rows.map(row => arg.evaluate({ row }));
+          if (expr.distinct) {
+            const seen = new Set<string>();
+            values = values.filter(value => {
+              const key = valueKey(value);
+              if (seen.has(key)) return false;
+              seen.add(key);
+              return true;
+            });
+          }
+          return aggregate(expr.name, values);
+        },
+        sources: arg ? arg.sources : new Set()
+      };
+    }
+    case 'case': {
+      const operand = expr.operand ? compile(expr.operand) : null;
+      const branches = expr.branches.map(branch => ({ when: compile(branch.when), then: compile(branch.then) }));
+      const otherwise = expr.otherwise ? compile(expr.otherwise) : null;
+      return {
+        evaluate: scope => {
+          const subject = operand ? operand.evaluate(scope) : null;
+          const branch = branches.find(({ when }) => {
+            const value = when.evaluate(scope);
+            return operand ? compareValues(subject, value) === 0 : value === true;
+          });
+          if (branch) return branch.then.evaluate(scope);
+          return otherwise ? otherwise.evaluate(scope) : null;
+        },
+        sources: union(
+          operand?.sources ?? new Set(),
+          otherwise?.sources ?? new Set(),
+          ...branches.flatMap(({ when, then }) => [when.sources, then.sources])
+        )
+      };
+    }
+  }
+};
+
+// Equality conditions of an ON clause between the joined table and the ones
+// before it, used to look rows up instead of comparing every pair
+const splitConjuncts = (expr: Expr): Expr[] =>
+  expr.type === 'binary' && expr.operator === 'AND' ? [...splitConjuncts(expr.left), ...splitConjuncts(expr.right)] : [expr];
+
+const joinTables = (
+  rows: JoinedRow[],
+  join: Query['joins'][number],
+  sourceIndex: number,
+  sources: Source[]
+): JoinedRow[] => {
+  const right = sources[sourceIndex].table.data;
+  const on = join.on ? compileExpression(join.on, sources, false) : null;
+  const result: JoinedRow[] = [];
+  const push = (row: JoinedRow) => {
+    if (result.length >= MAX_JOIN_ROWS) {
+      throw new SqlError(`The join makes more than ${MAX_JOIN_ROWS.toLocaleString()} rows; add join conditions or filter the tables first`, join.table.position);
+    }
+    result.push(row);
+  };
+
+  // Right rows by the values of their side of the equality conditions
+  const keys = join.on
+    ? splitConjuncts(join.on)
+      .filter(part => part.type === 'binary' && part.operator === '=')
+      .map(part => {
+        const { left, right: other } = part as Extract<Expr, { type: 'binary' }>;
+        const [a, b] = [compileExpression(left, sources, false), compileExpression(other, sources, false)];
+        const isRight = (side: Compiled) => side.sources.size > 0 && [...side.sources].every(i => i === sourceIndex);
+        const isLeft = (side: Compiled) => [...side.sources].every(i => i < sourceIndex);
+        if (isRight(b) && isLeft(a)) return { left: a, right: b };
+        if (isRight(a) && isLeft(b)) return { left: b, right: a };
+        return null;
+      })
+      .filter((key): key is { left: Compiled; right: Compiled } => key !== null)
+    : [];
+  const keyOf = (side: 'left' | 'right', row: JoinedRow) => {
+    const parts: string[] = [];
+    for (const key of keys) {
+      const value = key[side].evaluate({ row });
+      if (value === null) return null;
+      parts.push(valueKey(value));
+    }
+    return parts.join('\u0000');
+  };
+  let lookup: Map<string, number[]> | null = null;
+  if (keys.length > 0) {
+    lookup = new Map();
+    right.forEach((record, i) => {
+      const row: JoinedRow = [];
+      row[sourceIndex] = record;
+      const key = keyOf('right', row);
+      if (key === null) return;
+      if (!lookup!.has(key)) lookup!.set(key, []);
+      lookup!.get(key)!.push(i);
+    });
+  }
+
+  const matchedRight = new Set<number>();
+  const allRight = right.map((_, i) => i);
+  rows.forEach(row => {
+    let candidates = allRight;
+    if (lookup) {
+      const key = keyOf('left', row);
+      candidates = key === null ? [] : lookup.get(key) || [];
+    }
+    let matched = false;
+    candidates.forEach(i => {
+      const joined = [...row];
+      joined[sourceIndex] = right[i];
+      if (on && on.evaluate({ row: joined }) !== true) return;
+      matched = true;
+      matchedRight.add(i);
+      push(joined);
+    });
+    if (!matched && (join.type === 'left' || join.type === 'full')) {
+      const joined = [...row];
+      joined[sourceIndex] = null;
+      push(joined);
+    }
+  });
+  if (join.type === 'right' || join.type === 'full') {
+    right.forEach((record, i) => {
+      if (matchedRight.has(i)) return;
+      const joined: JoinedRow = sources.map(() => null);
+      joined[sourceIndex] = record;
+      push(joined);
+    });
+  }
+  return result;
+};
+
+const uniqueNames = (names: string[]) => {
+  const taken = new Set<string>();
+  return names.map(name => {
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()) || unique === '_id'; n++) unique = `${name} (${n})`;
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+export const runSql = (query: string, tables: SqlTable[]): SqlResult => {
+  const parsed = parseSql(query);
+
+  const sources: Source[] = [parsed.from, ...parsed.joins.map(join => join.table)].map(ref => {
+    const table = tables.find(candidate => candidate.name.toLowerCase() === ref.name.toLowerCase());
+    if (!table) throw new SqlError(`Unknown table "${ref.name}"`, ref.position);
+    const locale = table.locale || DEFAULT_LOCALE_SETTINGS;
+    const types = getFormulaColumnTypes(table.data, locale, table.typeOverrides);
+    return { alias: ref.alias, table, columns: Object.keys(types), types, locale };
+  });
+  sources.forEach((source, i) => {
+    if (sources.findIndex(other => other.alias.toLowerCase() === source.alias.toLowerCase()) !== i) {
+      const ref = i === 0 ? parsed.from : parsed.joins[i - 1].table;
+      throw new SqlError(`Table "${source.alias}" is used twice; give it another name with AS`, ref.position);
+    }
+  });
+
+  // FROM and JOIN
+  let rows: JoinedRow[] = sources[0].table.data.map(record => [record]);
+  parsed.joins.forEach((join, i) => {
+    rows = joinTables(rows, join, i + 1, sources);
+  });
+
+  // WHERE
+  if (parsed.where) {
+    if (containsAggregate(parsed.where)) throw new SqlError('Aggregates belong in HAVING, not WHERE', parsed.where.position);
+    const where = compileExpression(parsed.where, sources, false);
+    rows = rows.filter(row => where.evaluate({ row }) === true);
+  }
+
+  // SELECT list, with * expanded
+  const items = parsed.items.flatMap(item => {
+    if (item.expr) return [item];
+    const expanded = sources
+      .map((source, sourceIndex) => ({ source, sourceIndex }))
+      .filter(({ source }) => item.table === undefined || source.alias.toLowerCase() === item.table.toLowerCase());
+    if (expanded.length === 0) throw new SqlError(`Unknown table "${item.table}"`, item.position);
+    return expanded.flatMap(({ source }) => source.columns.map(column => ({
+      expr: { type: 'column', table: source.alias, name: column, position: item.position } as Expr,
+      alias: undefined,
+      text: column,
+      position: item.position
+    })));
+  });
+
+  const grouped = parsed.groupBy.length > 0
+    || items.some(item => containsAggregate(item.expr!))
+    || (parsed.having !== null)
+    || parsed.orderBy.some(order => containsAggregate(order.expr));
+  const compiledItems = items.map(item => compileExpression(item.expr!, sources, grouped));
+  const columns = uniqueNames(items.map((item, i) => item.alias ?? compiledItems[i].column ?? item.text));
+  const aliases = new Map<string, Compiled>();
+  items.forEach((item, i) => {
+    const name = (item.alias ?? columns[i]).toLowerCase();
+    if (!aliases.has(name)) aliases.set(name, compiledItems[i]);
+  });
+
+  // GROUP BY items may name an output column or give its position
+  const resolveOrdinal = (expr: Expr, clause: string) => {
+    if (expr.type !== 'literal' || typeof expr.value !== 'number') return null;
+    const item = compiledItems[expr.value - 1];
+    if (!item) throw new SqlError(`${clause} ${expr.value} is not a selected column`, expr.position);
+    return item;
+  };
+
+  let scopes: Scope[];
+  if (grouped) {
+    const keys = parsed.groupBy.map(expr => {
+      if (containsAggregate(expr)) throw new SqlError(`Aggregates can't be grouped by`, expr.position);
+      return resolveOrdinal(expr, 'GROUP BY') ?? compileExpression(expr, sources, false, aliases);
+    });
+    const groups = new Map<string, JoinedRow[]>();
+    rows.forEach(row => {
+      const key = keys.map(compiled => valueKey(compiled.evaluate({ row }))).join('\u0000');
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(row);
+    });
+    // Aggregates without GROUP BY make one row, even from no rows
+    if (keys.length === 0 && groups.size === 0) groups.set('', []);
+    scopes = [...groups.values()].map(group => ({ row: group[0] ?? null, group }));
+    if (parsed.having) {
+      const having = compileExpression(parsed.having, sources, true, aliases);
+      scopes = scopes.filter(scope => having.evaluate(scope) === true);
+    }
+  } else {
+    scopes = rows.map(row => ({ row }));
+  }
+
+  let output = scopes.map(scope => ({ scope, values: compiledItems.map(item => item.evaluate(scope)) }));
+
+  if (parsed.distinct) {
+    const seen = new Set<string>();
+    output = output.filter(({ values }) => {
+      const key = values.map(valueKey).join('\u0000');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // ORDER BY prefers output column names, then the tables' columns; NULLs sort last
+  if (parsed.orderBy.length > 0) {
+    const orders = parsed.orderBy.map(order => {
+      const ordinal = resolveOrdinal(order.expr, 'ORDER BY');
+      const aliasIndex = order.expr.type === 'column' && order.expr.table === undefined
+        ? columns.findIndex(column => column.toLowerCase() === (order.expr as { name: string }).name.toLowerCase())
+        : -1;
+      const index = ordinal ? compiledItems.indexOf(ordinal) : aliasIndex;
+      const compiled = index === -1 ? compileExpression(order.expr, sources, grouped, aliases) : null;
+      return { index, compiled, descending: order.descending };
+    });
+    const keyed = output.map(entry => ({
+      entry,
+      keys: orders.map(order => order.compiled ? order.compiled.evaluate(entry.scope) : entry.values[order.index])
+    }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orders.length; i++) {
+        const x = a.keys[i];
+        const y = b.keys[i];
+        if (x === null || y === null) {
+          if (x !== y) return x === null ? 1 : -1;
+          continue;
+        }
+        const order = compareValues(x, y) ?? 0;
+        if (order !== 0) return orders[i].descending ? -order : order;
+      }
+      return 0;
+    });
+    output = keyed.map(({ entry }) => entry);
+  }
+
+  const sliced = output.slice(parsed.offset, parsed.limit === null ? undefined : parsed.offset + parsed.limit);
+  return {
+    columns,
+    rows: sliced.map(({ values }, i) => ({
+      _id: i + 1,
+      ...Object.fromEntries(columns.map((column, j) => [column, toCellValue(values[j])]))
+    }))
+  };
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeaderNames, detectTableRegion, MergedRange, normalizeRegion, uniqueHeaderNames } from './tableDetection';
+import * as server from '../../backend/src/utils/tableDetection.js';
+
+const titled = [
+  ['Quarterly sales report', null, null, null],
+  ['Generated 2024-04-01', null, null, null],
+  [null, null, null, null],
+  ['Region', 'Rep', 'Units', 'Revenue'],
+  ['North', 'Ana', 12, 1200],
+  ['South', 'Ben', 3, 300],
+  ['East', 'Cy', 7, 650],
+  [null, null, null, null],
+  ['Figures are unaudited', null, null, null],
+];
+
+// Q1 and Q2 are merged over two columns each
+const grouped = [
+  [null, 'Q1', null, 'Q2', null],
+  ['Region', 'Units', 'Revenue', 'Units', 'Revenue'],
+  ['North', 12, 1200, 15, 1500],
+  ['South', 3, 300, 4, 410],
+];
+const groupedMerges: MergedRange[] = [
+  { s: { r: 0, c: 1 }, e: { r: 0, c: 2 } },
+  { s: { r: 0, c: 3 }, e: { r: 0, c: 4 } },
+];
+
+const offset = [
+  [null, null, null],
+  [null, 'Name', 'Score'],
+  [null, 'Ana', 91],
+  [null, 'Ben', 78],
+];
+
+describe('detectTableRegion', () => {
+  it('skips title rows and trims footnotes', () => {
+    expect(detectTableRegion(titled)).toEqual({
+      headerRow: 3,
+      headerRowCount: 1,
+      firstDataRow: 4,
+      lastDataRow: 6,
+      firstColumn: 0,
+      lastColumn: 3,
+    });
+  });
+
+  it('finds a two-row header grouped by merged cells', () => {
+    const region = detectTableRegion(grouped, groupedMerges);
+    expect(region).toMatchObject({ headerRow: 1, headerRowCount: 2, firstDataRow: 2, lastDataRow: 3 });
+    expect(buildHeaderNames(grouped, region, groupedMerges)).toEqual([
+      'Region',
+      'Q1 / Units',
+      'Q1 / Revenue',
+      'Q2 / Units',
+      'Q2 / Revenue',
+    ]);
+  });
+
+  it('finds a table that does not start in A1', () => {
+    expect(detectTableRegion(offset)).toMatchObject({ headerRow: 1, firstColumn: 1, lastColumn: 2, lastDataRow: 3 });
+  });
+});
+
+describe('header names', () => {
+  it('numbers repeats and names empty headers', () => {
+    expect(uniqueHeaderNames(['Total', 'total', '', 'Total'])).toEqual(['Total', 'total (2)', 'Column_3', 'Total (3)']);
+  });
+
+  it('keeps _id free for the row number', () => {
+    expect(uniqueHeaderNames(['_id', 'Name'])).toEqual(['_id (2)', 'Name']);
+  });
+});
+
+describe('large sheets', () => {
+  const large = [
+    ['Region', 'Rep', 'Units', 'Revenue'],
+    ...Array.from({ length: 50000 }, (_, i) => [`R${i % 7}`, `Rep ${i}`, i % 40, i * 10]),
+  ];
+
+  it('detects and clamps a 50k-row table without overflowing the stack', () => {
+    const region = detectTableRegion(large);
+    expect(region).toEqual({ headerRow: 0, headerRowCount: 1, firstDataRow: 1, lastDataRow: 50000, firstColumn: 0, lastColumn: 3 });
+    expect(normalizeRegion(large, region)).toEqual(region);
+    expect(server.detectTableRegion(large, [])).toEqual(region);
+    expect(server.normalizeRegion(large, region)).toEqual(region);
+  });
+});
+
+describe('normalizeRegion', () => {
+  it('clamps a stored region to the grid', () => {
+    const region = normalizeRegion(offset, {
+      headerRow: 1,
+      headerRowCount: 2,
+      firstDataRow: 0,
+      lastDataRow: 99,
+      firstColumn: 1,
+      lastColumn: 9,
+    });
+    expect(region).toEqual({ headerRow: 1, headerRowCount: 2, firstDataRow: 2, lastDataRow: 3, firstColumn: 1, lastColumn: 2 });
+  });
+});
+
+// The server reads uploads with its own copy of the detector; both must pick
+// the same table under the same column names
+describe('client and server table detection', () => {
+  const cases: [string, unknown[][], MergedRange[]][] = [
+    ['titled', titled, []],
+    ['grouped', grouped, groupedMerges],
+    ['grouped without merges', grouped, []],
+    ['offset', offset, []],
+  ];
+
+  cases.forEach(([name, grid, merges]) => {
+    it(`detects the same ${name} table`, () => {
+      const region = detectTableRegion(grid, merges);
+      expect(server.detectTableRegion(grid, merges)).toEqual(region);
+      expect(server.buildHeaderNames(grid, region, merges)).toEqual(buildHeaderNames(grid, region, merges));
+      expect(server.normalizeRegion(grid, region)).toEqual(normalizeRegion(grid, region));
+    });
+  });
+
+  it('dedupes header names the same way', () => {
+    const names = ['Total', 'total', '', '_id', ' Total '];
+    expect(server.uniqueHeaderNames(names)).toEqual(uniqueHeaderNames(names));
+  });
+});
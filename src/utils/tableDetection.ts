@@ -0,0 +1,244 @@
+// Header-row and table-region detection for spreadsheets that don't start
+// with a clean header in A1 (title banners, blank lead rows, trailing notes,
+// two-row headers).
+
+export interface TableRegion {
+  headerRow: number;       // Sheet row (0-based) holding the column names
+  headerRowCount: 1 | 2;   // 2 when a parent header row sits above headerRow
+  firstDataRow: number;
+  lastDataRow: number;     // Inclusive
+  firstColumn: number;
+  lastColumn: number;      // Inclusive
+}
+
+export interface MergedRange {
+  s: { r: number; c: number };
+  e: { r: number; c: number };
+}
+
+// How many leading rows are considered as header candidates
+const HEADER_SCAN_ROWS = 30;
+// How many rows below a candidate are sampled to judge it
+const LOOKAHEAD_ROWS = 10;
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const isNumericLike = (value: unknown) => {
+  if (typeof value === 'number') return true;
+  if (typeof value !== 'string') return false;
+  const cleaned = value.replace(/[$€£,\s%]/g, '');
+  return cleaned !== '' && !isNaN(Number(cleaned));
+};
+
+const filledColumns = (row: unknown[] = []) =>
+  row.reduce<number[]>((cols, value, index) => (isBlank(value) ? cols : [...cols, index]), []);
+
+const isRowBlank = (row: unknown[] = []) => row.every(isBlank);
+
+// Rows below the candidate that look like data: enough filled cells, skipping blanks
+const sampleRowsBelow = (grid: unknown[][], row: number) => {
+  const sample: unknown[][] = [];
+  for (let r = row + 1; r < grid.length && sample.length < LOOKAHEAD_ROWS; r++) {
+    if (!isRowBlank(grid[r])) sample.push(grid[r]);
+  }
+  return sample;
+};
+
+const scoreHeaderCandidate = (grid: unknown[][], row: number): number => {
+  const cells = filledColumns(grid[row]);
+  if (cells.length === 0) return -Infinity;
+
+  const below = sampleRowsBelow(grid, row);
+  const widthBelow = Math.max(0, ...below.map(r => filledColumns(r).length));
+  // A lone cell over a wider table is a title banner, not a header
+  if (cells.length === 1 && widthBelow > 1) return -Infinity;
+  if (below.length === 0) return -Infinity;
+
+  const values = cells.map(c => String(grid[row][c]).trim());
+  const textRatio = values.filter(v => !isNumericLike(v)).length / values.length;
+  const uniqueRatio = new Set(values.map(v => v.toLowerCase())).size / values.length;
+  const fill = widthBelow > 0 ? Math.min(1, cells.length / widthBelow) : 0;
+
+  // Data rows should populate roughly the same columns as the header
+  const consistent = below.filter(r => {
+    const filled = filledColumns(r).filter(c => cells.includes(c)).length;
+    return filled >= Math.max(1, cells.length * 0.5);
+  }).length / below.length;
+
+  // Headers are usually text over columns that are numeric below
+  const numericBelow = cells.filter(c => {
+    const columnValues = below.map(r => r[c]).filter(v => !isBlank(v));
+    return columnValues.length > 0 && columnValues.filter(isNumericLike).length / columnValues.length > 0.6;
+  }).length;
+  const typeContrast = textRatio > 0 && numericBelow > 0 ? 1 : 0;
+
+  return textRatio * 2 + uniqueRatio + fill + consistent * 2 + typeContrast * 0.5 - row * 0.01;
+};
+
+const findHeaderRow = (grid: unknown[][]): number => {
+  let bestRow = grid.findIndex(row => !isRowBlank(row));
+  let bestScore = -Infinity;
+  const limit = Math.min(grid.length, HEADER_SCAN_ROWS);
+
+  for (let r = 0; r < limit; r++) {
+    const score = scoreHeaderCandidate(grid, r);
+    if (score > bestScore) {
+      bestScore = score;
+      bestRow = r;
+    }
+  }
+
+  return Math.max(0, bestRow);
+};
+
+// A parent header is a text-only row directly above the header that groups
+// columns, either through merged cells or by labelling every few columns
+const hasParentHeader = (grid: unknown[][], headerRow: number, merges: MergedRange[]): boolean => {
+  if (headerRow === 0) return false;
+  const parent = grid[headerRow - 1] || [];
+  const parentCells = filledColumns(parent);
+  const headerCells = filledColumns(grid[headerRow]);
+  if (parentCells.length === 0 || headerCells.length < 2) return false;
+  if (parentCells.some(c => isNumericLike(parent[c]))) return false;
+
+  const tableStart = Math.min(...headerCells);
+  const tableEnd = Math.max(...headerCells);
+  const groupMerges = merges.filter(m =>
+    m.s.r <= headerRow - 1 && m.e.r >= headerRow - 1 &&
+    m.e.c > m.s.c &&
+    // Merges spanning the whole table are title banners
+    !(m.s.c <= tableStart && m.e.c >= tableEnd)
+  );
+  if (groupMerges.length > 0) return true;
+
+  return parentCells.length >= 2 && parentCells.length < headerCells.length;
+};
+
+const findDataEnd = (grid: unknown[][], firstDataRow: number, tableWidth: number): number => {
+  let lastDataRow = firstDataRow - 1;
+  let blankRun = 0;
+
+  for (let r = firstDataRow; r < grid.length; r++) {
+    if (isRowBlank(grid[r])) {
+      blankRun++;
+      // Two blank rows in a row end the table
+      if (blankRun >= 2) break;
+      continue;
+    }
+    blankRun = 0;
+    lastDataRow = r;
+  }
+
+  // Trim notes/footers: single text cells under a multi-column table
+  while (lastDataRow >= firstDataRow && tableWidth >= 3) {
+    const row = grid[lastDataRow] || [];
+    const cells = filledColumns(row);
+    if (isRowBlank(row) || (cells.length === 1 && !isNumericLike(row[cells[0]]))) {
+      lastDataRow--;
+    } else {
+      break;
+    }
+  }
+
+  return lastDataRow;
+};
+
+export const detectTableRegion = (grid: unknown[][], merges: MergedRange[] = []): TableRegion => {
+  const headerRow = findHeaderRow(grid);
+  const headerRowCount: 1 | 2 = hasParentHeader(grid, headerRow, merges) ? 2 : 1;
+  const headerCells = filledColumns(grid[headerRow]);
+  const firstDataRow = headerRow + 1;
+  const lastDataRow = findDataEnd(grid, firstDataRow, headerCells.length);
+
+  // Column span covers the header and any data that extends past it. Kept as
+  // a running min/max: spreading every filled cell into Math.min overflows
+  // the call stack on large sheets
+  let firstColumn = Infinity;
+  let lastColumn = -Infinity;
+  for (let r = headerRow; r <= lastDataRow; r++) {
+    const row = grid[r] || [];
+    for (let c = 0; c < row.length; c++) {
+      if (isBlank(row[c])) continue;
+      if (c < firstColumn) firstColumn = c;
+      if (c > lastColumn) lastColumn = c;
+    }
+  }
+
+  return {
+    headerRow,
+    headerRowCount,
+    firstDataRow,
+    lastDataRow,
+    firstColumn: Number.isFinite(firstColumn) ? firstColumn : 0,
+    lastColumn: Number.isFinite(lastColumn) ? lastColumn : 0
+  };
+};
+
+// Repeated names get a numeric suffix; empty names become Column_N
+export const uniqueHeaderNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((raw, index) => {
+    const base = raw.trim() || `Column_${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    // _id is reserved for the row number added to every parsed row
+    while (used.has(name.toLowerCase()) || name === '_id') {
+      name = `${base} (${suffix++})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// Builds column names for the region, flattening two-row headers into
+// "Parent / Child" names
+export const buildHeaderNames = (grid: unknown[][], region: TableRegion, merges: MergedRange[] = []): string[] => {
+  const headerRow = grid[region.headerRow] || [];
+  const parentRowIndex = region.headerRow - 1;
+  const parentRow = region.headerRowCount === 2 ? grid[parentRowIndex] || [] : [];
+  const names: string[] = [];
+  let carriedParent = '';
+
+  for (let c = region.firstColumn; c <= region.lastColumn; c++) {
+    const child = isBlank(headerRow[c]) ? '' : String(headerRow[c]).trim();
+    let parent = '';
+
+    if (region.headerRowCount === 2) {
+      const merge = merges.find(m =>
+        m.s.r <= parentRowIndex && m.e.r >= parentRowIndex && m.s.c <= c && m.e.c >= c
+      );
+      if (merge) {
+        parent = String(parentRow[merge.s.c] ?? '').trim();
+      } else if (!isBlank(parentRow[c])) {
+        parent = String(parentRow[c]).trim();
+      } else if (merges.length === 0) {
+        // Without merge info, a group label applies until the next label
+        parent = carriedParent;
+      }
+      carriedParent = parent || carriedParent;
+    }
+
+    if (parent && child && parent !== child) names.push(`${parent} / ${child}`);
+    else names.push(child || parent);
+  }
+
+  return uniqueHeaderNames(names);
+};
+
+// Clamps a (possibly user-edited) region to the grid bounds
+export const normalizeRegion = (grid: unknown[][], region: TableRegion): TableRegion => {
+  const maxRow = Math.max(0, grid.length - 1);
+  let maxCol = 0;
+  for (const row of grid) maxCol = Math.max(maxCol, (row?.length || 1) - 1);
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(Math.round(value), min), max);
+
+  const headerRow = clamp(region.headerRow, 0, maxRow);
+  const headerRowCount: 1 | 2 = region.headerRowCount === 2 && headerRow > 0 ? 2 : 1;
+  const firstDataRow = clamp(region.firstDataRow, headerRow + 1, maxRow + 1);
+  const lastDataRow = clamp(region.lastDataRow, firstDataRow - 1, maxRow);
+  const firstColumn = clamp(region.firstColumn, 0, maxCol);
+  const lastColumn = clamp(region.lastColumn, firstColumn, maxCol);
+
+  return { headerRow, headerRowCount, firstDataRow, lastDataRow, firstColumn, lastColumn };
+};
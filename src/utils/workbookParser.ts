@@ -0,0 +1,139 @@
+import { Row, SheetDataset, SheetSummary } from './excelUtils';
+import { TableRegion } from './tableDetection';
+import { ImportFormat } from './importFormats';
+import { DEFAULT_LOCALE_SETTINGS, LocaleSettings } from './localeParsing';
+
+// Message protocol shared with workers/workbookParser.worker.ts
+
+export interface SheetParseRequest {
+  sheetName: string;
+  region?: TableRegion;
+}
+
+export type WorkbookParserRequest =
+  | { type: 'read'; buffer: ArrayBuffer; format: ImportFormat }
+  | { type: 'parse'; sheets: SheetParseRequest[]; locale: LocaleSettings };
+
+export type WorkbookParserResponse =
+  | { type: 'sheets'; sheets: SheetSummary[] }
+  | { type: 'progress'; sheetName: string; sheetIndex: number; sheetCount: number; rowsParsed: number; totalRows: number }
+  | { type: 'chunk'; sheetName: string; rows: Row[] }
+  | { type: 'sheet-done'; sheetName: string; region: TableRegion; headers: string[]; ambiguousDateColumns: string[] }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface ParseProgress {
+  phase: 'reading' | 'parsing';
+  sheetName?: string;
+  sheetIndex?: number;
+  sheetCount?: number;
+  rowsParsed: number;
+  totalRows: number;
+}
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+// Runs XLSX parsing off the main thread. The worker keeps the workbook in
+// memory after `readWorkbook`, so sheets can be (re-)parsed without re-reading.
+export const createWorkbookParser = () => {
+  let worker: Worker | null = null;
+  let rejectPending: ((error: Error) => void) | null = null;
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('../workers/workbookParser.worker.ts', import.meta.url), { type: 'module' });
+    }
+    return worker;
+  };
+
+  const run = <T>(
+    message: WorkbookParserRequest,
+    transfer: Transferable[],
+    onMessage: (response: WorkbookParserResponse, resolve: (value: T) => void) => void
+  ): Promise<T> => {
+    const target = getWorker();
+    return new Promise<T>((resolve, reject) => {
+      const finish = () => {
+        target.onmessage = null;
+        target.onerror = null;
+        rejectPending = null;
+      };
+      rejectPending = (error) => {
+        finish();
+        reject(error);
+      };
+      target.onmessage = (event: MessageEvent<WorkbookParserResponse>) => {
+        if (event.data.type === 'error') {
+          finish();
+          reject(new Error(event.data.message));
+          return;
+        }
+        onMessage(event.data, (value) => {
+          finish();
+          resolve(value);
+        });
+      };
+      target.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'The file could not be parsed'));
+      };
+      target.postMessage(message, transfer);
+    });
+  };
+
+  const readWorkbook = (buffer: ArrayBuffer, format: ImportFormat, onProgress?: (progress: ParseProgress) => void) => {
+    onProgress?.({ phase: 'reading', rowsParsed: 0, totalRows: 0 });
+    return run<SheetSummary[]>({ type: 'read', buffer, format }, [buffer], (response, resolve) => {
+      if (response.type === 'sheets') resolve(response.sheets);
+    });
+  };
+
+  const parseSheets = (
+    sheets: SheetParseRequest[],
+    onProgress?: (progress: ParseProgress) => void,
+    locale: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+  ) => {
+    const datasets = new Map<string, SheetDataset>(
+      sheets.map(sheet => [sheet.sheetName, { sheetName: sheet.sheetName, data: [], locale }])
+    );
+
+    return run<SheetDataset[]>({ type: 'parse', sheets, locale }, [], (response, resolve) => {
+      switch (response.type) {
+        case 'progress':
+          onProgress?.({ phase: 'parsing', ...response });
+          break;
+        case 'chunk': {
+          // Push in place; spreading large chunks can overflow the call stack
+          const target = datasets.get(response.sheetName)!.data;
+          for (const row of response.rows) target.push(row);
+          break;
+        }
+        case 'sheet-done': {
+          const dataset = datasets.get(response.sheetName)!;
+          dataset.region = response.region;
+          dataset.ambiguousDateColumns = response.ambiguousDateColumns;
+          break;
+        }
+        case 'done':
+          resolve(sheets.map(sheet => datasets.get(sheet.sheetName)!));
+          break;
+      }
+    });
+  };
+
+  // Stops the current job immediately; the workbook has to be read again afterwards
+  const cancel = () => {
+    worker?.terminate();
+    worker = null;
+    rejectPending?.(new ParseCancelledError());
+  };
+
+  return { readWorkbook, parseSheets, cancel, dispose: cancel };
+};
+
+export type WorkbookParser = ReturnType<typeof createWorkbookParser>;
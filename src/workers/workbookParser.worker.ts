@@ -0,0 +1,72 @@
+import * as XLSX from 'xlsx';
+import { cellsToRow, getSheetSummaries, resolveTableLayout, Row, worksheetToGrid } from '@/utils/excelUtils';
+import { readWorkbookFromBuffer } from '@/utils/importFormats';
+import type { WorkbookParserRequest, WorkbookParserResponse } from '@/utils/workbookParser';
+
+// Rows are sent back in chunks so the main thread never receives one huge message
+const CHUNK_SIZE = 2000;
+
+let workbook: XLSX.WorkBook | null = null;
+
+const post = (response: WorkbookParserResponse) => self.postMessage(response);
+
+const parseSheets = (request: Extract<WorkbookParserRequest, { type: 'parse' }>) => {
+  if (!workbook) throw new Error('No workbook has been loaded');
+
+  const { locale } = request;
+  request.sheets.forEach(({ sheetName, region: regionOverride }, sheetIndex) => {
+    const worksheet = workbook!.Sheets[sheetName];
+    if (!worksheet) throw new Error(`Sheet "${sheetName}" was not found in the workbook`);
+
+    try {
+      const grid = worksheetToGrid(worksheet);
+      const layout = resolveTableLayout(grid, regionOverride, worksheet['!merges'] || [], locale);
+      const { region, headers, ambiguousDateColumns } = layout;
+      const totalRows = region.lastDataRow - region.firstDataRow + 1;
+      const progress = { type: 'progress' as const, sheetName, sheetIndex, sheetCount: request.sheets.length, totalRows };
+      let chunk: Row[] = [];
+      let rowCount = 0;
+
+      post({ ...progress, rowsParsed: 0 });
+      for (let r = region.firstDataRow; r <= region.lastDataRow; r++) {
+        const row = cellsToRow(grid[r] || [], layout, rowCount + 1, locale);
+        if (row) {
+          chunk.push(row);
+          rowCount++;
+        }
+        if (chunk.length >= CHUNK_SIZE) {
+          post({ type: 'chunk', sheetName, rows: chunk });
+          post({ ...progress, rowsParsed: r - region.firstDataRow + 1 });
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) post({ type: 'chunk', sheetName, rows: chunk });
+      post({ ...progress, rowsParsed: totalRows });
+
+      if (rowCount === 0) throw new Error('No valid data found in the sheet');
+      post({ type: 'sheet-done', sheetName, region, headers, ambiguousDateColumns });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'could not be parsed';
+      throw new Error(`Sheet "${sheetName}": ${reason}`);
+    }
+  });
+
+  post({ type: 'done' });
+};
+
+self.onmessage = (event: MessageEvent<WorkbookParserRequest>) => {
+  try {
+    const request = event.data;
+    if (request.type === 'read') {
+      workbook = readWorkbookFromBuffer(request.buffer, request.format);
+      if (workbook.SheetNames.length === 0) {
+        throw new Error("No sheets found in the Excel file");
+      }
+      post({ type: 'sheets', sheets: getSheetSummaries(workbook) });
+    } else if (request.type === 'parse') {
+      parseSheets(request);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse Excel file. Please check the file format.' });
+  }
+};